@@ -1,4 +1,4 @@
-import { PrismaClient, Prisma, Periodicity, TemplateSeverity, ObligationType } from '@prisma/client';
+import { PrismaClient, Prisma, Periodicity, TemplateSeverity, ObligationType, HolidayScope, TaxpayerKind } from '@prisma/client';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -15,6 +15,9 @@ interface TemplateJson {
   type: keyof typeof ObligationType;
   defaultPeriodicity: keyof typeof Periodicity;
   defaultDueRule?: string;
+  dueRule?: Record<string, unknown>;
+  taxScheduleCode?: string;
+  taxpayerKinds?: Array<keyof typeof TaxpayerKind>;
   requiresReview: boolean;
   requiredEvidenceCount: number;
   severity: keyof typeof TemplateSeverity;
@@ -28,6 +31,13 @@ interface TemplateJson {
   }>;
 }
 
+interface HolidayJson {
+  date: string; // YYYY-MM-DD
+  name: string;
+  scope: keyof typeof HolidayScope;
+  isBridge?: boolean;
+}
+
 interface JurisdictionJson {
   code: string;
   name: string;
@@ -100,6 +110,53 @@ async function loadTemplatesFromJson() {
   }
 }
 
+async function loadHolidaysFromJson() {
+  const holidaysDir = path.join(__dirname, '..', 'templates', 'holidays');
+
+  if (!fs.existsSync(holidaysDir)) {
+    console.log('📁 Holidays directory not found, skipping holidays import');
+    return;
+  }
+
+  // One file per jurisdiction: <code>.json
+  const holidayFiles = fs.readdirSync(holidaysDir).filter(f => f.endsWith('.json'));
+
+  for (const file of holidayFiles) {
+    const jurisdictionCode = path.basename(file, '.json');
+    const jurisdiction = await prisma.jurisdiction.findUnique({
+      where: { code: jurisdictionCode },
+    });
+
+    if (!jurisdiction) {
+      console.log(`⚠️  Jurisdiction not found for code: ${jurisdictionCode}`);
+      continue;
+    }
+
+    const content = fs.readFileSync(path.join(holidaysDir, file), 'utf-8');
+    const holidays: HolidayJson[] = JSON.parse(content);
+
+    for (const holiday of holidays) {
+      const data = {
+        name: holiday.name,
+        scope: HolidayScope[holiday.scope],
+        isBridge: holiday.isBridge ?? false,
+      };
+      await prisma.holiday.upsert({
+        where: {
+          jurisdictionId_date: {
+            jurisdictionId: jurisdiction.id,
+            date: new Date(holiday.date),
+          },
+        },
+        update: data,
+        create: { ...data, jurisdictionId: jurisdiction.id, date: new Date(holiday.date) },
+      });
+    }
+
+    console.log(`📅 ${holidays.length} holidays loaded for ${jurisdiction.name}`);
+  }
+}
+
 async function upsertTemplate(jurisdictionId: string, template: TemplateJson) {
   const existingTemplate = await prisma.obligationTemplate.findUnique({
     where: { templateKey: template.templateKey },
@@ -114,6 +171,9 @@ async function upsertTemplate(jurisdictionId: string, template: TemplateJson) {
     type: ObligationType[template.type],
     defaultPeriodicity: Periodicity[template.defaultPeriodicity],
     defaultDueRule: template.defaultDueRule,
+    dueRule: template.dueRule ? (template.dueRule as Prisma.InputJsonValue) : undefined,
+    taxScheduleCode: template.taxScheduleCode,
+    taxpayerKinds: template.taxpayerKinds?.map((kind) => TaxpayerKind[kind]) ?? [],
     requiresReview: template.requiresReview,
     requiredEvidenceCount: template.requiredEvidenceCount,
     severity: TemplateSeverity[template.severity],
@@ -252,6 +312,7 @@ async function seedRosarioTemplates() {
       type: 'TAX',
       defaultPeriodicity: 'MONTHLY',
       defaultDueRule: 'Vence el día 15 de cada mes',
+      dueRule: { day: 15 },
       requiresReview: false,
       requiredEvidenceCount: 1,
       severity: 'HIGH',
@@ -339,6 +400,7 @@ async function seedRosarioTemplates() {
       type: 'TAX',
       defaultPeriodicity: 'MONTHLY',
       defaultDueRule: 'Vence el día 15 de cada mes',
+      dueRule: { day: 15 },
       requiresReview: false,
       requiredEvidenceCount: 1,
       severity: 'HIGH',
@@ -438,6 +500,7 @@ async function seedRosarioTemplates() {
       type: 'TAX',
       defaultPeriodicity: 'MONTHLY',
       defaultDueRule: 'Vence el día 15 de cada mes',
+      dueRule: { day: 15 },
       requiresReview: false,
       requiredEvidenceCount: 1,
       severity: 'HIGH',
@@ -511,7 +574,10 @@ async function main() {
       await seedRosarioTemplates();
     }
 
-    // 4. Asignar Rosario a organizaciones existentes
+    // 4. Load holidays
+    await loadHolidaysFromJson();
+
+    // 5. Asignar Rosario a organizaciones existentes
     await assignRosarioToExistingOrganizations();
 
     console.log('\n✅ Seed completed successfully!');
@@ -15,10 +15,14 @@ import { DocumentsModule } from "./documents/documents.module";
 import { ReviewsModule } from "./reviews/reviews.module";
 import { AuditModule } from "./audit/audit.module";
 import { NotificationsModule } from "./notifications/notifications.module";
+import { EscalationsModule } from "./escalations/escalations.module";
 import { ReportsModule } from "./reports/reports.module";
+import { CalendarModule } from "./calendar/calendar.module";
 import { JurisdictionsModule } from "./jurisdictions/jurisdictions.module";
 import { TemplatesModule } from "./templates/templates.module";
 import { JobsModule } from "./jobs/jobs.module";
+import { SearchModule } from "./search/search.module";
+import { PortfolioModule } from "./portfolio/portfolio.module";
 
 @Module({
   imports: [
@@ -70,7 +74,11 @@ import { JobsModule } from "./jobs/jobs.module";
     ReviewsModule,
     AuditModule,
     NotificationsModule,
+    EscalationsModule,
     ReportsModule,
+    CalendarModule,
+    SearchModule,
+    PortfolioModule,
     JobsModule,
   ],
 })
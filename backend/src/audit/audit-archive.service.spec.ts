@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { AuditArchiveService } from "./audit-archive.service";
+import { hashAuditEvent } from "./audit-chain";
+import { AuditChainBreakReason } from "./dto/audit-chain.dto";
+
+const mockPrismaService = {
+  $transaction: vi.fn(),
+  organization: {
+    findMany: vi.fn(),
+  },
+  auditEvent: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+  auditArchive: {
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+  auditCheckpoint: {
+    findMany: vi.fn(),
+  },
+};
+
+const mockStorageService = {
+  uploadFile: vi.fn(),
+  getFile: vi.fn(),
+  getDownloadUrl: vi.fn(),
+  generateFileKey: vi.fn(
+    (organizationId: string, fileName: string, folder: string) =>
+      `org/${organizationId}/${folder}/${fileName}`,
+  ),
+};
+
+// Builds a valid chain of `count` events for org-1, one per day.
+function buildChain(count: number) {
+  const events: any[] = [];
+  for (let sequence = 1; sequence <= count; sequence++) {
+    const event = {
+      id: `event-${sequence}`,
+      organizationId: "org-1",
+      userId: "user-1",
+      action: "obligation.updated",
+      entityType: "Obligation",
+      entityId: "obl-1",
+      metadata: { changes: { title: { before: null, after: `v${sequence}` } } },
+      ipAddress: null,
+      userAgent: null,
+      createdAt: new Date(Date.UTC(2023, 0, sequence)),
+      sequence,
+      prevHash: events[sequence - 2]?.hash ?? null,
+    };
+    events.push({ ...event, hash: hashAuditEvent(event) });
+  }
+  return events;
+}
+
+describe("AuditArchiveService", () => {
+  let service: AuditArchiveService;
+  let stored: Buffer;
+  let archive: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrismaService.$transaction.mockResolvedValue([]);
+    mockPrismaService.organization.findMany.mockResolvedValue([
+      { id: "org-1", auditRetentionMonths: 12 },
+    ]);
+    mockPrismaService.auditArchive.findFirst.mockResolvedValue(null);
+    mockPrismaService.auditCheckpoint.findMany.mockResolvedValue([]);
+    mockPrismaService.auditArchive.create.mockImplementation(({ data }) => {
+      archive = { id: "archive-1", ...data };
+      return archive;
+    });
+    mockStorageService.uploadFile.mockImplementation((_key, body: Buffer) => {
+      stored = body;
+    });
+    mockStorageService.getFile.mockImplementation(() =>
+      Promise.resolve(stored),
+    );
+    service = new AuditArchiveService(
+      mockPrismaService as any,
+      mockStorageService as any,
+    );
+  });
+
+  it("should archive expired events and keep them verifiable", async () => {
+    const events = buildChain(3);
+    mockPrismaService.auditEvent.findFirst.mockResolvedValue(events[2]);
+    mockPrismaService.auditEvent.findMany.mockResolvedValue(events.slice(0, 2));
+
+    const archived = await service.archiveExpiredEvents();
+
+    expect(archived).toBe(2);
+    // The chain tip is never archived
+    expect(
+      mockPrismaService.auditEvent.findMany.mock.calls[0][0].where.id,
+    ).toEqual({ not: "event-3" });
+    expect(archive).toMatchObject({
+      organizationId: "org-1",
+      fromSequence: 1,
+      toSequence: 2,
+      firstPrevHash: null,
+      lastHash: events[1].hash,
+      eventCount: 2,
+      fileKey: "org/org-1/audit/audit_1-2.ndjson.gz",
+    });
+    expect(mockPrismaService.auditEvent.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ["event-1", "event-2"] } },
+    });
+
+    mockPrismaService.auditArchive.findFirst.mockResolvedValue(archive);
+    const result = await service.verifyArchive("org-1", "archive-1");
+    expect(result).toMatchObject({
+      valid: true,
+      checkedEvents: 2,
+      lastSequence: 2,
+      lastHash: events[1].hash,
+    });
+  });
+
+  it("should stop at a gap in the chain", async () => {
+    const events = buildChain(4);
+    mockPrismaService.auditEvent.findFirst.mockResolvedValue(events[3]);
+    mockPrismaService.auditEvent.findMany.mockResolvedValue([
+      events[0],
+      events[2],
+    ]);
+
+    expect(await service.archiveExpiredEvents()).toBe(1);
+    expect(archive).toMatchObject({ fromSequence: 1, toSequence: 1 });
+  });
+
+  it("should check the signed checkpoints inside the archive", async () => {
+    const events = buildChain(4);
+    mockPrismaService.auditEvent.findFirst.mockResolvedValue(events[3]);
+    mockPrismaService.auditEvent.findMany.mockResolvedValue(events.slice(0, 3));
+    await service.archiveExpiredEvents();
+    mockPrismaService.auditArchive.findFirst.mockResolvedValue(archive);
+
+    mockPrismaService.auditCheckpoint.findMany.mockResolvedValue([
+      { sequence: 2, hash: events[1].hash },
+    ]);
+    expect((await service.verifyArchive("org-1", "archive-1")).valid).toBe(
+      true,
+    );
+    expect(
+      mockPrismaService.auditCheckpoint.findMany.mock.calls[0][0].where,
+    ).toEqual({ organizationId: "org-1", sequence: { gte: 1, lte: 3 } });
+
+    // The file was rebuilt with consistent hashes after the checkpoint
+    mockPrismaService.auditCheckpoint.findMany.mockResolvedValue([
+      { sequence: 2, hash: "e".repeat(64) },
+    ]);
+    expect(
+      (await service.verifyArchive("org-1", "archive-1")).brokenLink,
+    ).toEqual({
+      reason: AuditChainBreakReason.CHECKPOINT_MISMATCH,
+      sequence: 2,
+      eventId: "event-2",
+      archiveId: "archive-1",
+    });
+  });
+
+  it("should report an archive file that was replaced", async () => {
+    const events = buildChain(2);
+    mockPrismaService.auditEvent.findFirst.mockResolvedValue(events[1]);
+    mockPrismaService.auditEvent.findMany.mockResolvedValue(events.slice(0, 1));
+    await service.archiveExpiredEvents();
+    mockPrismaService.auditArchive.findFirst.mockResolvedValue(archive);
+    stored = Buffer.from("otro contenido");
+
+    const result = await service.verifyArchive("org-1", "archive-1");
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenLink).toEqual({
+      reason: AuditChainBreakReason.ARCHIVE_MISMATCH,
+      sequence: 1,
+      archiveId: "archive-1",
+    });
+  });
+});
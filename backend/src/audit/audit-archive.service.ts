@@ -0,0 +1,319 @@
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { AuditArchive, AuditEvent } from "@prisma/client";
+import { createHash } from "crypto";
+import { gunzipSync, gzipSync } from "zlib";
+import { PrismaService } from "../common/prisma/prisma.service";
+import { StorageService } from "../common/storage/storage.service";
+import { hashAuditEvent } from "./audit-chain";
+import { parseNdjsonLine, toNdjsonLine } from "./audit-export";
+import {
+  AuditChainBreakReason,
+  AuditChainVerificationDto,
+} from "./dto/audit-chain.dto";
+import {
+  AuditArchiveDownloadDto,
+  AuditArchiveResponseDto,
+} from "./dto/audit-archive.dto";
+
+// Events per compressed archive
+const ARCHIVE_BATCH_SIZE = 10000;
+const ARCHIVE_DOWNLOAD_SECONDS = 3600;
+
+@Injectable()
+export class AuditArchiveService {
+  private readonly logger = new Logger(AuditArchiveService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private storageService: StorageService,
+  ) {}
+
+  // Job: move the events older than each organization's audit retention to
+  // compressed NDJSON files, in chain order.
+  async archiveExpiredEvents(): Promise<number> {
+    const organizations = await this.prisma.organization.findMany({
+      where: { active: true, auditRetentionMonths: { not: null } },
+      select: { id: true, auditRetentionMonths: true },
+    });
+
+    let archived = 0;
+    for (const organization of organizations) {
+      const cutoff = new Date();
+      cutoff.setMonth(cutoff.getMonth() - organization.auditRetentionMonths!);
+
+      try {
+        archived += await this.archiveOrganization(organization.id, cutoff);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(
+          `Skipping audit archive of organization ${organization.id}: ${message}`,
+        );
+      }
+    }
+
+    return archived;
+  }
+
+  async listArchives(
+    organizationId: string,
+  ): Promise<AuditArchiveResponseDto[]> {
+    const archives = await this.prisma.auditArchive.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: "desc" },
+    });
+    return archives.map((archive) => this.toArchive(archive));
+  }
+
+  async getDownloadUrl(
+    organizationId: string,
+    archiveId: string,
+  ): Promise<AuditArchiveDownloadDto> {
+    const archive = await this.findArchive(organizationId, archiveId);
+
+    return {
+      url: await this.storageService.getDownloadUrl(
+        archive.fileKey,
+        ARCHIVE_DOWNLOAD_SECONDS,
+      ),
+      expiresAt: new Date(Date.now() + ARCHIVE_DOWNLOAD_SECONDS * 1000),
+    };
+  }
+
+  /**
+   * Downloads an archive and recomputes its stretch of the chain: the file's
+   * SHA-256, each event's hash, that it starts and ends at the hashes recorded
+   * when it was archived, and that it matches the signed checkpoints inside
+   * that stretch.
+   */
+  async verifyArchive(
+    organizationId: string,
+    archiveId: string,
+  ): Promise<AuditChainVerificationDto> {
+    const archive = await this.findArchive(organizationId, archiveId);
+    const result: AuditChainVerificationDto = {
+      valid: true,
+      checkedEvents: 0,
+      unchainedEvents: 0,
+      archivedEvents: 0,
+    };
+    const broken = (
+      reason: AuditChainBreakReason,
+      sequence: number,
+      eventId?: string,
+    ): AuditChainVerificationDto => ({
+      ...result,
+      valid: false,
+      brokenLink: { reason, sequence, eventId, archiveId },
+    });
+
+    const file = await this.storageService.getFile(archive.fileKey);
+    if (createHash("sha256").update(file).digest("hex") !== archive.sha256) {
+      return broken(
+        AuditChainBreakReason.ARCHIVE_MISMATCH,
+        archive.fromSequence ?? 0,
+      );
+    }
+
+    const checkpointHashes = new Map(
+      archive.fromSequence === null
+        ? []
+        : (
+            await this.prisma.auditCheckpoint.findMany({
+              where: {
+                organizationId,
+                sequence: {
+                  gte: archive.fromSequence,
+                  lte: archive.toSequence!,
+                },
+              },
+              select: { sequence: true, hash: true },
+            })
+          ).map((checkpoint) => [checkpoint.sequence, checkpoint.hash]),
+    );
+
+    const events = gunzipSync(file)
+      .toString("utf8")
+      .split("\n")
+      .filter(Boolean)
+      .map(parseNdjsonLine);
+
+    let prevHash = archive.firstPrevHash;
+    let expected = archive.fromSequence ?? 0;
+    for (const event of events) {
+      if (event.sequence === null) {
+        result.unchainedEvents++;
+        continue;
+      }
+      if (event.sequence !== expected) {
+        return broken(AuditChainBreakReason.MISSING_EVENTS, expected, event.id);
+      }
+      if (event.prevHash !== prevHash) {
+        return broken(
+          AuditChainBreakReason.PREVIOUS_HASH_MISMATCH,
+          expected,
+          event.id,
+        );
+      }
+      if (event.hash !== hashAuditEvent(event)) {
+        return broken(AuditChainBreakReason.HASH_MISMATCH, expected, event.id);
+      }
+      const checkpointHash = checkpointHashes.get(event.sequence);
+      if (checkpointHash !== undefined && checkpointHash !== event.hash) {
+        return broken(
+          AuditChainBreakReason.CHECKPOINT_MISMATCH,
+          expected,
+          event.id,
+        );
+      }
+
+      prevHash = event.hash;
+      result.checkedEvents++;
+      result.lastSequence = event.sequence;
+      result.lastHash = event.hash ?? undefined;
+      expected++;
+    }
+
+    if (
+      events.length !== archive.eventCount ||
+      (archive.toSequence !== null &&
+        result.lastSequence !== archive.toSequence)
+    ) {
+      return broken(
+        AuditChainBreakReason.ARCHIVE_MISMATCH,
+        archive.toSequence ?? 0,
+      );
+    }
+
+    return result;
+  }
+
+  private async archiveOrganization(
+    organizationId: string,
+    cutoff: Date,
+  ): Promise<number> {
+    // The newest chained event stays in the table so new events keep
+    // chaining from it.
+    const tip = await this.prisma.auditEvent.findFirst({
+      where: { organizationId, sequence: { not: null } },
+      orderBy: { sequence: "desc" },
+      select: { id: true },
+    });
+
+    let archived = 0;
+    for (;;) {
+      const [last, events] = await Promise.all([
+        this.prisma.auditArchive.findFirst({
+          where: { organizationId, toSequence: { not: null } },
+          orderBy: { toSequence: "desc" },
+          select: { toSequence: true },
+        }),
+        this.prisma.auditEvent.findMany({
+          where: {
+            organizationId,
+            createdAt: { lt: cutoff },
+            ...(tip && { id: { not: tip.id } }),
+          },
+          orderBy: [
+            { sequence: { sort: "asc", nulls: "first" } },
+            { createdAt: "asc" },
+          ],
+          take: ARCHIVE_BATCH_SIZE,
+        }),
+      ]);
+
+      const batch = this.contiguousPrefix(events, (last?.toSequence ?? 0) + 1);
+      if (batch.length === 0) {
+        return archived;
+      }
+
+      await this.writeArchive(organizationId, batch);
+      archived += batch.length;
+
+      if (batch.length < ARCHIVE_BATCH_SIZE) {
+        return archived;
+      }
+    }
+  }
+
+  // A file can only hold a stretch of the chain without gaps, starting right
+  // after the last archived one.
+  private contiguousPrefix(
+    events: AuditEvent[],
+    firstSequence: number,
+  ): AuditEvent[] {
+    let expected = firstSequence;
+    const index = events.findIndex(
+      (event) => event.sequence !== null && event.sequence !== expected++,
+    );
+    return index === -1 ? events : events.slice(0, index);
+  }
+
+  private async writeArchive(
+    organizationId: string,
+    events: AuditEvent[],
+  ): Promise<void> {
+    const chained = events.filter((event) => event.sequence !== null);
+    const first = chained[0];
+    const last = chained[chained.length - 1];
+    const dates = events.map((event) => event.createdAt.getTime());
+
+    const body = gzipSync(events.map(toNdjsonLine).join(""));
+    const fileKey = this.storageService.generateFileKey(
+      organizationId,
+      first
+        ? `audit_${first.sequence}-${last.sequence}.ndjson.gz`
+        : "audit_unchained.ndjson.gz",
+      "audit",
+    );
+    await this.storageService.uploadFile(fileKey, body, "application/gzip");
+
+    // The rows are removed only once the file is stored.
+    await this.prisma.$transaction([
+      this.prisma.auditArchive.create({
+        data: {
+          organizationId,
+          fromSequence: first?.sequence ?? null,
+          toSequence: last?.sequence ?? null,
+          firstPrevHash: first?.prevHash ?? null,
+          lastHash: last?.hash ?? null,
+          eventCount: events.length,
+          fromDate: new Date(Math.min(...dates)),
+          toDate: new Date(Math.max(...dates)),
+          fileKey,
+          sizeBytes: body.length,
+          sha256: createHash("sha256").update(body).digest("hex"),
+        },
+      }),
+      this.prisma.auditEvent.deleteMany({
+        where: { id: { in: events.map((event) => event.id) } },
+      }),
+    ]);
+  }
+
+  private async findArchive(
+    organizationId: string,
+    archiveId: string,
+  ): Promise<AuditArchive> {
+    const archive = await this.prisma.auditArchive.findFirst({
+      where: { id: archiveId, organizationId },
+    });
+    if (!archive) {
+      throw new NotFoundException("Archivo de auditoria no encontrado");
+    }
+    return archive;
+  }
+
+  private toArchive(archive: AuditArchive): AuditArchiveResponseDto {
+    return {
+      id: archive.id,
+      fromSequence: archive.fromSequence,
+      toSequence: archive.toSequence,
+      eventCount: archive.eventCount,
+      fromDate: archive.fromDate,
+      toDate: archive.toDate,
+      sizeBytes: archive.sizeBytes,
+      sha256: archive.sha256,
+      createdAt: archive.createdAt,
+    };
+  }
+}
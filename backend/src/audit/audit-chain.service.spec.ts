@@ -0,0 +1,445 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createPublicKey, generateKeyPairSync } from "crypto";
+import { AuditChainService } from "./audit-chain.service";
+import { AuditService } from "./audit.service";
+import {
+  canonicalJson,
+  hashAuditEvent,
+  signPayload,
+  signingKeyId,
+  verifyPayload,
+} from "./audit-chain";
+import { AuditChainBreakReason } from "./dto/audit-chain.dto";
+import { RequestContext } from "../common/context/request-context";
+
+const mockPrismaService = {
+  $transaction: vi.fn(),
+  $executeRaw: vi.fn(),
+  organization: {
+    findMany: vi.fn(),
+  },
+  auditEvent: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    count: vi.fn(),
+  },
+  auditCheckpoint: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+  },
+  auditArchive: {
+    findMany: vi.fn(),
+  },
+};
+
+const signingKey = generateKeyPairSync("ed25519");
+const signingKeyPem = signingKey.privateKey
+  .export({ type: "pkcs8", format: "pem" })
+  .toString();
+const keyId = signingKeyId(signingKey.publicKey);
+
+const mockConfigService = {
+  get: vi.fn((key: string) =>
+    key === "AUDIT_SIGNING_KEY" ? signingKeyPem : undefined,
+  ),
+};
+
+// Builds a valid chain of `count` events for org-1.
+function buildChain(count: number) {
+  const events: any[] = [];
+  for (let sequence = 1; sequence <= count; sequence++) {
+    const event = {
+      id: `event-${sequence}`,
+      organizationId: "org-1",
+      userId: "user-1",
+      action: "obligation.updated",
+      entityType: "Obligation",
+      entityId: "obl-1",
+      metadata: { changes: { title: `v${sequence}` } },
+      ipAddress: null,
+      userAgent: null,
+      createdAt: new Date(Date.UTC(2025, 7, 1, 12, sequence)),
+      sequence,
+      prevHash: events[sequence - 2]?.hash ?? null,
+    };
+    events.push({ ...event, hash: hashAuditEvent(event) });
+  }
+  return events;
+}
+
+// Checkpoint signed with the test key, or with another one.
+function signedCheckpoint(
+  id: string,
+  sequence: number,
+  hash: string,
+  previousSignature: string | null,
+  key = signingKey,
+) {
+  const payload = {
+    organizationId: "org-1",
+    sequence,
+    hash,
+    previousSignature,
+    keyId: signingKeyId(key.publicKey),
+    createdAt: new Date(Date.UTC(2025, 7, 2, sequence)),
+  };
+  return {
+    id,
+    ...payload,
+    signature: signPayload(
+      { ...payload, createdAt: payload.createdAt.toISOString() },
+      key.privateKey,
+    ),
+  };
+}
+
+describe("AuditChainService", () => {
+  let service: AuditChainService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrismaService.auditEvent.count.mockResolvedValue(0);
+    mockPrismaService.auditCheckpoint.findFirst.mockResolvedValue(null);
+    mockPrismaService.auditCheckpoint.findMany.mockResolvedValue([]);
+    mockPrismaService.auditArchive.findMany.mockResolvedValue([]);
+    service = new AuditChainService(
+      mockPrismaService as any,
+      mockConfigService as any,
+    );
+  });
+
+  it("should hash canonical JSON regardless of key order", () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, "x"], c: null } })).toBe(
+      '{"a":{"c":null,"d":[1,"x"]},"b":1}',
+    );
+  });
+
+  it("should link each logged event to the previous one", async () => {
+    const [previous] = buildChain(1);
+    mockPrismaService.$transaction.mockImplementation((fn) =>
+      fn(mockPrismaService),
+    );
+    mockPrismaService.auditEvent.findFirst.mockResolvedValue(previous);
+
+    await new AuditService(mockPrismaService as any).log(
+      "org-1",
+      "obligation.updated",
+      "Obligation",
+      "obl-1",
+      "user-1",
+      { dueDate: new Date(Date.UTC(2025, 8, 1)) },
+    );
+
+    expect(mockPrismaService.$executeRaw).toHaveBeenCalled();
+    const { data } = mockPrismaService.auditEvent.create.mock.calls[0][0];
+    expect(data.sequence).toBe(2);
+    expect(data.prevHash).toBe(previous.hash);
+    // Hashed as JSONB will give it back
+    expect(data.metadata).toEqual({ dueDate: "2025-09-01T00:00:00.000Z" });
+    expect(data.hash).toBe(hashAuditEvent(data));
+  });
+
+  it("should record the request context of the logged event", async () => {
+    mockPrismaService.$transaction.mockImplementation((fn) =>
+      fn(mockPrismaService),
+    );
+    mockPrismaService.auditEvent.findFirst.mockResolvedValue(null);
+    const request = {
+      requestId: "req-1",
+      ip: "203.0.113.7",
+      get: () => "Mozilla/5.0",
+      user: { id: "user-1", impersonatedBy: "admin-1" },
+    } as any;
+
+    await RequestContext.run(request, () =>
+      new AuditService(mockPrismaService as any).log(
+        "org-1",
+        "obligation.updated",
+        "Obligation",
+        "obl-1",
+        "user-1",
+        { changes: {} },
+      ),
+    );
+
+    const { data } = mockPrismaService.auditEvent.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      ipAddress: "203.0.113.7",
+      userAgent: "Mozilla/5.0",
+      metadata: { requestId: "req-1", impersonatedBy: "admin-1", changes: {} },
+    });
+    expect(data.hash).toBe(hashAuditEvent(data));
+  });
+
+  it("should accept an untouched chain", async () => {
+    mockPrismaService.auditEvent.findMany.mockResolvedValue(buildChain(3));
+    mockPrismaService.auditEvent.count.mockResolvedValue(2);
+
+    const result = await service.verifyChain("org-1");
+
+    expect(result).toMatchObject({
+      valid: true,
+      checkedEvents: 3,
+      unchainedEvents: 2,
+      lastSequence: 3,
+    });
+    expect(result.brokenLink).toBeUndefined();
+  });
+
+  it("should report an edited event", async () => {
+    const events = buildChain(3);
+    events[1].metadata = { changes: { title: "otro" } };
+    mockPrismaService.auditEvent.findMany.mockResolvedValue(events);
+
+    const result = await service.verifyChain("org-1");
+
+    expect(result.valid).toBe(false);
+    expect(result.brokenLink).toEqual({
+      reason: AuditChainBreakReason.HASH_MISMATCH,
+      sequence: 2,
+      eventId: "event-2",
+    });
+    expect(result.checkedEvents).toBe(1);
+  });
+
+  it("should report a deleted event", async () => {
+    const events = buildChain(3);
+    mockPrismaService.auditEvent.findMany.mockResolvedValue([
+      events[0],
+      events[2],
+    ]);
+
+    const result = await service.verifyChain("org-1");
+
+    expect(result.brokenLink).toEqual({
+      reason: AuditChainBreakReason.MISSING_EVENTS,
+      sequence: 2,
+      eventId: "event-3",
+    });
+  });
+
+  it("should continue the chain from the archived events", async () => {
+    const events = buildChain(4);
+    const archive = {
+      id: "archive-1",
+      fromSequence: 1,
+      toSequence: 2,
+      firstPrevHash: null,
+      lastHash: events[1].hash,
+    };
+    mockPrismaService.auditArchive.findMany.mockResolvedValue([archive]);
+    mockPrismaService.auditEvent.findMany.mockResolvedValue(events.slice(2));
+
+    const result = await service.verifyChain("org-1");
+
+    expect(result).toMatchObject({
+      valid: true,
+      archivedEvents: 2,
+      checkedEvents: 2,
+      lastSequence: 4,
+    });
+
+    mockPrismaService.auditArchive.findMany.mockResolvedValue([
+      { ...archive, lastHash: "f".repeat(64) },
+    ]);
+    expect((await service.verifyChain("org-1")).brokenLink).toEqual({
+      reason: AuditChainBreakReason.PREVIOUS_HASH_MISMATCH,
+      sequence: 3,
+      eventId: "event-3",
+    });
+  });
+
+  it("should require an Ed25519 signing key", () => {
+    expect(
+      () =>
+        new AuditChainService(
+          mockPrismaService as any,
+          {
+            get: vi.fn(() => undefined),
+          } as any,
+        ),
+    ).toThrow("AUDIT_SIGNING_KEY is required");
+
+    const x25519 = generateKeyPairSync("x25519")
+      .privateKey.export({ type: "pkcs8", format: "pem" })
+      .toString();
+    expect(
+      () =>
+        new AuditChainService(
+          mockPrismaService as any,
+          { get: vi.fn(() => x25519) } as any,
+        ),
+    ).toThrow("AUDIT_SIGNING_KEY must be an Ed25519 private key");
+
+    // A PEM pasted into .env on one line
+    expect(
+      new AuditChainService(
+        mockPrismaService as any,
+        { get: vi.fn(() => signingKeyPem.replace(/\n/g, "\\n")) } as any,
+      ).getSigningKey().keyId,
+    ).toBe(keyId);
+  });
+
+  it("should reject checkpoints signed with another key", async () => {
+    const events = buildChain(2);
+    mockPrismaService.auditEvent.findMany.mockResolvedValue(events);
+    mockPrismaService.auditCheckpoint.findMany.mockResolvedValue([
+      signedCheckpoint(
+        "cp-1",
+        2,
+        events[1].hash,
+        null,
+        generateKeyPairSync("ed25519"),
+      ),
+    ]);
+
+    expect((await service.verifyChain("org-1")).brokenLink).toEqual({
+      reason: AuditChainBreakReason.INVALID_CHECKPOINT,
+      sequence: 2,
+    });
+  });
+
+  it("should compare checkpoints at the end of an archive with its last hash", async () => {
+    const events = buildChain(3);
+    mockPrismaService.auditArchive.findMany.mockResolvedValue([
+      {
+        id: "archive-1",
+        fromSequence: 1,
+        toSequence: 2,
+        firstPrevHash: null,
+        lastHash: events[1].hash,
+      },
+    ]);
+    mockPrismaService.auditEvent.findMany.mockResolvedValue(events.slice(2));
+
+    mockPrismaService.auditCheckpoint.findMany.mockResolvedValue([
+      signedCheckpoint("cp-1", 2, events[1].hash, null),
+    ]);
+    expect((await service.verifyChain("org-1")).valid).toBe(true);
+
+    mockPrismaService.auditCheckpoint.findMany.mockResolvedValue([
+      signedCheckpoint("cp-1", 2, "e".repeat(64), null),
+    ]);
+    expect((await service.verifyChain("org-1")).brokenLink).toEqual({
+      reason: AuditChainBreakReason.CHECKPOINT_MISMATCH,
+      sequence: 2,
+      archiveId: "archive-1",
+    });
+  });
+
+  it("should report events deleted after the last checkpoint", async () => {
+    const events = buildChain(3);
+    mockPrismaService.auditCheckpoint.findMany.mockResolvedValue([
+      signedCheckpoint("cp-1", 3, events[2].hash, null),
+    ]);
+    mockPrismaService.auditEvent.findMany.mockResolvedValue(events.slice(0, 2));
+
+    const result = await service.verifyChain("org-1");
+
+    expect(result.brokenLink).toEqual({
+      reason: AuditChainBreakReason.MISSING_EVENTS,
+      sequence: 3,
+    });
+  });
+
+  it("should check every checkpoint and their chain of signatures", async () => {
+    const events = buildChain(4);
+    const first = signedCheckpoint("cp-1", 2, events[1].hash, null);
+    const second = signedCheckpoint("cp-2", 3, events[2].hash, first.signature);
+    const third = signedCheckpoint("cp-3", 4, events[3].hash, second.signature);
+    mockPrismaService.auditEvent.findMany.mockResolvedValue(events);
+
+    mockPrismaService.auditCheckpoint.findMany.mockResolvedValue([
+      first,
+      second,
+      third,
+    ]);
+    const result = await service.verifyChain("org-1");
+    expect(result.valid).toBe(true);
+    expect(result.latestCheckpoint?.id).toBe("cp-3");
+
+    // A deleted checkpoint leaves the next one pointing to a missing signature
+    mockPrismaService.auditCheckpoint.findMany.mockResolvedValue([
+      first,
+      third,
+    ]);
+    expect((await service.verifyChain("org-1")).brokenLink).toEqual({
+      reason: AuditChainBreakReason.INVALID_CHECKPOINT,
+      sequence: 4,
+    });
+
+    // An older checkpoint, validly signed, that no longer matches its event
+    const stale = signedCheckpoint("cp-1", 2, "e".repeat(64), null);
+    mockPrismaService.auditCheckpoint.findMany.mockResolvedValue([
+      stale,
+      signedCheckpoint("cp-2", 3, events[2].hash, stale.signature),
+    ]);
+    expect((await service.verifyChain("org-1")).brokenLink).toEqual({
+      reason: AuditChainBreakReason.CHECKPOINT_MISMATCH,
+      sequence: 2,
+      eventId: "event-2",
+    });
+  });
+
+  it("should sign checkpoints anchored to the previous one", async () => {
+    const [, last] = buildChain(2);
+    mockPrismaService.organization.findMany.mockResolvedValue([
+      { id: "org-1" },
+      { id: "org-2" },
+    ]);
+    mockPrismaService.auditEvent.findFirst.mockImplementation(({ where }) =>
+      Promise.resolve(
+        where.organizationId === "org-1"
+          ? last
+          : { sequence: 4, hash: "b".repeat(64) },
+      ),
+    );
+    mockPrismaService.auditCheckpoint.findFirst.mockImplementation(
+      ({ where }) =>
+        Promise.resolve(
+          where.organizationId === "org-1"
+            ? { sequence: 1, signature: "a".repeat(64) }
+            : { sequence: 4, signature: "c".repeat(64) },
+        ),
+    );
+
+    const created = await service.createCheckpoints();
+
+    // org-2 has no events since its last checkpoint
+    expect(created).toBe(1);
+    const { data } = mockPrismaService.auditCheckpoint.create.mock.calls[0][0];
+    expect(data).toMatchObject({
+      organizationId: "org-1",
+      sequence: 2,
+      hash: last.hash,
+      previousSignature: "a".repeat(64),
+      keyId,
+    });
+
+    mockPrismaService.auditCheckpoint.findFirst.mockResolvedValue({
+      id: "cp-2",
+      ...data,
+    });
+    const exported = await service.exportCheckpoint("org-1", "cp-2");
+    expect(exported).toMatchObject({ algorithm: "Ed25519", keyId });
+    // Anyone with the published public key can check it
+    const published = service.getSigningKey();
+    expect(published.keyId).toBe(keyId);
+    expect(
+      verifyPayload(
+        exported.payload,
+        exported.signature,
+        createPublicKey(published.publicKey),
+      ),
+    ).toBe(true);
+    expect(
+      verifyPayload(
+        { ...exported.payload, sequence: 3 },
+        exported.signature,
+        createPublicKey(published.publicKey),
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,350 @@
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { AuditCheckpoint } from "@prisma/client";
+import { KeyObject, createPrivateKey, createPublicKey } from "crypto";
+import { PrismaService } from "../common/prisma/prisma.service";
+import {
+  SIGNATURE_ALGORITHM,
+  hashAuditEvent,
+  signPayload,
+  signingKeyId,
+  verifyPayload,
+} from "./audit-chain";
+import {
+  AuditChainBreakReason,
+  AuditChainVerificationDto,
+  AuditCheckpointResponseDto,
+  AuditSigningKeyDto,
+  SignedAuditCheckpointDto,
+} from "./dto/audit-chain.dto";
+
+// Events read per query while walking the chain
+const VERIFY_BATCH_SIZE = 1000;
+
+@Injectable()
+export class AuditChainService {
+  private readonly logger = new Logger(AuditChainService.name);
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  private readonly keyId: string;
+
+  constructor(
+    private prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    // PEM private key; .env files may carry its line breaks as "\n"
+    const pem = configService.get<string>("AUDIT_SIGNING_KEY");
+    if (!pem) {
+      throw new Error("AUDIT_SIGNING_KEY is required");
+    }
+    this.privateKey = createPrivateKey(pem.replace(/\\n/g, "\n"));
+    if (this.privateKey.asymmetricKeyType !== "ed25519") {
+      throw new Error("AUDIT_SIGNING_KEY must be an Ed25519 private key");
+    }
+    this.publicKey = createPublicKey(this.privateKey);
+    this.keyId = signingKeyId(this.publicKey);
+  }
+
+  /**
+   * Walks the chain from the first event and returns the first broken link:
+   * tampered content, a previous hash that doesn't match, or deleted events
+   * (sequence gaps, or a checkpoint that is no longer in the chain). Each
+   * checkpoint is verified against its signature and the previous one's, so
+   * one can't be deleted or replaced unnoticed. Checkpoints at the end of an
+   * archive are compared with its last hash; those inside it are checked when
+   * verifying the archive.
+   */
+  async verifyChain(
+    organizationId: string,
+  ): Promise<AuditChainVerificationDto> {
+    const [checkpoints, unchainedEvents, archives] = await Promise.all([
+      this.prisma.auditCheckpoint.findMany({
+        where: { organizationId },
+        orderBy: { sequence: "asc" },
+      }),
+      this.prisma.auditEvent.count({
+        where: { organizationId, sequence: null },
+      }),
+      this.prisma.auditArchive.findMany({
+        where: { organizationId, toSequence: { not: null } },
+        orderBy: { toSequence: "asc" },
+      }),
+    ]);
+
+    const checkpoint = checkpoints.at(-1);
+    const result: AuditChainVerificationDto = {
+      valid: true,
+      checkedEvents: 0,
+      unchainedEvents,
+      archivedEvents: 0,
+      latestCheckpoint: checkpoint ? this.toCheckpoint(checkpoint) : undefined,
+    };
+    const broken = (
+      reason: AuditChainBreakReason,
+      sequence: number,
+      eventId?: string,
+      archiveId?: string,
+    ): AuditChainVerificationDto => ({
+      ...result,
+      valid: false,
+      brokenLink: { reason, sequence, eventId, archiveId },
+    });
+
+    let previousSignature: string | null = null;
+    for (const signed of checkpoints) {
+      if (
+        signed.previousSignature !== previousSignature ||
+        !this.hasValidSignature(signed)
+      ) {
+        return broken(
+          AuditChainBreakReason.INVALID_CHECKPOINT,
+          signed.sequence,
+        );
+      }
+      previousSignature = signed.signature;
+    }
+    const checkpointHashes = new Map(
+      checkpoints.map((signed) => [signed.sequence, signed.hash]),
+    );
+
+    let prevHash: string | null = null;
+    let expected = 1;
+
+    // Archived events are checked by their recorded ends; the file contents
+    // are checked one archive at a time by AuditArchiveService.
+    for (const archive of archives) {
+      if (archive.fromSequence !== expected) {
+        return broken(
+          AuditChainBreakReason.MISSING_EVENTS,
+          expected,
+          undefined,
+          archive.id,
+        );
+      }
+      if (archive.firstPrevHash !== prevHash) {
+        return broken(
+          AuditChainBreakReason.PREVIOUS_HASH_MISMATCH,
+          expected,
+          undefined,
+          archive.id,
+        );
+      }
+
+      const checkpointHash = checkpointHashes.get(archive.toSequence!);
+      if (checkpointHash !== undefined && checkpointHash !== archive.lastHash) {
+        return broken(
+          AuditChainBreakReason.CHECKPOINT_MISMATCH,
+          archive.toSequence!,
+          undefined,
+          archive.id,
+        );
+      }
+
+      prevHash = archive.lastHash;
+      result.archivedEvents += archive.toSequence! - archive.fromSequence + 1;
+      expected = archive.toSequence! + 1;
+    }
+
+    for (;;) {
+      const events = await this.prisma.auditEvent.findMany({
+        where: { organizationId, sequence: { gte: expected } },
+        orderBy: { sequence: "asc" },
+        take: VERIFY_BATCH_SIZE,
+      });
+
+      for (const event of events) {
+        if (event.sequence !== expected) {
+          return broken(
+            AuditChainBreakReason.MISSING_EVENTS,
+            expected,
+            event.id,
+          );
+        }
+        if (event.prevHash !== prevHash) {
+          return broken(
+            AuditChainBreakReason.PREVIOUS_HASH_MISMATCH,
+            expected,
+            event.id,
+          );
+        }
+        if (event.hash !== hashAuditEvent(event)) {
+          return broken(
+            AuditChainBreakReason.HASH_MISMATCH,
+            expected,
+            event.id,
+          );
+        }
+        const checkpointHash = checkpointHashes.get(event.sequence);
+        if (checkpointHash !== undefined && checkpointHash !== event.hash) {
+          return broken(
+            AuditChainBreakReason.CHECKPOINT_MISMATCH,
+            expected,
+            event.id,
+          );
+        }
+
+        prevHash = event.hash;
+        result.checkedEvents++;
+        result.lastSequence = event.sequence;
+        result.lastHash = event.hash ?? undefined;
+        expected++;
+      }
+
+      if (events.length < VERIFY_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    // The chain ends before the last signed checkpoint: its tail was deleted.
+    if (checkpoint && checkpoint.sequence >= expected) {
+      return broken(AuditChainBreakReason.MISSING_EVENTS, expected);
+    }
+
+    return result;
+  }
+
+  // Job: sign a checkpoint for every organization with new events since the
+  // previous one, each anchored to the signature before it.
+  async createCheckpoints(): Promise<number> {
+    const organizations = await this.prisma.organization.findMany({
+      where: { active: true },
+      select: { id: true },
+    });
+
+    let created = 0;
+    for (const { id: organizationId } of organizations) {
+      try {
+        if (await this.createCheckpoint(organizationId)) {
+          created++;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(
+          `Skipping audit checkpoint of organization ${organizationId}: ${message}`,
+        );
+      }
+    }
+
+    return created;
+  }
+
+  async listCheckpoints(
+    organizationId: string,
+  ): Promise<AuditCheckpointResponseDto[]> {
+    const checkpoints = await this.prisma.auditCheckpoint.findMany({
+      where: { organizationId },
+      orderBy: { sequence: "desc" },
+    });
+    return checkpoints.map((checkpoint) => this.toCheckpoint(checkpoint));
+  }
+
+  async exportCheckpoint(
+    organizationId: string,
+    checkpointId: string,
+  ): Promise<SignedAuditCheckpointDto> {
+    const checkpoint = await this.prisma.auditCheckpoint.findFirst({
+      where: { id: checkpointId, organizationId },
+    });
+    if (!checkpoint) {
+      throw new NotFoundException("Punto de control no encontrado");
+    }
+
+    return {
+      payload: this.payloadOf(checkpoint),
+      algorithm: SIGNATURE_ALGORITHM,
+      keyId: checkpoint.keyId,
+      signature: checkpoint.signature,
+    };
+  }
+
+  // Public half of the signing key, to check exported checkpoints offline.
+  getSigningKey(): AuditSigningKeyDto {
+    return {
+      keyId: this.keyId,
+      algorithm: SIGNATURE_ALGORITHM,
+      publicKey: this.publicKey.export({
+        type: "spki",
+        format: "pem",
+      }) as string,
+    };
+  }
+
+  private async createCheckpoint(organizationId: string): Promise<boolean> {
+    const [last, previous] = await Promise.all([
+      this.prisma.auditEvent.findFirst({
+        where: { organizationId, sequence: { not: null } },
+        orderBy: { sequence: "desc" },
+        select: { sequence: true, hash: true },
+      }),
+      this.prisma.auditCheckpoint.findFirst({
+        where: { organizationId },
+        orderBy: { sequence: "desc" },
+      }),
+    ]);
+
+    if (!last?.sequence || !last.hash || last.sequence === previous?.sequence) {
+      return false;
+    }
+
+    const checkpoint = {
+      organizationId,
+      sequence: last.sequence,
+      hash: last.hash,
+      previousSignature: previous?.signature ?? null,
+      keyId: this.keyId,
+      createdAt: new Date(),
+    };
+    await this.prisma.auditCheckpoint.create({
+      data: {
+        ...checkpoint,
+        signature: signPayload(this.payloadOf(checkpoint), this.privateKey),
+      },
+    });
+    return true;
+  }
+
+  private payloadOf(
+    checkpoint: Pick<
+      AuditCheckpoint,
+      | "organizationId"
+      | "sequence"
+      | "hash"
+      | "previousSignature"
+      | "keyId"
+      | "createdAt"
+    >,
+  ): SignedAuditCheckpointDto["payload"] {
+    return {
+      organizationId: checkpoint.organizationId,
+      sequence: checkpoint.sequence,
+      hash: checkpoint.hash,
+      previousSignature: checkpoint.previousSignature,
+      keyId: checkpoint.keyId,
+      createdAt: checkpoint.createdAt.toISOString(),
+    };
+  }
+
+  private hasValidSignature(checkpoint: AuditCheckpoint): boolean {
+    return (
+      checkpoint.keyId === this.keyId &&
+      verifyPayload(
+        this.payloadOf(checkpoint),
+        checkpoint.signature,
+        this.publicKey,
+      )
+    );
+  }
+
+  private toCheckpoint(
+    checkpoint: AuditCheckpoint,
+  ): AuditCheckpointResponseDto {
+    return {
+      id: checkpoint.id,
+      sequence: checkpoint.sequence,
+      hash: checkpoint.hash,
+      signature: checkpoint.signature,
+      keyId: checkpoint.keyId,
+      createdAt: checkpoint.createdAt,
+    };
+  }
+}
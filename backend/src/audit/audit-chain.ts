@@ -0,0 +1,86 @@
+import { KeyObject, createHash, sign, verify } from "crypto";
+import { AuditEvent } from "@prisma/client";
+
+export const SIGNATURE_ALGORITHM = "Ed25519";
+
+export type ChainedAuditFields = Pick<
+  AuditEvent,
+  | "organizationId"
+  | "userId"
+  | "action"
+  | "entityType"
+  | "entityId"
+  | "ipAddress"
+  | "userAgent"
+  | "createdAt"
+  | "sequence"
+  | "prevHash"
+> & { metadata: unknown };
+
+// JSON with sorted keys, so the same content always hashes the same way
+// regardless of the key order JSONB gives back.
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  const entries = Object.entries(value)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+}
+
+// What JSONB stores: dates become strings and undefined keys disappear.
+export function toStoredJson<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+export function hashAuditEvent(event: ChainedAuditFields): string {
+  return createHash("sha256")
+    .update(
+      canonicalJson({
+        organizationId: event.organizationId,
+        sequence: event.sequence,
+        prevHash: event.prevHash ?? null,
+        userId: event.userId ?? null,
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId ?? null,
+        metadata: event.metadata ?? null,
+        ipAddress: event.ipAddress ?? null,
+        userAgent: event.userAgent ?? null,
+        createdAt: event.createdAt.toISOString(),
+      }),
+    )
+    .digest("hex");
+}
+
+// First 16 hex digits of the SHA-256 of the DER public key, so a verifier
+// can tell which key signed a checkpoint.
+export function signingKeyId(publicKey: KeyObject): string {
+  return createHash("sha256")
+    .update(publicKey.export({ type: "spki", format: "der" }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export function signPayload(payload: unknown, privateKey: KeyObject): string {
+  return sign(null, Buffer.from(canonicalJson(payload)), privateKey).toString(
+    "hex",
+  );
+}
+
+export function verifyPayload(
+  payload: unknown,
+  signature: string,
+  publicKey: KeyObject,
+): boolean {
+  return verify(
+    null,
+    Buffer.from(canonicalJson(payload)),
+    publicKey,
+    Buffer.from(signature, "hex"),
+  );
+}
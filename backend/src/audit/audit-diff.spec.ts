@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { diffEntity, renderChanges } from "./audit-diff";
+
+describe("audit diff", () => {
+  const obligation = {
+    id: "obl-1",
+    title: "Habilitacion",
+    status: "PENDING",
+    dueDate: new Date(Date.UTC(2025, 8, 1)),
+    ownerUserId: null,
+    updatedAt: new Date(Date.UTC(2025, 7, 1)),
+  };
+
+  it("should record only the fields that changed", () => {
+    const changes = diffEntity("Obligation", obligation, {
+      ...obligation,
+      status: "IN_PROGRESS",
+      dueDate: new Date(Date.UTC(2025, 8, 15)),
+      updatedAt: new Date(),
+    });
+
+    expect(changes).toEqual({
+      status: { before: "PENDING", after: "IN_PROGRESS" },
+      dueDate: {
+        before: "2025-09-01T00:00:00.000Z",
+        after: "2025-09-15T00:00:00.000Z",
+      },
+    });
+  });
+
+  it("should record the values set on create and cleared on delete", () => {
+    expect(diffEntity("Obligation", null, obligation)).toEqual({
+      title: { before: null, after: "Habilitacion" },
+      status: { before: null, after: "PENDING" },
+      dueDate: { before: null, after: "2025-09-01T00:00:00.000Z" },
+    });
+    expect(diffEntity("Obligation", obligation, null)).toHaveProperty("title", {
+      before: "Habilitacion",
+      after: null,
+    });
+  });
+
+  it("should render recorded and legacy changes", () => {
+    expect(
+      renderChanges({
+        changes: { role: { before: "MANAGER", after: "ADMIN" } },
+      }),
+    ).toEqual([{ field: "role", before: "MANAGER", after: "ADMIN" }]);
+    expect(renderChanges({ changes: { title: "Nuevo" } })).toEqual([
+      { field: "title", after: "Nuevo" },
+    ]);
+    expect(renderChanges({ from: "PENDING", to: "COMPLETED" })).toEqual([
+      { field: "status", before: "PENDING", after: "COMPLETED" },
+    ]);
+    expect(renderChanges(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  Document,
+  Location,
+  Obligation,
+  Organization,
+  Task,
+  TaskItem,
+  UserOrg,
+} from "@prisma/client";
+import { canonicalJson, toStoredJson } from "./audit-chain";
+import { AuditFieldChangeDto } from "./dto/audit.dto";
+
+// Fields recorded before/after on each change; own ids, storage keys and
+// automatic timestamps are left out
+export const AUDITED_FIELDS = {
+  Obligation: [
+    "title",
+    "description",
+    "type",
+    "status",
+    "severity",
+    "dueDate",
+    "nominalDueDate",
+    "recurrenceRule",
+    "dueRule",
+    "taxScheduleCode",
+    "requiresReview",
+    "requiredEvidenceCount",
+    "ownerUserId",
+    "locationId",
+    "templateId",
+    "templateVersion",
+    "escalationLevel",
+    "critical",
+    "completedAt",
+  ],
+  Task: [
+    "obligationId",
+    "title",
+    "description",
+    "status",
+    "dueDate",
+    "assignedToUserId",
+  ],
+  TaskItem: ["taskId", "description", "done", "order"],
+  Location: ["name", "address", "rubric", "jurisdictionId", "active"],
+  Organization: [
+    "cuit",
+    "taxpayerKind",
+    "name",
+    "jurisdictionId",
+    "plan",
+    "thresholdYellowDays",
+    "thresholdRedDays",
+    "severityThresholds",
+    "retentionMonths",
+    "auditRetentionMonths",
+    "countBusinessDays",
+    "active",
+  ],
+  UserOrg: ["userId", "role"],
+  Document: [
+    "obligationId",
+    "taskId",
+    "uploadedByUserId",
+    "fileName",
+    "mimeType",
+    "sizeBytes",
+    "sha256",
+  ],
+} satisfies {
+  Obligation: (keyof Obligation)[];
+  Task: (keyof Task)[];
+  TaskItem: (keyof TaskItem)[];
+  Location: (keyof Location)[];
+  Organization: (keyof Organization)[];
+  UserOrg: (keyof UserOrg)[];
+  Document: (keyof Document)[];
+};
+
+export type AuditedEntity = keyof typeof AUDITED_FIELDS;
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export type AuditChanges = Record<string, FieldChange>;
+
+/**
+ * Fields that changed between two versions of an entity. A null `before` is a
+ * creation and a null `after` a deletion: the fields with a value are recorded.
+ */
+export function diffEntity(
+  entityType: AuditedEntity,
+  before: object | null,
+  after: object | null,
+): AuditChanges {
+  const changes: AuditChanges = {};
+
+  for (const field of AUDITED_FIELDS[entityType] as string[]) {
+    const previous = normalize(before?.[field as keyof typeof before]);
+    const next = normalize(after?.[field as keyof typeof after]);
+    if (canonicalJson(previous) !== canonicalJson(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
+
+// Same shape the value will have once stored in the JSONB metadata.
+function normalize(value: unknown): unknown {
+  return value === undefined ? null : toStoredJson(value);
+}
+
+/**
+ * Changes of an event for display. Events from before the before/after log
+ * only stored the new values (`changes: dto`) or the status transition
+ * (`from`/`to`): they are shown without a previous value.
+ */
+export function renderChanges(metadata: unknown): AuditFieldChangeDto[] {
+  if (!isObject(metadata)) {
+    return [];
+  }
+
+  const { changes, from, to } = metadata;
+  if (isObject(changes)) {
+    return Object.entries(changes).map(([field, change]) =>
+      isFieldChange(change)
+        ? { field, before: change.before, after: change.after }
+        : { field, after: change },
+    );
+  }
+  if (typeof from === "string" && typeof to === "string") {
+    return [{ field: "status", before: from, after: to }];
+  }
+  return [];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFieldChange(value: unknown): value is FieldChange {
+  return isObject(value) && "before" in value && "after" in value;
+}
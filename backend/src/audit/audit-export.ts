@@ -0,0 +1,76 @@
+import { AuditEvent } from "@prisma/client";
+import { ChainedAuditFields } from "./audit-chain";
+
+export const AUDIT_CSV_HEADERS = [
+  "Fecha",
+  "Secuencia",
+  "Accion",
+  "Entidad",
+  "ID entidad",
+  "Usuario",
+  "Email",
+  "IP",
+  "User agent",
+  "Metadata",
+  "Hash",
+];
+
+type ExportedAuditEvent = AuditEvent & { user?: { email: string } | null };
+
+// NDJSON line with the event as stored: the sequence and hashes are enough to
+// recompute the chain outside the system.
+export function toNdjsonLine(event: AuditEvent): string {
+  return `${JSON.stringify({
+    id: event.id,
+    organizationId: event.organizationId,
+    sequence: event.sequence,
+    prevHash: event.prevHash,
+    hash: event.hash,
+    userId: event.userId,
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    metadata: event.metadata,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    createdAt: event.createdAt.toISOString(),
+  })}\n`;
+}
+
+// Inverse of toNdjsonLine, with the fields the chain hash covers.
+export function parseNdjsonLine(
+  line: string,
+): ChainedAuditFields & Pick<AuditEvent, "id" | "hash"> {
+  const event = JSON.parse(line);
+  return { ...event, createdAt: new Date(event.createdAt) };
+}
+
+export function toCsvRow(event: ExportedAuditEvent): string {
+  return `${[
+    event.createdAt.toISOString(),
+    event.sequence?.toString() ?? "",
+    event.action,
+    event.entityType,
+    event.entityId,
+    event.userId,
+    event.user?.email,
+    event.ipAddress,
+    event.userAgent,
+    event.metadata === null ? "" : JSON.stringify(event.metadata),
+    event.hash,
+  ]
+    .map(csvField)
+    .join(",")}\n`;
+}
+
+// Escaped quotes and a ' prefix so spreadsheets don't evaluate formulas
+function csvField(value: string | null | undefined): string {
+  if (!value) return "";
+
+  let sanitized = value.replace(/"/g, '""');
+  if (/^[=+\-@\t\r]/.test(sanitized)) {
+    sanitized = `'${sanitized}`;
+  }
+
+  return `"${sanitized}"`;
+}
@@ -1,14 +1,44 @@
-import { Controller, Get, Param, Query, UseGuards } from "@nestjs/common";
+import {
+  Controller,
+  Get,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Res,
+  UseGuards,
+} from "@nestjs/common";
+import { Response } from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiProduces,
 } from "@nestjs/swagger";
 import { Role } from "@prisma/client";
 import { AuditService } from "./audit.service";
-import { AuditFilterDto, AuditEventResponseDto } from "./dto/audit.dto";
+import { AuditChainService } from "./audit-chain.service";
+import { AuditArchiveService } from "./audit-archive.service";
+import {
+  AuditFilterDto,
+  AuditEventResponseDto,
+  AuditExportFormat,
+  AuditExportQueryDto,
+} from "./dto/audit.dto";
+import {
+  AuditArchiveDownloadDto,
+  AuditArchiveResponseDto,
+} from "./dto/audit-archive.dto";
+import {
+  AuditChainVerificationDto,
+  AuditCheckpointResponseDto,
+  AuditSigningKeyDto,
+  SignedAuditCheckpointDto,
+} from "./dto/audit-chain.dto";
 import { PaginationDto, PaginatedResponse } from "../common/dto/pagination.dto";
 import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
 import { OrganizationGuard } from "../common/guards/organization.guard";
@@ -21,7 +51,13 @@ import { Roles } from "../common/decorators/roles.decorator";
 @Roles(Role.OWNER, Role.ADMIN, Role.ACCOUNTANT)
 @Controller("organizations/:organizationId/audit")
 export class AuditController {
-  constructor(private readonly auditService: AuditService) {}
+  private readonly logger = new Logger(AuditController.name);
+
+  constructor(
+    private readonly auditService: AuditService,
+    private readonly auditChainService: AuditChainService,
+    private readonly auditArchiveService: AuditArchiveService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: "Consultar log de auditoría" })
@@ -35,12 +71,125 @@ export class AuditController {
     return this.auditService.findAll(organizationId, pagination, filters);
   }
 
+  @Get("verify")
+  @ApiOperation({ summary: "Verificar la cadena de hashes del log" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: AuditChainVerificationDto })
+  async verify(
+    @Param("organizationId") organizationId: string,
+  ): Promise<AuditChainVerificationDto> {
+    return this.auditChainService.verifyChain(organizationId);
+  }
+
+  @Get("checkpoints")
+  @ApiOperation({ summary: "Listar puntos de control firmados" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: [AuditCheckpointResponseDto] })
+  async listCheckpoints(
+    @Param("organizationId") organizationId: string,
+  ): Promise<AuditCheckpointResponseDto[]> {
+    return this.auditChainService.listCheckpoints(organizationId);
+  }
+
+  @Get("checkpoints/public-key")
+  @ApiOperation({
+    summary: "Clave pública para verificar los puntos de control exportados",
+  })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: AuditSigningKeyDto })
+  getSigningKey(): AuditSigningKeyDto {
+    return this.auditChainService.getSigningKey();
+  }
+
+  @Get("checkpoints/:checkpointId")
+  @ApiOperation({ summary: "Exportar un punto de control como JSON firmado" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "checkpointId", type: "string" })
+  @ApiResponse({ status: 200, type: SignedAuditCheckpointDto })
+  async exportCheckpoint(
+    @Param("organizationId") organizationId: string,
+    @Param("checkpointId", ParseUUIDPipe) checkpointId: string,
+  ): Promise<SignedAuditCheckpointDto> {
+    return this.auditChainService.exportCheckpoint(
+      organizationId,
+      checkpointId,
+    );
+  }
+
+  @Get("export")
+  @ApiOperation({ summary: "Exportar eventos de auditoría a CSV o NDJSON" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiProduces("text/csv", "application/x-ndjson")
+  @ApiResponse({ status: 200, description: "Archivo con los eventos" })
+  async export(
+    @Param("organizationId") organizationId: string,
+    @Query() query: AuditExportQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const csv = query.format === AuditExportFormat.CSV;
+    const fileName = `auditoria_${organizationId}_${new Date().toISOString().split("T")[0]}.${csv ? "csv" : "ndjson"}`;
+
+    res.setHeader("Content-Type", csv ? "text/csv" : "application/x-ndjson");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    try {
+      await pipeline(
+        Readable.from(this.auditService.exportEvents(organizationId, query)),
+        res,
+      );
+    } catch (error) {
+      // The headers and part of the file may already be sent, so the error
+      // can't become a JSON response; cut the connection so the download fails.
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.error(
+        `Audit export of organization ${organizationId} failed: ${err.message}`,
+      );
+      res.destroy(err);
+    }
+  }
+
+  @Get("archives")
+  @ApiOperation({ summary: "Listar archivos de eventos vencidos" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: [AuditArchiveResponseDto] })
+  async listArchives(
+    @Param("organizationId") organizationId: string,
+  ): Promise<AuditArchiveResponseDto[]> {
+    return this.auditArchiveService.listArchives(organizationId);
+  }
+
+  @Get("archives/:archiveId/download")
+  @ApiOperation({ summary: "Obtener enlace de descarga de un archivo" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "archiveId", type: "string" })
+  @ApiResponse({ status: 200, type: AuditArchiveDownloadDto })
+  async downloadArchive(
+    @Param("organizationId") organizationId: string,
+    @Param("archiveId", ParseUUIDPipe) archiveId: string,
+  ): Promise<AuditArchiveDownloadDto> {
+    return this.auditArchiveService.getDownloadUrl(organizationId, archiveId);
+  }
+
+  @Get("archives/:archiveId/verify")
+  @ApiOperation({ summary: "Verificar la cadena de hashes de un archivo" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "archiveId", type: "string" })
+  @ApiResponse({ status: 200, type: AuditChainVerificationDto })
+  async verifyArchive(
+    @Param("organizationId") organizationId: string,
+    @Param("archiveId", ParseUUIDPipe) archiveId: string,
+  ): Promise<AuditChainVerificationDto> {
+    return this.auditArchiveService.verifyArchive(organizationId, archiveId);
+  }
+
   @Get(":entityType/:entityId")
   @ApiOperation({ summary: "Consultar historial de una entidad" })
   @ApiParam({ name: "organizationId", type: "string" })
   @ApiParam({ name: "entityType", type: "string" })
   @ApiParam({ name: "entityId", type: "string" })
-  @ApiResponse({ status: 200, description: "Historial de la entidad" })
+  @ApiResponse({
+    status: 200,
+    description: "Historial de la entidad con los cambios de cada campo",
+  })
   async findByEntity(
     @Param("organizationId") organizationId: string,
     @Param("entityType") entityType: string,
@@ -1,11 +1,13 @@
 import { Global, Module } from "@nestjs/common";
 import { AuditController } from "./audit.controller";
 import { AuditService } from "./audit.service";
+import { AuditChainService } from "./audit-chain.service";
+import { AuditArchiveService } from "./audit-archive.service";
 
 @Global()
 @Module({
   controllers: [AuditController],
-  providers: [AuditService],
-  exports: [AuditService],
+  providers: [AuditService, AuditChainService, AuditArchiveService],
+  exports: [AuditService, AuditChainService, AuditArchiveService],
 })
 export class AuditModule {}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { AuditService } from "./audit.service";
+import { AuditExportFormat } from "./dto/audit.dto";
+
+const mockPrismaService = {
+  auditEvent: {
+    findMany: vi.fn(),
+  },
+};
+
+function mockEvent(id: string, metadata: unknown = null) {
+  return {
+    id,
+    organizationId: "org-1",
+    userId: "user-1",
+    user: { email: "ana@example.com" },
+    action: "obligation.created",
+    entityType: "Obligation",
+    entityId: "obl-1",
+    metadata,
+    ipAddress: "203.0.113.7",
+    userAgent: null,
+    createdAt: new Date(Date.UTC(2025, 7, 1)),
+    sequence: 1,
+    prevHash: null,
+    hash: "a".repeat(64),
+  };
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe("AuditService", () => {
+  let service: AuditService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AuditService(mockPrismaService as any);
+  });
+
+  it("should export NDJSON in batches following a cursor", async () => {
+    const batch = Array.from({ length: 1000 }, (_, i) => mockEvent(`e-${i}`));
+    mockPrismaService.auditEvent.findMany
+      .mockResolvedValueOnce(batch)
+      .mockResolvedValueOnce([mockEvent("e-last")]);
+    const fromDate = new Date(Date.UTC(2025, 0, 1));
+
+    const lines = await collect(
+      service.exportEvents("org-1", {
+        format: AuditExportFormat.NDJSON,
+        fromDate,
+      }),
+    );
+
+    expect(lines).toHaveLength(1001);
+    expect(JSON.parse(lines[1000])).toMatchObject({
+      id: "e-last",
+      sequence: 1,
+      hash: "a".repeat(64),
+      createdAt: "2025-08-01T00:00:00.000Z",
+    });
+    const [first, second] = mockPrismaService.auditEvent.findMany.mock.calls;
+    expect(first[0].where).toEqual({
+      organizationId: "org-1",
+      createdAt: { gte: fromDate, lte: undefined },
+    });
+    expect(second[0]).toMatchObject({ cursor: { id: "e-999" }, skip: 1 });
+  });
+
+  it("should export CSV with escaped fields", async () => {
+    mockPrismaService.auditEvent.findMany.mockResolvedValue([
+      mockEvent("e-1", { title: '=HYPERLINK("x")' }),
+    ]);
+
+    const [header, row] = await collect(
+      service.exportEvents("org-1", { format: AuditExportFormat.CSV }),
+    );
+
+    expect(header.startsWith("Fecha,Secuencia,Accion")).toBe(true);
+    expect(row).toContain('"ana@example.com"');
+    expect(row).toContain('"{""title"":""=HYPERLINK(\\""x\\"")""}"');
+  });
+});
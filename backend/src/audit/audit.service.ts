@@ -1,10 +1,16 @@
 import { Injectable } from "@nestjs/common";
 import { Prisma, AuditEvent } from "@prisma/client";
 import { PrismaService } from "../common/prisma/prisma.service";
+import { RequestContext } from "../common/context/request-context";
+import { hashAuditEvent, toStoredJson } from "./audit-chain";
+import { renderChanges } from "./audit-diff";
+import { AUDIT_CSV_HEADERS, toCsvRow, toNdjsonLine } from "./audit-export";
 import {
   AuditFilterDto,
   AuditEventResponseDto,
   AuditAction,
+  AuditExportFormat,
+  AuditExportQueryDto,
 } from "./dto/audit.dto";
 import {
   PaginationDto,
@@ -20,10 +26,20 @@ type AuditEventWithUser = Prisma.AuditEventGetPayload<{
   };
 }>;
 
+// Events read per query when exporting
+const EXPORT_BATCH_SIZE = 1000;
+
 @Injectable()
 export class AuditService {
   constructor(private prisma: PrismaService) {}
 
+  /**
+   * Records a chained event: each one carries its sequence number within the
+   * organization, the previous event's hash and its own. The per-organization
+   * lock keeps two concurrent events from taking the same link. IP, user
+   * agent, request id and impersonation come from the current request context
+   * when not passed.
+   */
   async log(
     organizationId: string,
     action: AuditAction | string,
@@ -34,17 +50,47 @@ export class AuditService {
     ipAddress?: string,
     userAgent?: string,
   ): Promise<void> {
-    await this.prisma.auditEvent.create({
-      data: {
+    const context = RequestContext.current();
+    const contextMetadata = context && {
+      requestId: context.requestId,
+      ...(context.impersonatedBy && {
+        impersonatedBy: context.impersonatedBy,
+      }),
+    };
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${organizationId}))`;
+
+      const last = await tx.auditEvent.findFirst({
+        where: { organizationId, sequence: { not: null } },
+        orderBy: { sequence: "desc" },
+        select: { sequence: true, hash: true },
+      });
+
+      const event = {
         organizationId,
-        userId,
+        userId: userId ?? null,
         action,
         entityType,
-        entityId,
-        metadata: metadata ?? undefined,
-        ipAddress,
-        userAgent,
-      },
+        entityId: entityId ?? null,
+        metadata:
+          toStoredJson(
+            contextMetadata ? { ...contextMetadata, ...metadata } : metadata,
+          ) ?? null,
+        ipAddress: ipAddress ?? context?.ipAddress ?? null,
+        userAgent: userAgent ?? context?.userAgent ?? null,
+        createdAt: new Date(),
+        sequence: (last?.sequence ?? 0) + 1,
+        prevHash: last?.hash ?? null,
+      };
+
+      await tx.auditEvent.create({
+        data: {
+          ...event,
+          metadata: (event.metadata as Prisma.InputJsonObject) ?? undefined,
+          hash: hashAuditEvent(event),
+        },
+      });
     });
   }
 
@@ -131,9 +177,48 @@ export class AuditService {
     );
   }
 
+  /**
+   * Exports the events in a date range as CSV or NDJSON, in batches so the
+   * whole log isn't loaded into memory.
+   */
+  async *exportEvents(
+    organizationId: string,
+    query: AuditExportQueryDto,
+  ): AsyncGenerator<string> {
+    const where: Prisma.AuditEventWhereInput = {
+      organizationId,
+      createdAt: { gte: query.fromDate, lte: query.toDate },
+    };
+    const csv = query.format === AuditExportFormat.CSV;
+    if (csv) {
+      yield `${AUDIT_CSV_HEADERS.join(",")}\n`;
+    }
+
+    let cursor: string | undefined;
+    for (;;) {
+      const events = await this.prisma.auditEvent.findMany({
+        where,
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        include: { user: { select: { email: true } } },
+      });
+
+      for (const event of events) {
+        yield csv ? toCsvRow(event) : toNdjsonLine(event);
+      }
+
+      if (events.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+      cursor = events[events.length - 1].id;
+    }
+  }
+
   private enrichEvent(
     event: AuditEventWithUser | AuditEvent,
   ): AuditEventResponseDto {
+    const changes = renderChanges(event.metadata);
     return {
       id: event.id,
       organizationId: event.organizationId,
@@ -142,6 +227,7 @@ export class AuditService {
       entityType: event.entityType,
       entityId: event.entityId ?? undefined,
       metadata: event.metadata ?? undefined,
+      changes: changes.length > 0 ? changes : undefined,
       ipAddress: event.ipAddress ?? undefined,
       userAgent: event.userAgent ?? undefined,
       createdAt: event.createdAt,
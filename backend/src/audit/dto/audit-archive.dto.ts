@@ -0,0 +1,38 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+export class AuditArchiveResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiPropertyOptional({ nullable: true, type: Number })
+  fromSequence: number | null;
+
+  @ApiPropertyOptional({ nullable: true, type: Number })
+  toSequence: number | null;
+
+  @ApiProperty()
+  eventCount: number;
+
+  @ApiProperty()
+  fromDate: Date;
+
+  @ApiProperty()
+  toDate: Date;
+
+  @ApiProperty()
+  sizeBytes: number;
+
+  @ApiProperty({ description: "SHA-256 del archivo comprimido" })
+  sha256: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class AuditArchiveDownloadDto {
+  @ApiProperty()
+  url: string;
+
+  @ApiProperty()
+  expiresAt: Date;
+}
@@ -0,0 +1,118 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+export enum AuditChainBreakReason {
+  HASH_MISMATCH = "HASH_MISMATCH", // the event content was modified
+  PREVIOUS_HASH_MISMATCH = "PREVIOUS_HASH_MISMATCH",
+  MISSING_EVENTS = "MISSING_EVENTS", // events were deleted
+  CHECKPOINT_MISMATCH = "CHECKPOINT_MISMATCH",
+  INVALID_CHECKPOINT = "INVALID_CHECKPOINT", // invalid signature or not chained to the previous one
+  ARCHIVE_MISMATCH = "ARCHIVE_MISMATCH", // the archive doesn't match what was recorded
+}
+
+export class AuditChainBreakDto {
+  @ApiProperty({ enum: AuditChainBreakReason })
+  reason: AuditChainBreakReason;
+
+  @ApiProperty({ description: "Secuencia del primer eslabon roto" })
+  sequence: number;
+
+  @ApiPropertyOptional()
+  eventId?: string;
+
+  @ApiPropertyOptional({ description: "Archivo donde esta el eslabon roto" })
+  archiveId?: string;
+}
+
+export class AuditCheckpointResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: "Ultimo evento cubierto" })
+  sequence: number;
+
+  @ApiProperty()
+  hash: string;
+
+  @ApiProperty()
+  signature: string;
+
+  @ApiProperty({ description: "Clave que firmo el punto de control" })
+  keyId: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class AuditChainVerificationDto {
+  @ApiProperty()
+  valid: boolean;
+
+  @ApiProperty()
+  checkedEvents: number;
+
+  @ApiProperty({ description: "Eventos anteriores al encadenado" })
+  unchainedEvents: number;
+
+  @ApiProperty({ description: "Eventos encadenados movidos a archivos" })
+  archivedEvents: number;
+
+  @ApiPropertyOptional()
+  lastSequence?: number;
+
+  @ApiPropertyOptional()
+  lastHash?: string;
+
+  @ApiPropertyOptional({ type: AuditCheckpointResponseDto })
+  latestCheckpoint?: AuditCheckpointResponseDto;
+
+  @ApiPropertyOptional({ type: AuditChainBreakDto })
+  brokenLink?: AuditChainBreakDto;
+}
+
+export class AuditCheckpointPayloadDto {
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty()
+  sequence: number;
+
+  @ApiProperty()
+  hash: string;
+
+  @ApiPropertyOptional({ nullable: true, type: String })
+  previousSignature: string | null;
+
+  @ApiProperty()
+  keyId: string;
+
+  @ApiProperty()
+  createdAt: string;
+}
+
+export class SignedAuditCheckpointDto {
+  @ApiProperty({ type: AuditCheckpointPayloadDto })
+  payload: AuditCheckpointPayloadDto;
+
+  @ApiProperty({ example: "Ed25519" })
+  algorithm: string;
+
+  @ApiProperty({ description: "Id de la clave publica que verifica la firma" })
+  keyId: string;
+
+  @ApiProperty({
+    description:
+      "Firma Ed25519 (hex) del payload serializado con las claves ordenadas",
+  })
+  signature: string;
+}
+
+export class AuditSigningKeyDto {
+  @ApiProperty()
+  keyId: string;
+
+  @ApiProperty({ example: "Ed25519" })
+  algorithm: string;
+
+  @ApiProperty({ description: "Clave publica en PEM (SPKI)" })
+  publicKey: string;
+}
@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
-import { IsString, IsOptional, IsUUID, IsDate } from "class-validator";
+import { IsString, IsOptional, IsUUID, IsDate, IsEnum } from "class-validator";
 import { Type } from "class-transformer";
 
 export class AuditFilterDto {
@@ -36,6 +36,46 @@ export class AuditFilterDto {
   toDate?: Date;
 }
 
+export enum AuditExportFormat {
+  CSV = "csv",
+  NDJSON = "ndjson",
+}
+
+export class AuditExportQueryDto {
+  @ApiPropertyOptional({
+    enum: AuditExportFormat,
+    default: AuditExportFormat.NDJSON,
+  })
+  @IsOptional()
+  @IsEnum(AuditExportFormat)
+  format?: AuditExportFormat = AuditExportFormat.NDJSON;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  fromDate?: Date;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  toDate?: Date;
+}
+
+export class AuditFieldChangeDto {
+  @ApiProperty()
+  field: string;
+
+  @ApiPropertyOptional({
+    description: "Ausente en eventos que solo guardaban el valor nuevo",
+  })
+  before?: unknown;
+
+  @ApiProperty()
+  after: unknown;
+}
+
 export class AuditEventResponseDto {
   @ApiProperty()
   id: string;
@@ -58,6 +98,9 @@ export class AuditEventResponseDto {
   @ApiPropertyOptional()
   metadata?: Record<string, unknown>;
 
+  @ApiPropertyOptional({ type: [AuditFieldChangeDto] })
+  changes?: AuditFieldChangeDto[];
+
   @ApiPropertyOptional()
   ipAddress?: string;
 
@@ -81,6 +124,7 @@ export const AuditActions = {
   ORGANIZATION_CREATED: "organization.created",
   ORGANIZATION_UPDATED: "organization.updated",
   ORGANIZATION_DEACTIVATED: "organization.deactivated",
+  ESCALATION_POLICY_UPDATED: "organization.escalation_policy_updated",
 
   // User
   USER_INVITED: "user.invited",
@@ -99,6 +143,9 @@ export const AuditActions = {
   OBLIGATION_UPDATED: "obligation.updated",
   OBLIGATION_STATUS_CHANGED: "obligation.status_changed",
   OBLIGATION_DELETED: "obligation.deleted",
+  OBLIGATION_RECURRENCE_GENERATED: "obligation.recurrence_generated",
+  OBLIGATION_TEMPLATE_UPDATED: "obligation.template_updated",
+  OBLIGATION_ESCALATED: "obligation.escalated",
 
   // Task
   TASK_CREATED: "task.created",
@@ -114,6 +161,15 @@ export const AuditActions = {
   REVIEW_SUBMITTED: "review.submitted",
   REVIEW_APPROVED: "review.approved",
   REVIEW_REJECTED: "review.rejected",
+
+  // Calendar
+  CALENDAR_FEED_ROTATED: "calendar_feed.rotated",
+  CALENDAR_FEED_REVOKED: "calendar_feed.revoked",
+
+  // Report
+  REPORT_SUBSCRIPTION_CREATED: "report_subscription.created",
+  REPORT_SUBSCRIPTION_UPDATED: "report_subscription.updated",
+  REPORT_SUBSCRIPTION_DELETED: "report_subscription.deleted",
 } as const;
 
 export type AuditAction = (typeof AuditActions)[keyof typeof AuditActions];
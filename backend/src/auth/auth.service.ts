@@ -14,6 +14,7 @@ import { PrismaService } from "../common/prisma/prisma.service";
 import { JwtPayload } from "../common/interfaces/request.interface";
 import { AuditService } from "../audit/audit.service";
 import { AuditActions } from "../audit/dto/audit.dto";
+import { diffEntity } from "../audit/audit-diff";
 import { EmailService } from "../common/email/email.service";
 import {
   RegisterDto,
@@ -352,7 +353,11 @@ export class AuthService {
       "UserOrg",
       membership.id,
       user.id,
-      { role: invitation.role, email: user.email },
+      {
+        role: invitation.role,
+        email: user.email,
+        changes: diffEntity("UserOrg", null, membership),
+      },
     );
 
     return this.generateTokens(user);
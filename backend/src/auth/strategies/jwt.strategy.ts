@@ -44,6 +44,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       id: user.id,
       email: user.email,
       fullName: user.fullName,
+      impersonatedBy: payload.act?.sub,
     };
   }
 }
@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  Post,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { CalendarFeedScope } from "@prisma/client";
+import { CalendarFeedsService } from "./calendar-feeds.service";
+import {
+  CalendarFeedLinkResponseDto,
+  CalendarFeedResponseDto,
+} from "./dto/calendar-feed.dto";
+import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
+import { OrganizationGuard } from "../common/guards/organization.guard";
+import { CurrentUser } from "../common/decorators/current-user.decorator";
+import { AuthenticatedUser } from "../common/interfaces/request.interface";
+
+@ApiTags("calendar")
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, OrganizationGuard)
+@Controller("organizations/:organizationId/calendar-feeds")
+export class CalendarFeedsController {
+  constructor(private readonly calendarFeedsService: CalendarFeedsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Listar mis enlaces de calendario" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: [CalendarFeedResponseDto] })
+  async list(
+    @Param("organizationId") organizationId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CalendarFeedResponseDto[]> {
+    return this.calendarFeedsService.list(organizationId, user.id);
+  }
+
+  @Post(":scope/rotate")
+  @ApiOperation({
+    summary: "Generar un enlace de calendario (invalida el anterior)",
+  })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "scope", enum: CalendarFeedScope })
+  @ApiResponse({ status: 201, type: CalendarFeedLinkResponseDto })
+  async rotate(
+    @Param("organizationId") organizationId: string,
+    @Param("scope", new ParseEnumPipe(CalendarFeedScope))
+    scope: CalendarFeedScope,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<CalendarFeedLinkResponseDto> {
+    return this.calendarFeedsService.rotate(organizationId, user.id, scope);
+  }
+
+  @Delete(":scope")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Revocar un enlace de calendario" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "scope", enum: CalendarFeedScope })
+  @ApiResponse({ status: 204, description: "Enlace revocado" })
+  @ApiResponse({ status: 404, description: "No hay enlace activo" })
+  async revoke(
+    @Param("organizationId") organizationId: string,
+    @Param("scope", new ParseEnumPipe(CalendarFeedScope))
+    scope: CalendarFeedScope,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    return this.calendarFeedsService.revoke(organizationId, user.id, scope);
+  }
+}
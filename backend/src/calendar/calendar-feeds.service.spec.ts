@@ -0,0 +1,360 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { NotFoundException } from "@nestjs/common";
+import {
+  CalendarFeedsService,
+  hashFeedToken,
+  remainingRecurrenceRule,
+  thresholdAlarms,
+} from "./calendar-feeds.service";
+import { escapeText, foldLine } from "./ics";
+
+const mockPrismaService = {
+  calendarFeed: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    upsert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  userOrg: {
+    findUnique: vi.fn(),
+  },
+  obligation: {
+    findMany: vi.fn(),
+  },
+  task: {
+    findMany: vi.fn(),
+  },
+};
+
+const mockAuditService = {
+  log: vi.fn(),
+};
+
+const mockConfigService = {
+  get: vi.fn(),
+};
+
+const organization = {
+  id: "org-1",
+  name: "Panadería Sur",
+  active: true,
+  thresholdYellowDays: 15,
+  thresholdRedDays: 7,
+};
+
+describe("calendar helpers", () => {
+  it("should escape and fold iCalendar text", () => {
+    expect(escapeText("IVA; DDJJ, mensual\nver nota")).toBe(
+      "IVA\\; DDJJ\\, mensual\\nver nota",
+    );
+
+    const folded = foldLine(`SUMMARY:${"ñ".repeat(80)}`);
+    const [first, ...rest] = folded.split("\r\n");
+    expect(Buffer.byteLength(first)).toBeLessThanOrEqual(75);
+    expect(rest.every((line) => line.startsWith(" "))).toBe(true);
+    expect(folded.replace(/\r\n /g, "")).toBe(`SUMMARY:${"ñ".repeat(80)}`);
+  });
+
+  it("should only repeat the last occurrence of a series", () => {
+    const head = {
+      recurrenceRule: "RRULE:FREQ=MONTHLY;BYMONTHDAY=20;COUNT=12",
+      occurrenceIndex: 4,
+      status: "PENDING" as any,
+      dueRule: null,
+      taxScheduleCode: null,
+      nextObligation: null,
+    };
+
+    expect(remainingRecurrenceRule(head)).toBe(
+      "FREQ=MONTHLY;BYMONTHDAY=20;COUNT=9",
+    );
+    expect(
+      remainingRecurrenceRule({ ...head, nextObligation: { id: "obl-5" } }),
+    ).toBeUndefined();
+    expect(
+      remainingRecurrenceRule({ ...head, occurrenceIndex: 12 }),
+    ).toBeUndefined();
+    expect(
+      remainingRecurrenceRule({ ...head, recurrenceRule: "FREQ=YEARLY" }),
+    ).toBe("FREQ=YEARLY");
+    expect(
+      remainingRecurrenceRule({ ...head, dueRule: { day: 20 } }),
+    ).toBeUndefined();
+    expect(
+      remainingRecurrenceRule({ ...head, taxScheduleCode: "AFIP_IVA" }),
+    ).toBeUndefined();
+  });
+
+  it("should remind at the yellow and red thresholds", () => {
+    expect(thresholdAlarms(organization, "IVA")).toEqual([
+      { daysBefore: 15, description: "Vence en 15 días: IVA" },
+      { daysBefore: 7, description: "Vence en 7 días: IVA" },
+    ]);
+    expect(
+      thresholdAlarms({ thresholdYellowDays: 7, thresholdRedDays: 7 }, "IVA"),
+    ).toHaveLength(1);
+  });
+
+  it("should remind earlier for severities with their own thresholds", () => {
+    const withSeverity = {
+      ...organization,
+      severityThresholds: { CRITICAL: { yellowDays: 30, redDays: 15 } },
+    };
+
+    expect(
+      thresholdAlarms(withSeverity, "Bomberos", "CRITICAL" as any).map(
+        (a) => a.daysBefore,
+      ),
+    ).toEqual([30, 15]);
+    expect(
+      thresholdAlarms(withSeverity, "IVA").map((a) => a.daysBefore),
+    ).toEqual([15, 7]);
+  });
+});
+
+describe("CalendarFeedsService", () => {
+  let service: CalendarFeedsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConfigService.get.mockImplementation(
+      (key: string) =>
+        ({
+          API_PUBLIC_URL: "https://api.cumpliros.com/api/v1/",
+          FRONTEND_URL: "https://app.cumpliros.com",
+        })[key],
+    );
+    service = new CalendarFeedsService(
+      mockPrismaService as any,
+      mockAuditService as any,
+      mockConfigService as any,
+    );
+  });
+
+  describe("rotate", () => {
+    it("should store only the hash of the new token", async () => {
+      mockPrismaService.calendarFeed.upsert.mockImplementation(
+        ({ create }) => ({
+          id: "feed-1",
+          ...create,
+          createdAt: new Date("2025-07-01T00:00:00Z"),
+          lastAccessedAt: null,
+        }),
+      );
+
+      const result = await service.rotate("org-1", "user-1", "USER" as any);
+
+      const token = /\/calendar\/([\w-]+)\.ics$/.exec(result.url)![1];
+      expect(result.url).toBe(
+        `https://api.cumpliros.com/api/v1/calendar/${token}.ics`,
+      );
+      expect(mockPrismaService.calendarFeed.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({ tokenHash: hashFeedToken(token) }),
+          update: expect.objectContaining({
+            tokenHash: hashFeedToken(token),
+            lastAccessedAt: null,
+          }),
+        }),
+      );
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        "org-1",
+        "calendar_feed.rotated",
+        "CalendarFeed",
+        "feed-1",
+        "user-1",
+        { scope: "USER" },
+      );
+    });
+  });
+
+  describe("revoke", () => {
+    it("should fail when there is no active link", async () => {
+      mockPrismaService.calendarFeed.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.revoke("org-1", "user-1", "ORGANIZATION" as any),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.calendarFeed.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("renderFeed", () => {
+    const obligation = {
+      id: "obl-1",
+      title: "IVA, mensual",
+      description: null,
+      type: "TAX",
+      status: "PENDING",
+      dueDate: new Date("2025-07-20T00:00:00Z"),
+      recurrenceRule: "FREQ=MONTHLY;BYMONTHDAY=20",
+      occurrenceIndex: 1,
+      updatedAt: new Date("2025-07-01T09:30:00Z"),
+      owner: { fullName: "Ana Gómez" },
+      location: { name: "Local Centro" },
+      nextObligation: null,
+    };
+
+    const feed = (overrides: Record<string, unknown> = {}) => ({
+      id: "feed-1",
+      userId: "user-1",
+      organizationId: "org-1",
+      scope: "USER",
+      organization,
+      user: { active: true },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-07-10T12:00:00Z"));
+      mockPrismaService.userOrg.findUnique.mockResolvedValue({
+        role: "MANAGER",
+      });
+      mockPrismaService.obligation.findMany.mockResolvedValue([obligation]);
+      mockPrismaService.task.findMany.mockResolvedValue([
+        {
+          id: "task-1",
+          title: "Juntar facturas",
+          status: "OPEN",
+          dueDate: new Date("2025-07-18T00:00:00Z"),
+          updatedAt: new Date("2025-07-01T09:30:00Z"),
+          obligation: { title: "IVA, mensual" },
+        },
+      ]);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should render the obligations and tasks of the user", async () => {
+      mockPrismaService.calendarFeed.findUnique.mockResolvedValue(feed());
+
+      const ics = await service.renderFeed("token-1");
+
+      expect(mockPrismaService.calendarFeed.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { tokenHash: hashFeedToken("token-1") },
+        }),
+      );
+      expect(mockPrismaService.obligation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            OR: [
+              { ownerUserId: "user-1" },
+              { tasks: { some: { assignedToUserId: "user-1" } } },
+            ],
+          }),
+        }),
+      );
+      const lines = ics.split("\r\n");
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          "BEGIN:VCALENDAR",
+          "X-WR-CALNAME:CumpliRos - Mis vencimientos (Panadería Sur)",
+          "UID:obligation-obl-1@cumpliros",
+          "DTSTART;VALUE=DATE:20250720",
+          "DTEND;VALUE=DATE:20250721",
+          "SUMMARY:IVA\\, mensual",
+          "RRULE:FREQ=MONTHLY;BYMONTHDAY=20",
+          "TRIGGER:-P15D",
+          "TRIGGER:-P7D",
+          "UID:task-task-1@cumpliros",
+          "SUMMARY:Tarea: Juntar facturas",
+          "END:VCALENDAR",
+        ]),
+      );
+      expect(ics).toContain(
+        "DESCRIPTION:Tipo: Impuestos\\nEstado: Pendiente\\nResponsable: Ana Gómez",
+      );
+      expect(mockPrismaService.calendarFeed.update).toHaveBeenCalledWith({
+        where: { id: "feed-1" },
+        data: { lastAccessedAt: new Date("2025-07-10T12:00:00Z") },
+      });
+    });
+
+    it("should repeat the series from the nominal date when the occurrence was moved off a holiday", async () => {
+      mockPrismaService.calendarFeed.findUnique.mockResolvedValue(feed());
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        {
+          id: "obl-1",
+          title: "Tasa municipal",
+          description: null,
+          type: "TAX",
+          status: "PENDING",
+          // 20/06 is a holiday, moved to the next business day
+          nominalDueDate: new Date("2025-06-20T00:00:00Z"),
+          dueDate: new Date("2025-06-23T00:00:00Z"),
+          recurrenceRule: "FREQ=MONTHLY;BYMONTHDAY=20;COUNT=12",
+          occurrenceIndex: 4,
+          updatedAt: new Date("2025-06-01T09:30:00Z"),
+          owner: { fullName: "Ana Gómez" },
+          location: null,
+          nextObligation: null,
+        },
+      ]);
+
+      const lines = (await service.renderFeed("token-1")).split("\r\n");
+
+      const event = (uid: string) => {
+        const start = lines.indexOf(`UID:${uid}`);
+        return lines.slice(start, lines.indexOf("END:VEVENT", start));
+      };
+      const current = event("obligation-obl-1@cumpliros");
+      expect(current).toContain("DTSTART;VALUE=DATE:20250623");
+      expect(current.some((line) => line.startsWith("RRULE:"))).toBe(false);
+      expect(event("obligation-obl-1-series@cumpliros")).toEqual(
+        expect.arrayContaining([
+          "DTSTART;VALUE=DATE:20250720",
+          "RRULE:FREQ=MONTHLY;BYMONTHDAY=20;COUNT=8",
+        ]),
+      );
+    });
+
+    it("should not repeat series whose dates come from a due rule", async () => {
+      mockPrismaService.calendarFeed.findUnique.mockResolvedValue(feed());
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        { ...obligation, dueRule: { day: 20, businessDay: true } },
+      ]);
+
+      const ics = await service.renderFeed("token-1");
+
+      expect(ics).toContain("DTSTART;VALUE=DATE:20250720");
+      expect(ics).not.toContain("RRULE:");
+    });
+
+    it("should include the whole organization without tasks", async () => {
+      mockPrismaService.calendarFeed.findUnique.mockResolvedValue(
+        feed({ scope: "ORGANIZATION" }),
+      );
+
+      const ics = await service.renderFeed("token-1");
+
+      expect(ics).toContain("X-WR-CALNAME:CumpliRos - Panadería Sur");
+      expect(
+        mockPrismaService.obligation.findMany.mock.calls[0][0].where,
+      ).not.toHaveProperty("OR");
+      expect(mockPrismaService.task.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should stop serving the feed to former members", async () => {
+      mockPrismaService.calendarFeed.findUnique.mockResolvedValue(feed());
+      mockPrismaService.userOrg.findUnique.mockResolvedValue(null);
+
+      await expect(service.renderFeed("token-1")).rejects.toThrow(
+        "Calendario no encontrado",
+      );
+      expect(mockPrismaService.obligation.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject unknown tokens", async () => {
+      mockPrismaService.calendarFeed.findUnique.mockResolvedValue(null);
+
+      await expect(service.renderFeed("nope")).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,406 @@
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash, randomBytes } from "crypto";
+import {
+  CalendarFeed,
+  CalendarFeedScope,
+  Obligation,
+  ObligationStatus,
+  Organization,
+  Prisma,
+  TaskStatus,
+  TemplateSeverity,
+} from "@prisma/client";
+import { PrismaService } from "../common/prisma/prisma.service";
+import { AuditService } from "../audit/audit.service";
+import { AuditActions } from "../audit/dto/audit.dto";
+import {
+  getNextOccurrence,
+  parseRecurrenceRule,
+} from "../obligations/recurrence.service";
+import {
+  OBLIGATION_STATUS_LABELS,
+  OBLIGATION_TYPE_LABELS,
+} from "../obligations/obligation-labels";
+import { thresholdsFor } from "../obligations/obligation-risk";
+import { IcsAlarm, IcsEvent, renderCalendar } from "./ics";
+import {
+  CalendarFeedLinkResponseDto,
+  CalendarFeedResponseDto,
+} from "./dto/calendar-feed.dto";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const HISTORY_DAYS = 90; // past due dates kept in the feed
+const REFRESH_HOURS = 6;
+
+type FeedObligation = Obligation & {
+  owner: { fullName: string };
+  location: { name: string } | null;
+  nextObligation: { id: string } | null;
+};
+
+export function hashFeedToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * RRULE for the future occurrences of a series. Only the last generated
+ * occurrence carries it (earlier ones are events of their own) and COUNT is
+ * reduced by the occurrences that already exist. The rule repeats from the
+ * nominal due date, before any holiday shift. Series whose dates come from a
+ * due rule or a CUIT tax schedule get none: their dates don't follow the
+ * RRULE, so the feed only lists the occurrences already generated.
+ */
+export function remainingRecurrenceRule(
+  obligation: Pick<
+    Obligation,
+    | "recurrenceRule"
+    | "occurrenceIndex"
+    | "status"
+    | "dueRule"
+    | "taxScheduleCode"
+  > & { nextObligation: { id: string } | null },
+): string | undefined {
+  if (
+    !obligation.recurrenceRule ||
+    obligation.nextObligation ||
+    obligation.status === ObligationStatus.COMPLETED ||
+    obligation.dueRule ||
+    obligation.taxScheduleCode
+  ) {
+    return undefined;
+  }
+
+  const body = obligation.recurrenceRule
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .toUpperCase();
+  let count: number | undefined;
+  try {
+    count = parseRecurrenceRule(body).count;
+  } catch {
+    return undefined;
+  }
+  if (count === undefined) {
+    return body;
+  }
+
+  const remaining = count - obligation.occurrenceIndex + 1;
+  if (remaining <= 1) {
+    return undefined;
+  }
+  return withCount(body, remaining);
+}
+
+function withCount(rule: string, count: number): string {
+  return rule.replace(/COUNT=\d+/, `COUNT=${count}`);
+}
+
+// Reminders before the due date from the yellow and red thresholds of the
+// obligation's severity
+export function thresholdAlarms(
+  organization: Parameters<typeof thresholdsFor>[0],
+  title: string,
+  severity: TemplateSeverity = TemplateSeverity.MEDIUM,
+): IcsAlarm[] {
+  const { yellowDays, redDays } = thresholdsFor(organization, severity);
+  const days = [...new Set([yellowDays, redDays])].filter((d) => d > 0);
+
+  return days
+    .sort((a, b) => b - a)
+    .map((daysBefore) => ({
+      daysBefore,
+      description: `Vence en ${daysBefore} días: ${title}`,
+    }));
+}
+
+@Injectable()
+export class CalendarFeedsService {
+  private readonly logger = new Logger(CalendarFeedsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private configService: ConfigService,
+  ) {}
+
+  async list(
+    organizationId: string,
+    userId: string,
+  ): Promise<CalendarFeedResponseDto[]> {
+    const feeds = await this.prisma.calendarFeed.findMany({
+      where: { organizationId, userId },
+    });
+
+    return Object.values(CalendarFeedScope).map((scope) => {
+      const feed = feeds.find((f) => f.scope === scope);
+      return feed ? this.toResponseDto(feed) : { scope, active: false };
+    });
+  }
+
+  /**
+   * Generates a new link for the scope. Any previous one stops working:
+   * calendars subscribed with the old URL go empty.
+   */
+  async rotate(
+    organizationId: string,
+    userId: string,
+    scope: CalendarFeedScope,
+  ): Promise<CalendarFeedLinkResponseDto> {
+    const token = randomBytes(24).toString("base64url");
+    const tokenHash = hashFeedToken(token);
+
+    const feed = await this.prisma.calendarFeed.upsert({
+      where: {
+        userId_organizationId_scope: { userId, organizationId, scope },
+      },
+      create: { userId, organizationId, scope, tokenHash },
+      update: { tokenHash, createdAt: new Date(), lastAccessedAt: null },
+    });
+
+    await this.auditService.log(
+      organizationId,
+      AuditActions.CALENDAR_FEED_ROTATED,
+      "CalendarFeed",
+      feed.id,
+      userId,
+      { scope },
+    );
+
+    return { ...this.toResponseDto(feed), url: this.feedUrl(token) };
+  }
+
+  async revoke(
+    organizationId: string,
+    userId: string,
+    scope: CalendarFeedScope,
+  ): Promise<void> {
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: {
+        userId_organizationId_scope: { userId, organizationId, scope },
+      },
+    });
+
+    if (!feed) {
+      throw new NotFoundException("No hay un enlace de calendario activo");
+    }
+
+    await this.prisma.calendarFeed.delete({ where: { id: feed.id } });
+
+    await this.auditService.log(
+      organizationId,
+      AuditActions.CALENDAR_FEED_REVOKED,
+      "CalendarFeed",
+      feed.id,
+      userId,
+      { scope },
+    );
+  }
+
+  /**
+   * Builds the .ics for a token. The feed stops answering if the user is no
+   * longer a member of the organization or either of them was deactivated.
+   */
+  async renderFeed(token: string): Promise<string> {
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: { tokenHash: hashFeedToken(token) },
+      include: {
+        organization: true,
+        user: { select: { active: true } },
+      },
+    });
+
+    const membership =
+      feed &&
+      (await this.prisma.userOrg.findUnique({
+        where: {
+          userId_organizationId: {
+            userId: feed.userId,
+            organizationId: feed.organizationId,
+          },
+        },
+      }));
+
+    if (
+      !feed ||
+      !membership ||
+      !feed.organization.active ||
+      !feed.user.active
+    ) {
+      throw new NotFoundException("Calendario no encontrado");
+    }
+
+    const { organization, userId } = feed;
+    const since = new Date(Date.now() - HISTORY_DAYS * DAY_MS);
+    const byUser = feed.scope === CalendarFeedScope.USER;
+
+    const obligationWhere: Prisma.ObligationWhereInput = {
+      organizationId: organization.id,
+      status: { not: ObligationStatus.NOT_APPLICABLE },
+      dueDate: { gte: since },
+      ...(byUser && {
+        OR: [
+          { ownerUserId: userId },
+          { tasks: { some: { assignedToUserId: userId } } },
+        ],
+      }),
+    };
+
+    const obligations = await this.prisma.obligation.findMany({
+      where: obligationWhere,
+      include: {
+        owner: { select: { fullName: true } },
+        location: { select: { name: true } },
+        nextObligation: { select: { id: true } },
+      },
+      orderBy: { dueDate: "asc" },
+    });
+
+    const tasks = byUser
+      ? await this.prisma.task.findMany({
+          where: {
+            assignedToUserId: userId,
+            status: { not: TaskStatus.CANCELLED },
+            dueDate: { gte: since },
+            obligation: { organizationId: organization.id },
+          },
+          include: {
+            obligation: { select: { title: true, severity: true } },
+          },
+          orderBy: { dueDate: "asc" },
+        })
+      : [];
+
+    await this.prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: new Date() },
+    });
+
+    const appUrl = `${this.frontendUrl()}/dashboard/obligations`;
+    const events: IcsEvent[] = [
+      ...obligations.flatMap((o) =>
+        this.obligationEvents(o, organization, appUrl),
+      ),
+      ...tasks.map((task) => ({
+        uid: `task-${task.id}@cumpliros`,
+        date: task.dueDate!,
+        summary:
+          task.status === TaskStatus.COMPLETED
+            ? `[Tarea completada] ${task.title}`
+            : `Tarea: ${task.title}`,
+        description: `Obligación: ${task.obligation.title}`,
+        url: appUrl,
+        alarms:
+          task.status === TaskStatus.COMPLETED
+            ? []
+            : thresholdAlarms(
+                organization,
+                task.title,
+                task.obligation.severity,
+              ),
+        updatedAt: task.updatedAt,
+      })),
+    ];
+
+    this.logger.log(
+      `Calendar feed ${feed.id} served ${events.length} events (${feed.scope})`,
+    );
+
+    return renderCalendar({
+      name: byUser
+        ? `CumpliRos - Mis vencimientos (${organization.name})`
+        : `CumpliRos - ${organization.name}`,
+      description: `Vencimientos de ${organization.name} en CumpliRos`,
+      refreshHours: REFRESH_HOURS,
+      events,
+    });
+  }
+
+  private obligationEvents(
+    obligation: FeedObligation,
+    organization: Organization,
+    appUrl: string,
+  ): IcsEvent[] {
+    const done = obligation.status === ObligationStatus.COMPLETED;
+    const description = (status?: ObligationStatus) =>
+      [
+        `Tipo: ${OBLIGATION_TYPE_LABELS[obligation.type]}`,
+        ...(status ? [`Estado: ${OBLIGATION_STATUS_LABELS[status]}`] : []),
+        `Responsable: ${obligation.owner.fullName}`,
+        ...(obligation.location ? [`Sede: ${obligation.location.name}`] : []),
+        ...(obligation.description ? ["", obligation.description] : []),
+      ].join("\n");
+    const event: IcsEvent = {
+      uid: `obligation-${obligation.id}@cumpliros`,
+      date: obligation.dueDate,
+      summary: done
+        ? `[Cumplida] ${obligation.title}`
+        : obligation.status === ObligationStatus.OVERDUE
+          ? `[Vencida] ${obligation.title}`
+          : obligation.title,
+      description: description(obligation.status),
+      categories: [OBLIGATION_TYPE_LABELS[obligation.type]],
+      url: appUrl,
+      alarms: done
+        ? []
+        : thresholdAlarms(organization, obligation.title, obligation.severity),
+      updatedAt: obligation.updatedAt,
+    };
+
+    const rrule = remainingRecurrenceRule(obligation);
+    const nominal = obligation.nominalDueDate ?? obligation.dueDate;
+    if (!rrule || nominal.getTime() === obligation.dueDate.getTime()) {
+      return [{ ...event, rrule }];
+    }
+
+    // The current occurrence was moved off a holiday: it stays a concrete
+    // event and the series goes on from the next nominal due date.
+    const rule = parseRecurrenceRule(rrule);
+    const next = getNextOccurrence(rule, nominal);
+    if (!next) {
+      return [event];
+    }
+    return [
+      event,
+      {
+        ...event,
+        uid: `obligation-${obligation.id}-series@cumpliros`,
+        date: next,
+        summary: obligation.title,
+        description: description(),
+        rrule:
+          rule.count === undefined ? rrule : withCount(rrule, rule.count - 1),
+        alarms: thresholdAlarms(
+          organization,
+          obligation.title,
+          obligation.severity,
+        ),
+      },
+    ];
+  }
+
+  private feedUrl(token: string): string {
+    const port = this.configService.get<string>("PORT") || "3001";
+    const baseUrl =
+      this.configService.get<string>("API_PUBLIC_URL") ||
+      `http://localhost:${port}/api/v1`;
+    return `${baseUrl.replace(/\/$/, "")}/calendar/${token}.ics`;
+  }
+
+  private frontendUrl(): string {
+    return (
+      this.configService.get<string>("FRONTEND_URL") ||
+      this.configService.get<string>("CORS_ORIGINS")?.split(",")[0] ||
+      "http://localhost:3000"
+    );
+  }
+
+  private toResponseDto(feed: CalendarFeed): CalendarFeedResponseDto {
+    return {
+      scope: feed.scope,
+      active: true,
+      createdAt: feed.createdAt,
+      lastAccessedAt: feed.lastAccessedAt ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { Controller, Get, Param, Res } from "@nestjs/common";
+import { Response } from "express";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiProduces,
+} from "@nestjs/swagger";
+import { CalendarFeedsService } from "./calendar-feeds.service";
+import { Public } from "../common/decorators/public.decorator";
+
+// .ics feed for Google Calendar, Outlook, etc. The token in the URL is the
+// only credential: calendar clients don't send headers.
+@ApiTags("calendar")
+@Controller("calendar")
+export class CalendarController {
+  constructor(private readonly calendarFeedsService: CalendarFeedsService) {}
+
+  @Get(":token.ics")
+  @Public()
+  @ApiOperation({ summary: "Descargar el calendario de vencimientos" })
+  @ApiParam({ name: "token", type: "string" })
+  @ApiProduces("text/calendar")
+  @ApiResponse({ status: 200, description: "Archivo iCalendar" })
+  @ApiResponse({ status: 404, description: "Calendario no encontrado" })
+  async feed(
+    @Param("token") token: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const ics = await this.calendarFeedsService.renderFeed(token);
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", 'inline; filename="cumpliros.ics"');
+    res.setHeader("Cache-Control", "private, max-age=300");
+    res.send(ics);
+  }
+}
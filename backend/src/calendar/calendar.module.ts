@@ -0,0 +1,10 @@
+import { Module } from "@nestjs/common";
+import { CalendarFeedsService } from "./calendar-feeds.service";
+import { CalendarFeedsController } from "./calendar-feeds.controller";
+import { CalendarController } from "./calendar.controller";
+
+@Module({
+  controllers: [CalendarFeedsController, CalendarController],
+  providers: [CalendarFeedsService],
+})
+export class CalendarModule {}
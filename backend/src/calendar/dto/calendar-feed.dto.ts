@@ -0,0 +1,24 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { CalendarFeedScope } from "@prisma/client";
+
+export class CalendarFeedResponseDto {
+  @ApiProperty({ enum: CalendarFeedScope })
+  scope: CalendarFeedScope;
+
+  @ApiProperty({ description: "Hay un enlace vigente para este alcance" })
+  active: boolean;
+
+  @ApiPropertyOptional({ description: "Fecha en que se genero el enlace" })
+  createdAt?: Date;
+
+  @ApiPropertyOptional({ description: "Ultima descarga del calendario" })
+  lastAccessedAt?: Date;
+}
+
+export class CalendarFeedLinkResponseDto extends CalendarFeedResponseDto {
+  @ApiProperty({
+    example: "https://api.cumpliros.com/api/v1/calendar/Xk3...9Q.ics",
+    description: "URL de suscripcion. Solo se muestra al generarla",
+  })
+  url: string;
+}
@@ -0,0 +1,128 @@
+/**
+ * Minimal helpers to build iCalendar files (RFC 5545). Only covers what the
+ * feeds use: all-day events with alarms and recurrence rules.
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MAX_LINE_OCTETS = 75;
+
+export interface IcsAlarm {
+  daysBefore: number;
+  description: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  date: Date; // due date (@db.Date column, UTC midnight)
+  summary: string;
+  description?: string;
+  categories?: string[];
+  url?: string;
+  rrule?: string;
+  alarms?: IcsAlarm[];
+  updatedAt: Date;
+}
+
+export interface IcsCalendar {
+  name: string;
+  description?: string;
+  refreshHours: number;
+  events: IcsEvent[];
+}
+
+// Text with \, ; , and line breaks escaped
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Folds lines longer than 75 octets; the continuation starts with a space
+export function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+export function formatDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+}
+
+function eventLines(event: IcsEvent): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(event.updatedAt)}`,
+    `LAST-MODIFIED:${formatDateTime(event.updatedAt)}`,
+    `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+    `DTEND;VALUE=DATE:${formatDate(new Date(event.date.getTime() + DAY_MS))}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    "TRANSP:TRANSPARENT",
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.categories?.length) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  if (event.rrule) {
+    lines.push(`RRULE:${event.rrule}`);
+  }
+  for (const alarm of event.alarms ?? []) {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `TRIGGER:-P${alarm.daysBefore}D`,
+      `DESCRIPTION:${escapeText(alarm.description)}`,
+      "END:VALARM",
+    );
+  }
+  lines.push("END:VEVENT");
+
+  return lines;
+}
+
+export function renderCalendar(calendar: IcsCalendar): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//CumpliRos//Vencimientos//ES",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    ...(calendar.description
+      ? [`X-WR-CALDESC:${escapeText(calendar.description)}`]
+      : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshHours}H`,
+    `X-PUBLISHED-TTL:PT${calendar.refreshHours}H`,
+    ...calendar.events.flatMap(eventLines),
+    "END:VCALENDAR",
+  ];
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,22 @@
+import { ConsoleLogger } from "@nestjs/common";
+import { RequestContext } from "./request-context";
+
+// App logger: adds the request id and user to every line logged inside a
+// request, so it can be correlated with the audit log.
+export class ContextLogger extends ConsoleLogger {
+  protected formatContext(context: string): string {
+    const request = RequestContext.current();
+    if (!request) {
+      return super.formatContext(context);
+    }
+
+    const tags = [`req=${request.requestId}`];
+    if (request.userId) {
+      tags.push(`user=${request.userId}`);
+    }
+    if (request.impersonatedBy) {
+      tags.push(`impersonatedBy=${request.impersonatedBy}`);
+    }
+    return `${super.formatContext(context)}[${tags.join(" ")}] `;
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+import { RequestContext, requestContextMiddleware } from "./request-context";
+
+function mockRequest(headers: Record<string, string> = {}) {
+  return {
+    ip: "203.0.113.7",
+    get: (name: string) => headers[name.toLowerCase()],
+  } as any;
+}
+
+describe("RequestContext", () => {
+  it("should be empty outside a request", () => {
+    expect(RequestContext.current()).toBeUndefined();
+  });
+
+  it("should expose the request data inside the middleware chain", async () => {
+    const request = mockRequest({ "user-agent": "Mozilla/5.0" });
+    const response = { setHeader: vi.fn() } as any;
+
+    const context = await new Promise((resolve) =>
+      requestContextMiddleware(request, response, () => {
+        // Guards run after the middleware and fill in the user
+        request.user = { id: "user-1", impersonatedBy: "admin-1" };
+        request.organization = { organizationId: "org-1", role: "OWNER" };
+        setImmediate(() => resolve(RequestContext.current()));
+      }),
+    );
+
+    expect(context).toEqual({
+      requestId: request.requestId,
+      ipAddress: "203.0.113.7",
+      userAgent: "Mozilla/5.0",
+      userId: "user-1",
+      organizationId: "org-1",
+      impersonatedBy: "admin-1",
+    });
+    expect(response.setHeader).toHaveBeenCalledWith(
+      "x-request-id",
+      request.requestId,
+    );
+  });
+
+  it("should reuse a valid incoming request id only", () => {
+    const response = { setHeader: vi.fn() } as any;
+    const forwarded = mockRequest({ "x-request-id": "lb-1234.abcd" });
+    const injected = mockRequest({ "x-request-id": "bad id\nwith newline" });
+
+    requestContextMiddleware(forwarded, response, () => undefined);
+    requestContextMiddleware(injected, response, () => undefined);
+
+    expect(forwarded.requestId).toBe("lb-1234.abcd");
+    expect(injected.requestId).not.toContain("bad id");
+  });
+});
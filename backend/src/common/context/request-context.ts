@@ -0,0 +1,63 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { NextFunction, Response } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { AuthenticatedRequest } from "../interfaces/request.interface";
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Ids received from a proxy or client: accepted only if they look sane
+const INCOMING_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export interface RequestContextData {
+  requestId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  userId?: string;
+  organizationId?: string;
+  impersonatedBy?: string;
+}
+
+const storage = new AsyncLocalStorage<AuthenticatedRequest>();
+
+/**
+ * Context of the current request, available anywhere in the async chain
+ * without passing it around. The user and organization are read from the
+ * request on access: the guards fill them in, after the middleware. Outside a
+ * request (jobs) there is no context.
+ */
+export class RequestContext {
+  static current(): RequestContextData | undefined {
+    const request = storage.getStore();
+    if (!request) {
+      return undefined;
+    }
+
+    return {
+      requestId: request.requestId,
+      ipAddress: request.ip ?? request.socket?.remoteAddress,
+      userAgent: request.get("user-agent"),
+      userId: request.user?.id,
+      organizationId: request.organization?.organizationId,
+      impersonatedBy: request.user?.impersonatedBy,
+    };
+  }
+
+  static run<T>(request: AuthenticatedRequest, callback: () => T): T {
+    return storage.run(request, callback);
+  }
+}
+
+// Express middleware: assigns the correlation id (reusing the caller's when
+// valid), echoes it back and runs the rest of the request inside the context.
+export function requestContextMiddleware(
+  request: AuthenticatedRequest,
+  response: Response,
+  next: NextFunction,
+): void {
+  const incoming = request.get(REQUEST_ID_HEADER);
+  request.requestId =
+    incoming && INCOMING_REQUEST_ID.test(incoming) ? incoming : uuidv4();
+  response.setHeader(REQUEST_ID_HEADER, request.requestId);
+
+  RequestContext.run(request, next);
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  EmailDeliveryService,
+  MAX_DELIVERY_ATTEMPTS,
+  deliveryDedupeKey,
+  nextRetryAt,
+  parseDedupeWindows,
+} from "./email-delivery.service";
+
+const mockPrismaService = {
+  notificationDelivery: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+};
+
+const mockConfigService = {
+  get: vi.fn(),
+};
+
+const message = {
+  to: "Owner@Test.com",
+  subject: "2 obligaciones próximas a vencer",
+  text: "...",
+};
+
+describe("email delivery helpers", () => {
+  it("should override the dedupe windows from config", () => {
+    const windows = parseDedupeWindows(
+      "task_assigned=0, upcoming_obligations = 24,unknown=5,review_required=x",
+    );
+
+    expect(windows).toMatchObject({
+      task_assigned: 0,
+      upcoming_obligations: 24,
+      overdue_obligations: 72,
+      review_required: 24,
+    });
+  });
+
+  it("should build the same key regardless of entity order and case", () => {
+    expect(
+      deliveryDedupeKey(
+        "EMAIL" as any,
+        "Owner@Test.com",
+        "upcoming_obligations",
+        ["b", "a"],
+      ),
+    ).toBe(
+      deliveryDedupeKey(
+        "EMAIL" as any,
+        "owner@test.com",
+        "upcoming_obligations",
+        ["a", "b"],
+      ),
+    );
+  });
+
+  it("should back off exponentially until the attempts run out", () => {
+    const now = new Date("2025-07-07T10:00:00Z");
+
+    expect(nextRetryAt(1, now)).toEqual(new Date("2025-07-07T10:05:00Z"));
+    expect(nextRetryAt(3, now)).toEqual(new Date("2025-07-07T10:20:00Z"));
+    expect(nextRetryAt(MAX_DELIVERY_ATTEMPTS, now)).toBeNull();
+  });
+});
+
+describe("EmailDeliveryService", () => {
+  let service: EmailDeliveryService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConfigService.get.mockReturnValue(undefined);
+    service = new EmailDeliveryService(
+      mockPrismaService as any,
+      mockConfigService as any,
+    );
+    mockPrismaService.notificationDelivery.create.mockImplementation(
+      ({ data }) => ({ id: "del-new", attempts: 0, ...data }),
+    );
+  });
+
+  describe("begin", () => {
+    const delivery = {
+      organizationId: "org-1",
+      userId: "user-1",
+      template: "upcoming_obligations" as const,
+      entityIds: ["obl-1", "obl-2"],
+    };
+
+    it("should log a pending delivery with the rendered message", async () => {
+      mockPrismaService.notificationDelivery.findFirst.mockResolvedValue(null);
+
+      const logged = await service.begin(delivery, message);
+
+      expect(logged).toMatchObject({ id: "del-new" });
+      expect(
+        mockPrismaService.notificationDelivery.create,
+      ).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          organizationId: "org-1",
+          recipient: "Owner@Test.com",
+          template: "upcoming_obligations",
+          entityIds: ["obl-1", "obl-2"],
+          payload: message,
+        }),
+      });
+    });
+
+    it("should suppress a duplicate inside the window", async () => {
+      mockPrismaService.notificationDelivery.findFirst.mockResolvedValue({
+        id: "del-1",
+      });
+
+      const logged = await service.begin(delivery, message);
+
+      expect(logged).toBeNull();
+      expect(
+        mockPrismaService.notificationDelivery.create,
+      ).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          status: "SUPPRESSED",
+          error: "Duplicado de del-1",
+        }),
+      });
+    });
+
+    it("should count pending sends only until they time out and failed ones while they retry", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-07-10T12:00:00Z"));
+      mockPrismaService.notificationDelivery.findFirst.mockResolvedValue(null);
+
+      await service.begin(delivery, message);
+      vi.useRealTimers();
+
+      const { where } =
+        mockPrismaService.notificationDelivery.findFirst.mock.calls[0][0];
+      expect(where.createdAt).toEqual({
+        gte: new Date("2025-07-07T12:00:00Z"),
+      });
+      expect(where.OR).toEqual([
+        { status: "SENT" },
+        {
+          status: "PENDING",
+          createdAt: { gte: new Date("2025-07-10T11:45:00Z") },
+        },
+        { status: "FAILED", nextAttemptAt: { not: null } },
+      ]);
+    });
+
+    it("should not look for duplicates when the window is 0", async () => {
+      await service.begin(
+        { ...delivery, template: "review_rejected" },
+        message,
+      );
+
+      expect(
+        mockPrismaService.notificationDelivery.findFirst,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("complete", () => {
+    it("should schedule a retry for failed sends", async () => {
+      await service.complete(
+        { id: "del-1", attempts: 0 },
+        { success: false, error: "Rate limit" },
+      );
+
+      expect(
+        mockPrismaService.notificationDelivery.update,
+      ).toHaveBeenCalledWith({
+        where: { id: "del-1" },
+        data: {
+          status: "FAILED",
+          attempts: 1,
+          error: "Rate limit",
+          nextAttemptAt: expect.any(Date),
+        },
+      });
+    });
+
+    it("should store the provider message id of sent emails", async () => {
+      await service.complete(
+        { id: "del-1", attempts: 2 },
+        { success: true, messageId: "email-123" },
+      );
+
+      expect(
+        mockPrismaService.notificationDelivery.update,
+      ).toHaveBeenCalledWith({
+        where: { id: "del-1" },
+        data: expect.objectContaining({
+          status: "SENT",
+          attempts: 3,
+          providerMessageId: "email-123",
+          nextAttemptAt: null,
+        }),
+      });
+    });
+  });
+});
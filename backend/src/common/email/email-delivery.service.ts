@@ -0,0 +1,229 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash } from "crypto";
+import {
+  DeliveryStatus,
+  NotificationChannel,
+  NotificationDelivery,
+  Prisma,
+} from "@prisma/client";
+import { PrismaService } from "../prisma/prisma.service";
+
+export const EMAIL_TEMPLATES = [
+  "upcoming_obligations",
+  "overdue_obligations",
+  "review_required",
+  "review_rejected",
+  "task_assigned",
+  "obligation_escalated",
+  "scheduled_report",
+] as const;
+export type EmailTemplate = (typeof EMAIL_TEMPLATES)[number];
+
+// Organization, user and entities a notice refers to
+export interface EmailDeliveryTarget {
+  organizationId: string;
+  userId?: string;
+  entityIds: string[];
+}
+
+export interface EmailDelivery extends EmailDeliveryTarget {
+  template: EmailTemplate;
+}
+
+export interface EmailMessage {
+  to: string | string[];
+  subject: string;
+  html?: string;
+  text?: string;
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+// Hours during which the same notice isn't repeated (0 = no dedupe).
+// Can be overridden with EMAIL_DEDUPE_WINDOW_HOURS="task_assigned=0,...".
+export const DEFAULT_DEDUPE_WINDOW_HOURS: Record<EmailTemplate, number> = {
+  upcoming_obligations: 72,
+  overdue_obligations: 72,
+  review_required: 24,
+  review_rejected: 0,
+  task_assigned: 1,
+  obligation_escalated: 0, // each level is notified only once
+  scheduled_report: 0,
+};
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_MINUTES = 5;
+// A send still PENDING after this long was interrupted (e.g. a restart) and
+// no longer suppresses the same notice.
+const PENDING_TIMEOUT_MINUTES = 15;
+
+export function parseDedupeWindows(
+  value?: string,
+): Record<EmailTemplate, number> {
+  const windows = { ...DEFAULT_DEDUPE_WINDOW_HOURS };
+
+  for (const entry of (value ?? "").split(",")) {
+    const [template, hours] = entry.split("=").map((part) => part.trim());
+    if (
+      EMAIL_TEMPLATES.includes(template as EmailTemplate) &&
+      /^\d+$/.test(hours ?? "")
+    ) {
+      windows[template as EmailTemplate] = Number(hours);
+    }
+  }
+
+  return windows;
+}
+
+export function deliveryDedupeKey(
+  channel: NotificationChannel,
+  recipient: string,
+  template: string,
+  entityIds: string[],
+): string {
+  return createHash("sha256")
+    .update(
+      [
+        channel,
+        recipient.toLowerCase(),
+        template,
+        [...entityIds].sort().join(","),
+      ].join("|"),
+    )
+    .digest("hex");
+}
+
+// Exponential backoff: 5, 10, 20 and 40 minutes; then it gives up.
+export function nextRetryAt(attempts: number, now = new Date()): Date | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+    return null;
+  }
+  return new Date(
+    now.getTime() + RETRY_BASE_MINUTES * 2 ** (attempts - 1) * 60 * 1000,
+  );
+}
+
+@Injectable()
+export class EmailDeliveryService {
+  private readonly windows: Record<EmailTemplate, number>;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.windows = parseDedupeWindows(
+      this.configService.get<string>("EMAIL_DEDUPE_WINDOW_HOURS"),
+    );
+  }
+
+  /**
+   * Records a pending send. If the same notice was already sent, is being
+   * sent or has a retry scheduled within the window, it is stored as
+   * SUPPRESSED and null is returned.
+   * The other channels (WhatsApp, Telegram, webhook) use the same log.
+   */
+  async begin(
+    delivery: EmailDelivery,
+    message: EmailMessage,
+    channel: NotificationChannel = NotificationChannel.EMAIL,
+  ): Promise<NotificationDelivery | null> {
+    const recipient = [message.to].flat().join(", ");
+    const dedupeKey = deliveryDedupeKey(
+      channel,
+      recipient,
+      delivery.template,
+      delivery.entityIds,
+    );
+    const data = {
+      organizationId: delivery.organizationId,
+      userId: delivery.userId,
+      channel,
+      recipient,
+      template: delivery.template,
+      entityIds: delivery.entityIds,
+      dedupeKey,
+      payload: message as unknown as Prisma.InputJsonObject,
+    };
+
+    const windowHours = this.windows[delivery.template];
+    if (windowHours > 0) {
+      const previous = await this.prisma.notificationDelivery.findFirst({
+        where: {
+          dedupeKey,
+          createdAt: { gte: new Date(Date.now() - windowHours * 3600 * 1000) },
+          // Sent, being sent, or failed with a retry still scheduled
+          OR: [
+            { status: DeliveryStatus.SENT },
+            {
+              status: DeliveryStatus.PENDING,
+              createdAt: {
+                gte: new Date(Date.now() - PENDING_TIMEOUT_MINUTES * 60 * 1000),
+              },
+            },
+            { status: DeliveryStatus.FAILED, nextAttemptAt: { not: null } },
+          ],
+        },
+        select: { id: true },
+      });
+
+      if (previous) {
+        await this.prisma.notificationDelivery.create({
+          data: {
+            ...data,
+            status: DeliveryStatus.SUPPRESSED,
+            error: `Duplicado de ${previous.id}`,
+          },
+        });
+        return null;
+      }
+    }
+
+    return this.prisma.notificationDelivery.create({ data });
+  }
+
+  async complete(
+    delivery: Pick<NotificationDelivery, "id" | "attempts">,
+    result: EmailSendResult,
+  ): Promise<void> {
+    const attempts = delivery.attempts + 1;
+
+    await this.prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: result.success
+        ? {
+            status: DeliveryStatus.SENT,
+            attempts,
+            providerMessageId: result.messageId,
+            error: null,
+            nextAttemptAt: null,
+            sentAt: new Date(),
+          }
+        : {
+            status: DeliveryStatus.FAILED,
+            attempts,
+            error: result.error,
+            nextAttemptAt: nextRetryAt(attempts),
+          },
+    });
+  }
+
+  async findDueRetries(
+    channel: NotificationChannel = NotificationChannel.EMAIL,
+    limit = 50,
+  ): Promise<NotificationDelivery[]> {
+    return this.prisma.notificationDelivery.findMany({
+      where: {
+        channel,
+        status: DeliveryStatus.FAILED,
+        nextAttemptAt: { lte: new Date() },
+      },
+      orderBy: { nextAttemptAt: "asc" },
+      take: limit,
+    });
+  }
+}
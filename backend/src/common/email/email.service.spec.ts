@@ -14,6 +14,12 @@ vi.mock("resend", () => ({
 
 import { Resend } from "resend";
 
+const mockDeliveryService = {
+  begin: vi.fn(),
+  complete: vi.fn(),
+  findDueRetries: vi.fn(),
+};
+
 describe("EmailService", () => {
   let service: EmailService;
   let mockResendSend: any;
@@ -30,7 +36,10 @@ describe("EmailService", () => {
           return config[key];
         }),
       };
-      service = new EmailService(mockConfigService as any);
+      service = new EmailService(
+        mockConfigService as any,
+        mockDeliveryService as any,
+      );
     });
 
     it("should log emails in development mode", async () => {
@@ -66,7 +75,10 @@ describe("EmailService", () => {
           return config[key];
         }),
       };
-      service = new EmailService(mockConfigService as any);
+      service = new EmailService(
+        mockConfigService as any,
+        mockDeliveryService as any,
+      );
     });
 
     it("should send email successfully", async () => {
@@ -111,6 +123,73 @@ describe("EmailService", () => {
       expect(result).toBe(false);
     });
 
+    it("should skip duplicates of a logged delivery", async () => {
+      mockDeliveryService.begin.mockResolvedValue(null);
+
+      const result = await service.sendEmail({
+        to: "recipient@test.com",
+        subject: "Test",
+        text: "Test",
+        delivery: {
+          organizationId: "org-1",
+          template: "upcoming_obligations",
+          entityIds: ["obl-1"],
+        },
+      });
+
+      expect(result).toBe(false);
+      expect(mockResendSend).not.toHaveBeenCalled();
+      expect(mockDeliveryService.complete).not.toHaveBeenCalled();
+    });
+
+    it("should record the provider result of a logged delivery", async () => {
+      mockDeliveryService.begin.mockResolvedValue({ id: "del-1", attempts: 0 });
+      mockResendSend.mockResolvedValue({
+        data: { id: "email-123" },
+        error: null,
+      });
+
+      await service.sendEmail({
+        to: "recipient@test.com",
+        subject: "Test",
+        text: "Test",
+        delivery: {
+          organizationId: "org-1",
+          template: "task_assigned",
+          entityIds: ["task-1"],
+        },
+      });
+
+      expect(mockDeliveryService.complete).toHaveBeenCalledWith(
+        { id: "del-1", attempts: 0 },
+        { success: true, messageId: "email-123" },
+      );
+    });
+
+    it("should retry failed deliveries with their stored payload", async () => {
+      const failed = {
+        id: "del-1",
+        attempts: 1,
+        payload: { to: "recipient@test.com", subject: "Test", text: "Test" },
+      };
+      mockDeliveryService.findDueRetries.mockResolvedValue([failed]);
+      mockResendSend.mockResolvedValue({
+        data: null,
+        error: { message: "Rate limit" },
+      });
+
+      const sent = await service.retryFailedDeliveries();
+
+      expect(sent).toBe(0);
+      expect(mockResendSend).toHaveBeenCalledWith(
+        expect.objectContaining({ to: ["recipient@test.com"], text: "Test" }),
+      );
+      expect(mockDeliveryService.complete).toHaveBeenCalledWith(failed, {
+        success: false,
+        error: "Rate limit",
+      });
+    });
+
     it("should send to multiple recipients", async () => {
       mockResendSend.mockResolvedValue({
         data: { id: "email-123" },
@@ -153,7 +232,10 @@ describe("EmailService", () => {
           return config[key];
         }),
       };
-      service = new EmailService(mockConfigService as any);
+      service = new EmailService(
+        mockConfigService as any,
+        mockDeliveryService as any,
+      );
     });
 
     describe("sendUpcomingObligationsEmail", () => {
@@ -253,6 +335,44 @@ describe("EmailService", () => {
       });
     });
 
+    describe("sendTaskAssignedEmail", () => {
+      it("should send task assigned email", async () => {
+        const result = await service.sendTaskAssignedEmail(
+          "assignee@test.com",
+          "Ana Assignee",
+          "Test Organization",
+          "Juntar facturas",
+          "Tax Payment Q1",
+        );
+
+        expect(result).toBe(true);
+        expect(mockResendSend).toHaveBeenCalledWith(
+          expect.objectContaining({
+            subject: expect.stringContaining("Nueva tarea asignada"),
+          }),
+        );
+      });
+    });
+
+    describe("sendObligationEscalatedEmail", () => {
+      it("should send escalation email with the level", async () => {
+        const result = await service.sendObligationEscalatedEmail(
+          "admin@test.com",
+          "Admin",
+          "Test Organization",
+          { title: "Tax Payment Q1", ownerName: "Owner", daysOverdue: 3 },
+          2,
+        );
+
+        expect(result).toBe(true);
+        expect(mockResendSend).toHaveBeenCalledWith(
+          expect.objectContaining({
+            subject: expect.stringContaining("[ESCALAMIENTO 2]"),
+          }),
+        );
+      });
+    });
+
     describe("sendInvitationEmail", () => {
       it("should send invitation email with correct URL", async () => {
         const result = await service.sendInvitationEmail(
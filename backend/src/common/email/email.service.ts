@@ -1,6 +1,14 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { Resend } from "resend";
+import {
+  EmailDelivery,
+  EmailDeliveryService,
+  EmailDeliveryTarget,
+  EmailMessage,
+  EmailSendResult,
+  EmailTemplate,
+} from "./email-delivery.service";
 
 function escapeHtml(value: string): string {
   return value
@@ -15,13 +23,16 @@ function safeText(value: unknown): string {
   return escapeHtml(String(value ?? ""));
 }
 
-export interface EmailOptions {
-  to: string | string[];
-  subject: string;
-  html?: string;
-  text?: string;
+export interface EmailOptions extends EmailMessage {
+  // When given, the send is logged and deduplicated
+  delivery?: EmailDelivery;
 }
 
+const withTemplate = (
+  template: EmailTemplate,
+  target?: EmailDeliveryTarget,
+): EmailDelivery | undefined => target && { ...target, template };
+
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
@@ -29,7 +40,10 @@ export class EmailService {
   private from: string;
   private isEnabled: boolean;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private deliveryService: EmailDeliveryService,
+  ) {
     const apiKey = this.configService.get<string>("RESEND_API_KEY");
     this.from =
       this.configService.get<string>("EMAIL_FROM") ||
@@ -49,7 +63,46 @@ export class EmailService {
   }
 
   async sendEmail(options: EmailOptions): Promise<boolean> {
-    const { to, subject, html, text } = options;
+    const { delivery, ...message } = options;
+    if (!delivery) {
+      return (await this.transmit(message)).success;
+    }
+
+    const logged = await this.deliveryService.begin(delivery, message);
+    if (!logged) {
+      this.logger.log(
+        `Skipped duplicate ${delivery.template} email to ${[message.to].flat().join(", ")}`,
+      );
+      return false;
+    }
+
+    const result = await this.transmit(message);
+    await this.deliveryService.complete(logged, result);
+    return result.success;
+  }
+
+  /**
+   * Retry failed deliveries whose backoff has elapsed
+   */
+  async retryFailedDeliveries(): Promise<number> {
+    const deliveries = await this.deliveryService.findDueRetries();
+    let sent = 0;
+
+    for (const delivery of deliveries) {
+      const result = await this.transmit(
+        delivery.payload as unknown as EmailMessage,
+      );
+      await this.deliveryService.complete(delivery, result);
+      if (result.success) {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  private async transmit(message: EmailMessage): Promise<EmailSendResult> {
+    const { to, subject, html, text } = message;
     const recipients = Array.isArray(to) ? to : [to];
 
     // Development mode - just log the email
@@ -63,7 +116,7 @@ export class EmailService {
         `  Body: [omitted] (${text ? "text" : "html"} length=${(text || html || "").length})`,
       );
       this.logger.log("========================================");
-      return true;
+      return { success: true };
     }
 
     const basePayload = {
@@ -87,26 +140,29 @@ export class EmailService {
         sendResult = await this.resend.emails.send({ ...basePayload, text });
       } else {
         this.logger.error("Email payload missing html/text content");
-        return false;
+        return {
+          success: false,
+          error: "Email payload missing html/text content",
+        };
       }
 
       const { data, error } = sendResult;
 
       if (error) {
         this.logger.error(`Failed to send email: ${error.message}`, error);
-        return false;
+        return { success: false, error: error.message };
       }
 
       this.logger.log(
         `Email sent successfully: ${data?.id} to ${recipients.join(", ")}`,
       );
-      return true;
+      return { success: true, messageId: data?.id };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       const errorStack = error instanceof Error ? error.stack : undefined;
       this.logger.error(`Error sending email: ${errorMessage}`, errorStack);
-      return false;
+      return { success: false, error: errorMessage };
     }
   }
 
@@ -119,6 +175,7 @@ export class EmailService {
     organizationName: string,
     obligations: Array<{ title: string; daysUntilDue: number }>,
     urgentCount: number,
+    delivery?: EmailDeliveryTarget,
   ): Promise<boolean> {
     const subject =
       urgentCount > 0
@@ -153,7 +210,13 @@ export class EmailService {
 
     const text = `Hola ${recipientName},\n\nTienes ${obligations.length} obligación(es) próxima(s) a vencer en ${organizationName}:\n\n${obligations.map((o) => `- ${o.title} (vence en ${o.daysUntilDue} días)`).join("\n")}\n\nPor favor, revisa el panel de cumplimiento para más detalles.\n\nSaludos,\nCumpliRos`;
 
-    return this.sendEmail({ to, subject, html, text });
+    return this.sendEmail({
+      to,
+      subject,
+      html,
+      text,
+      delivery: withTemplate("upcoming_obligations", delivery),
+    });
   }
 
   /**
@@ -163,6 +226,7 @@ export class EmailService {
     to: string,
     organizationName: string,
     obligations: Array<{ title: string; ownerName: string }>,
+    delivery?: EmailDeliveryTarget,
   ): Promise<boolean> {
     const subject = `[VENCIDO] ${obligations.length} obligaciones vencidas - ${organizationName}`;
 
@@ -194,7 +258,13 @@ export class EmailService {
 
     const text = `Alerta: Obligaciones Vencidas\n\nHay ${obligations.length} obligación(es) vencida(s) en ${organizationName}:\n\n${obligations.map((o) => `- ${o.title} (responsable: ${o.ownerName})`).join("\n")}\n\nPor favor, tome acción inmediata.\n\nSaludos,\nCumpliRos`;
 
-    return this.sendEmail({ to, subject, html, text });
+    return this.sendEmail({
+      to,
+      subject,
+      html,
+      text,
+      delivery: withTemplate("overdue_obligations", delivery),
+    });
   }
 
   /**
@@ -205,6 +275,7 @@ export class EmailService {
     reviewerName: string,
     organizationName: string,
     obligationTitle: string,
+    delivery?: EmailDeliveryTarget,
   ): Promise<boolean> {
     const subject = `Revisión requerida: ${obligationTitle} - ${organizationName}`;
 
@@ -230,7 +301,13 @@ export class EmailService {
 
     const text = `Hola ${reviewerName},\n\nSe requiere tu revisión para la siguiente obligación:\n\nObligación: ${obligationTitle}\nOrganización: ${organizationName}\n\nPor favor, accede al panel de cumplimiento para revisar y aprobar o rechazar.\n\nSaludos,\nCumpliRos`;
 
-    return this.sendEmail({ to, subject, html, text });
+    return this.sendEmail({
+      to,
+      subject,
+      html,
+      text,
+      delivery: withTemplate("review_required", delivery),
+    });
   }
 
   /**
@@ -243,6 +320,7 @@ export class EmailService {
     obligationTitle: string,
     reviewerName: string,
     comment: string,
+    delivery?: EmailDeliveryTarget,
   ): Promise<boolean> {
     const subject = `Revisión rechazada: ${obligationTitle} - ${organizationName}`;
 
@@ -269,7 +347,155 @@ export class EmailService {
 
     const text = `Hola ${ownerName},\n\nLa revisión de la siguiente obligación ha sido rechazada:\n\nObligación: ${obligationTitle}\nRevisado por: ${reviewerName}\nObservaciones: ${comment}\n\nPor favor, corrige las observaciones y vuelve a enviar para revisión.\n\nSaludos,\nCumpliRos`;
 
-    return this.sendEmail({ to, subject, html, text });
+    return this.sendEmail({
+      to,
+      subject,
+      html,
+      text,
+      delivery: withTemplate("review_rejected", delivery),
+    });
+  }
+
+  /**
+   * Send a task assigned notification
+   */
+  async sendTaskAssignedEmail(
+    to: string,
+    assigneeName: string,
+    organizationName: string,
+    taskTitle: string,
+    obligationTitle: string,
+    delivery?: EmailDeliveryTarget,
+  ): Promise<boolean> {
+    const subject = `Nueva tarea asignada: ${taskTitle} - ${organizationName}`;
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1a1a1a;">Hola ${safeText(assigneeName)},</h2>
+
+        <p>Se te asignó una nueva tarea:</p>
+
+        <div style="background: #f0f9ff; padding: 20px; border-radius: 8px; border-left: 4px solid #0284c7;">
+          <p><strong>Tarea:</strong> ${safeText(taskTitle)}</p>
+          <p><strong>Obligación:</strong> ${safeText(obligationTitle)}</p>
+          <p><strong>Organización:</strong> ${safeText(organizationName)}</p>
+        </div>
+
+        <p>Accede al panel de cumplimiento para ver el detalle.</p>
+
+        <p style="color: #666; font-size: 14px; margin-top: 30px;">
+          Saludos,<br>
+          <strong>CumpliRos</strong>
+        </p>
+      </div>
+    `;
+
+    const text = `Hola ${assigneeName},\n\nSe te asignó una nueva tarea:\n\nTarea: ${taskTitle}\nObligación: ${obligationTitle}\nOrganización: ${organizationName}\n\nAccede al panel de cumplimiento para ver el detalle.\n\nSaludos,\nCumpliRos`;
+
+    return this.sendEmail({
+      to,
+      subject,
+      html,
+      text,
+      delivery: withTemplate("task_assigned", delivery),
+    });
+  }
+
+  /**
+   * Send an escalation notice for an obligation that is still overdue
+   */
+  async sendObligationEscalatedEmail(
+    to: string,
+    recipientName: string,
+    organizationName: string,
+    obligation: { title: string; ownerName: string; daysOverdue: number },
+    level: number,
+    delivery?: EmailDeliveryTarget,
+  ): Promise<boolean> {
+    const subject = `[ESCALAMIENTO ${level}] ${obligation.title} - ${organizationName}`;
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #dc2626;">Hola ${safeText(recipientName)},</h2>
+
+        <p>Una obligación de <strong>${safeText(organizationName)}</strong> sigue vencida y alcanzó el nivel de escalamiento <strong>${level}</strong>:</p>
+
+        <div style="background: #fef2f2; padding: 20px; border-radius: 8px; border-left: 4px solid #dc2626;">
+          <p><strong>Obligación:</strong> ${safeText(obligation.title)}</p>
+          <p><strong>Responsable:</strong> ${safeText(obligation.ownerName)}</p>
+          <p><strong>Días de vencida:</strong> ${obligation.daysOverdue}</p>
+        </div>
+
+        <p><strong>Por favor, tome acción inmediata.</strong></p>
+
+        <p style="color: #666; font-size: 14px; margin-top: 30px;">
+          Saludos,<br>
+          <strong>CumpliRos</strong>
+        </p>
+      </div>
+    `;
+
+    const text = `Hola ${recipientName},\n\nUna obligación de ${organizationName} sigue vencida y alcanzó el nivel de escalamiento ${level}:\n\nObligación: ${obligation.title}\nResponsable: ${obligation.ownerName}\nDías de vencida: ${obligation.daysOverdue}\n\nPor favor, tome acción inmediata.\n\nSaludos,\nCumpliRos`;
+
+    return this.sendEmail({
+      to,
+      subject,
+      html,
+      text,
+      delivery: withTemplate("obligation_escalated", delivery),
+    });
+  }
+
+  /**
+   * Send the download link of a scheduled report
+   */
+  async sendScheduledReportEmail(
+    to: string,
+    organizationName: string,
+    report: {
+      name: string;
+      fileName: string;
+      period: string;
+      downloadUrl: string;
+      expiresInDays: number;
+    },
+    delivery?: EmailDeliveryTarget,
+  ): Promise<boolean> {
+    const subject = `${report.name} - ${organizationName}`;
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1a1a1a;">${safeText(report.name)}</h2>
+
+        <p>Ya está disponible el reporte programado de <strong>${safeText(organizationName)}</strong> para el período <strong>${safeText(report.period)}</strong>.</p>
+
+        <div style="background: #f0f9ff; padding: 20px; border-radius: 8px; text-align: center; margin: 30px 0;">
+          <p>${safeText(report.fileName)}</p>
+          <a href="${safeText(report.downloadUrl)}" style="display: inline-block; background: #0284c7; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold; margin-top: 15px;">
+            Descargar reporte
+          </a>
+        </div>
+
+        <p style="color: #666; font-size: 14px;">
+          El enlace vence en ${report.expiresInDays} días. Después puedes descargarlo desde el historial de reportes en CumpliRos.
+        </p>
+
+        <p style="color: #666; font-size: 14px; margin-top: 30px;">
+          Saludos,<br>
+          <strong>CumpliRos</strong>
+        </p>
+      </div>
+    `;
+
+    const text = `${report.name}\n\nYa está disponible el reporte programado de ${organizationName} para el período ${report.period}.\n\nDescárgalo en: ${report.downloadUrl}\n\nEl enlace vence en ${report.expiresInDays} días. Después puedes descargarlo desde el historial de reportes en CumpliRos.\n\nSaludos,\nCumpliRos`;
+
+    return this.sendEmail({
+      to,
+      subject,
+      html,
+      text,
+      delivery: withTemplate("scheduled_report", delivery),
+    });
   }
 
   /**
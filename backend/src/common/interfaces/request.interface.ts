@@ -4,6 +4,7 @@ import { Role } from "@prisma/client";
 export interface JwtPayload {
   sub: string; // userId
   email: string;
+  act?: { sub: string }; // admin acting on behalf of the user
   iat?: number;
   exp?: number;
 }
@@ -12,6 +13,7 @@ export interface AuthenticatedUser {
   id: string;
   email: string;
   fullName: string;
+  impersonatedBy?: string;
 }
 
 export interface OrganizationContext {
@@ -22,4 +24,5 @@ export interface OrganizationContext {
 export interface AuthenticatedRequest extends Request {
   user: AuthenticatedUser;
   organization?: OrganizationContext;
+  requestId: string;
 }
@@ -43,3 +43,12 @@ export class PrismaService
     }
   }
 }
+
+// P2002: a concurrent write already inserted the row with that unique key
+export function isUniqueConstraintError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: unknown }).code === "P2002"
+  );
+}
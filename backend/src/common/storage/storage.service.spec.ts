@@ -20,7 +20,7 @@ vi.mock("@aws-sdk/s3-request-presigner", () => ({
   getSignedUrl: vi.fn(),
 }));
 
-import { S3Client } from "@aws-sdk/client-s3";
+import { PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 
 const mockConfigService = {
@@ -72,6 +72,16 @@ describe("StorageService", () => {
       expect(result).not.toContain("#");
       expect(result).not.toContain("$");
     });
+
+    it("should use the given folder", () => {
+      const result = service.generateFileKey(
+        "org-123",
+        "reporte.pdf",
+        "reports",
+      );
+
+      expect(result).toMatch(/^org\/org-123\/reports\/\d+_reporte\.pdf$/);
+    });
   });
 
   describe("getUploadUrl", () => {
@@ -126,6 +136,23 @@ describe("StorageService", () => {
     });
   });
 
+  describe("uploadFile", () => {
+    it("should put the file in the bucket", async () => {
+      mockS3Send.mockResolvedValue({});
+      const body = Buffer.from("a,b\n1,2");
+
+      await service.uploadFile("org/org-123/reports/r.csv", body, "text/csv");
+
+      expect(PutObjectCommand).toHaveBeenCalledWith({
+        Bucket: "test-bucket",
+        Key: "org/org-123/reports/r.csv",
+        Body: body,
+        ContentType: "text/csv",
+      });
+      expect(mockS3Send).toHaveBeenCalled();
+    });
+  });
+
   describe("deleteFile", () => {
     it("should delete file from S3", async () => {
       const fileKey = "org/org-123/docs/test.pdf";
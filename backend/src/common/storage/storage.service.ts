@@ -10,6 +10,8 @@ import {
   CreateBucketCommand,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { createHash } from "crypto";
+import { Readable } from "stream";
 
 export interface UploadUrlResponse {
   uploadUrl: string;
@@ -116,6 +118,25 @@ export class StorageService implements OnModuleInit {
     return signedUrl;
   }
 
+  /**
+   * Upload a file generated by the server (e.g. scheduled reports)
+   */
+  async uploadFile(
+    fileKey: string,
+    body: Buffer,
+    mimeType: string,
+  ): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: fileKey,
+      Body: body,
+      ContentType: mimeType,
+    });
+
+    await this.s3Client.send(command);
+    this.logger.debug(`File uploaded: ${fileKey}`);
+  }
+
   /**
    * Delete a file from S3
    */
@@ -149,12 +170,52 @@ export class StorageService implements OnModuleInit {
     };
   }
 
+  /**
+   * Compute the SHA-256 of a stored object, streaming it from S3.
+   */
+  async computeSha256(fileKey: string): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: fileKey,
+    });
+
+    const result = await this.s3Client.send(command);
+    const hash = createHash("sha256");
+    for await (const chunk of result.Body as Readable) {
+      hash.update(chunk);
+    }
+
+    return hash.digest("hex");
+  }
+
+  /**
+   * Read a whole stored object (server-generated files such as audit archives)
+   */
+  async getFile(fileKey: string): Promise<Buffer> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: fileKey,
+    });
+
+    const result = await this.s3Client.send(command);
+    const chunks: Buffer[] = [];
+    for await (const chunk of result.Body as Readable) {
+      chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
   /**
    * Generate a unique file key for storage
    */
-  generateFileKey(organizationId: string, fileName: string): string {
+  generateFileKey(
+    organizationId: string,
+    fileName: string,
+    folder: "docs" | "reports" | "audit" = "docs",
+  ): string {
     const timestamp = Date.now();
     const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, "_");
-    return `org/${organizationId}/docs/${timestamp}_${sanitizedFileName}`;
+    return `org/${organizationId}/${folder}/${timestamp}_${sanitizedFileName}`;
   }
 }
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatCuit,
+  getCuitError,
+  getTaxpayerKind,
+  isValidCuit,
+  normalizeCuit,
+} from "./cuit.validator";
+
+describe("CUIT validator", () => {
+  it("should accept CUITs with a valid check digit", () => {
+    expect(isValidCuit("30-71234567-1")).toBe(true);
+    expect(isValidCuit("20123456786")).toBe(true);
+    expect(isValidCuit("20.12345678.6")).toBe(true);
+  });
+
+  it("should explain why a CUIT is invalid", () => {
+    expect(getCuitError("20-12345678-9")).toBe("digito verificador incorrecto");
+    expect(getCuitError("11-12345678-9")).toBe("prefijo 11 desconocido");
+    expect(getCuitError("20-1234567-8")).toBe(
+      "debe tener 11 digitos (XX-XXXXXXXX-X)",
+    );
+    expect(getCuitError(20123456786)).toBe("debe ser texto");
+  });
+
+  it("should normalize and format CUITs", () => {
+    expect(normalizeCuit("30-71234567-1")).toBe("30712345671");
+    expect(formatCuit("30712345671")).toBe("30-71234567-1");
+    expect(formatCuit(" 30 71234567 1 ")).toBe("30-71234567-1");
+    expect(formatCuit("30-7123")).toBe("30-7123");
+  });
+
+  it("should classify the taxpayer kind by prefix", () => {
+    expect(getTaxpayerKind("20-12345678-6")).toBe("INDIVIDUAL");
+    expect(getTaxpayerKind("27-12345678-0")).toBe("INDIVIDUAL");
+    expect(getTaxpayerKind("30-71234567-1")).toBe("LEGAL_ENTITY");
+    expect(getTaxpayerKind("99-12345678-0")).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from "class-validator";
+import { TaxpayerKind } from "@prisma/client";
+
+// Check digit weights (modulo 11) over the first 10 digits
+const CHECK_WEIGHTS = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
+
+// CUIT/CUIL prefixes: individuals (20, 23, 24, 27) and legal entities (30, 33, 34)
+const PREFIX_KINDS: Record<string, TaxpayerKind> = {
+  "20": TaxpayerKind.INDIVIDUAL,
+  "23": TaxpayerKind.INDIVIDUAL,
+  "24": TaxpayerKind.INDIVIDUAL,
+  "27": TaxpayerKind.INDIVIDUAL,
+  "30": TaxpayerKind.LEGAL_ENTITY,
+  "33": TaxpayerKind.LEGAL_ENTITY,
+  "34": TaxpayerKind.LEGAL_ENTITY,
+};
+
+// Only the CUIT digits (accepts dashes, dots or spaces).
+export function normalizeCuit(value: string): string {
+  return value.replace(/[\s.-]/g, "");
+}
+
+// XX-XXXXXXXX-X format; returns the value unchanged if it doesn't have 11 digits.
+export function formatCuit(value: string): string {
+  const digits = normalizeCuit(value);
+  if (!/^\d{11}$/.test(digits)) {
+    return value;
+  }
+  return `${digits.slice(0, 2)}-${digits.slice(2, 10)}-${digits.slice(10)}`;
+}
+
+export function cuitCheckDigit(firstTenDigits: string): number {
+  const sum = CHECK_WEIGHTS.reduce(
+    (acc, weight, i) => acc + weight * Number(firstTenDigits[i]),
+    0,
+  );
+  const digit = 11 - (sum % 11);
+  // 11 means 0; 10 is invalid (AFIP assigns another prefix in that case)
+  return digit === 11 ? 0 : digit;
+}
+
+// Returns why the CUIT is invalid, or null if it is valid.
+export function getCuitError(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return "debe ser texto";
+  }
+
+  const digits = normalizeCuit(value);
+  if (!/^\d{11}$/.test(digits)) {
+    return "debe tener 11 digitos (XX-XXXXXXXX-X)";
+  }
+  if (!PREFIX_KINDS[digits.slice(0, 2)]) {
+    return `prefijo ${digits.slice(0, 2)} desconocido`;
+  }
+  if (cuitCheckDigit(digits) !== Number(digits[10])) {
+    return "digito verificador incorrecto";
+  }
+  return null;
+}
+
+export function isValidCuit(value: unknown): boolean {
+  return getCuitError(value) === null;
+}
+
+// Individual or legal entity from the prefix, or null if not recognized.
+export function getTaxpayerKind(cuit: string): TaxpayerKind | null {
+  return PREFIX_KINDS[normalizeCuit(cuit).slice(0, 2)] ?? null;
+}
+
+@ValidatorConstraint({ name: "isCuit" })
+export class IsCuitConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown): boolean {
+    return isValidCuit(value);
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return `CUIT invalido: ${getCuitError(args.value)}`;
+  }
+}
+
+export function IsCuit(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: IsCuitConstraint,
+    });
+  };
+}
@@ -1,8 +1,10 @@
 import { Module } from "@nestjs/common";
 import { DocumentsController } from "./documents.controller";
 import { DocumentsService } from "./documents.service";
+import { NotificationsModule } from "../notifications/notifications.module";
 
 @Module({
+  imports: [NotificationsModule],
   controllers: [DocumentsController],
   providers: [DocumentsService],
   exports: [DocumentsService],
@@ -7,6 +7,7 @@ const mockPrismaService = {
     create: vi.fn(),
     findFirst: vi.fn(),
     findMany: vi.fn(),
+    update: vi.fn(),
     delete: vi.fn(),
     count: vi.fn(),
   },
@@ -22,6 +23,7 @@ const mockStorageService = {
   getUploadUrl: vi.fn(),
   getDownloadUrl: vi.fn(),
   getObjectMetadata: vi.fn(),
+  computeSha256: vi.fn(),
   deleteFile: vi.fn(),
   generateFileKey: vi.fn(),
 };
@@ -30,6 +32,11 @@ const mockAuditService = {
   log: vi.fn(),
 };
 
+const mockNotificationsService = {
+  notifyReviewPending: vi.fn(),
+  dispatch: vi.fn(),
+};
+
 describe("DocumentsService", () => {
   let service: DocumentsService;
 
@@ -39,6 +46,7 @@ describe("DocumentsService", () => {
       mockPrismaService as any,
       mockStorageService as any,
       mockAuditService as any,
+      mockNotificationsService as any,
     );
   });
 
@@ -80,6 +88,54 @@ describe("DocumentsService", () => {
       expect(result.fileName).toBe(validFile.fileName);
     });
 
+    it("should store the hash of the uploaded file", async () => {
+      mockStorageService.getObjectMetadata.mockResolvedValue({
+        sizeBytes: 1024,
+        mimeType: "application/pdf",
+      });
+      mockStorageService.computeSha256.mockResolvedValue("a".repeat(64));
+      mockPrismaService.document.create.mockResolvedValue({
+        id: "doc-123",
+        ...validFile,
+        sha256: "a".repeat(64),
+      });
+
+      const result = await service.create(organizationId, userId, validFile);
+
+      expect(mockPrismaService.document.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ sha256: "a".repeat(64) }),
+        }),
+      );
+      expect(result.sha256).toBe("a".repeat(64));
+    });
+
+    it("should notify reviewers when evidence is attached to an obligation", async () => {
+      mockStorageService.getObjectMetadata.mockResolvedValue({
+        sizeBytes: 1024,
+        mimeType: "application/pdf",
+      });
+      mockPrismaService.obligation.findFirst.mockResolvedValue({
+        id: "obl-123",
+      });
+      mockPrismaService.document.create.mockResolvedValue({
+        id: "doc-123",
+        organizationId,
+        obligationId: "obl-123",
+        uploadedByUserId: userId,
+        ...validFile,
+        uploadedAt: new Date(),
+      });
+
+      await service.create(organizationId, userId, validFile, "obl-123");
+
+      expect(mockNotificationsService.notifyReviewPending).toHaveBeenCalledWith(
+        organizationId,
+        "obl-123",
+        userId,
+      );
+    });
+
     it("should throw BadRequestException for invalid MIME type", async () => {
       const invalidFile = { ...validFile, mimeType: "application/exe" };
 
@@ -277,4 +333,28 @@ describe("DocumentsService", () => {
       );
     });
   });
+
+  describe("hashMissingDocuments", () => {
+    it("should hash the documents without a hash and skip unreadable files", async () => {
+      mockPrismaService.document.findMany.mockResolvedValue([
+        { id: "doc-1", fileKey: "org/doc-1.pdf" },
+        { id: "doc-2", fileKey: "org/doc-2.pdf" },
+      ]);
+      mockStorageService.computeSha256
+        .mockResolvedValueOnce("a".repeat(64))
+        .mockRejectedValueOnce(new Error("NoSuchKey"));
+
+      const hashed = await service.hashMissingDocuments();
+
+      expect(hashed).toBe(1);
+      expect(mockPrismaService.document.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { sha256: null } }),
+      );
+      expect(mockPrismaService.document.update).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.document.update).toHaveBeenCalledWith({
+        where: { id: "doc-1" },
+        data: { sha256: "a".repeat(64) },
+      });
+    });
+  });
 });
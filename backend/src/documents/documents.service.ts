@@ -10,6 +10,8 @@ import { PrismaService } from "../common/prisma/prisma.service";
 import { StorageService } from "../common/storage/storage.service";
 import { AuditService } from "../audit/audit.service";
 import { AuditActions } from "../audit/dto/audit.dto";
+import { diffEntity } from "../audit/audit-diff";
+import { NotificationsService } from "../notifications/notifications.service";
 import { DocumentResponseDto, DocumentFilterDto } from "./dto/document.dto";
 import {
   PaginationDto,
@@ -38,6 +40,9 @@ const ALLOWED_MIME_TYPES = Object.keys(MIME_TYPE_EXTENSIONS);
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
 
+// Documents read per query by the hash backfill
+const HASH_BATCH_SIZE = 100;
+
 type DocumentWithUploader = Prisma.DocumentGetPayload<{
   include: {
     uploadedBy: { select: { id: true; fullName: true; email: true } };
@@ -52,6 +57,7 @@ export class DocumentsService {
     private prisma: PrismaService,
     private storageService: StorageService,
     private auditService: AuditService,
+    private notificationsService: NotificationsService,
   ) {}
 
   async create(
@@ -150,6 +156,16 @@ export class DocumentsService {
       );
     }
 
+    // Best-effort: hashMissingDocuments retries it later
+    let sha256: string | null = null;
+    try {
+      sha256 = await this.storageService.computeSha256(file.fileKey);
+    } catch (error) {
+      this.logger.warn(
+        `Could not hash upload ${file.fileKey}: ${this.formatErrorMessage(error)}`,
+      );
+    }
+
     // Verify obligation belongs to organization if provided
     if (obligationId) {
       const obligation = await this.prisma.obligation.findFirst({
@@ -180,6 +196,7 @@ export class DocumentsService {
         fileKey: file.fileKey,
         mimeType: actualMimeType,
         sizeBytes: actualSize,
+        sha256,
       },
       include: {
         uploadedBy: { select: { id: true, fullName: true, email: true } },
@@ -197,11 +214,24 @@ export class DocumentsService {
         fileKey: document.fileKey,
         mimeType: document.mimeType,
         sizeBytes: document.sizeBytes,
+        sha256: document.sha256 ?? undefined,
         obligationId: document.obligationId ?? undefined,
         taskId: document.taskId ?? undefined,
+        changes: diffEntity("Document", null, document),
       },
     );
 
+    if (document.obligationId) {
+      this.notificationsService.dispatch(
+        this.notificationsService.notifyReviewPending(
+          organizationId,
+          document.obligationId,
+          userId,
+        ),
+        `pending review of obligation ${document.obligationId}`,
+      );
+    }
+
     return this.enrichDocument(document);
   }
 
@@ -296,7 +326,11 @@ export class DocumentsService {
       "Document",
       documentId,
       userId,
-      { fileName: document.fileName, fileKey: document.fileKey },
+      {
+        fileName: document.fileName,
+        fileKey: document.fileKey,
+        changes: diffEntity("Document", document, null),
+      },
     );
   }
 
@@ -381,6 +415,7 @@ export class DocumentsService {
             fileName: document.fileName,
             fileKey: document.fileKey,
             reason: "retention_policy",
+            changes: diffEntity("Document", document, null),
           },
         );
       }
@@ -395,6 +430,45 @@ export class DocumentsService {
     return totalDeleted;
   }
 
+  // Job: hash the evidence uploaded before hashes were stored, or whose
+  // hash failed at upload. Unreadable files are skipped until the next run.
+  async hashMissingDocuments(): Promise<number> {
+    let hashed = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const documents = await this.prisma.document.findMany({
+        where: { sha256: null },
+        select: { id: true, fileKey: true },
+        orderBy: { id: "asc" },
+        take: HASH_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      for (const document of documents) {
+        try {
+          const sha256 = await this.storageService.computeSha256(
+            document.fileKey,
+          );
+          await this.prisma.document.update({
+            where: { id: document.id },
+            data: { sha256 },
+          });
+          hashed++;
+        } catch (error) {
+          this.logger.warn(
+            `Could not hash document ${document.id}: ${this.formatErrorMessage(error)}`,
+          );
+        }
+      }
+
+      if (documents.length < HASH_BATCH_SIZE) {
+        return hashed;
+      }
+      cursor = documents[documents.length - 1].id;
+    }
+  }
+
   private async enrichDocument(
     document: DocumentWithUploader,
     includeSignedUrl = false,
@@ -409,6 +483,7 @@ export class DocumentsService {
       fileKey: document.fileKey,
       mimeType: document.mimeType,
       sizeBytes: document.sizeBytes,
+      sha256: document.sha256 ?? undefined,
       uploadedAt: document.uploadedAt,
       uploadedBy: document.uploadedBy ?? undefined,
     };
@@ -88,6 +88,9 @@ export class DocumentResponseDto {
   @ApiProperty()
   sizeBytes: number;
 
+  @ApiPropertyOptional({ description: "SHA-256 del archivo" })
+  sha256?: string;
+
   @ApiProperty()
   uploadedAt: Date;
 
@@ -0,0 +1,109 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { Role } from "@prisma/client";
+
+export class EscalationStepDto {
+  @ApiProperty({
+    example: 3,
+    description: "Dias de vencida para alcanzar el paso (0 = el dia que vence)",
+  })
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  afterDays: number;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: "Avisar al responsable de la obligacion",
+  })
+  @IsOptional()
+  @IsBoolean()
+  notifyOwner?: boolean;
+
+  @ApiPropertyOptional({ enum: Role, isArray: true, example: [Role.ADMIN] })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(Role, { each: true })
+  notifyRoles?: Role[];
+
+  @ApiPropertyOptional({
+    default: false,
+    description: "Marcar la obligacion como critica en el dashboard",
+  })
+  @IsOptional()
+  @IsBoolean()
+  markCritical?: boolean;
+}
+
+export class UpdateEscalationPolicyDto {
+  @ApiProperty({
+    type: [EscalationStepDto],
+    description:
+      "Pasos en orden de dias crecientes. Una lista vacia vuelve a la politica por defecto",
+  })
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => EscalationStepDto)
+  steps: EscalationStepDto[];
+}
+
+export class EscalationStepResponseDto {
+  @ApiProperty({ example: 1 })
+  level: number;
+
+  @ApiProperty()
+  afterDays: number;
+
+  @ApiProperty()
+  notifyOwner: boolean;
+
+  @ApiProperty({ enum: Role, isArray: true })
+  notifyRoles: Role[];
+
+  @ApiProperty()
+  markCritical: boolean;
+}
+
+export class EscalationPolicyResponseDto {
+  @ApiProperty({ type: [EscalationStepResponseDto] })
+  steps: EscalationStepResponseDto[];
+
+  @ApiProperty({
+    description: "true si la organizacion usa la politica por defecto",
+  })
+  isDefault: boolean;
+}
+
+export class ObligationEscalationResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  level: number;
+
+  @ApiProperty()
+  daysOverdue: number;
+
+  @ApiProperty({ type: [String] })
+  notifiedUserIds: string[];
+
+  @ApiProperty()
+  markedCritical: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+}
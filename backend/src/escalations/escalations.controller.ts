@@ -0,0 +1,53 @@
+import { Body, Controller, Get, Param, Put, UseGuards } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { Role } from "@prisma/client";
+import { EscalationsService } from "./escalations.service";
+import {
+  EscalationPolicyResponseDto,
+  UpdateEscalationPolicyDto,
+} from "./dto/escalation.dto";
+import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
+import { OrganizationGuard } from "../common/guards/organization.guard";
+import { RolesGuard } from "../common/guards/roles.guard";
+import { Roles } from "../common/decorators/roles.decorator";
+import { CurrentUser } from "../common/decorators/current-user.decorator";
+import { AuthenticatedUser } from "../common/interfaces/request.interface";
+
+@ApiTags("escalations")
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, OrganizationGuard)
+@Controller("organizations/:organizationId/escalation-policy")
+export class EscalationsController {
+  constructor(private readonly escalationsService: EscalationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Obtener la politica de escalamiento" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: EscalationPolicyResponseDto })
+  async get(
+    @Param("organizationId") organizationId: string,
+  ): Promise<EscalationPolicyResponseDto> {
+    return this.escalationsService.getPolicy(organizationId);
+  }
+
+  @Put()
+  @UseGuards(RolesGuard)
+  @Roles(Role.OWNER)
+  @ApiOperation({ summary: "Reemplazar la politica de escalamiento" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: EscalationPolicyResponseDto })
+  @ApiResponse({ status: 400, description: "Datos inválidos" })
+  async update(
+    @Param("organizationId") organizationId: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: UpdateEscalationPolicyDto,
+  ): Promise<EscalationPolicyResponseDto> {
+    return this.escalationsService.updatePolicy(organizationId, dto, user.id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { EscalationsService } from "./escalations.service";
+import { EscalationsController } from "./escalations.controller";
+import { NotificationsModule } from "../notifications/notifications.module";
+import { JurisdictionsModule } from "../jurisdictions/jurisdictions.module";
+
+@Module({
+  imports: [NotificationsModule, JurisdictionsModule],
+  controllers: [EscalationsController],
+  providers: [EscalationsService],
+  exports: [EscalationsService],
+})
+export class EscalationsModule {}
@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { BadRequestException } from "@nestjs/common";
+import {
+  DEFAULT_ESCALATION_POLICY,
+  EscalationsService,
+  escalationRecipients,
+  reachedSteps,
+} from "./escalations.service";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "../notifications/notification-preferences.service";
+import { NotificationChannelsService } from "../notifications/channels/notification-channels.service";
+import { EmailChannel } from "../notifications/channels/email.channel";
+
+const mockPrismaService = {
+  organization: {
+    findMany: vi.fn(),
+  },
+  obligation: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+  },
+  userOrg: {
+    findMany: vi.fn(),
+  },
+  escalationStep: {
+    findMany: vi.fn(),
+    deleteMany: vi.fn(),
+    createMany: vi.fn(),
+  },
+  obligationEscalation: {
+    createMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
+};
+
+const mockAuditService = {
+  log: vi.fn(),
+};
+
+const mockEmailService = {
+  sendObligationEscalatedEmail: vi.fn(),
+};
+
+const disabledChannel = { isEnabled: () => false };
+
+const mockBusinessCalendarService = {
+  getCalendarForOrganization: vi.fn(),
+};
+
+const mockNotificationsService = {
+  createInApp: vi.fn(),
+};
+
+const mockPreferencesService = {
+  getForUsers: vi.fn(),
+};
+
+const members = [
+  {
+    userId: "user-1",
+    role: "MANAGER",
+    user: { email: "manager@test.com", fullName: "Manager" },
+  },
+  {
+    userId: "user-2",
+    role: "ADMIN",
+    user: { email: "admin@test.com", fullName: "Admin" },
+  },
+  {
+    userId: "user-3",
+    role: "OWNER",
+    user: { email: "owner@test.com", fullName: "Owner" },
+  },
+];
+
+describe("escalation helpers", () => {
+  it("should return the steps reached and not applied yet", () => {
+    expect(
+      reachedSteps(DEFAULT_ESCALATION_POLICY, 1, 8).map((s) => s.level),
+    ).toEqual([2, 3]);
+    expect(reachedSteps(DEFAULT_ESCALATION_POLICY, 3, 8)).toEqual([]);
+  });
+
+  it("should resolve the recipients of a step by role", () => {
+    expect(
+      escalationRecipients(
+        DEFAULT_ESCALATION_POLICY[2],
+        "user-1",
+        members as any,
+      ),
+    ).toEqual(["user-3"]);
+    expect(
+      escalationRecipients(
+        { ...DEFAULT_ESCALATION_POLICY[1], notifyOwner: true },
+        "user-2",
+        members as any,
+      ),
+    ).toEqual(["user-2"]);
+  });
+});
+
+describe("EscalationsService", () => {
+  let service: EscalationsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new EscalationsService(
+      mockPrismaService as any,
+      mockAuditService as any,
+      new NotificationChannelsService(
+        new EmailChannel(mockEmailService as any),
+        disabledChannel as any,
+        disabledChannel as any,
+        disabledChannel as any,
+      ),
+      mockBusinessCalendarService as any,
+      mockNotificationsService as any,
+      mockPreferencesService as any,
+    );
+    mockBusinessCalendarService.getCalendarForOrganization.mockResolvedValue(
+      null,
+    );
+    mockPrismaService.escalationStep.findMany.mockResolvedValue([]);
+    mockPreferencesService.getForUsers.mockResolvedValue(new Map());
+  });
+
+  describe("getPolicy", () => {
+    it("should fall back to the default policy", async () => {
+      const result = await service.getPolicy("org-1");
+
+      expect(result).toEqual({
+        steps: DEFAULT_ESCALATION_POLICY,
+        isDefault: true,
+      });
+    });
+  });
+
+  describe("updatePolicy", () => {
+    it("should replace the steps numbering them in order", async () => {
+      const result = await service.updatePolicy(
+        "org-1",
+        {
+          steps: [
+            { afterDays: 1, notifyOwner: true },
+            { afterDays: 5, notifyRoles: ["OWNER" as any], markCritical: true },
+          ],
+        },
+        "user-3",
+      );
+
+      expect(result.isDefault).toBe(false);
+      expect(mockPrismaService.escalationStep.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            organizationId: "org-1",
+            level: 1,
+            afterDays: 1,
+            notifyOwner: true,
+            notifyRoles: [],
+            markCritical: false,
+          },
+          {
+            organizationId: "org-1",
+            level: 2,
+            afterDays: 5,
+            notifyOwner: false,
+            notifyRoles: ["OWNER"],
+            markCritical: true,
+          },
+        ],
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        "org-1",
+        "organization.escalation_policy_updated",
+        "Organization",
+        "org-1",
+        "user-3",
+        expect.any(Object),
+      );
+    });
+
+    it("should reject steps that are not in increasing order", async () => {
+      await expect(
+        service.updatePolicy("org-1", {
+          steps: [
+            { afterDays: 5, notifyOwner: true },
+            { afterDays: 5, markCritical: true },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should reject steps that do nothing", async () => {
+      await expect(
+        service.updatePolicy("org-1", { steps: [{ afterDays: 2 }] }),
+      ).rejects.toThrow("El paso 1 debe notificar");
+    });
+  });
+
+  describe("escalateOverdueObligations", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-07-15T10:00:00Z"));
+      mockPrismaService.organization.findMany.mockResolvedValue([
+        { id: "org-1", name: "Org 1", active: true },
+      ]);
+      mockPrismaService.userOrg.findMany.mockResolvedValue(members);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const overdue = (overrides: Record<string, unknown> = {}) => ({
+      id: "obl-1",
+      title: "Overdue Tax",
+      ownerUserId: "user-1",
+      dueDate: new Date("2025-07-07T00:00:00Z"), // 8 days overdue
+      escalationLevel: 1,
+      critical: false,
+      owner: { email: "manager@test.com", fullName: "Manager" },
+      ...overrides,
+    });
+
+    it("should apply every step reached since the last run", async () => {
+      mockPrismaService.obligation.findMany.mockResolvedValue([overdue()]);
+
+      const result = await service.escalateOverdueObligations();
+
+      expect(result).toBe(1);
+      expect(
+        mockPrismaService.obligationEscalation.createMany,
+      ).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            level: 2,
+            daysOverdue: 8,
+            notifiedUserIds: ["user-2"],
+          }),
+          expect.objectContaining({ level: 3, notifiedUserIds: ["user-3"] }),
+        ],
+      });
+      expect(mockPrismaService.obligation.update).toHaveBeenCalledWith({
+        where: { id: "obl-1" },
+        data: { escalationLevel: 3, critical: false },
+      });
+      expect(mockNotificationsService.createInApp).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            userId: "user-2",
+            title: "Escalamiento nivel 3: Overdue Tax",
+          }),
+          expect.objectContaining({ userId: "user-3" }),
+        ],
+        false,
+      );
+      expect(
+        mockEmailService.sendObligationEscalatedEmail,
+      ).toHaveBeenCalledWith(
+        "admin@test.com",
+        "Admin",
+        "Org 1",
+        { title: "Overdue Tax", ownerName: "Manager", daysOverdue: 8 },
+        3,
+        { organizationId: "org-1", userId: "user-2", entityIds: ["obl-1"] },
+      );
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        "org-1",
+        "obligation.escalated",
+        "Obligation",
+        "obl-1",
+        undefined,
+        expect.objectContaining({ from: 1, to: 3 }),
+      );
+    });
+
+    it("should mark the obligation as critical", async () => {
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        overdue({
+          dueDate: new Date("2025-06-25T00:00:00Z"),
+          escalationLevel: 3,
+        }),
+      ]);
+
+      await service.escalateOverdueObligations();
+
+      expect(mockPrismaService.obligation.update).toHaveBeenCalledWith({
+        where: { id: "obl-1" },
+        data: { escalationLevel: 4, critical: true },
+      });
+      expect(mockNotificationsService.createInApp).not.toHaveBeenCalled();
+    });
+
+    it("should not notify when the new level fails to commit", async () => {
+      mockPrismaService.obligation.findMany.mockResolvedValue([overdue()]);
+      mockPrismaService.$transaction.mockRejectedValueOnce(
+        new Error("deadlock detected"),
+      );
+
+      await expect(service.escalateOverdueObligations()).rejects.toThrow(
+        "deadlock detected",
+      );
+      expect(mockNotificationsService.createInApp).not.toHaveBeenCalled();
+      expect(
+        mockEmailService.sendObligationEscalatedEmail,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("should not repeat levels already applied", async () => {
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        overdue({ escalationLevel: 3 }),
+      ]);
+
+      const result = await service.escalateOverdueObligations();
+
+      expect(result).toBe(0);
+      expect(
+        mockPrismaService.obligationEscalation.createMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("should skip the email for users that turned it off", async () => {
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        overdue({ escalationLevel: 0 }),
+      ]);
+      mockPreferencesService.getForUsers.mockResolvedValue(
+        new Map([
+          [
+            "user-1",
+            { ...DEFAULT_NOTIFICATION_SETTINGS, channels: ["IN_APP" as any] },
+          ],
+        ]),
+      );
+
+      await service.escalateOverdueObligations();
+
+      expect(
+        mockEmailService.sendObligationEscalatedEmail,
+      ).toHaveBeenCalledTimes(2);
+      expect(
+        mockEmailService.sendObligationEscalatedEmail,
+      ).not.toHaveBeenCalledWith(
+        "manager@test.com",
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+  });
+});
@@ -0,0 +1,373 @@
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import {
+  EscalationStep,
+  NotificationChannel,
+  NotificationSeverity,
+  NotificationType,
+  Obligation,
+  ObligationStatus,
+  Organization,
+  Role,
+} from "@prisma/client";
+import { PrismaService } from "../common/prisma/prisma.service";
+import { AuditService } from "../audit/audit.service";
+import { AuditActions } from "../audit/dto/audit.dto";
+import { diffEntity } from "../audit/audit-diff";
+import {
+  BusinessCalendar,
+  BusinessCalendarService,
+} from "../jurisdictions/business-calendar.service";
+import { NotificationsService } from "../notifications/notifications.service";
+import { NotificationChannelsService } from "../notifications/channels/notification-channels.service";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationPreferencesService,
+  acceptsEvent,
+  acceptsNotification,
+} from "../notifications/notification-preferences.service";
+import {
+  EscalationPolicyResponseDto,
+  UpdateEscalationPolicyDto,
+} from "./dto/escalation.dto";
+
+export type EscalationPolicyStep = Pick<
+  EscalationStep,
+  "level" | "afterDays" | "notifyOwner" | "notifyRoles" | "markCritical"
+>;
+
+// Policy for organizations that haven't configured their own
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicyStep[] = [
+  {
+    level: 1,
+    afterDays: 0,
+    notifyOwner: true,
+    notifyRoles: [],
+    markCritical: false,
+  },
+  {
+    level: 2,
+    afterDays: 3,
+    notifyOwner: false,
+    notifyRoles: [Role.ADMIN],
+    markCritical: false,
+  },
+  {
+    level: 3,
+    afterDays: 7,
+    notifyOwner: false,
+    notifyRoles: [Role.OWNER, Role.ACCOUNTANT],
+    markCritical: false,
+  },
+  {
+    level: 4,
+    afterDays: 15,
+    notifyOwner: false,
+    notifyRoles: [],
+    markCritical: true,
+  },
+];
+
+interface Member {
+  userId: string;
+  role: Role;
+  user: { email: string; fullName: string };
+}
+
+type OverdueObligation = Obligation & {
+  owner: { email: string; fullName: string };
+};
+
+// Steps not applied yet that the obligation has already reached
+export function reachedSteps(
+  steps: EscalationPolicyStep[],
+  currentLevel: number,
+  daysOverdue: number,
+): EscalationPolicyStep[] {
+  return steps.filter(
+    (step) => step.level > currentLevel && step.afterDays <= daysOverdue,
+  );
+}
+
+export function escalationRecipients(
+  step: EscalationPolicyStep,
+  ownerUserId: string,
+  members: Array<{ userId: string; role: Role }>,
+): string[] {
+  return [
+    ...new Set([
+      ...(step.notifyOwner ? [ownerUserId] : []),
+      ...members
+        .filter((m) => step.notifyRoles.includes(m.role))
+        .map((m) => m.userId),
+    ]),
+  ];
+}
+
+@Injectable()
+export class EscalationsService {
+  private readonly logger = new Logger(EscalationsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private channelsService: NotificationChannelsService,
+    private businessCalendarService: BusinessCalendarService,
+    private notificationsService: NotificationsService,
+    private preferencesService: NotificationPreferencesService,
+  ) {}
+
+  async getPolicy(
+    organizationId: string,
+  ): Promise<EscalationPolicyResponseDto> {
+    const steps = await this.prisma.escalationStep.findMany({
+      where: { organizationId },
+      orderBy: { level: "asc" },
+    });
+
+    if (steps.length === 0) {
+      return { steps: DEFAULT_ESCALATION_POLICY, isDefault: true };
+    }
+
+    return { steps: steps.map((step) => this.pick(step)), isDefault: false };
+  }
+
+  async updatePolicy(
+    organizationId: string,
+    dto: UpdateEscalationPolicyDto,
+    userId?: string,
+  ): Promise<EscalationPolicyResponseDto> {
+    const steps: EscalationPolicyStep[] = dto.steps.map((step, index) => ({
+      level: index + 1,
+      afterDays: step.afterDays,
+      notifyOwner: step.notifyOwner ?? false,
+      notifyRoles: step.notifyRoles ?? [],
+      markCritical: step.markCritical ?? false,
+    }));
+
+    steps.forEach((step, index) => {
+      if (index > 0 && step.afterDays <= steps[index - 1].afterDays) {
+        throw new BadRequestException(
+          "Los pasos de escalamiento deben tener días de vencida crecientes",
+        );
+      }
+      if (
+        !step.notifyOwner &&
+        step.notifyRoles.length === 0 &&
+        !step.markCritical
+      ) {
+        throw new BadRequestException(
+          `El paso ${step.level} debe notificar a alguien o marcar la obligación como crítica`,
+        );
+      }
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.escalationStep.deleteMany({ where: { organizationId } }),
+      this.prisma.escalationStep.createMany({
+        data: steps.map((step) => ({ ...step, organizationId })),
+      }),
+    ]);
+
+    await this.auditService.log(
+      organizationId,
+      AuditActions.ESCALATION_POLICY_UPDATED,
+      "Organization",
+      organizationId,
+      userId,
+      { steps },
+    );
+
+    return steps.length > 0
+      ? { steps, isDefault: false }
+      : { steps: DEFAULT_ESCALATION_POLICY, isDefault: true };
+  }
+
+  /**
+   * Daily job: applies the escalation steps reached by each overdue
+   * obligation. Each level is applied only once; the level goes back to 0
+   * when the obligation is no longer overdue.
+   */
+  async escalateOverdueObligations(): Promise<number> {
+    const organizations = await this.prisma.organization.findMany({
+      where: { active: true },
+    });
+
+    let escalated = 0;
+
+    for (const org of organizations) {
+      const obligations = await this.prisma.obligation.findMany({
+        where: { organizationId: org.id, status: ObligationStatus.OVERDUE },
+        include: { owner: { select: { email: true, fullName: true } } },
+      });
+
+      if (obligations.length === 0) {
+        continue;
+      }
+
+      const { steps } = await this.getPolicy(org.id);
+      const members = await this.prisma.userOrg.findMany({
+        where: { organizationId: org.id },
+        include: { user: { select: { email: true, fullName: true } } },
+      });
+      const businessCalendar =
+        await this.businessCalendarService.getCalendarForOrganization(org);
+      const calendar = businessCalendar ?? new BusinessCalendar();
+      const now = new Date();
+
+      for (const obligation of obligations) {
+        const daysOverdue = calendar.daysBetween(
+          obligation.dueDate,
+          now,
+          !!businessCalendar,
+        );
+        const reached = reachedSteps(
+          steps,
+          obligation.escalationLevel,
+          daysOverdue,
+        );
+
+        if (reached.length > 0) {
+          await this.escalate(org, obligation, reached, daysOverdue, members);
+          escalated++;
+        }
+      }
+    }
+
+    return escalated;
+  }
+
+  private async escalate(
+    org: Organization,
+    obligation: OverdueObligation,
+    reached: EscalationPolicyStep[],
+    daysOverdue: number,
+    members: Member[],
+  ): Promise<void> {
+    const level = reached[reached.length - 1].level;
+    const critical =
+      obligation.critical || reached.some((step) => step.markCritical);
+    const history = reached.map((step) => ({
+      obligationId: obligation.id,
+      organizationId: org.id,
+      level: step.level,
+      daysOverdue,
+      notifiedUserIds: escalationRecipients(
+        step,
+        obligation.ownerUserId,
+        members,
+      ),
+      markedCritical: step.markCritical,
+    }));
+    const notifiedUserIds = [
+      ...new Set(history.flatMap((entry) => entry.notifiedUserIds)),
+    ];
+
+    // Notifications go out only once the new level is committed
+    await this.prisma.$transaction([
+      this.prisma.obligationEscalation.createMany({ data: history }),
+      this.prisma.obligation.update({
+        where: { id: obligation.id },
+        data: { escalationLevel: level, critical },
+      }),
+    ]);
+
+    await this.auditService.log(
+      org.id,
+      AuditActions.OBLIGATION_ESCALATED,
+      "Obligation",
+      obligation.id,
+      undefined,
+      {
+        from: obligation.escalationLevel,
+        to: level,
+        daysOverdue,
+        notifiedUserIds,
+        critical,
+        changes: diffEntity("Obligation", obligation, {
+          ...obligation,
+          escalationLevel: level,
+          critical,
+        }),
+      },
+    );
+
+    if (notifiedUserIds.length === 0) {
+      return;
+    }
+
+    const preferences = await this.preferencesService.getForUsers(
+      org.id,
+      notifiedUserIds,
+    );
+    const settingsFor = (userId: string) =>
+      preferences.get(userId) ?? DEFAULT_NOTIFICATION_SETTINGS;
+
+    // No dedupe: each level is notified even if an unread overdue notice exists
+    await this.notificationsService.createInApp(
+      notifiedUserIds
+        .filter((userId) =>
+          acceptsNotification(
+            settingsFor(userId),
+            NotificationChannel.IN_APP,
+            NotificationType.OBLIGATION_OVERDUE,
+          ),
+        )
+        .map((userId) => ({
+          userId,
+          organizationId: org.id,
+          type: NotificationType.OBLIGATION_OVERDUE,
+          severity: NotificationSeverity.CRITICAL,
+          title: `Escalamiento nivel ${level}: ${obligation.title}`,
+          message: `Vencida hace ${daysOverdue} días. Responsable: ${obligation.owner.fullName}`,
+          entityType: "Obligation",
+          entityId: obligation.id,
+        })),
+      false,
+    );
+
+    const contacts = new Map(members.map((m) => [m.userId, m.user]));
+    if (!contacts.has(obligation.ownerUserId)) {
+      contacts.set(obligation.ownerUserId, obligation.owner);
+    }
+
+    for (const userId of notifiedUserIds) {
+      const contact = contacts.get(userId);
+      const settings = settingsFor(userId);
+      if (
+        !contact ||
+        !acceptsEvent(settings, NotificationType.OBLIGATION_OVERDUE)
+      ) {
+        continue;
+      }
+
+      await this.channelsService.send(
+        { userId, ...contact, settings },
+        {
+          template: "obligation_escalated",
+          organizationName: org.name,
+          obligation: {
+            title: obligation.title,
+            ownerName: obligation.owner.fullName,
+            daysOverdue,
+          },
+          level,
+        },
+        { organizationId: org.id, userId, entityIds: [obligation.id] },
+      );
+    }
+
+    this.logger.log(
+      `Obligation ${obligation.id} escalated to level ${level} (${notifiedUserIds.length} recipients)`,
+    );
+  }
+
+  private pick(step: EscalationStep): EscalationPolicyStep {
+    return {
+      level: step.level,
+      afterDays: step.afterDays,
+      notifyOwner: step.notifyOwner,
+      notifyRoles: step.notifyRoles,
+      markCritical: step.markCritical,
+    };
+  }
+}
@@ -3,9 +3,19 @@ import { JobsService } from "./jobs.service";
 import { NotificationsModule } from "../notifications/notifications.module";
 import { ObligationsModule } from "../obligations/obligations.module";
 import { DocumentsModule } from "../documents/documents.module";
+import { EscalationsModule } from "../escalations/escalations.module";
+import { ReportsModule } from "../reports/reports.module";
+import { OrganizationsModule } from "../organizations/organizations.module";
 
 @Module({
-  imports: [NotificationsModule, ObligationsModule, DocumentsModule],
+  imports: [
+    NotificationsModule,
+    ObligationsModule,
+    DocumentsModule,
+    EscalationsModule,
+    ReportsModule,
+    OrganizationsModule,
+  ],
   providers: [JobsService],
 })
 export class JobsModule {}
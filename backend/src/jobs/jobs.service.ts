@@ -2,8 +2,17 @@ import { Injectable, Logger } from "@nestjs/common";
 import { Cron, CronExpression } from "@nestjs/schedule";
 import { ConfigService } from "@nestjs/config";
 import { ObligationsService } from "../obligations/obligations.service";
+import { RecurrenceService } from "../obligations/recurrence.service";
 import { NotificationsService } from "../notifications/notifications.service";
 import { DocumentsService } from "../documents/documents.service";
+import { EmailService } from "../common/email/email.service";
+import { EscalationsService } from "../escalations/escalations.service";
+import { NotificationChannelsService } from "../notifications/channels/notification-channels.service";
+import { ReportSubscriptionsService } from "../reports/report-subscriptions.service";
+import { ComplianceSnapshotsService } from "../reports/compliance-snapshots.service";
+import { AuditChainService } from "../audit/audit-chain.service";
+import { AuditArchiveService } from "../audit/audit-archive.service";
+import { OrganizationsService } from "../organizations/organizations.service";
 
 @Injectable()
 export class JobsService {
@@ -11,18 +20,41 @@ export class JobsService {
 
   constructor(
     private readonly obligationsService: ObligationsService,
+    private readonly recurrenceService: RecurrenceService,
     private readonly notificationsService: NotificationsService,
     private readonly documentsService: DocumentsService,
+    private readonly emailService: EmailService,
+    private readonly escalationsService: EscalationsService,
+    private readonly channelsService: NotificationChannelsService,
+    private readonly reportSubscriptionsService: ReportSubscriptionsService,
+    private readonly snapshotsService: ComplianceSnapshotsService,
+    private readonly auditChainService: AuditChainService,
+    private readonly auditArchiveService: AuditArchiveService,
+    private readonly organizationsService: OrganizationsService,
     private readonly configService: ConfigService,
   ) {}
 
-  // Daily maintenance: update overdue status and send notifications.
+  // Daily maintenance: roll over recurring obligations, update overdue
+  // status, escalate obligations that stay overdue, normalize the CUIT of
+  // older organizations, hash evidence uploaded without a hash, store the
+  // day's compliance snapshot once statuses are up to date and sign an audit
+  // checkpoint covering the day's events.
   @Cron(CronExpression.EVERY_DAY_AT_7AM)
   async runDailyComplianceJobs(): Promise<void> {
     if (!this.isJobsEnabled()) {
       return;
     }
 
+    try {
+      const created =
+        await this.recurrenceService.rolloverCompletedObligations();
+      this.logger.log(`Recurring obligations generated: ${created}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to roll over recurring obligations: ${this.formatErrorMessage(error)}`,
+      );
+    }
+
     try {
       const updated = await this.obligationsService.updateOverdueObligations();
       this.logger.log(`Overdue obligations updated: ${updated}`);
@@ -32,6 +64,61 @@ export class JobsService {
       );
     }
 
+    try {
+      const escalated =
+        await this.escalationsService.escalateOverdueObligations();
+      this.logger.log(`Overdue obligations escalated: ${escalated}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to escalate overdue obligations: ${this.formatErrorMessage(error)}`,
+      );
+    }
+
+    try {
+      const backfilled = await this.organizationsService.backfillCuitFields();
+      this.logger.log(`Organization CUITs normalized: ${backfilled}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to normalize organization CUITs: ${this.formatErrorMessage(error)}`,
+      );
+    }
+
+    try {
+      const hashed = await this.documentsService.hashMissingDocuments();
+      this.logger.log(`Document hashes computed: ${hashed}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to hash documents: ${this.formatErrorMessage(error)}`,
+      );
+    }
+
+    try {
+      const captured = await this.snapshotsService.captureDailySnapshots();
+      this.logger.log(`Compliance snapshots stored: ${captured}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to store compliance snapshots: ${this.formatErrorMessage(error)}`,
+      );
+    }
+
+    try {
+      const checkpoints = await this.auditChainService.createCheckpoints();
+      this.logger.log(`Audit checkpoints signed: ${checkpoints}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to sign audit checkpoints: ${this.formatErrorMessage(error)}`,
+      );
+    }
+  }
+
+  // Hourly notifications: each user gets the digest at their own local hour,
+  // according to their notification preferences.
+  @Cron(CronExpression.EVERY_HOUR)
+  async runNotificationJobs(): Promise<void> {
+    if (!this.isJobsEnabled()) {
+      return;
+    }
+
     try {
       const upcoming =
         await this.notificationsService.notifyUpcomingObligations();
@@ -53,19 +140,82 @@ export class JobsService {
     }
   }
 
-  // Monthly retention cleanup (1st day at 03:00).
+  // Retry failed emails and chat/webhook messages whose backoff has elapsed.
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async runDeliveryRetryJob(): Promise<void> {
+    if (!this.isJobsEnabled()) {
+      return;
+    }
+
+    try {
+      const sent = await this.emailService.retryFailedDeliveries();
+      if (sent > 0) {
+        this.logger.log(`Failed emails resent: ${sent}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to retry email deliveries: ${this.formatErrorMessage(error)}`,
+      );
+    }
+
+    try {
+      const sent = await this.channelsService.retryFailedDeliveries();
+      if (sent > 0) {
+        this.logger.log(`Failed channel messages resent: ${sent}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to retry channel deliveries: ${this.formatErrorMessage(error)}`,
+      );
+    }
+  }
+
+  // Scheduled reports whose cron expression is due; subscriptions run at most
+  // hourly, so a 10 minute tick keeps the delay short.
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async runReportSubscriptionsJob(): Promise<void> {
+    if (!this.isJobsEnabled()) {
+      return;
+    }
+
+    try {
+      const generated =
+        await this.reportSubscriptionsService.runDueSubscriptions();
+      if (generated > 0) {
+        this.logger.log(`Scheduled reports sent: ${generated}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to run scheduled reports: ${this.formatErrorMessage(error)}`,
+      );
+    }
+  }
+
+  // Monthly retention cleanup (1st day at 03:00): expired documents and
+  // audit events past each organization's audit retention.
   @Cron("0 3 1 * *")
   async runMonthlyRetentionJob(): Promise<void> {
-    if (!this.isJobsEnabled() || !this.isRetentionEnabled()) {
+    if (!this.isJobsEnabled()) {
       return;
     }
 
+    if (this.isRetentionEnabled()) {
+      try {
+        const purged = await this.documentsService.purgeExpiredDocuments();
+        this.logger.log(`Retention cleanup removed ${purged} documents`);
+      } catch (error) {
+        this.logger.error(
+          `Retention cleanup failed: ${this.formatErrorMessage(error)}`,
+        );
+      }
+    }
+
     try {
-      const purged = await this.documentsService.purgeExpiredDocuments();
-      this.logger.log(`Retention cleanup removed ${purged} documents`);
+      const archived = await this.auditArchiveService.archiveExpiredEvents();
+      this.logger.log(`Audit events archived: ${archived}`);
     } catch (error) {
       this.logger.error(
-        `Retention cleanup failed: ${this.formatErrorMessage(error)}`,
+        `Failed to archive audit events: ${this.formatErrorMessage(error)}`,
       );
     }
   }
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  BusinessCalendar,
+  BusinessCalendarService,
+  localCalendarDay,
+} from "./business-calendar.service";
+
+const mockPrismaService = {
+  jurisdiction: {
+    findUnique: vi.fn(),
+  },
+  holiday: {
+    findMany: vi.fn(),
+  },
+};
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+describe("BusinessCalendar", () => {
+  // 2025-07-09 (Wednesday) Independence Day
+  const calendar = new BusinessCalendar([day("2025-07-09")]);
+
+  it("should treat weekends and holidays as non business days", () => {
+    expect(calendar.isBusinessDay(day("2025-07-08"))).toBe(true);
+    expect(calendar.isBusinessDay(day("2025-07-09"))).toBe(false);
+    expect(calendar.isBusinessDay(day("2025-07-12"))).toBe(false);
+    expect(calendar.isBusinessDay(day("2025-07-13"))).toBe(false);
+  });
+
+  it("should move to the next business day", () => {
+    expect(calendar.nextBusinessDay(day("2025-07-09"))).toEqual(
+      day("2025-07-10"),
+    );
+    expect(calendar.nextBusinessDay(day("2025-07-12"))).toEqual(
+      day("2025-07-14"),
+    );
+    expect(calendar.nextBusinessDay(new Date("2025-07-08T15:30:00Z"))).toEqual(
+      day("2025-07-08"),
+    );
+  });
+
+  it("should move to the previous business day", () => {
+    expect(calendar.previousBusinessDay(day("2025-07-13"))).toEqual(
+      day("2025-07-11"),
+    );
+  });
+
+  it("should add business days skipping holidays", () => {
+    expect(calendar.addBusinessDays(day("2025-07-08"), 3)).toEqual(
+      day("2025-07-14"),
+    );
+    expect(calendar.addBusinessDays(day("2025-07-14"), -3)).toEqual(
+      day("2025-07-08"),
+    );
+  });
+
+  it("should count calendar or business days between dates", () => {
+    expect(calendar.daysBetween(day("2025-07-07"), day("2025-07-14"))).toBe(7);
+    expect(
+      calendar.daysBetween(day("2025-07-07"), day("2025-07-14"), true),
+    ).toBe(4);
+    expect(
+      calendar.daysBetween(day("2025-07-14"), day("2025-07-07"), true),
+    ).toBe(-4);
+  });
+});
+
+describe("localCalendarDay", () => {
+  it("should use the day in Argentina, not the UTC day", () => {
+    // 22:30 on the 14th in Argentina is already the 15th in UTC
+    expect(localCalendarDay(new Date("2025-07-15T01:30:00Z"))).toEqual(
+      day("2025-07-14"),
+    );
+    expect(localCalendarDay(new Date("2025-07-15T03:00:00Z"))).toEqual(
+      day("2025-07-15"),
+    );
+  });
+});
+
+describe("BusinessCalendarService", () => {
+  let service: BusinessCalendarService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new BusinessCalendarService(mockPrismaService as any);
+  });
+
+  describe("getCalendar", () => {
+    it("should load local, provincial and national holidays", async () => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue({
+        country: "AR",
+        province: "Santa Fe",
+      });
+      mockPrismaService.holiday.findMany.mockResolvedValue([
+        { date: day("2025-10-07") },
+      ]);
+
+      const calendar = await service.getCalendar("juris-rosario");
+
+      expect(calendar.isHoliday(day("2025-10-07"))).toBe(true);
+      expect(mockPrismaService.holiday.findMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { jurisdictionId: "juris-rosario" },
+            { scope: "NATIONAL", jurisdiction: { country: "AR" } },
+            {
+              scope: "PROVINCIAL",
+              jurisdiction: { country: "AR", province: "Santa Fe" },
+            },
+          ],
+        },
+        select: { date: true },
+      });
+    });
+
+    it("should return a weekends-only calendar without jurisdiction", async () => {
+      const calendar = await service.getCalendar(null);
+
+      expect(calendar.isBusinessDay(day("2025-07-09"))).toBe(true);
+      expect(mockPrismaService.holiday.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getCalendarForOrganization", () => {
+    it("should skip holidays when the organization counts calendar days", async () => {
+      const calendar = await service.getCalendarForOrganization({
+        jurisdictionId: "juris-rosario",
+        countBusinessDays: false,
+      });
+
+      expect(calendar).toBeNull();
+      expect(mockPrismaService.jurisdiction.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("adjustToBusinessDay", () => {
+    it("should shift a due date that falls on a holiday", async () => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue({
+        country: "AR",
+        province: null,
+      });
+      mockPrismaService.holiday.findMany.mockResolvedValue([
+        { date: day("2025-07-09") },
+      ]);
+
+      const result = await service.adjustToBusinessDay(
+        day("2025-07-09"),
+        "juris-1",
+      );
+
+      expect(result).toEqual(day("2025-07-10"));
+    });
+  });
+});
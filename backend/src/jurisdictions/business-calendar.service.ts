@@ -0,0 +1,178 @@
+import { Injectable } from "@nestjs/common";
+import { HolidayScope, Organization, Prisma } from "@prisma/client";
+import { PrismaService } from "../common/prisma/prisma.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Normalizes a date to its calendar day (UTC midnight), like @db.Date columns.
+export function toCalendarDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+// Organizations run on Argentina time
+export const ORGANIZATION_TIMEZONE = "America/Argentina/Buenos_Aires";
+
+const localDateFormat = new Intl.DateTimeFormat("en-CA", {
+  timeZone: ORGANIZATION_TIMEZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+// Calendar day in Argentina (UTC midnight): "today" for traffic lights and deadlines.
+export function localCalendarDay(date: Date): Date {
+  return new Date(localDateFormat.format(date));
+}
+
+function toDateKey(date: Date): string {
+  return toCalendarDay(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Business-day calendar of a jurisdiction: Saturdays, Sundays and loaded
+ * holidays are not business days. It is synchronous so it can be used to
+ * compute the traffic light of whole listings without extra queries.
+ */
+export class BusinessCalendar {
+  private readonly holidays: Set<string>;
+
+  constructor(holidays: Iterable<Date> = []) {
+    this.holidays = new Set(Array.from(holidays, toDateKey));
+  }
+
+  isHoliday(date: Date): boolean {
+    return this.holidays.has(toDateKey(date));
+  }
+
+  isBusinessDay(date: Date): boolean {
+    const weekday = date.getUTCDay();
+    return weekday !== 0 && weekday !== 6 && !this.isHoliday(date);
+  }
+
+  // Returns the same day if it is a business day, or the next business day.
+  nextBusinessDay(date: Date): Date {
+    let day = toCalendarDay(date);
+    while (!this.isBusinessDay(day)) {
+      day = new Date(day.getTime() + DAY_MS);
+    }
+    return day;
+  }
+
+  // Returns the same day if it is a business day, or the previous business day.
+  previousBusinessDay(date: Date): Date {
+    let day = toCalendarDay(date);
+    while (!this.isBusinessDay(day)) {
+      day = new Date(day.getTime() - DAY_MS);
+    }
+    return day;
+  }
+
+  addBusinessDays(date: Date, days: number): Date {
+    const step = days < 0 ? -DAY_MS : DAY_MS;
+    let day = toCalendarDay(date);
+    let remaining = Math.abs(days);
+    while (remaining > 0) {
+      day = new Date(day.getTime() + step);
+      if (this.isBusinessDay(day)) {
+        remaining--;
+      }
+    }
+    return day;
+  }
+
+  /**
+   * Days between `from` and `to` (negative if `to` has passed). In business
+   * mode the business days in the interval (from, to] are counted.
+   */
+  daysBetween(from: Date, to: Date, businessDays = false): number {
+    const start = toCalendarDay(from).getTime();
+    const end = toCalendarDay(to).getTime();
+    const calendarDays = Math.round((end - start) / DAY_MS);
+
+    if (!businessDays || calendarDays === 0) {
+      return calendarDays;
+    }
+
+    const [low, high] = calendarDays > 0 ? [start, end] : [end, start];
+    let count = 0;
+    for (let t = low + DAY_MS; t <= high; t += DAY_MS) {
+      if (this.isBusinessDay(new Date(t))) {
+        count++;
+      }
+    }
+    return calendarDays > 0 ? count : -count;
+  }
+}
+
+@Injectable()
+export class BusinessCalendarService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Loads a jurisdiction's calendar: its own holidays plus the country's
+   * national ones and its province's provincial ones, even when they are
+   * loaded under another jurisdiction.
+   */
+  async getCalendar(jurisdictionId?: string | null): Promise<BusinessCalendar> {
+    if (!jurisdictionId) {
+      return new BusinessCalendar();
+    }
+
+    const jurisdiction = await this.prisma.jurisdiction.findUnique({
+      where: { id: jurisdictionId },
+      select: { country: true, province: true },
+    });
+
+    if (!jurisdiction) {
+      return new BusinessCalendar();
+    }
+
+    const scopes: Prisma.HolidayWhereInput[] = [
+      { jurisdictionId },
+      {
+        scope: HolidayScope.NATIONAL,
+        jurisdiction: { country: jurisdiction.country },
+      },
+    ];
+    if (jurisdiction.province) {
+      scopes.push({
+        scope: HolidayScope.PROVINCIAL,
+        jurisdiction: {
+          country: jurisdiction.country,
+          province: jurisdiction.province,
+        },
+      });
+    }
+
+    const holidays = await this.prisma.holiday.findMany({
+      where: { OR: scopes },
+      select: { date: true },
+    });
+
+    return new BusinessCalendar(holidays.map((h) => h.date));
+  }
+
+  /**
+   * Calendar for counting traffic light and reminder days, or null if the
+   * organization counts calendar days (no need to query holidays).
+   */
+  async getCalendarForOrganization(
+    organization: Pick<Organization, "jurisdictionId" | "countBusinessDays">,
+  ): Promise<BusinessCalendar | null> {
+    if (!organization.countBusinessDays) {
+      return null;
+    }
+    return this.getCalendar(organization.jurisdictionId);
+  }
+
+  // Moves a due date falling on a weekend or holiday to the next business day.
+  async adjustToBusinessDay(
+    date: Date,
+    jurisdictionId?: string | null,
+  ): Promise<Date> {
+    const calendar = await this.getCalendar(jurisdictionId);
+    return calendar.nextBusinessDay(date);
+  }
+}
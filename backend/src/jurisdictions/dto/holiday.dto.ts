@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  IsString,
+  IsBoolean,
+  IsOptional,
+  IsEnum,
+  IsDate,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+} from "class-validator";
+import { HolidayScope } from "@prisma/client";
+
+export class CreateHolidayDto {
+  @ApiProperty({ example: "2025-07-09" })
+  @Type(() => Date)
+  @IsDate()
+  date: Date;
+
+  @ApiProperty({ example: "Dia de la Independencia" })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    enum: HolidayScope,
+    description:
+      "NATIONAL aplica a todo el pais, PROVINCIAL a la provincia y LOCAL solo a esta jurisdiccion",
+  })
+  @IsEnum(HolidayScope)
+  scope: HolidayScope;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: "Feriado puente con fines turisticos (movible por decreto)",
+  })
+  @IsOptional()
+  @IsBoolean()
+  isBridge?: boolean;
+}
+
+export class UpdateHolidayDto extends PartialType(CreateHolidayDto) {}
+
+export class HolidayFilterDto {
+  @ApiPropertyOptional({ example: 2025, description: "Filtrar por anio" })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year?: number;
+}
+
+export class HolidayResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  jurisdictionId: string;
+
+  @ApiProperty({ example: "2025-07-09" })
+  date: Date;
+
+  @ApiProperty({ example: "Dia de la Independencia" })
+  name: string;
+
+  @ApiProperty({ enum: HolidayScope })
+  scope: HolidayScope;
+
+  @ApiProperty()
+  isBridge: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
@@ -0,0 +1,108 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  IsString,
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+  Matches,
+  MaxLength,
+} from "class-validator";
+
+export class ImportTaxScheduleDto {
+  @ApiProperty({
+    example: "ar.afip.iva",
+    description: "Codigo del cronograma (referenciado por las plantillas)",
+  })
+  @IsString()
+  @MaxLength(100)
+  @Matches(/^[a-z0-9_.-]+$/, {
+    message: "code solo admite minusculas, numeros, punto, guion y guion bajo",
+  })
+  code: string;
+
+  @ApiProperty({ example: 2026 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year: number;
+
+  @ApiProperty({ example: "IVA - Declaracion jurada mensual" })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    example:
+      "periodo,terminacion,vencimiento\n2026-01,0-1,18/02/2026\n2026-01,2-3,19/02/2026",
+    description:
+      "CSV con columnas periodo, terminacion (digito o rango 0-1) y vencimiento (AAAA-MM-DD o DD/MM/AAAA). Acepta coma o punto y coma",
+  })
+  @IsString()
+  csv: string;
+}
+
+export class TaxScheduleFilterDto {
+  @ApiPropertyOptional({ example: 2026, description: "Filtrar por anio" })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year?: number;
+
+  @ApiPropertyOptional({ example: "ar.afip.iva" })
+  @IsOptional()
+  @IsString()
+  code?: string;
+}
+
+export class TaxScheduleEntryDto {
+  @ApiProperty({ example: "2026-01" })
+  period: string;
+
+  @ApiProperty({ example: 4, description: "Terminacion del CUIT" })
+  cuitDigit: number;
+
+  @ApiProperty({ example: "2026-02-20" })
+  dueDate: Date;
+}
+
+export class TaxScheduleResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  jurisdictionId: string;
+
+  @ApiProperty({ example: "ar.afip.iva" })
+  code: string;
+
+  @ApiProperty({ example: 2026 })
+  year: number;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiProperty({ description: "Cantidad de vencimientos cargados" })
+  entryCount: number;
+
+  @ApiPropertyOptional({ type: [TaxScheduleEntryDto] })
+  entries?: TaxScheduleEntryDto[];
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
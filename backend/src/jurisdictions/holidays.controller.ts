@@ -0,0 +1,110 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { HolidaysService } from "./holidays.service";
+import {
+  CreateHolidayDto,
+  UpdateHolidayDto,
+  HolidayFilterDto,
+  HolidayResponseDto,
+} from "./dto/holiday.dto";
+import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
+import { PlatformAdminGuard } from "../common/guards/platform-admin.guard";
+import { Public } from "../common/decorators/public.decorator";
+
+@ApiTags("jurisdictions")
+@Controller("jurisdictions/:jurisdictionId/holidays")
+export class HolidaysController {
+  constructor(private readonly holidaysService: HolidaysService) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({ summary: "Listar feriados de la jurisdiccion" })
+  @ApiParam({ name: "jurisdictionId", type: "string" })
+  @ApiResponse({
+    status: 200,
+    description: "Lista de feriados",
+    type: [HolidayResponseDto],
+  })
+  @ApiResponse({ status: 404, description: "Jurisdiccion no encontrada" })
+  async findAll(
+    @Param("jurisdictionId") jurisdictionId: string,
+    @Query() filters: HolidayFilterDto,
+  ): Promise<HolidayResponseDto[]> {
+    return this.holidaysService.findAll(jurisdictionId, filters);
+  }
+
+  @Post()
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, PlatformAdminGuard)
+  @ApiOperation({ summary: "Crear feriado" })
+  @ApiParam({ name: "jurisdictionId", type: "string" })
+  @ApiResponse({
+    status: 201,
+    description: "Feriado creado",
+    type: HolidayResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: "Ya existe un feriado para esa fecha",
+  })
+  async create(
+    @Param("jurisdictionId") jurisdictionId: string,
+    @Body() dto: CreateHolidayDto,
+  ): Promise<HolidayResponseDto> {
+    return this.holidaysService.create(jurisdictionId, dto);
+  }
+
+  @Patch(":holidayId")
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, PlatformAdminGuard)
+  @ApiOperation({ summary: "Actualizar feriado" })
+  @ApiParam({ name: "jurisdictionId", type: "string" })
+  @ApiParam({ name: "holidayId", type: "string" })
+  @ApiResponse({
+    status: 200,
+    description: "Feriado actualizado",
+    type: HolidayResponseDto,
+  })
+  @ApiResponse({ status: 404, description: "Feriado no encontrado" })
+  async update(
+    @Param("jurisdictionId") jurisdictionId: string,
+    @Param("holidayId") holidayId: string,
+    @Body() dto: UpdateHolidayDto,
+  ): Promise<HolidayResponseDto> {
+    return this.holidaysService.update(jurisdictionId, holidayId, dto);
+  }
+
+  @Delete(":holidayId")
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, PlatformAdminGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Eliminar feriado" })
+  @ApiParam({ name: "jurisdictionId", type: "string" })
+  @ApiParam({ name: "holidayId", type: "string" })
+  @ApiResponse({ status: 204, description: "Feriado eliminado" })
+  @ApiResponse({ status: 404, description: "Feriado no encontrado" })
+  async remove(
+    @Param("jurisdictionId") jurisdictionId: string,
+    @Param("holidayId") holidayId: string,
+  ): Promise<void> {
+    await this.holidaysService.remove(jurisdictionId, holidayId);
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { HolidaysService } from "./holidays.service";
+import { NotFoundException, ConflictException } from "@nestjs/common";
+import { HolidayScope } from "@prisma/client";
+
+const mockPrismaService = {
+  jurisdiction: {
+    findUnique: vi.fn(),
+  },
+  holiday: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+};
+
+const mockHoliday = {
+  id: "holiday-1",
+  jurisdictionId: "juris-1",
+  date: new Date("2025-07-09"),
+  name: "Dia de la Independencia",
+  scope: "NATIONAL",
+  isBridge: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe("HolidaysService", () => {
+  let service: HolidaysService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new HolidaysService(mockPrismaService as any);
+  });
+
+  describe("findAll", () => {
+    it("should filter holidays by year", async () => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue({
+        id: "juris-1",
+      });
+      mockPrismaService.holiday.findMany.mockResolvedValue([mockHoliday]);
+
+      const result = await service.findAll("juris-1", { year: 2025 });
+
+      expect(result).toHaveLength(1);
+      expect(mockPrismaService.holiday.findMany).toHaveBeenCalledWith({
+        where: {
+          jurisdictionId: "juris-1",
+          date: {
+            gte: new Date("2025-01-01"),
+            lt: new Date("2026-01-01"),
+          },
+        },
+        orderBy: { date: "asc" },
+      });
+    });
+
+    it("should throw NotFoundException for unknown jurisdiction", async () => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue(null);
+
+      await expect(service.findAll("missing", {})).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe("create", () => {
+    it("should create a holiday with the given scope", async () => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue({
+        id: "juris-1",
+      });
+      mockPrismaService.holiday.findFirst.mockResolvedValue(null);
+      mockPrismaService.holiday.create.mockResolvedValue(mockHoliday);
+
+      const result = await service.create("juris-1", {
+        date: new Date("2025-07-09"),
+        name: "Dia de la Independencia",
+        scope: HolidayScope.NATIONAL,
+      });
+
+      expect(result.scope).toBe("NATIONAL");
+      expect(mockPrismaService.holiday.create).toHaveBeenCalledWith({
+        data: {
+          jurisdictionId: "juris-1",
+          date: new Date("2025-07-09"),
+          name: "Dia de la Independencia",
+          scope: "NATIONAL",
+          isBridge: false,
+        },
+      });
+    });
+
+    it("should throw ConflictException if the date is taken", async () => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue({
+        id: "juris-1",
+      });
+      mockPrismaService.holiday.findFirst.mockResolvedValue(mockHoliday);
+
+      await expect(
+        service.create("juris-1", {
+          date: new Date("2025-07-09"),
+          name: "Otro feriado",
+          scope: HolidayScope.LOCAL,
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe("remove", () => {
+    it("should throw NotFoundException if holiday belongs to another jurisdiction", async () => {
+      mockPrismaService.holiday.findFirst.mockResolvedValue(null);
+
+      await expect(service.remove("juris-2", "holiday-1")).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.holiday.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+} from "@nestjs/common";
+import { Holiday, Prisma } from "@prisma/client";
+import { PrismaService } from "../common/prisma/prisma.service";
+import {
+  CreateHolidayDto,
+  UpdateHolidayDto,
+  HolidayFilterDto,
+  HolidayResponseDto,
+} from "./dto/holiday.dto";
+
+@Injectable()
+export class HolidaysService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(
+    jurisdictionId: string,
+    filters: HolidayFilterDto,
+  ): Promise<HolidayResponseDto[]> {
+    await this.ensureJurisdiction(jurisdictionId);
+
+    const where: Prisma.HolidayWhereInput = { jurisdictionId };
+    if (filters.year) {
+      where.date = {
+        gte: new Date(Date.UTC(filters.year, 0, 1)),
+        lt: new Date(Date.UTC(filters.year + 1, 0, 1)),
+      };
+    }
+
+    const holidays = await this.prisma.holiday.findMany({
+      where,
+      orderBy: { date: "asc" },
+    });
+
+    return holidays.map((h) => this.toResponseDto(h));
+  }
+
+  async create(
+    jurisdictionId: string,
+    dto: CreateHolidayDto,
+  ): Promise<HolidayResponseDto> {
+    await this.ensureJurisdiction(jurisdictionId);
+    await this.ensureDateAvailable(jurisdictionId, dto.date);
+
+    const holiday = await this.prisma.holiday.create({
+      data: {
+        jurisdictionId,
+        date: dto.date,
+        name: dto.name,
+        scope: dto.scope,
+        isBridge: dto.isBridge ?? false,
+      },
+    });
+
+    return this.toResponseDto(holiday);
+  }
+
+  async update(
+    jurisdictionId: string,
+    holidayId: string,
+    dto: UpdateHolidayDto,
+  ): Promise<HolidayResponseDto> {
+    await this.findHoliday(jurisdictionId, holidayId);
+
+    if (dto.date) {
+      await this.ensureDateAvailable(jurisdictionId, dto.date, holidayId);
+    }
+
+    const holiday = await this.prisma.holiday.update({
+      where: { id: holidayId },
+      data: dto,
+    });
+
+    return this.toResponseDto(holiday);
+  }
+
+  async remove(jurisdictionId: string, holidayId: string): Promise<void> {
+    await this.findHoliday(jurisdictionId, holidayId);
+
+    await this.prisma.holiday.delete({
+      where: { id: holidayId },
+    });
+  }
+
+  private async ensureJurisdiction(jurisdictionId: string): Promise<void> {
+    const jurisdiction = await this.prisma.jurisdiction.findUnique({
+      where: { id: jurisdictionId },
+    });
+
+    if (!jurisdiction) {
+      throw new NotFoundException(
+        `Jurisdiccion no encontrada: ${jurisdictionId}`,
+      );
+    }
+  }
+
+  private async findHoliday(
+    jurisdictionId: string,
+    holidayId: string,
+  ): Promise<Holiday> {
+    const holiday = await this.prisma.holiday.findFirst({
+      where: { id: holidayId, jurisdictionId },
+    });
+
+    if (!holiday) {
+      throw new NotFoundException(`Feriado no encontrado: ${holidayId}`);
+    }
+
+    return holiday;
+  }
+
+  private async ensureDateAvailable(
+    jurisdictionId: string,
+    date: Date,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.prisma.holiday.findFirst({
+      where: {
+        jurisdictionId,
+        date,
+        ...(excludeId && { NOT: { id: excludeId } }),
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Ya existe un feriado cargado para la fecha ${date.toISOString().slice(0, 10)}`,
+      );
+    }
+  }
+
+  private toResponseDto(holiday: Holiday): HolidayResponseDto {
+    return {
+      id: holiday.id,
+      jurisdictionId: holiday.jurisdictionId,
+      date: holiday.date,
+      name: holiday.name,
+      scope: holiday.scope,
+      isBridge: holiday.isBridge,
+      createdAt: holiday.createdAt,
+      updatedAt: holiday.updatedAt,
+    };
+  }
+}
@@ -1,10 +1,24 @@
 import { Module } from "@nestjs/common";
 import { JurisdictionsController } from "./jurisdictions.controller";
 import { JurisdictionsService } from "./jurisdictions.service";
+import { HolidaysController } from "./holidays.controller";
+import { HolidaysService } from "./holidays.service";
+import { BusinessCalendarService } from "./business-calendar.service";
+import { TaxSchedulesController } from "./tax-schedules.controller";
+import { TaxSchedulesService } from "./tax-schedules.service";
 
 @Module({
-  controllers: [JurisdictionsController],
-  providers: [JurisdictionsService],
-  exports: [JurisdictionsService],
+  controllers: [
+    JurisdictionsController,
+    HolidaysController,
+    TaxSchedulesController,
+  ],
+  providers: [
+    JurisdictionsService,
+    HolidaysService,
+    BusinessCalendarService,
+    TaxSchedulesService,
+  ],
+  exports: [JurisdictionsService, BusinessCalendarService, TaxSchedulesService],
 })
 export class JurisdictionsModule {}
@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { TaxSchedulesService } from "./tax-schedules.service";
+import {
+  ImportTaxScheduleDto,
+  TaxScheduleFilterDto,
+  TaxScheduleResponseDto,
+} from "./dto/tax-schedule.dto";
+import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
+import { PlatformAdminGuard } from "../common/guards/platform-admin.guard";
+import { Public } from "../common/decorators/public.decorator";
+
+@ApiTags("jurisdictions")
+@Controller("jurisdictions/:jurisdictionId/tax-schedules")
+export class TaxSchedulesController {
+  constructor(private readonly taxSchedulesService: TaxSchedulesService) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({ summary: "Listar cronogramas de vencimientos por CUIT" })
+  @ApiParam({ name: "jurisdictionId", type: "string" })
+  @ApiResponse({
+    status: 200,
+    description: "Lista de cronogramas",
+    type: [TaxScheduleResponseDto],
+  })
+  @ApiResponse({ status: 404, description: "Jurisdiccion no encontrada" })
+  async findAll(
+    @Param("jurisdictionId") jurisdictionId: string,
+    @Query() filters: TaxScheduleFilterDto,
+  ): Promise<TaxScheduleResponseDto[]> {
+    return this.taxSchedulesService.findAll(jurisdictionId, filters);
+  }
+
+  @Get(":scheduleId")
+  @Public()
+  @ApiOperation({ summary: "Obtener cronograma con sus vencimientos" })
+  @ApiParam({ name: "jurisdictionId", type: "string" })
+  @ApiParam({ name: "scheduleId", type: "string" })
+  @ApiResponse({
+    status: 200,
+    description: "Cronograma encontrado",
+    type: TaxScheduleResponseDto,
+  })
+  @ApiResponse({ status: 404, description: "Cronograma no encontrado" })
+  async findOne(
+    @Param("jurisdictionId") jurisdictionId: string,
+    @Param("scheduleId") scheduleId: string,
+  ): Promise<TaxScheduleResponseDto> {
+    return this.taxSchedulesService.findOne(jurisdictionId, scheduleId);
+  }
+
+  @Post("import")
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, PlatformAdminGuard)
+  @ApiOperation({
+    summary: "Importar cronograma desde CSV",
+    description:
+      "Crea el cronograma del anio o reemplaza sus vencimientos si ya existe",
+  })
+  @ApiParam({ name: "jurisdictionId", type: "string" })
+  @ApiResponse({
+    status: 201,
+    description: "Cronograma importado",
+    type: TaxScheduleResponseDto,
+  })
+  @ApiResponse({ status: 400, description: "CSV invalido" })
+  @ApiResponse({
+    status: 409,
+    description: "El codigo y anio pertenecen a otra jurisdiccion",
+  })
+  async importCsv(
+    @Param("jurisdictionId") jurisdictionId: string,
+    @Body() dto: ImportTaxScheduleDto,
+  ): Promise<TaxScheduleResponseDto> {
+    return this.taxSchedulesService.importCsv(jurisdictionId, dto);
+  }
+
+  @Delete(":scheduleId")
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, PlatformAdminGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Eliminar cronograma" })
+  @ApiParam({ name: "jurisdictionId", type: "string" })
+  @ApiParam({ name: "scheduleId", type: "string" })
+  @ApiResponse({ status: 204, description: "Cronograma eliminado" })
+  @ApiResponse({ status: 404, description: "Cronograma no encontrado" })
+  async remove(
+    @Param("jurisdictionId") jurisdictionId: string,
+    @Param("scheduleId") scheduleId: string,
+  ): Promise<void> {
+    await this.taxSchedulesService.remove(jurisdictionId, scheduleId);
+  }
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  TaxSchedulesService,
+  parseTaxScheduleCsv,
+} from "./tax-schedules.service";
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from "@nestjs/common";
+
+const mockPrismaService = {
+  jurisdiction: {
+    findUnique: vi.fn(),
+  },
+  taxSchedule: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    upsert: vi.fn(),
+    delete: vi.fn(),
+  },
+  taxScheduleEntry: {
+    findFirst: vi.fn(),
+    deleteMany: vi.fn(),
+    createMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
+};
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+const CSV = [
+  "periodo;terminacion;vencimiento",
+  "2026-01;0-1;18/02/2026",
+  "2026-01;2-3;19/02/2026",
+  "2026-01;4-5;20/02/2026",
+  "2026-01;6-7;23/02/2026",
+  "2026-01;8-9;24/02/2026",
+].join("\n");
+
+const mockSchedule = {
+  id: "schedule-1",
+  jurisdictionId: "juris-1",
+  code: "ar.afip.iva",
+  year: 2026,
+  name: "IVA mensual",
+  description: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe("parseTaxScheduleCsv", () => {
+  it("should expand digit ranges and parse local dates", () => {
+    const { entries, errors } = parseTaxScheduleCsv(CSV, 2026);
+
+    expect(errors).toEqual([]);
+    expect(entries).toHaveLength(10);
+    expect(entries[5]).toEqual({
+      period: "2026-01",
+      cuitDigit: 5,
+      dueDate: day("2026-02-20"),
+    });
+  });
+
+  it("should accept comma separated rows without header", () => {
+    const csv = [...Array(10).keys()]
+      .map((d) => `2025,${d},2026-06-${String(10 + d).padStart(2, "0")}`)
+      .join("\n");
+
+    const { entries, errors } = parseTaxScheduleCsv(csv, 2026);
+
+    expect(errors).toEqual([]);
+    expect(entries[9].dueDate).toEqual(day("2026-06-19"));
+  });
+
+  it("should report invalid rows and missing digits", () => {
+    const { errors } = parseTaxScheduleCsv(
+      [
+        "periodo,terminacion,vencimiento",
+        "2026-13,0,18/02/2026",
+        "2026-01,0-1,31/04/2026",
+        "2026-01,0-4,18/02/2025",
+        "2026-02,0-8,18/03/2026",
+        "2026-02,8,19/03/2026",
+      ].join("\n"),
+      2026,
+    );
+
+    expect(errors).toEqual([
+      'linea 2: periodo invalido "2026-13"',
+      'linea 3: vencimiento invalido "31/04/2026"',
+      "linea 4: el vencimiento 18/02/2025 no es de 2026",
+      "linea 6: terminacion 8 repetida en 2026-02",
+      "periodo 2026-02: faltan terminaciones 9",
+    ]);
+  });
+});
+
+describe("TaxSchedulesService", () => {
+  let service: TaxSchedulesService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new TaxSchedulesService(mockPrismaService as any);
+  });
+
+  describe("importCsv", () => {
+    const dto = {
+      code: "ar.afip.iva",
+      year: 2026,
+      name: "IVA mensual",
+      csv: CSV,
+    };
+
+    it("should replace the entries of the schedule", async () => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue({
+        id: "juris-1",
+      });
+      mockPrismaService.taxSchedule.findUnique.mockResolvedValue(null);
+      mockPrismaService.taxSchedule.upsert.mockResolvedValue(mockSchedule);
+      mockPrismaService.$transaction.mockImplementation((fn) =>
+        fn(mockPrismaService),
+      );
+
+      const result = await service.importCsv("juris-1", dto);
+
+      expect(result.entryCount).toBe(10);
+      expect(
+        mockPrismaService.taxScheduleEntry.deleteMany,
+      ).toHaveBeenCalledWith({ where: { scheduleId: "schedule-1" } });
+      const { data } =
+        mockPrismaService.taxScheduleEntry.createMany.mock.calls[0][0];
+      expect(data).toHaveLength(10);
+      expect(data[0]).toEqual({
+        period: "2026-01",
+        cuitDigit: 0,
+        dueDate: day("2026-02-18"),
+        scheduleId: "schedule-1",
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalled();
+    });
+
+    it("should throw BadRequestException for an invalid CSV", async () => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue({
+        id: "juris-1",
+      });
+
+      await expect(
+        service.importCsv("juris-1", { ...dto, csv: "2026-01;0;18/02/2026" }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.taxSchedule.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should throw ConflictException if the code belongs to another jurisdiction", async () => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue({
+        id: "juris-2",
+      });
+      mockPrismaService.taxSchedule.findUnique.mockResolvedValue(mockSchedule);
+
+      await expect(service.importCsv("juris-2", dto)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe("findNextDueDate", () => {
+    it("should look up the entry for the CUIT check digit", async () => {
+      mockPrismaService.taxScheduleEntry.findFirst.mockResolvedValue({
+        period: "2026-01",
+        cuitDigit: 4,
+        dueDate: day("2026-02-20"),
+      });
+
+      const result = await service.findNextDueDate(
+        "ar.afip.iva",
+        "30-71234567-4",
+        new Date("2026-02-01T15:00:00Z"),
+      );
+
+      expect(result).toEqual({ period: "2026-01", dueDate: day("2026-02-20") });
+      expect(mockPrismaService.taxScheduleEntry.findFirst).toHaveBeenCalledWith(
+        {
+          where: {
+            cuitDigit: 4,
+            dueDate: { gte: day("2026-02-01") },
+            schedule: { code: "ar.afip.iva" },
+          },
+          orderBy: { dueDate: "asc" },
+        },
+      );
+    });
+
+    it("should return null without CUIT", async () => {
+      const result = await service.findNextDueDate(
+        "ar.afip.iva",
+        null,
+        new Date(),
+      );
+
+      expect(result).toBeNull();
+      expect(
+        mockPrismaService.taxScheduleEntry.findFirst,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("remove", () => {
+    it("should throw NotFoundException for a schedule of another jurisdiction", async () => {
+      mockPrismaService.taxSchedule.findFirst.mockResolvedValue(null);
+
+      await expect(service.remove("juris-2", "schedule-1")).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.taxSchedule.delete).not.toHaveBeenCalled();
+    });
+  });
+});
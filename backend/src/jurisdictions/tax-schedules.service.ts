@@ -0,0 +1,315 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from "@nestjs/common";
+import { TaxSchedule, TaxScheduleEntry } from "@prisma/client";
+import { PrismaService } from "../common/prisma/prisma.service";
+import { toCalendarDay } from "./business-calendar.service";
+import {
+  ImportTaxScheduleDto,
+  TaxScheduleFilterDto,
+  TaxScheduleResponseDto,
+} from "./dto/tax-schedule.dto";
+
+export interface TaxScheduleEntryInput {
+  period: string;
+  cuitDigit: number;
+  dueDate: Date;
+}
+
+export interface ScheduledDueDate {
+  period: string;
+  dueDate: Date;
+}
+
+const PERIOD_PATTERN = /^\d{4}(-(0[1-9]|1[0-2]))?$/;
+const DIGITS_PATTERN = /^(\d)(?:\s*-\s*(\d))?$/;
+
+function parseDate(value: string): Date | null {
+  let parts: number[] | null = null;
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    parts = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  }
+  const local = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (local) {
+    parts = [Number(local[3]), Number(local[2]), Number(local[1])];
+  }
+  if (!parts) {
+    return null;
+  }
+
+  const [year, month, day] = parts;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject nonexistent dates (e.g. 31/04) that Date rolls into the next month
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+/**
+ * Parses a schedule CSV: one row per period and CUIT ending (or range of
+ * endings). Each period must cover all 10 endings and the due dates must fall
+ * in the schedule's year.
+ */
+export function parseTaxScheduleCsv(
+  csv: string,
+  year: number,
+): { entries: TaxScheduleEntryInput[]; errors: string[] } {
+  const lines = csv
+    .split(/\r?\n/)
+    .map((line, index) => ({ text: line.trim(), number: index + 1 }))
+    .filter((line) => line.text.length > 0);
+
+  const entries: TaxScheduleEntryInput[] = [];
+  const errors: string[] = [];
+  if (lines.length === 0) {
+    return { entries, errors: ["el CSV esta vacio"] };
+  }
+
+  const separator = lines[0].text.includes(";") ? ";" : ",";
+  // The header row is optional
+  const rows = /^\d{4}/.test(lines[0].text) ? lines : lines.slice(1);
+  const seen = new Map<string, Set<number>>();
+
+  for (const row of rows) {
+    const cells = row.text.split(separator).map((cell) => cell.trim());
+    if (cells.length < 3) {
+      errors.push(
+        `linea ${row.number}: se esperan periodo, terminacion y vencimiento`,
+      );
+      continue;
+    }
+
+    const [period, digits, due] = cells;
+    if (!PERIOD_PATTERN.test(period)) {
+      errors.push(`linea ${row.number}: periodo invalido "${period}"`);
+      continue;
+    }
+
+    const range = digits.match(DIGITS_PATTERN);
+    const from = range ? Number(range[1]) : NaN;
+    const to = range?.[2] !== undefined ? Number(range[2]) : from;
+    if (!range || to < from) {
+      errors.push(`linea ${row.number}: terminacion invalida "${digits}"`);
+      continue;
+    }
+
+    const dueDate = parseDate(due);
+    if (!dueDate) {
+      errors.push(`linea ${row.number}: vencimiento invalido "${due}"`);
+      continue;
+    }
+    if (dueDate.getUTCFullYear() !== year) {
+      errors.push(
+        `linea ${row.number}: el vencimiento ${due} no es de ${year}`,
+      );
+      continue;
+    }
+
+    const covered = seen.get(period) ?? new Set<number>();
+    seen.set(period, covered);
+    for (let digit = from; digit <= to; digit++) {
+      if (covered.has(digit)) {
+        errors.push(
+          `linea ${row.number}: terminacion ${digit} repetida en ${period}`,
+        );
+        continue;
+      }
+      covered.add(digit);
+      entries.push({ period, cuitDigit: digit, dueDate });
+    }
+  }
+
+  for (const [period, covered] of seen) {
+    const missing = [...Array(10).keys()].filter((d) => !covered.has(d));
+    if (missing.length > 0) {
+      errors.push(
+        `periodo ${period}: faltan terminaciones ${missing.join(", ")}`,
+      );
+    }
+  }
+
+  if (rows.length === 0) {
+    errors.push("el CSV no tiene vencimientos");
+  }
+
+  return { entries, errors };
+}
+
+// Last digit of the CUIT, or null if no CUIT is set.
+export function cuitLastDigit(cuit?: string | null): number | null {
+  const digits = (cuit ?? "").replace(/\D/g, "");
+  return digits ? Number(digits[digits.length - 1]) : null;
+}
+
+@Injectable()
+export class TaxSchedulesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(
+    jurisdictionId: string,
+    filters: TaxScheduleFilterDto,
+  ): Promise<TaxScheduleResponseDto[]> {
+    await this.ensureJurisdiction(jurisdictionId);
+
+    const schedules = await this.prisma.taxSchedule.findMany({
+      where: {
+        jurisdictionId,
+        ...(filters.year && { year: filters.year }),
+        ...(filters.code && { code: filters.code }),
+      },
+      include: { _count: { select: { entries: true } } },
+      orderBy: [{ code: "asc" }, { year: "desc" }],
+    });
+
+    return schedules.map((s) => this.toResponseDto(s, s._count.entries));
+  }
+
+  async findOne(
+    jurisdictionId: string,
+    scheduleId: string,
+  ): Promise<TaxScheduleResponseDto> {
+    const schedule = await this.prisma.taxSchedule.findFirst({
+      where: { id: scheduleId, jurisdictionId },
+      include: {
+        entries: { orderBy: [{ period: "asc" }, { cuitDigit: "asc" }] },
+      },
+    });
+
+    if (!schedule) {
+      throw new NotFoundException(`Cronograma no encontrado: ${scheduleId}`);
+    }
+
+    return this.toResponseDto(
+      schedule,
+      schedule.entries.length,
+      schedule.entries,
+    );
+  }
+
+  // Creates the year's schedule or replaces all its due dates.
+  async importCsv(
+    jurisdictionId: string,
+    dto: ImportTaxScheduleDto,
+  ): Promise<TaxScheduleResponseDto> {
+    await this.ensureJurisdiction(jurisdictionId);
+
+    const { entries, errors } = parseTaxScheduleCsv(dto.csv, dto.year);
+    if (errors.length > 0) {
+      throw new BadRequestException(`CSV invalido: ${errors.join("; ")}`);
+    }
+
+    const existing = await this.prisma.taxSchedule.findUnique({
+      where: { code_year: { code: dto.code, year: dto.year } },
+    });
+    if (existing && existing.jurisdictionId !== jurisdictionId) {
+      throw new ConflictException(
+        `El cronograma ${dto.code} ${dto.year} pertenece a otra jurisdiccion`,
+      );
+    }
+
+    // The schedule and its entries change together or not at all.
+    const schedule = await this.prisma.$transaction(async (tx) => {
+      const upserted = await tx.taxSchedule.upsert({
+        where: { code_year: { code: dto.code, year: dto.year } },
+        create: {
+          jurisdictionId,
+          code: dto.code,
+          year: dto.year,
+          name: dto.name,
+          description: dto.description,
+        },
+        update: { name: dto.name, description: dto.description },
+      });
+      await tx.taxScheduleEntry.deleteMany({
+        where: { scheduleId: upserted.id },
+      });
+      await tx.taxScheduleEntry.createMany({
+        data: entries.map((entry) => ({ ...entry, scheduleId: upserted.id })),
+      });
+      return upserted;
+    });
+
+    return this.toResponseDto(schedule, entries.length);
+  }
+
+  async remove(jurisdictionId: string, scheduleId: string): Promise<void> {
+    const schedule = await this.prisma.taxSchedule.findFirst({
+      where: { id: scheduleId, jurisdictionId },
+    });
+
+    if (!schedule) {
+      throw new NotFoundException(`Cronograma no encontrado: ${scheduleId}`);
+    }
+
+    await this.prisma.taxSchedule.delete({
+      where: { id: scheduleId },
+    });
+  }
+
+  /**
+   * Next schedule due date for the CUIT ending, on or after `from`. Walks all
+   * loaded years of the same code. Returns null if there is no CUIT or the
+   * year hasn't been imported yet.
+   */
+  async findNextDueDate(
+    code: string,
+    cuit: string | null | undefined,
+    from: Date,
+  ): Promise<ScheduledDueDate | null> {
+    const cuitDigit = cuitLastDigit(cuit);
+    if (cuitDigit === null) {
+      return null;
+    }
+
+    const entry = await this.prisma.taxScheduleEntry.findFirst({
+      where: {
+        cuitDigit,
+        dueDate: { gte: toCalendarDay(from) },
+        schedule: { code },
+      },
+      orderBy: { dueDate: "asc" },
+    });
+
+    return entry ? { period: entry.period, dueDate: entry.dueDate } : null;
+  }
+
+  private async ensureJurisdiction(jurisdictionId: string): Promise<void> {
+    const jurisdiction = await this.prisma.jurisdiction.findUnique({
+      where: { id: jurisdictionId },
+    });
+
+    if (!jurisdiction) {
+      throw new NotFoundException(
+        `Jurisdiccion no encontrada: ${jurisdictionId}`,
+      );
+    }
+  }
+
+  private toResponseDto(
+    schedule: TaxSchedule,
+    entryCount: number,
+    entries?: TaxScheduleEntry[],
+  ): TaxScheduleResponseDto {
+    return {
+      id: schedule.id,
+      jurisdictionId: schedule.jurisdictionId,
+      code: schedule.code,
+      year: schedule.year,
+      name: schedule.name,
+      description: schedule.description ?? undefined,
+      entryCount,
+      entries: entries?.map((e) => ({
+        period: e.period,
+        cuitDigit: e.cuitDigit,
+        dueDate: e.dueDate,
+      })),
+      createdAt: schedule.createdAt,
+      updatedAt: schedule.updatedAt,
+    };
+  }
+}
@@ -6,6 +6,7 @@ import {
 import { PrismaService } from "../common/prisma/prisma.service";
 import { AuditService } from "../audit/audit.service";
 import { AuditActions } from "../audit/dto/audit.dto";
+import { diffEntity } from "../audit/audit-diff";
 import {
   CreateLocationDto,
   UpdateLocationDto,
@@ -64,7 +65,11 @@ export class LocationsService {
       "Location",
       location.id,
       userId,
-      { name: location.name, rubric: location.rubric ?? undefined },
+      {
+        name: location.name,
+        rubric: location.rubric ?? undefined,
+        changes: diffEntity("Location", null, location),
+      },
     );
 
     return location;
@@ -175,7 +180,7 @@ export class LocationsService {
       "Location",
       locationId,
       userId,
-      { changes: dto },
+      { changes: diffEntity("Location", location, updated) },
     );
 
     return updated;
@@ -208,6 +213,12 @@ export class LocationsService {
       "Location",
       locationId,
       userId,
+      {
+        changes: diffEntity("Location", location, {
+          ...location,
+          active: false,
+        }),
+      },
     );
   }
 }
@@ -5,15 +5,26 @@ import helmet from "helmet";
 import { AppModule } from "./app.module";
 import { HttpExceptionFilter } from "./common/filters/http-exception.filter";
 import { ResponseTransformInterceptor } from "./common/interceptors/response-transform.interceptor";
+import {
+  ContextLogger,
+  REQUEST_ID_HEADER,
+  requestContextMiddleware,
+} from "./common/context";
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create(AppModule, {
+    logger: new ContextLogger(),
+  });
+
+  // Request id, IP and user agent for logs and audit events
+  app.use(requestContextMiddleware);
 
   // Security
   app.use(helmet());
   app.enableCors({
     origin: process.env.CORS_ORIGINS?.split(",") || ["http://localhost:3000"],
     credentials: true,
+    exposedHeaders: [REQUEST_ID_HEADER],
   });
 
   // Global validation pipe
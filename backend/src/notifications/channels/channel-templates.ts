@@ -0,0 +1,77 @@
+import { NotificationEvent } from "./notification-channel";
+
+export interface RenderedText {
+  title: string;
+  lines: string[];
+}
+
+/**
+ * Plain text of a notice, for the messaging channels. The wording follows the
+ * email templates.
+ */
+export function renderEventText(
+  event: NotificationEvent,
+  recipientName: string,
+): RenderedText {
+  const org = event.organizationName;
+
+  switch (event.template) {
+    case "upcoming_obligations":
+      return {
+        title:
+          event.urgentCount > 0
+            ? `[URGENTE] ${event.urgentCount} obligaciones próximas a vencer - ${org}`
+            : `${event.obligations.length} obligaciones próximas a vencer - ${org}`,
+        lines: [
+          `Hola ${recipientName}, tienes ${event.obligations.length} obligación(es) próxima(s) a vencer:`,
+          ...event.obligations.map(
+            (o) => `• ${o.title} - vence en ${o.daysUntilDue} días`,
+          ),
+        ],
+      };
+    case "overdue_obligations":
+      return {
+        title: `[VENCIDO] ${event.obligations.length} obligaciones vencidas - ${org}`,
+        lines: [
+          `Hay ${event.obligations.length} obligación(es) vencida(s):`,
+          ...event.obligations.map(
+            (o) => `• ${o.title} - responsable: ${o.ownerName}`,
+          ),
+          "Por favor, tome acción inmediata.",
+        ],
+      };
+    case "review_required":
+      return {
+        title: `Revisión requerida: ${event.obligationTitle} - ${org}`,
+        lines: [
+          `Hola ${recipientName}, se requiere tu revisión para "${event.obligationTitle}".`,
+          "Accede al panel de cumplimiento para aprobar o rechazar.",
+        ],
+      };
+    case "review_rejected":
+      return {
+        title: `Revisión rechazada: ${event.obligationTitle} - ${org}`,
+        lines: [
+          `Hola ${recipientName}, ${event.reviewerName} rechazó la revisión de "${event.obligationTitle}".`,
+          `Observaciones: ${event.comment}`,
+        ],
+      };
+    case "task_assigned":
+      return {
+        title: `Nueva tarea asignada: ${event.taskTitle} - ${org}`,
+        lines: [
+          `Hola ${recipientName}, se te asignó la tarea "${event.taskTitle}".`,
+          `Obligación: ${event.obligationTitle}`,
+        ],
+      };
+    case "obligation_escalated":
+      return {
+        title: `[ESCALAMIENTO ${event.level}] ${event.obligation.title} - ${org}`,
+        lines: [
+          `Hola ${recipientName}, "${event.obligation.title}" sigue vencida hace ${event.obligation.daysOverdue} días.`,
+          `Responsable: ${event.obligation.ownerName}`,
+          "Por favor, tome acción inmediata.",
+        ],
+      };
+  }
+}
@@ -0,0 +1,86 @@
+import { Injectable } from "@nestjs/common";
+import { NotificationChannel } from "@prisma/client";
+import { EmailService } from "../../common/email/email.service";
+import { EmailDeliveryTarget } from "../../common/email/email-delivery.service";
+import {
+  ChannelRecipient,
+  NotificationChannelAdapter,
+  NotificationEvent,
+} from "./notification-channel";
+
+// Uses EmailService's HTML templates (logging and dedupe included)
+@Injectable()
+export class EmailChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationChannel.EMAIL;
+
+  constructor(private emailService: EmailService) {}
+
+  // Without a Resend key emails are written to the log
+  isEnabled(): boolean {
+    return true;
+  }
+
+  async send(
+    recipient: ChannelRecipient,
+    event: NotificationEvent,
+    target: EmailDeliveryTarget,
+  ): Promise<boolean> {
+    const { email, fullName } = recipient;
+    const org = event.organizationName;
+
+    switch (event.template) {
+      case "upcoming_obligations":
+        return this.emailService.sendUpcomingObligationsEmail(
+          email,
+          fullName,
+          org,
+          event.obligations,
+          event.urgentCount,
+          target,
+        );
+      case "overdue_obligations":
+        return this.emailService.sendOverdueObligationsEmail(
+          email,
+          org,
+          event.obligations,
+          target,
+        );
+      case "review_required":
+        return this.emailService.sendReviewRequiredEmail(
+          email,
+          fullName,
+          org,
+          event.obligationTitle,
+          target,
+        );
+      case "review_rejected":
+        return this.emailService.sendReviewRejectedEmail(
+          email,
+          fullName,
+          org,
+          event.obligationTitle,
+          event.reviewerName,
+          event.comment,
+          target,
+        );
+      case "task_assigned":
+        return this.emailService.sendTaskAssignedEmail(
+          email,
+          fullName,
+          org,
+          event.taskTitle,
+          event.obligationTitle,
+          target,
+        );
+      case "obligation_escalated":
+        return this.emailService.sendObligationEscalatedEmail(
+          email,
+          fullName,
+          org,
+          event.obligation,
+          event.level,
+          target,
+        );
+    }
+  }
+}
@@ -0,0 +1,342 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  vi,
+} from "vitest";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import { createHmac } from "crypto";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "../notification-preferences.service";
+import { WebhookChannel } from "./webhook.channel";
+import { WhatsAppChannel } from "./whatsapp.channel";
+import { TelegramChannel } from "./telegram.channel";
+import { NotificationEvent } from "./notification-channel";
+import { getWebhookUrlError } from "./webhook-url";
+
+// The stub listens on 127.0.0.1, which the real check rejects
+vi.mock("./webhook-url", () => ({
+  getWebhookUrlError: vi.fn(),
+}));
+
+interface StubRequest {
+  url: string;
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+// Local server acting as the provider: stores each request and replies as configured
+const stub = {
+  server: null as unknown as Server,
+  baseUrl: "",
+  requests: [] as StubRequest[],
+  status: 200,
+  response: "{}",
+};
+
+const mockDeliveryService = {
+  begin: vi.fn(),
+  complete: vi.fn(),
+  findDueRetries: vi.fn(),
+};
+
+const config = (values: Record<string, string>) => ({
+  get: vi.fn((key: string) => values[key]),
+});
+
+const recipient = {
+  userId: "user-1",
+  email: "owner@test.com",
+  fullName: "Owner <Name>",
+  settings: {
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    whatsappPhone: "+5493415551234",
+    telegramChatId: "123456",
+    webhookUrl: "",
+    webhookSecret: "s3cret",
+  },
+};
+
+const event: NotificationEvent = {
+  template: "task_assigned",
+  organizationName: "Test Org",
+  taskTitle: "Subir plano",
+  obligationTitle: "Habilitacion",
+};
+
+const target = {
+  organizationId: "org-1",
+  userId: "user-1",
+  entityIds: ["task-1"],
+};
+
+describe("messaging channels", () => {
+  beforeAll(async () => {
+    stub.server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        stub.requests.push({ url: req.url!, headers: req.headers, body });
+        res.writeHead(stub.status, { "Content-Type": "application/json" });
+        res.end(stub.response);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      stub.server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = stub.server.address() as AddressInfo;
+    stub.baseUrl = `http://127.0.0.1:${port}`;
+    recipient.settings.webhookUrl = `${stub.baseUrl}/hooks/cumpliros`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => stub.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stub.requests = [];
+    stub.status = 200;
+    stub.response = "{}";
+    mockDeliveryService.begin.mockResolvedValue({ id: "del-1", attempts: 0 });
+    vi.mocked(getWebhookUrlError).mockResolvedValue(null);
+  });
+
+  describe("WebhookChannel", () => {
+    it("should post the event signed with the user secret", async () => {
+      const channel = new WebhookChannel(mockDeliveryService as any);
+
+      const sent = await channel.send(recipient, event, target);
+
+      expect(sent).toBe(true);
+      expect(stub.requests).toHaveLength(1);
+      const [request] = stub.requests;
+      const body = JSON.parse(request.body);
+      expect(request.url).toBe("/hooks/cumpliros");
+      expect(request.headers["x-cumpliros-event"]).toBe("task_assigned");
+      expect(request.headers["x-cumpliros-signature"]).toBe(
+        `sha256=${createHmac("sha256", "s3cret").update(request.body).digest("hex")}`,
+      );
+      expect(body).toMatchObject({
+        event: "task_assigned",
+        organizationId: "org-1",
+        userId: "user-1",
+        entityIds: ["task-1"],
+        data: event,
+      });
+      expect(mockDeliveryService.begin).toHaveBeenCalledWith(
+        { ...target, template: "task_assigned" },
+        expect.objectContaining({ to: recipient.settings.webhookUrl }),
+        "WEBHOOK",
+      );
+    });
+
+    it("should record the provider error for a retry", async () => {
+      stub.status = 500;
+      stub.response = "boom";
+      const channel = new WebhookChannel(mockDeliveryService as any);
+
+      const sent = await channel.send(recipient, event, target);
+
+      expect(sent).toBe(false);
+      expect(mockDeliveryService.complete).toHaveBeenCalledWith(
+        { id: "del-1", attempts: 0 },
+        { success: false, error: "HTTP 500" },
+      );
+    });
+
+    it("should not post to a URL that now resolves to a private address", async () => {
+      vi.mocked(getWebhookUrlError).mockResolvedValue(
+        "127.0.0.1 apunta a una direccion privada o local",
+      );
+      const channel = new WebhookChannel(mockDeliveryService as any);
+
+      const sent = await channel.send(recipient, event, target);
+
+      expect(sent).toBe(false);
+      expect(stub.requests).toHaveLength(0);
+      expect(getWebhookUrlError).toHaveBeenCalledWith(
+        recipient.settings.webhookUrl,
+      );
+      expect(mockDeliveryService.complete).toHaveBeenCalledWith(
+        { id: "del-1", attempts: 0 },
+        {
+          success: false,
+          error: "127.0.0.1 apunta a una direccion privada o local",
+        },
+      );
+    });
+
+    it("should skip webhooks saved without a signing secret", async () => {
+      const channel = new WebhookChannel(mockDeliveryService as any);
+
+      const sent = await channel.send(
+        {
+          ...recipient,
+          settings: { ...recipient.settings, webhookSecret: null },
+        },
+        event,
+        target,
+      );
+
+      expect(sent).toBe(false);
+      expect(mockDeliveryService.begin).not.toHaveBeenCalled();
+    });
+
+    it("should resend the exact signed body on retries", async () => {
+      const rawBody = JSON.stringify({ sentAt: "2025-07-07", event: "x" });
+      mockDeliveryService.findDueRetries.mockResolvedValue([
+        {
+          id: "del-2",
+          attempts: 1,
+          payload: {
+            to: recipient.settings.webhookUrl,
+            subject: "Aviso",
+            text: "Aviso",
+            // jsonb returns the keys in a different order
+            body: { event: "x", sentAt: "2025-07-07" },
+            rawBody,
+            headers: { "X-CumpliRos-Signature": "sha256=abc" },
+          },
+        },
+      ]);
+      const channel = new WebhookChannel(mockDeliveryService as any);
+
+      const sent = await channel.retryFailedDeliveries();
+
+      expect(sent).toBe(1);
+      expect(stub.requests[0].body).toBe(rawBody);
+      expect(stub.requests[0].headers["x-cumpliros-signature"]).toBe(
+        "sha256=abc",
+      );
+    });
+
+    it("should not post duplicates suppressed by the delivery log", async () => {
+      mockDeliveryService.begin.mockResolvedValue(null);
+      const channel = new WebhookChannel(mockDeliveryService as any);
+
+      const sent = await channel.send(recipient, event, target);
+
+      expect(sent).toBe(false);
+      expect(stub.requests).toHaveLength(0);
+    });
+  });
+
+  describe("WhatsAppChannel", () => {
+    const whatsApp = () =>
+      new WhatsAppChannel(
+        mockDeliveryService as any,
+        config({
+          WHATSAPP_API_URL: stub.baseUrl,
+          WHATSAPP_PHONE_NUMBER_ID: "phone-1",
+          WHATSAPP_ACCESS_TOKEN: "token-1",
+        }) as any,
+      );
+
+    it("should be disabled without credentials", () => {
+      expect(
+        new WhatsAppChannel(
+          mockDeliveryService as any,
+          config({}) as any,
+        ).isEnabled(),
+      ).toBe(false);
+      expect(whatsApp().isEnabled()).toBe(true);
+    });
+
+    it("should send a text message through the Cloud API", async () => {
+      stub.response = JSON.stringify({ messages: [{ id: "wamid.1" }] });
+
+      const sent = await whatsApp().send(recipient, event, target);
+
+      expect(sent).toBe(true);
+      const [request] = stub.requests;
+      expect(request.url).toBe("/phone-1/messages");
+      expect(request.headers.authorization).toBe("Bearer token-1");
+      expect(JSON.parse(request.body)).toMatchObject({
+        messaging_product: "whatsapp",
+        to: "5493415551234",
+        type: "text",
+        text: {
+          body: expect.stringContaining("*Nueva tarea asignada: Subir plano"),
+        },
+      });
+      expect(mockDeliveryService.complete).toHaveBeenCalledWith(
+        { id: "del-1", attempts: 0 },
+        { success: true, messageId: "wamid.1" },
+      );
+    });
+
+    it("should skip users without a phone", async () => {
+      const sent = await whatsApp().send(
+        {
+          ...recipient,
+          settings: { ...recipient.settings, whatsappPhone: null },
+        },
+        event,
+        target,
+      );
+
+      expect(sent).toBe(false);
+      expect(mockDeliveryService.begin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("TelegramChannel", () => {
+    const telegram = () =>
+      new TelegramChannel(
+        mockDeliveryService as any,
+        config({
+          TELEGRAM_API_URL: stub.baseUrl,
+          TELEGRAM_BOT_TOKEN: "bot-1",
+        }) as any,
+      );
+
+    it("should send an escaped HTML message to the chat", async () => {
+      stub.response = JSON.stringify({ ok: true, result: { message_id: 42 } });
+
+      const sent = await telegram().send(recipient, event, target);
+
+      expect(sent).toBe(true);
+      const [request] = stub.requests;
+      const body = JSON.parse(request.body);
+      expect(request.url).toBe("/botbot-1/sendMessage");
+      expect(body).toMatchObject({ chat_id: "123456", parse_mode: "HTML" });
+      expect(body.text).toContain("<b>Nueva tarea asignada: Subir plano");
+      expect(body.text).toContain("Owner &lt;Name&gt;");
+      expect(mockDeliveryService.complete).toHaveBeenCalledWith(
+        { id: "del-1", attempts: 0 },
+        { success: true, messageId: "42" },
+      );
+    });
+
+    it("should resend the stored message of failed deliveries", async () => {
+      mockDeliveryService.findDueRetries.mockResolvedValue([
+        {
+          id: "del-2",
+          attempts: 1,
+          payload: {
+            to: "123456",
+            subject: "Aviso",
+            text: "Aviso",
+            body: { chat_id: "123456", text: "Aviso", parse_mode: "HTML" },
+          },
+        },
+      ]);
+
+      const sent = await telegram().retryFailedDeliveries();
+
+      expect(sent).toBe(1);
+      expect(mockDeliveryService.findDueRetries).toHaveBeenCalledWith(
+        "TELEGRAM",
+      );
+      expect(JSON.parse(stub.requests[0].body)).toEqual({
+        chat_id: "123456",
+        text: "Aviso",
+        parse_mode: "HTML",
+      });
+    });
+  });
+});
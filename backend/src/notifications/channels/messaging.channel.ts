@@ -0,0 +1,134 @@
+import { Logger } from "@nestjs/common";
+import { NotificationChannel, Prisma } from "@prisma/client";
+import {
+  EmailDeliveryService,
+  EmailDeliveryTarget,
+  EmailMessage,
+} from "../../common/email/email-delivery.service";
+import {
+  ChannelRecipient,
+  ChannelSendResult,
+  NotificationChannelAdapter,
+  NotificationEvent,
+} from "./notification-channel";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Message already built for the provider; kept in the log for retries
+export interface ChannelMessage extends EmailMessage {
+  to: string;
+  text: string;
+  body: Prisma.InputJsonObject;
+  // Body already serialized when signed: jsonb doesn't keep key order and the
+  // retry has to send exactly what was signed
+  rawBody?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Base for the channels that send over HTTP (webhook, WhatsApp, Telegram).
+ * Records each send in notification_deliveries like emails do, so they share
+ * deduplication and retries with backoff.
+ */
+export abstract class MessagingChannel implements NotificationChannelAdapter {
+  abstract readonly channel: NotificationChannel;
+  protected readonly logger = new Logger(this.constructor.name);
+
+  constructor(protected deliveryService: EmailDeliveryService) {}
+
+  abstract isEnabled(): boolean;
+
+  // User's destination on this channel (phone, chat, URL)
+  protected abstract addressOf(recipient: ChannelRecipient): string | null;
+
+  protected abstract render(
+    event: NotificationEvent,
+    recipient: ChannelRecipient,
+    address: string,
+    target: EmailDeliveryTarget,
+  ): ChannelMessage;
+
+  protected abstract transmit(
+    message: ChannelMessage,
+  ): Promise<ChannelSendResult>;
+
+  async send(
+    recipient: ChannelRecipient,
+    event: NotificationEvent,
+    target: EmailDeliveryTarget,
+  ): Promise<boolean> {
+    const address = this.addressOf(recipient);
+    if (!address) {
+      return false;
+    }
+
+    const message = this.render(event, recipient, address, target);
+    const logged = await this.deliveryService.begin(
+      { ...target, template: event.template },
+      message,
+      this.channel,
+    );
+    if (!logged) {
+      this.logger.log(`Skipped duplicate ${event.template} to ${address}`);
+      return false;
+    }
+
+    const result = await this.transmit(message);
+    await this.deliveryService.complete(logged, result);
+    if (!result.success) {
+      this.logger.error(
+        `Failed to send ${event.template} to ${address}: ${result.error}`,
+      );
+    }
+    return result.success;
+  }
+
+  // Retries this channel's failed sends whose backoff has elapsed
+  async retryFailedDeliveries(): Promise<number> {
+    const deliveries = await this.deliveryService.findDueRetries(this.channel);
+    let sent = 0;
+
+    for (const delivery of deliveries) {
+      const result = await this.transmit(
+        delivery.payload as unknown as ChannelMessage,
+      );
+      await this.deliveryService.complete(delivery, result);
+      if (result.success) {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  protected async postJson(
+    url: string,
+    body: Prisma.InputJsonObject | string,
+    headers: Record<string, string> = {},
+  ): Promise<ChannelSendResult> {
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: typeof body === "string" ? body : JSON.stringify(body),
+        // A redirect could lead into the internal network; treat it as an error
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      // Only the status code: the response body may come from a third party
+      if (!response.ok) {
+        return { success: false, error: `HTTP ${response.status}` };
+      }
+      const text = await response.text();
+      return { success: true, messageId: this.messageIdOf?.(text) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // Message id from the provider's response, if it reports one
+  protected messageIdOf?(response: string): string | undefined;
+}
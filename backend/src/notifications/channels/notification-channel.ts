@@ -0,0 +1,63 @@
+import { NotificationChannel } from "@prisma/client";
+import {
+  EmailDeliveryTarget,
+  EmailSendResult,
+} from "../../common/email/email-delivery.service";
+import { NotificationSettings } from "../notification-preferences.service";
+
+/**
+ * Channel-independent data of a notice. Each channel builds its message
+ * (HTML email, WhatsApp text, webhook JSON) from this same data. `template`
+ * matches the template in the delivery log.
+ */
+export type NotificationEvent = { organizationName: string } & (
+  | {
+      template: "upcoming_obligations";
+      obligations: Array<{ title: string; daysUntilDue: number }>;
+      urgentCount: number;
+    }
+  | {
+      template: "overdue_obligations";
+      obligations: Array<{ title: string; ownerName: string }>;
+    }
+  | { template: "review_required"; obligationTitle: string }
+  | {
+      template: "review_rejected";
+      obligationTitle: string;
+      reviewerName: string;
+      comment: string;
+    }
+  | { template: "task_assigned"; taskTitle: string; obligationTitle: string }
+  | {
+      template: "obligation_escalated";
+      obligation: { title: string; ownerName: string; daysOverdue: number };
+      level: number;
+    }
+);
+
+// Recipient user with their preferences (channels and destinations)
+export interface ChannelRecipient {
+  userId: string;
+  email: string;
+  fullName: string;
+  settings: NotificationSettings;
+}
+
+export type ChannelSendResult = EmailSendResult;
+
+export interface NotificationChannelAdapter {
+  readonly channel: NotificationChannel;
+
+  // false if provider credentials are missing
+  isEnabled(): boolean;
+
+  /**
+   * Sends the notice on this channel. Returns false if the user has no
+   * destination for the channel, if it is a duplicate or if the send failed.
+   */
+  send(
+    recipient: ChannelRecipient,
+    event: NotificationEvent,
+    target: EmailDeliveryTarget,
+  ): Promise<boolean>;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { NotificationChannelsService } from "./notification-channels.service";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "../notification-preferences.service";
+import { NotificationEvent } from "./notification-channel";
+
+const adapter = (channel: string) => ({
+  channel,
+  isEnabled: vi.fn().mockReturnValue(true),
+  send: vi.fn().mockResolvedValue(true),
+  retryFailedDeliveries: vi.fn().mockResolvedValue(1),
+});
+
+const event: NotificationEvent = {
+  template: "review_required",
+  organizationName: "Test Org",
+  obligationTitle: "Habilitacion",
+};
+
+const target = {
+  organizationId: "org-1",
+  userId: "user-1",
+  entityIds: ["obl-1"],
+};
+
+describe("NotificationChannelsService", () => {
+  let service: NotificationChannelsService;
+  let email: ReturnType<typeof adapter>;
+  let webhook: ReturnType<typeof adapter>;
+  let whatsApp: ReturnType<typeof adapter>;
+  let telegram: ReturnType<typeof adapter>;
+
+  const recipient = (channels: string[]) => ({
+    userId: "user-1",
+    email: "owner@test.com",
+    fullName: "Owner",
+    settings: { ...DEFAULT_NOTIFICATION_SETTINGS, channels: channels as any },
+  });
+
+  beforeEach(() => {
+    email = adapter("EMAIL");
+    webhook = adapter("WEBHOOK");
+    whatsApp = adapter("WHATSAPP");
+    telegram = adapter("TELEGRAM");
+    service = new NotificationChannelsService(
+      email as any,
+      webhook as any,
+      whatsApp as any,
+      telegram as any,
+    );
+  });
+
+  describe("send", () => {
+    it("should send only through the channels chosen by the user", async () => {
+      const sent = await service.send(
+        recipient(["IN_APP", "EMAIL", "TELEGRAM"]),
+        event,
+        target,
+      );
+
+      expect(sent).toBe(true);
+      expect(email.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "user-1" }),
+        event,
+        target,
+      );
+      expect(telegram.send).toHaveBeenCalled();
+      expect(webhook.send).not.toHaveBeenCalled();
+      expect(whatsApp.send).not.toHaveBeenCalled();
+    });
+
+    it("should skip channels that are not configured", async () => {
+      whatsApp.isEnabled.mockReturnValue(false);
+
+      const sent = await service.send(recipient(["WHATSAPP"]), event, target);
+
+      expect(sent).toBe(false);
+      expect(whatsApp.send).not.toHaveBeenCalled();
+    });
+
+    it("should report success when any channel delivered", async () => {
+      email.send.mockResolvedValue(false);
+
+      const sent = await service.send(
+        recipient(["EMAIL", "WEBHOOK"]),
+        event,
+        target,
+      );
+
+      expect(sent).toBe(true);
+    });
+  });
+
+  describe("retryFailedDeliveries", () => {
+    it("should retry the enabled messaging channels", async () => {
+      telegram.isEnabled.mockReturnValue(false);
+
+      const sent = await service.retryFailedDeliveries();
+
+      expect(sent).toBe(2);
+      expect(telegram.retryFailedDeliveries).not.toHaveBeenCalled();
+      expect(email.retryFailedDeliveries).not.toHaveBeenCalled();
+    });
+  });
+});
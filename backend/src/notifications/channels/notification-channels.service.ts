@@ -0,0 +1,69 @@
+import { Injectable } from "@nestjs/common";
+import { EmailDeliveryTarget } from "../../common/email/email-delivery.service";
+import { EmailChannel } from "./email.channel";
+import { MessagingChannel } from "./messaging.channel";
+import { WebhookChannel } from "./webhook.channel";
+import { WhatsAppChannel } from "./whatsapp.channel";
+import { TelegramChannel } from "./telegram.channel";
+import {
+  ChannelRecipient,
+  NotificationChannelAdapter,
+  NotificationEvent,
+} from "./notification-channel";
+
+/**
+ * Sends notices over the external channels each user picked in their
+ * preferences. In-app notices are stored by NotificationsService.
+ */
+@Injectable()
+export class NotificationChannelsService {
+  private readonly messaging: MessagingChannel[];
+  private readonly adapters: NotificationChannelAdapter[];
+
+  constructor(
+    emailChannel: EmailChannel,
+    webhookChannel: WebhookChannel,
+    whatsAppChannel: WhatsAppChannel,
+    telegramChannel: TelegramChannel,
+  ) {
+    this.messaging = [webhookChannel, whatsAppChannel, telegramChannel];
+    this.adapters = [emailChannel, ...this.messaging];
+  }
+
+  // true if the notice went out on at least one channel
+  async send(
+    recipient: ChannelRecipient,
+    event: NotificationEvent,
+    target: EmailDeliveryTarget,
+  ): Promise<boolean> {
+    let sent = false;
+
+    for (const adapter of this.adapters) {
+      if (
+        recipient.settings.channels.includes(adapter.channel) &&
+        adapter.isEnabled() &&
+        (await adapter.send(recipient, event, target))
+      ) {
+        sent = true;
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Retries failed sends of the messaging channels. Emails are retried by
+   * EmailService.
+   */
+  async retryFailedDeliveries(): Promise<number> {
+    let sent = 0;
+
+    for (const channel of this.messaging) {
+      if (channel.isEnabled()) {
+        sent += await channel.retryFailedDeliveries();
+      }
+    }
+
+    return sent;
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { NotificationChannel } from "@prisma/client";
+import { EmailDeliveryService } from "../../common/email/email-delivery.service";
+import { renderEventText } from "./channel-templates";
+import { ChannelMessage, MessagingChannel } from "./messaging.channel";
+import {
+  ChannelRecipient,
+  ChannelSendResult,
+  NotificationEvent,
+} from "./notification-channel";
+
+// Telegram only interprets <, > and & in HTML mode
+const escapeTelegram = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Telegram bot. The user has to start the chat with the bot; the chat id is
+ * stored in their preferences.
+ */
+@Injectable()
+export class TelegramChannel extends MessagingChannel {
+  readonly channel = NotificationChannel.TELEGRAM;
+  private readonly apiUrl: string;
+  private readonly botToken?: string;
+
+  constructor(
+    deliveryService: EmailDeliveryService,
+    private configService: ConfigService,
+  ) {
+    super(deliveryService);
+    this.apiUrl =
+      this.configService.get<string>("TELEGRAM_API_URL") ||
+      "https://api.telegram.org";
+    this.botToken = this.configService.get<string>("TELEGRAM_BOT_TOKEN");
+  }
+
+  isEnabled(): boolean {
+    return !!this.botToken;
+  }
+
+  protected addressOf(recipient: ChannelRecipient): string | null {
+    return recipient.settings.telegramChatId;
+  }
+
+  protected render(
+    event: NotificationEvent,
+    recipient: ChannelRecipient,
+    address: string,
+  ): ChannelMessage {
+    const { title, lines } = renderEventText(event, recipient.fullName);
+    const text = [
+      `<b>${escapeTelegram(title)}</b>`,
+      "",
+      ...lines.map(escapeTelegram),
+    ].join("\n");
+
+    return {
+      to: address,
+      subject: title,
+      text,
+      body: {
+        chat_id: address,
+        text,
+        parse_mode: "HTML",
+        disable_web_page_preview: true,
+      },
+    };
+  }
+
+  // The token goes in the URL, not in the stored message
+  protected transmit(message: ChannelMessage): Promise<ChannelSendResult> {
+    return this.postJson(
+      `${this.apiUrl}/bot${this.botToken}/sendMessage`,
+      message.body,
+    );
+  }
+
+  protected messageIdOf(response: string): string | undefined {
+    try {
+      const id = JSON.parse(response).result?.message_id;
+      return id === undefined ? undefined : String(id);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { getWebhookUrlError, isPrivateAddress } from "./webhook-url";
+
+describe("webhook URL checks", () => {
+  it("should flag loopback, private and link-local addresses", () => {
+    expect(isPrivateAddress("127.0.0.1")).toBe(true);
+    expect(isPrivateAddress("10.1.2.3")).toBe(true);
+    expect(isPrivateAddress("172.20.0.5")).toBe(true);
+    expect(isPrivateAddress("192.168.1.10")).toBe(true);
+    expect(isPrivateAddress("169.254.169.254")).toBe(true);
+    expect(isPrivateAddress("::1")).toBe(true);
+    expect(isPrivateAddress("fe80::1")).toBe(true);
+    expect(isPrivateAddress("fd00::1")).toBe(true);
+    expect(isPrivateAddress("::ffff:127.0.0.1")).toBe(true);
+  });
+
+  it("should accept public addresses", () => {
+    expect(isPrivateAddress("8.8.8.8")).toBe(false);
+    expect(isPrivateAddress("172.32.0.1")).toBe(false);
+    expect(isPrivateAddress("2001:4860:4860::8888")).toBe(false);
+  });
+
+  it("should explain why a URL is rejected", async () => {
+    expect(await getWebhookUrlError("ftp://8.8.8.8/hook")).toBe(
+      "la URL debe ser http o https",
+    );
+    expect(await getWebhookUrlError("no es una url")).toBe(
+      "la URL no es valida",
+    );
+    expect(await getWebhookUrlError("http://[::1]:3000/hook")).toBe(
+      "::1 apunta a una direccion privada o local",
+    );
+    expect(await getWebhookUrlError("https://8.8.8.8/hook")).toBeNull();
+  });
+});
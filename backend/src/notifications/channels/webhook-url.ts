@@ -0,0 +1,72 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+// Ranges that aren't the public internet: loopback, private networks,
+// link-local (including cloud metadata at 169.254.169.254), CGNAT and multicast.
+const BLOCKED_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+const IPV4_MAPPED = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+export function isPrivateAddress(address: string): boolean {
+  const mapped = IPV4_MAPPED.exec(address);
+  if (mapped) {
+    return BLOCKED_RANGES.check(mapped[1], "ipv4");
+  }
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return BLOCKED_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Why a webhook URL can't be sent to, or null if it is valid. The host is
+ * resolved and rejected if any of its addresses is private or local, so a
+ * user can't aim the server at the internal network.
+ */
+export async function getWebhookUrlError(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "la URL no es valida";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return "la URL debe ser http o https";
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `no se pudo resolver ${host}`;
+  }
+
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    return `${host} apunta a una direccion privada o local`;
+  }
+  return null;
+}
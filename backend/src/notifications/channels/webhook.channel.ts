@@ -0,0 +1,88 @@
+import { Injectable } from "@nestjs/common";
+import { createHmac } from "crypto";
+import { NotificationChannel, Prisma } from "@prisma/client";
+import { EmailDeliveryTarget } from "../../common/email/email-delivery.service";
+import { renderEventText } from "./channel-templates";
+import { ChannelMessage, MessagingChannel } from "./messaging.channel";
+import { getWebhookUrlError } from "./webhook-url";
+import {
+  ChannelRecipient,
+  ChannelSendResult,
+  NotificationEvent,
+} from "./notification-channel";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-CumpliRos-Signature";
+
+/**
+ * JSON POST to the user's URL with the full event. Each send is signed
+ * (HMAC-SHA256 of the body) with the preference's own secret. The signature
+ * is stored with the message, so retries don't need the secret. The host is
+ * resolved again before each send: if it now points to a private address, the
+ * send fails without making the POST.
+ */
+@Injectable()
+export class WebhookChannel extends MessagingChannel {
+  readonly channel = NotificationChannel.WEBHOOK;
+
+  isEnabled(): boolean {
+    return true;
+  }
+
+  // Without a secret it can't sign; the user has to save the URL again
+  protected addressOf(recipient: ChannelRecipient): string | null {
+    return recipient.settings.webhookSecret
+      ? recipient.settings.webhookUrl
+      : null;
+  }
+
+  protected render(
+    event: NotificationEvent,
+    recipient: ChannelRecipient,
+    address: string,
+    target: EmailDeliveryTarget,
+  ): ChannelMessage {
+    const { title, lines } = renderEventText(event, recipient.fullName);
+    const text = [title, "", ...lines].join("\n");
+    const body: Prisma.InputJsonObject = {
+      event: event.template,
+      organizationId: target.organizationId,
+      userId: recipient.userId,
+      entityIds: target.entityIds,
+      title,
+      text,
+      data: event as unknown as Prisma.InputJsonObject,
+      sentAt: new Date().toISOString(),
+    };
+    const rawBody = JSON.stringify(body);
+    const signature = createHmac("sha256", recipient.settings.webhookSecret!)
+      .update(rawBody)
+      .digest("hex");
+
+    return {
+      to: address,
+      subject: title,
+      text,
+      body,
+      rawBody,
+      headers: {
+        "X-CumpliRos-Event": event.template,
+        [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signature}`,
+      },
+    };
+  }
+
+  protected async transmit(
+    message: ChannelMessage,
+  ): Promise<ChannelSendResult> {
+    const urlError = await getWebhookUrlError(message.to);
+    if (urlError) {
+      return { success: false, error: urlError };
+    }
+
+    return this.postJson(
+      message.to,
+      message.rawBody ?? message.body,
+      message.headers,
+    );
+  }
+}
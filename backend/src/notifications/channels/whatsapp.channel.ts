@@ -0,0 +1,82 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { NotificationChannel } from "@prisma/client";
+import { EmailDeliveryService } from "../../common/email/email-delivery.service";
+import { renderEventText } from "./channel-templates";
+import { ChannelMessage, MessagingChannel } from "./messaging.channel";
+import {
+  ChannelRecipient,
+  ChannelSendResult,
+  NotificationEvent,
+} from "./notification-channel";
+
+/**
+ * WhatsApp Business Cloud API. Sends text messages, which Meta delivers
+ * within the 24 h window since the user's last message.
+ */
+@Injectable()
+export class WhatsAppChannel extends MessagingChannel {
+  readonly channel = NotificationChannel.WHATSAPP;
+  private readonly apiUrl: string;
+  private readonly phoneNumberId?: string;
+  private readonly accessToken?: string;
+
+  constructor(
+    deliveryService: EmailDeliveryService,
+    private configService: ConfigService,
+  ) {
+    super(deliveryService);
+    this.apiUrl =
+      this.configService.get<string>("WHATSAPP_API_URL") ||
+      "https://graph.facebook.com/v20.0";
+    this.phoneNumberId = this.configService.get<string>(
+      "WHATSAPP_PHONE_NUMBER_ID",
+    );
+    this.accessToken = this.configService.get<string>("WHATSAPP_ACCESS_TOKEN");
+  }
+
+  isEnabled(): boolean {
+    return !!this.phoneNumberId && !!this.accessToken;
+  }
+
+  protected addressOf(recipient: ChannelRecipient): string | null {
+    return recipient.settings.whatsappPhone;
+  }
+
+  protected render(
+    event: NotificationEvent,
+    recipient: ChannelRecipient,
+    address: string,
+  ): ChannelMessage {
+    const { title, lines } = renderEventText(event, recipient.fullName);
+    const text = [`*${title}*`, "", ...lines, "", "CumpliRos"].join("\n");
+
+    return {
+      to: address,
+      subject: title,
+      text,
+      body: {
+        messaging_product: "whatsapp",
+        to: address.replace(/^\+/, ""),
+        type: "text",
+        text: { body: text, preview_url: false },
+      },
+    };
+  }
+
+  protected transmit(message: ChannelMessage): Promise<ChannelSendResult> {
+    return this.postJson(
+      `${this.apiUrl}/${this.phoneNumberId}/messages`,
+      message.body,
+      { Authorization: `Bearer ${this.accessToken}` },
+    );
+  }
+
+  protected messageIdOf(response: string): string | undefined {
+    try {
+      return JSON.parse(response).messages?.[0]?.id;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { DeliveryStatus, NotificationChannel } from "@prisma/client";
+import {
+  EMAIL_TEMPLATES,
+  EmailTemplate,
+} from "../../common/email/email-delivery.service";
+
+export class NotificationDeliveryQueryDto {
+  @ApiPropertyOptional({ enum: DeliveryStatus })
+  @IsOptional()
+  @IsEnum(DeliveryStatus)
+  status?: DeliveryStatus;
+
+  @ApiPropertyOptional({ enum: EMAIL_TEMPLATES })
+  @IsOptional()
+  @IsIn(EMAIL_TEMPLATES)
+  template?: EmailTemplate;
+
+  @ApiPropertyOptional({ description: "Email del destinatario (parcial)" })
+  @IsOptional()
+  @IsString()
+  recipient?: string;
+
+  @ApiPropertyOptional({
+    description: "Obligacion o tarea incluida en el aviso",
+  })
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  fromDate?: Date;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  toDate?: Date;
+}
+
+export class NotificationDeliveryResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: NotificationChannel })
+  channel: NotificationChannel;
+
+  @ApiProperty({ example: "owner@example.com" })
+  recipient: string;
+
+  @ApiPropertyOptional()
+  userId?: string;
+
+  @ApiProperty({ example: "upcoming_obligations" })
+  template: string;
+
+  @ApiProperty({ type: [String] })
+  entityIds: string[];
+
+  @ApiProperty({ enum: DeliveryStatus })
+  status: DeliveryStatus;
+
+  @ApiPropertyOptional({ description: "Id del mensaje en el proveedor" })
+  providerMessageId?: string;
+
+  @ApiPropertyOptional()
+  error?: string;
+
+  @ApiProperty()
+  attempts: number;
+
+  @ApiPropertyOptional()
+  nextAttemptAt?: Date;
+
+  @ApiPropertyOptional()
+  sentAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,167 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsTimeZone,
+  IsUrl,
+  Matches,
+  Max,
+  Min,
+} from "class-validator";
+import {
+  NotificationChannel,
+  NotificationFrequency,
+  NotificationType,
+} from "@prisma/client";
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class UpdateNotificationPreferenceDto {
+  @ApiPropertyOptional({ enum: NotificationChannel, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(NotificationChannel, { each: true })
+  channels?: NotificationChannel[];
+
+  @ApiPropertyOptional({ enum: NotificationType, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(NotificationType, { each: true })
+  eventTypes?: NotificationType[];
+
+  @ApiPropertyOptional({
+    enum: NotificationFrequency,
+    description:
+      "Frecuencia de los emails. Los vencimientos siempre llegan como resumen " +
+      "a digestHour; con IMMEDIATE las revisiones y tareas asignadas se envian " +
+      "al momento (fuera del horario de silencio), si no solo quedan in-app.",
+  })
+  @IsOptional()
+  @IsEnum(NotificationFrequency)
+  frequency?: NotificationFrequency;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: 23, example: 7 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  digestHour?: number;
+
+  @ApiPropertyOptional({
+    minimum: 1,
+    maximum: 7,
+    example: 1,
+    description: "Dia del resumen semanal (1 = lunes ... 7 = domingo)",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(7)
+  digestWeekday?: number;
+
+  @ApiPropertyOptional({
+    example: "22:00",
+    nullable: true,
+    description: "Inicio del horario de silencio (HH:mm). null lo desactiva",
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: "quietHoursStart debe tener formato HH:mm" })
+  quietHoursStart?: string | null;
+
+  @ApiPropertyOptional({ example: "08:00", nullable: true })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: "quietHoursEnd debe tener formato HH:mm" })
+  quietHoursEnd?: string | null;
+
+  @ApiPropertyOptional({ example: "America/Argentina/Buenos_Aires" })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    example: "+5493411234567",
+    nullable: true,
+    description: "Numero de WhatsApp en formato internacional",
+  })
+  @IsOptional()
+  @Matches(/^\+[1-9]\d{7,14}$/, {
+    message: "whatsappPhone debe tener formato internacional (+549...)",
+  })
+  whatsappPhone?: string | null;
+
+  @ApiPropertyOptional({
+    example: "123456789",
+    nullable: true,
+    description: "Chat del usuario con el bot de Telegram",
+  })
+  @IsOptional()
+  @Matches(/^-?\d{1,20}$/, { message: "telegramChatId debe ser numerico" })
+  telegramChatId?: string | null;
+
+  @ApiPropertyOptional({
+    example: "https://hooks.example.com/cumpliros",
+    nullable: true,
+    description: "URL que recibe los avisos como POST JSON",
+  })
+  @IsOptional()
+  @IsUrl({ protocols: ["https"], require_protocol: true })
+  webhookUrl?: string | null;
+
+  @ApiPropertyOptional({
+    description: "Genera un nuevo secreto de firma para el webhook",
+  })
+  @IsOptional()
+  @IsBoolean()
+  rotateWebhookSecret?: boolean;
+}
+
+export class NotificationPreferenceResponseDto {
+  @ApiProperty({ enum: NotificationChannel, isArray: true })
+  channels: NotificationChannel[];
+
+  @ApiProperty({ enum: NotificationType, isArray: true })
+  eventTypes: NotificationType[];
+
+  @ApiProperty({ enum: NotificationFrequency })
+  frequency: NotificationFrequency;
+
+  @ApiProperty({ example: 7 })
+  digestHour: number;
+
+  @ApiProperty({ example: 1 })
+  digestWeekday: number;
+
+  @ApiPropertyOptional({ example: "22:00" })
+  quietHoursStart?: string;
+
+  @ApiPropertyOptional({ example: "08:00" })
+  quietHoursEnd?: string;
+
+  @ApiProperty({ example: "America/Argentina/Buenos_Aires" })
+  timezone: string;
+
+  @ApiPropertyOptional({ example: "+5493411234567" })
+  whatsappPhone?: string;
+
+  @ApiPropertyOptional({ example: "123456789" })
+  telegramChatId?: string;
+
+  @ApiPropertyOptional({ example: "https://hooks.example.com/cumpliros" })
+  webhookUrl?: string;
+
+  @ApiPropertyOptional({
+    example: "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08",
+    description:
+      "Secreto para verificar la firma del webhook. Solo se muestra al generarlo",
+  })
+  webhookSecret?: string;
+
+  @ApiProperty({ description: "true si el usuario aun no guardo preferencias" })
+  isDefault: boolean;
+}
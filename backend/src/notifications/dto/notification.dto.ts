@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsBoolean, IsEnum, IsOptional } from "class-validator";
+import { Transform } from "class-transformer";
+import { NotificationSeverity, NotificationType } from "@prisma/client";
+
+export class NotificationQueryDto {
+  @ApiPropertyOptional({ default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === "true")
+  @IsBoolean()
+  unreadOnly?: boolean;
+
+  @ApiPropertyOptional({ enum: NotificationType })
+  @IsOptional()
+  @IsEnum(NotificationType)
+  type?: NotificationType;
+}
+
+export class NotificationResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: NotificationType })
+  type: NotificationType;
+
+  @ApiProperty({ enum: NotificationSeverity })
+  severity: NotificationSeverity;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiPropertyOptional()
+  message?: string;
+
+  @ApiPropertyOptional({ example: "Obligation" })
+  entityType?: string;
+
+  @ApiPropertyOptional()
+  entityId?: string;
+
+  @ApiProperty()
+  read: boolean;
+
+  @ApiPropertyOptional()
+  readAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class UnreadCountDto {
+  @ApiProperty({ example: 3 })
+  count: number;
+}
+
+export class MarkAllReadResultDto {
+  @ApiProperty({ example: 3 })
+  updated: number;
+}
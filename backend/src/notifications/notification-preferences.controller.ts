@@ -0,0 +1,53 @@
+import { Body, Controller, Get, Param, Put, UseGuards } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { NotificationPreferencesService } from "./notification-preferences.service";
+import {
+  NotificationPreferenceResponseDto,
+  UpdateNotificationPreferenceDto,
+} from "./dto/notification-preference.dto";
+import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
+import { OrganizationGuard } from "../common/guards/organization.guard";
+import { CurrentUser } from "../common/decorators/current-user.decorator";
+import { AuthenticatedUser } from "../common/interfaces/request.interface";
+
+@ApiTags("notifications")
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, OrganizationGuard)
+@Controller("organizations/:organizationId/notification-preferences")
+export class NotificationPreferencesController {
+  constructor(
+    private readonly preferencesService: NotificationPreferencesService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: "Obtener preferencias de notificacion del usuario" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: NotificationPreferenceResponseDto })
+  async get(
+    @Param("organizationId") organizationId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<NotificationPreferenceResponseDto> {
+    return this.preferencesService.get(organizationId, user.id);
+  }
+
+  @Put()
+  @ApiOperation({
+    summary: "Actualizar preferencias de notificacion del usuario",
+  })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: NotificationPreferenceResponseDto })
+  @ApiResponse({ status: 400, description: "Datos inválidos" })
+  async update(
+    @Param("organizationId") organizationId: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: UpdateNotificationPreferenceDto,
+  ): Promise<NotificationPreferenceResponseDto> {
+    return this.preferencesService.update(organizationId, user.id, dto);
+  }
+}
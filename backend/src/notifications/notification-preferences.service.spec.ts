@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BadRequestException } from "@nestjs/common";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationPreferencesService,
+  NotificationSettings,
+  isDigestDue,
+  isQuietHours,
+  localTime,
+} from "./notification-preferences.service";
+
+const mockPrismaService = {
+  notificationPreference: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    upsert: vi.fn(),
+  },
+};
+
+const settings = (
+  overrides: Partial<NotificationSettings> = {},
+): NotificationSettings => ({ ...DEFAULT_NOTIFICATION_SETTINGS, ...overrides });
+
+describe("notification schedule helpers", () => {
+  it("should read the local time of the user", () => {
+    expect(
+      localTime(new Date("2025-07-07T02:30:00Z"), "America/Argentina/Cordoba"),
+    ).toEqual({ weekday: 7, minutes: 23 * 60 + 30 }); // domingo 23:30
+  });
+
+  it("should detect quiet hours across midnight", () => {
+    const quiet = settings({
+      quietHoursStart: "22:00",
+      quietHoursEnd: "08:00",
+    });
+
+    expect(isQuietHours(quiet, new Date("2025-07-07T02:00:00Z"))).toBe(true);
+    expect(isQuietHours(quiet, new Date("2025-07-07T10:59:00Z"))).toBe(true);
+    expect(isQuietHours(quiet, new Date("2025-07-07T11:00:00Z"))).toBe(false);
+    expect(isQuietHours(settings(), new Date("2025-07-07T02:00:00Z"))).toBe(
+      false,
+    );
+  });
+
+  it("should send the digest at the local digest hour", () => {
+    expect(isDigestDue(settings(), new Date("2025-07-07T10:15:00Z"))).toBe(
+      true,
+    );
+    expect(isDigestDue(settings(), new Date("2025-07-07T11:00:00Z"))).toBe(
+      false,
+    );
+  });
+
+  it("should postpone the digest to the end of quiet hours", () => {
+    const quiet = settings({
+      quietHoursStart: "22:00",
+      quietHoursEnd: "08:30",
+    });
+
+    expect(isDigestDue(quiet, new Date("2025-07-07T10:00:00Z"))).toBe(false);
+    expect(isDigestDue(quiet, new Date("2025-07-07T12:00:00Z"))).toBe(true);
+  });
+
+  it("should send the weekly digest only on the chosen weekday", () => {
+    const weekly = settings({
+      frequency: "WEEKLY_DIGEST" as any,
+      digestWeekday: 2,
+    });
+
+    expect(isDigestDue(weekly, new Date("2025-07-07T10:00:00Z"))).toBe(false);
+    expect(isDigestDue(weekly, new Date("2025-07-08T10:00:00Z"))).toBe(true);
+  });
+});
+
+describe("NotificationPreferencesService", () => {
+  let service: NotificationPreferencesService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new NotificationPreferencesService(mockPrismaService as any);
+    mockPrismaService.notificationPreference.upsert.mockImplementation(
+      ({ create }) => create,
+    );
+  });
+
+  describe("get", () => {
+    it("should return the defaults when the user has no preferences", async () => {
+      mockPrismaService.notificationPreference.findUnique.mockResolvedValue(
+        null,
+      );
+
+      const result = await service.get("org-1", "user-1");
+
+      expect(result).toMatchObject({
+        frequency: "DAILY_DIGEST",
+        digestHour: 7,
+        isDefault: true,
+      });
+    });
+  });
+
+  describe("update", () => {
+    it("should merge the changes over the current preferences", async () => {
+      mockPrismaService.notificationPreference.findUnique.mockResolvedValue(
+        settings({ quietHoursStart: "22:00", quietHoursEnd: "08:00" }),
+      );
+
+      const result = await service.update("org-1", "user-1", {
+        frequency: "IMMEDIATE" as any,
+        quietHoursStart: null,
+        quietHoursEnd: null,
+      });
+
+      expect(result).toMatchObject({
+        frequency: "IMMEDIATE",
+        quietHoursStart: undefined,
+        isDefault: false,
+      });
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId_organizationId: {
+              userId: "user-1",
+              organizationId: "org-1",
+            },
+          },
+          update: expect.objectContaining({
+            digestHour: 7,
+            quietHoursStart: null,
+          }),
+        }),
+      );
+    });
+
+    it("should reject quiet hours without an end", async () => {
+      mockPrismaService.notificationPreference.findUnique.mockResolvedValue(
+        null,
+      );
+
+      await expect(
+        service.update("org-1", "user-1", { quietHoursStart: "22:00" }),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("should require the address of the external channels", async () => {
+      mockPrismaService.notificationPreference.findUnique.mockResolvedValue(
+        settings({ telegramChatId: "123456" }),
+      );
+
+      await expect(
+        service.update("org-1", "user-1", {
+          channels: ["TELEGRAM" as any, "WHATSAPP" as any],
+        }),
+      ).rejects.toThrow(
+        "Para recibir avisos por WHATSAPP se requiere un número de WhatsApp",
+      );
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("should return a new signing secret only when the webhook URL changes", async () => {
+      mockPrismaService.notificationPreference.findUnique.mockResolvedValue(
+        settings({
+          webhookUrl: "https://8.8.8.8/old",
+          webhookSecret: "old-secret",
+        }),
+      );
+
+      const changed = await service.update("org-1", "user-1", {
+        webhookUrl: "https://8.8.8.8/new",
+      });
+      const unchanged = await service.update("org-1", "user-1", {
+        digestHour: 9,
+      });
+
+      expect(changed.webhookSecret).toMatch(/^[0-9a-f]{64}$/);
+      expect(
+        mockPrismaService.notificationPreference.upsert.mock.calls[0][0].update
+          .webhookSecret,
+      ).toBe(changed.webhookSecret);
+      expect(unchanged.webhookSecret).toBeUndefined();
+      expect(
+        mockPrismaService.notificationPreference.upsert.mock.calls[1][0].update
+          .webhookSecret,
+      ).toBe("old-secret");
+    });
+
+    it("should rotate the secret on request and drop it with the URL", async () => {
+      mockPrismaService.notificationPreference.findUnique.mockResolvedValue(
+        settings({
+          webhookUrl: "https://8.8.8.8/hook",
+          webhookSecret: "old-secret",
+        }),
+      );
+
+      const rotated = await service.update("org-1", "user-1", {
+        rotateWebhookSecret: true,
+      });
+      const cleared = await service.update("org-1", "user-1", {
+        webhookUrl: null,
+      });
+
+      expect(rotated.webhookSecret).toMatch(/^[0-9a-f]{64}$/);
+      expect(rotated.webhookSecret).not.toBe("old-secret");
+      expect(cleared.webhookSecret).toBeUndefined();
+      expect(
+        mockPrismaService.notificationPreference.upsert.mock.calls[1][0].update,
+      ).toMatchObject({ webhookUrl: null, webhookSecret: null });
+    });
+
+    it("should reject webhook URLs on private or local addresses", async () => {
+      mockPrismaService.notificationPreference.findUnique.mockResolvedValue(
+        null,
+      );
+
+      await expect(
+        service.update("org-1", "user-1", {
+          webhookUrl: "http://169.254.169.254/latest/meta-data",
+        }),
+      ).rejects.toThrow(
+        "webhookUrl no permitida: 169.254.169.254 apunta a una direccion privada o local",
+      );
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getForUsers", () => {
+    it("should fill the defaults for users without preferences", async () => {
+      mockPrismaService.notificationPreference.findMany.mockResolvedValue([
+        { userId: "user-1", ...settings({ digestHour: 9 }) },
+      ]);
+
+      const result = await service.getForUsers("org-1", ["user-1", "user-2"]);
+
+      expect(result.get("user-1")!.digestHour).toBe(9);
+      expect(result.get("user-2")).toBe(DEFAULT_NOTIFICATION_SETTINGS);
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { randomBytes } from "crypto";
+import {
+  NotificationChannel,
+  NotificationFrequency,
+  NotificationPreference,
+  NotificationType,
+} from "@prisma/client";
+import { PrismaService } from "../common/prisma/prisma.service";
+import {
+  NotificationPreferenceResponseDto,
+  UpdateNotificationPreferenceDto,
+} from "./dto/notification-preference.dto";
+import { getWebhookUrlError } from "./channels/webhook-url";
+
+export type NotificationSettings = Pick<
+  NotificationPreference,
+  | "channels"
+  | "eventTypes"
+  | "frequency"
+  | "digestHour"
+  | "digestWeekday"
+  | "quietHoursStart"
+  | "quietHoursEnd"
+  | "timezone"
+  | "whatsappPhone"
+  | "telegramChatId"
+  | "webhookUrl"
+  | "webhookSecret"
+>;
+
+// Same values as the schema's @default
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  channels: [NotificationChannel.EMAIL, NotificationChannel.IN_APP],
+  eventTypes: Object.values(NotificationType),
+  frequency: NotificationFrequency.DAILY_DIGEST,
+  digestHour: 7,
+  digestWeekday: 1,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: "America/Argentina/Buenos_Aires",
+  whatsappPhone: null,
+  telegramChatId: null,
+  webhookUrl: null,
+  webhookSecret: null,
+};
+
+// Fields that can be cleared by sending null
+const NULLABLE_KEYS = [
+  "quietHoursStart",
+  "quietHoursEnd",
+  "whatsappPhone",
+  "telegramChatId",
+  "webhookUrl",
+];
+
+// External channels that need a destination of the user's own
+const CHANNEL_ADDRESSES: Partial<
+  Record<
+    NotificationChannel,
+    { key: keyof NotificationSettings; label: string }
+  >
+> = {
+  [NotificationChannel.WHATSAPP]: {
+    key: "whatsappPhone",
+    label: "un número de WhatsApp",
+  },
+  [NotificationChannel.TELEGRAM]: {
+    key: "telegramChatId",
+    label: "un chat de Telegram",
+  },
+  [NotificationChannel.WEBHOOK]: { key: "webhookUrl", label: "una URL" },
+};
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// The range may cross midnight (e.g. 22:00 to 08:00)
+const inRange = (minutes: number, start: number, end: number): boolean =>
+  start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+
+/**
+ * Day of the week (1 = Monday) and minutes since midnight in the user's time
+ * zone.
+ */
+export function localTime(
+  date: Date,
+  timeZone: string,
+): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)!.value;
+
+  return {
+    weekday: WEEKDAYS.indexOf(part("weekday")) + 1,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+export function isQuietHours(
+  settings: NotificationSettings,
+  date: Date,
+): boolean {
+  if (!settings.quietHoursStart || !settings.quietHoursEnd) {
+    return false;
+  }
+  return inRange(
+    localTime(date, settings.timezone).minutes,
+    toMinutes(settings.quietHoursStart),
+    toMinutes(settings.quietHoursEnd),
+  );
+}
+
+/**
+ * Whether the email digest is due at this hour. If the chosen hour falls in
+ * quiet hours, the digest goes out when they end.
+ */
+export function isDigestDue(
+  settings: NotificationSettings,
+  date: Date,
+): boolean {
+  let digestHour = settings.digestHour;
+  if (
+    settings.quietHoursStart &&
+    settings.quietHoursEnd &&
+    inRange(
+      digestHour * 60,
+      toMinutes(settings.quietHoursStart),
+      toMinutes(settings.quietHoursEnd),
+    )
+  ) {
+    digestHour = Math.ceil(toMinutes(settings.quietHoursEnd) / 60) % 24;
+  }
+
+  const { weekday, minutes } = localTime(date, settings.timezone);
+  if (Math.floor(minutes / 60) !== digestHour) {
+    return false;
+  }
+  return (
+    settings.frequency !== NotificationFrequency.WEEKLY_DIGEST ||
+    weekday === settings.digestWeekday
+  );
+}
+
+export function acceptsEvent(
+  settings: NotificationSettings,
+  type: NotificationType,
+): boolean {
+  return settings.eventTypes.includes(type);
+}
+
+export function acceptsNotification(
+  settings: NotificationSettings,
+  channel: NotificationChannel,
+  type: NotificationType,
+): boolean {
+  return settings.channels.includes(channel) && acceptsEvent(settings, type);
+}
+
+// Individual notices only go out on external channels (email, WhatsApp, etc.)
+// set to immediate; each channel is filtered when sending.
+export function acceptsImmediate(
+  settings: NotificationSettings,
+  type: NotificationType,
+  date: Date,
+): boolean {
+  return (
+    settings.frequency === NotificationFrequency.IMMEDIATE &&
+    acceptsEvent(settings, type) &&
+    !isQuietHours(settings, date)
+  );
+}
+
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(private prisma: PrismaService) {}
+
+  async get(
+    organizationId: string,
+    userId: string,
+  ): Promise<NotificationPreferenceResponseDto> {
+    const preference = await this.prisma.notificationPreference.findUnique({
+      where: { userId_organizationId: { userId, organizationId } },
+    });
+    return this.toResponseDto(
+      preference ?? DEFAULT_NOTIFICATION_SETTINGS,
+      !preference,
+    );
+  }
+
+  async update(
+    organizationId: string,
+    userId: string,
+    dto: UpdateNotificationPreferenceDto,
+  ): Promise<NotificationPreferenceResponseDto> {
+    const current = await this.prisma.notificationPreference.findUnique({
+      where: { userId_organizationId: { userId, organizationId } },
+    });
+    const { rotateWebhookSecret, ...changes } = dto;
+    const settings = this.pick(current ?? DEFAULT_NOTIFICATION_SETTINGS);
+    for (const [key, value] of Object.entries(changes)) {
+      if (
+        value !== undefined &&
+        (value !== null || NULLABLE_KEYS.includes(key))
+      ) {
+        Object.assign(settings, { [key]: value });
+      }
+    }
+
+    if (!settings.quietHoursStart !== !settings.quietHoursEnd) {
+      throw new BadRequestException(
+        "El horario de silencio requiere hora de inicio y de fin",
+      );
+    }
+
+    for (const channel of settings.channels) {
+      const address = CHANNEL_ADDRESSES[channel];
+      if (address && !settings[address.key]) {
+        throw new BadRequestException(
+          `Para recibir avisos por ${channel} se requiere ${address.label}`,
+        );
+      }
+    }
+
+    if (dto.webhookUrl) {
+      const urlError = await getWebhookUrlError(dto.webhookUrl);
+      if (urlError) {
+        throw new BadRequestException(`webhookUrl no permitida: ${urlError}`);
+      }
+    }
+
+    // Each new URL gets its own signing secret, returned only once in this
+    // response
+    let webhookSecret: string | undefined;
+    if (!settings.webhookUrl) {
+      settings.webhookSecret = null;
+    } else if (
+      rotateWebhookSecret ||
+      !settings.webhookSecret ||
+      settings.webhookUrl !== current?.webhookUrl
+    ) {
+      webhookSecret = randomBytes(32).toString("hex");
+      settings.webhookSecret = webhookSecret;
+    }
+
+    const preference = await this.prisma.notificationPreference.upsert({
+      where: { userId_organizationId: { userId, organizationId } },
+      create: { userId, organizationId, ...settings },
+      update: settings,
+    });
+    return this.toResponseDto(preference, false, webhookSecret);
+  }
+
+  /**
+   * Preferences of several users of an organization. Users without a record
+   * get the defaults.
+   */
+  async getForUsers(
+    organizationId: string,
+    userIds: string[],
+  ): Promise<Map<string, NotificationSettings>> {
+    const preferences =
+      userIds.length > 0
+        ? await this.prisma.notificationPreference.findMany({
+            where: { organizationId, userId: { in: userIds } },
+          })
+        : [];
+    const byUser = new Map(preferences.map((p) => [p.userId, this.pick(p)]));
+
+    return new Map(
+      userIds.map((userId) => [
+        userId,
+        byUser.get(userId) ?? DEFAULT_NOTIFICATION_SETTINGS,
+      ]),
+    );
+  }
+
+  private pick(settings: NotificationSettings): NotificationSettings {
+    return {
+      channels: settings.channels,
+      eventTypes: settings.eventTypes,
+      frequency: settings.frequency,
+      digestHour: settings.digestHour,
+      digestWeekday: settings.digestWeekday,
+      quietHoursStart: settings.quietHoursStart,
+      quietHoursEnd: settings.quietHoursEnd,
+      timezone: settings.timezone,
+      whatsappPhone: settings.whatsappPhone,
+      telegramChatId: settings.telegramChatId,
+      webhookUrl: settings.webhookUrl,
+      webhookSecret: settings.webhookSecret,
+    };
+  }
+
+  private toResponseDto(
+    settings: NotificationSettings,
+    isDefault: boolean,
+    webhookSecret?: string,
+  ): NotificationPreferenceResponseDto {
+    return {
+      ...this.pick(settings),
+      quietHoursStart: settings.quietHoursStart ?? undefined,
+      quietHoursEnd: settings.quietHoursEnd ?? undefined,
+      whatsappPhone: settings.whatsappPhone ?? undefined,
+      telegramChatId: settings.telegramChatId ?? undefined,
+      webhookUrl: settings.webhookUrl ?? undefined,
+      webhookSecret,
+      isDefault,
+    };
+  }
+}
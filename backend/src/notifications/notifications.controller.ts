@@ -0,0 +1,122 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { Role } from "@prisma/client";
+import { NotificationsService } from "./notifications.service";
+import {
+  MarkAllReadResultDto,
+  NotificationQueryDto,
+  NotificationResponseDto,
+  UnreadCountDto,
+} from "./dto/notification.dto";
+import {
+  NotificationDeliveryQueryDto,
+  NotificationDeliveryResponseDto,
+} from "./dto/notification-delivery.dto";
+import { PaginationDto, PaginatedResponse } from "../common/dto/pagination.dto";
+import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
+import { OrganizationGuard } from "../common/guards/organization.guard";
+import { RolesGuard } from "../common/guards/roles.guard";
+import { Roles } from "../common/decorators/roles.decorator";
+import { CurrentUser } from "../common/decorators/current-user.decorator";
+import { AuthenticatedUser } from "../common/interfaces/request.interface";
+
+@ApiTags("notifications")
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, OrganizationGuard)
+@Controller("organizations/:organizationId/notifications")
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Listar notificaciones del usuario" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, description: "Lista paginada de notificaciones" })
+  async findAll(
+    @Param("organizationId") organizationId: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() query: NotificationQueryDto,
+    @Query() pagination: PaginationDto,
+  ): Promise<PaginatedResponse<NotificationResponseDto>> {
+    return this.notificationsService.findForUser(
+      organizationId,
+      user.id,
+      query,
+      pagination,
+    );
+  }
+
+  @Get("unread-count")
+  @ApiOperation({ summary: "Cantidad de notificaciones sin leer" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: UnreadCountDto })
+  async countUnread(
+    @Param("organizationId") organizationId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<UnreadCountDto> {
+    return this.notificationsService.countUnread(organizationId, user.id);
+  }
+
+  @Get("deliveries")
+  @UseGuards(RolesGuard)
+  @Roles(Role.OWNER)
+  @ApiOperation({ summary: "Historial de envios de la organizacion" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, description: "Lista paginada de envios" })
+  async findDeliveries(
+    @Param("organizationId") organizationId: string,
+    @Query() query: NotificationDeliveryQueryDto,
+    @Query() pagination: PaginationDto,
+  ): Promise<PaginatedResponse<NotificationDeliveryResponseDto>> {
+    return this.notificationsService.findDeliveries(
+      organizationId,
+      query,
+      pagination,
+    );
+  }
+
+  @Post("read-all")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Marcar todas las notificaciones como leidas" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: MarkAllReadResultDto })
+  async markAllRead(
+    @Param("organizationId") organizationId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<MarkAllReadResultDto> {
+    return this.notificationsService.markAllRead(organizationId, user.id);
+  }
+
+  @Patch(":notificationId/read")
+  @ApiOperation({ summary: "Marcar notificacion como leida" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "notificationId", type: "string" })
+  @ApiResponse({ status: 200, type: NotificationResponseDto })
+  @ApiResponse({ status: 404, description: "Notificacion no encontrada" })
+  async markRead(
+    @Param("organizationId") organizationId: string,
+    @Param("notificationId") notificationId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<NotificationResponseDto> {
+    return this.notificationsService.markRead(
+      organizationId,
+      user.id,
+      notificationId,
+    );
+  }
+}
@@ -1,8 +1,31 @@
 import { Module } from "@nestjs/common";
 import { NotificationsService } from "./notifications.service";
+import { NotificationsController } from "./notifications.controller";
+import { NotificationPreferencesService } from "./notification-preferences.service";
+import { NotificationPreferencesController } from "./notification-preferences.controller";
+import { NotificationChannelsService } from "./channels/notification-channels.service";
+import { EmailChannel } from "./channels/email.channel";
+import { WebhookChannel } from "./channels/webhook.channel";
+import { WhatsAppChannel } from "./channels/whatsapp.channel";
+import { TelegramChannel } from "./channels/telegram.channel";
+import { JurisdictionsModule } from "../jurisdictions/jurisdictions.module";
 
 @Module({
-  providers: [NotificationsService],
-  exports: [NotificationsService],
+  imports: [JurisdictionsModule],
+  controllers: [NotificationsController, NotificationPreferencesController],
+  providers: [
+    NotificationsService,
+    NotificationPreferencesService,
+    NotificationChannelsService,
+    EmailChannel,
+    WebhookChannel,
+    WhatsAppChannel,
+    TelegramChannel,
+  ],
+  exports: [
+    NotificationsService,
+    NotificationPreferencesService,
+    NotificationChannelsService,
+  ],
 })
 export class NotificationsModule {}
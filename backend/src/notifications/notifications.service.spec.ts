@@ -1,16 +1,42 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { NotificationsService } from "./notifications.service";
+import { NotFoundException } from "@nestjs/common";
+import { BusinessCalendar } from "../jurisdictions/business-calendar.service";
+import { PaginationDto } from "../common/dto/pagination.dto";
+import { NotificationChannelsService } from "./channels/notification-channels.service";
+import { EmailChannel } from "./channels/email.channel";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationSettings,
+} from "./notification-preferences.service";
 
 const mockPrismaService = {
   organization: {
     findMany: vi.fn(),
+    findUnique: vi.fn(),
   },
   obligation: {
     findMany: vi.fn(),
+    findFirst: vi.fn(),
   },
   userOrg: {
     findMany: vi.fn(),
   },
+  user: {
+    findMany: vi.fn(),
+  },
+  notification: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    createMany: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    count: vi.fn(),
+  },
+  notificationDelivery: {
+    findMany: vi.fn(),
+    count: vi.fn(),
+  },
 };
 
 const mockEmailService = {
@@ -18,8 +44,39 @@ const mockEmailService = {
   sendOverdueObligationsEmail: vi.fn(),
   sendReviewRequiredEmail: vi.fn(),
   sendReviewRejectedEmail: vi.fn(),
+  sendTaskAssignedEmail: vi.fn(),
+};
+
+const chatChannel = (channel: string) => ({
+  channel,
+  isEnabled: () => true,
+  send: vi.fn(),
+});
+
+const mockWebhookChannel = chatChannel("WEBHOOK");
+const mockWhatsAppChannel = chatChannel("WHATSAPP");
+const mockTelegramChannel = chatChannel("TELEGRAM");
+
+const mockBusinessCalendarService = {
+  getCalendarForOrganization: vi.fn(),
 };
 
+const mockPreferencesService = {
+  getForUsers: vi.fn(),
+};
+
+const withPreferences = (
+  preferences: Record<string, Partial<NotificationSettings>>,
+) =>
+  mockPreferencesService.getForUsers.mockResolvedValue(
+    new Map(
+      Object.entries(preferences).map(([userId, settings]) => [
+        userId,
+        { ...DEFAULT_NOTIFICATION_SETTINGS, ...settings },
+      ]),
+    ),
+  );
+
 describe("NotificationsService", () => {
   let service: NotificationsService;
 
@@ -27,11 +84,36 @@ describe("NotificationsService", () => {
     vi.clearAllMocks();
     service = new NotificationsService(
       mockPrismaService as any,
-      mockEmailService as any,
+      new NotificationChannelsService(
+        new EmailChannel(mockEmailService as any),
+        mockWebhookChannel as any,
+        mockWhatsAppChannel as any,
+        mockTelegramChannel as any,
+      ),
+      mockBusinessCalendarService as any,
+      mockPreferencesService as any,
+    );
+    mockBusinessCalendarService.getCalendarForOrganization.mockResolvedValue(
+      null,
+    );
+    mockPreferencesService.getForUsers.mockResolvedValue(new Map());
+    mockPrismaService.notification.findMany.mockResolvedValue([]);
+    mockPrismaService.notification.createMany.mockImplementation(
+      ({ data }) => ({ count: data.length }),
     );
   });
 
   describe("notifyUpcomingObligations", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      // 07:00 in Buenos Aires, the default digest hour
+      vi.setSystemTime(new Date("2025-07-07T10:00:00Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
     it("should send notifications to obligation owners", async () => {
       const mockOrganizations = [
         {
@@ -74,6 +156,11 @@ describe("NotificationsService", () => {
         "Org 1",
         expect.any(Array),
         expect.any(Number),
+        {
+          organizationId: "org-1",
+          userId: undefined,
+          entityIds: ["obl-1", "obl-2"],
+        },
       );
     });
 
@@ -123,20 +210,149 @@ describe("NotificationsService", () => {
 
       expect(result).toBe(0);
     });
+
+    it("should count business days when the organization uses them", async () => {
+      // Monday 2025-07-07
+
+      mockPrismaService.organization.findMany.mockResolvedValue([
+        {
+          id: "org-1",
+          name: "Org 1",
+          thresholdYellowDays: 15,
+          thresholdRedDays: 2,
+          countBusinessDays: true,
+        },
+      ]);
+      mockBusinessCalendarService.getCalendarForOrganization.mockResolvedValue(
+        new BusinessCalendar([new Date("2025-07-09")]),
+      );
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        {
+          id: "obl-1",
+          title: "DREI",
+          dueDate: new Date("2025-07-11"),
+          owner: {
+            id: "user-1",
+            email: "owner@test.com",
+            fullName: "Owner Name",
+          },
+        },
+      ]);
+      mockEmailService.sendUpcomingObligationsEmail.mockResolvedValue(true);
+
+      await service.notifyUpcomingObligations();
+
+      expect(
+        mockEmailService.sendUpcomingObligationsEmail,
+      ).toHaveBeenCalledWith(
+        "owner@test.com",
+        "Owner Name",
+        "Org 1",
+        [{ title: "DREI", daysUntilDue: 3 }],
+        0,
+        { organizationId: "org-1", userId: "user-1", entityIds: ["obl-1"] },
+      );
+      expect(
+        mockPrismaService.notification.createMany.mock.calls[0][0].data,
+      ).toEqual([
+        {
+          userId: "user-1",
+          organizationId: "org-1",
+          type: "OBLIGATION_UPCOMING",
+          severity: "WARNING",
+          title: "Vence pronto: DREI",
+          message: "Vence en 3 dias habiles",
+          entityType: "Obligation",
+          entityId: "obl-1",
+        },
+      ]);
+    });
+
+    it("should email only at the digest hour of each owner", async () => {
+      mockPrismaService.organization.findMany.mockResolvedValue([
+        {
+          id: "org-1",
+          name: "Org 1",
+          thresholdYellowDays: 15,
+          thresholdRedDays: 7,
+        },
+      ]);
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        {
+          id: "obl-1",
+          title: "IVA",
+          dueDate: new Date("2025-07-10"),
+          owner: { id: "user-1", email: "one@test.com", fullName: "One" },
+        },
+        {
+          id: "obl-2",
+          title: "DREI",
+          dueDate: new Date("2025-07-10"),
+          owner: { id: "user-2", email: "two@test.com", fullName: "Two" },
+        },
+      ]);
+      withPreferences({
+        "user-1": { digestHour: 9 },
+        "user-2": { channels: ["EMAIL" as any] },
+      });
+      mockEmailService.sendUpcomingObligationsEmail.mockResolvedValue(true);
+
+      const result = await service.notifyUpcomingObligations();
+
+      expect(result).toBe(1);
+      expect(
+        mockEmailService.sendUpcomingObligationsEmail,
+      ).toHaveBeenCalledWith(
+        "two@test.com",
+        "Two",
+        "Org 1",
+        expect.any(Array),
+        expect.any(Number),
+        expect.objectContaining({ userId: "user-2" }),
+      );
+      expect(
+        mockPrismaService.notification.createMany.mock.calls[0][0].data.map(
+          (n: { userId: string }) => n.userId,
+        ),
+      ).toEqual(["user-1"]);
+    });
   });
 
   describe("notifyOverdueObligations", () => {
-    it("should send notifications to organization owners", async () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-07-07T10:00:00Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should notify the owner and the escalated recipients", async () => {
       const mockOrganizations = [{ id: "org-1", name: "Org 1", active: true }];
       const mockOverdueObligations = [
         {
           id: "obl-1",
           title: "Overdue Tax",
+          ownerUserId: "user-1",
+          escalationLevel: 2,
           owner: { fullName: "Owner Name", email: "owner@test.com" },
+          escalations: [
+            { level: 1, notifiedUserIds: ["user-1"] },
+            { level: 2, notifiedUserIds: ["user-2"] },
+            { level: 3, notifiedUserIds: ["user-3"] }, // earlier escalation
+          ],
         },
       ];
-      const mockOwners = [
-        { user: { email: "admin@test.com", fullName: "Admin" } },
+      const mockMembers = [
+        {
+          userId: "user-1",
+          user: { email: "owner@test.com", fullName: "Owner Name" },
+        },
+        {
+          userId: "user-2",
+          user: { email: "admin@test.com", fullName: "Admin" },
+        },
       ];
 
       mockPrismaService.organization.findMany.mockResolvedValue(
@@ -145,17 +361,64 @@ describe("NotificationsService", () => {
       mockPrismaService.obligation.findMany.mockResolvedValue(
         mockOverdueObligations,
       );
-      mockPrismaService.userOrg.findMany.mockResolvedValue(mockOwners);
+      mockPrismaService.userOrg.findMany.mockResolvedValue(mockMembers);
       mockEmailService.sendOverdueObligationsEmail.mockResolvedValue(true);
 
       const result = await service.notifyOverdueObligations();
 
-      expect(result).toBe(1);
+      expect(result).toBe(2);
+      expect(mockPrismaService.userOrg.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            organizationId: "org-1",
+            userId: { in: ["user-1", "user-2"] },
+          },
+        }),
+      );
       expect(mockEmailService.sendOverdueObligationsEmail).toHaveBeenCalledWith(
         "admin@test.com",
         "Org 1",
         [{ title: "Overdue Tax", ownerName: "Owner Name" }],
+        { organizationId: "org-1", userId: "user-2", entityIds: ["obl-1"] },
       );
+      expect(
+        mockPrismaService.notification.createMany.mock.calls[0][0].data.map(
+          (n: { userId: string }) => n.userId,
+        ),
+      ).toEqual(["user-1", "user-2"]);
+    });
+
+    it("should skip owners that turned off overdue notifications", async () => {
+      mockPrismaService.organization.findMany.mockResolvedValue([
+        { id: "org-1", name: "Org 1", active: true },
+      ]);
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        {
+          id: "obl-1",
+          title: "Overdue Tax",
+          ownerUserId: "user-2",
+          escalationLevel: 0,
+          owner: { fullName: "Admin", email: "admin@test.com" },
+          escalations: [],
+        },
+      ]);
+      mockPrismaService.userOrg.findMany.mockResolvedValue([
+        {
+          userId: "user-2",
+          user: { email: "admin@test.com", fullName: "Admin" },
+        },
+      ]);
+      withPreferences({
+        "user-2": { eventTypes: ["OBLIGATION_UPCOMING" as any] },
+      });
+
+      const result = await service.notifyOverdueObligations();
+
+      expect(result).toBe(0);
+      expect(
+        mockEmailService.sendOverdueObligationsEmail,
+      ).not.toHaveBeenCalled();
+      expect(mockPrismaService.notification.createMany).not.toHaveBeenCalled();
     });
 
     it("should skip organizations with no overdue obligations", async () => {
@@ -173,48 +436,412 @@ describe("NotificationsService", () => {
     });
   });
 
-  describe("notifyReviewRequired", () => {
-    it("should send review required notification", async () => {
-      mockEmailService.sendReviewRequiredEmail.mockResolvedValue(true);
+  describe("notifyReviewPending", () => {
+    it("should notify reviewers once the evidence is complete", async () => {
+      mockPrismaService.obligation.findFirst.mockResolvedValue({
+        id: "obl-1",
+        title: "Habilitacion",
+        requiresReview: true,
+        requiredEvidenceCount: 1,
+        organization: { name: "Org 1" },
+        reviews: [],
+        _count: { documents: 1 },
+      });
+      mockPrismaService.userOrg.findMany.mockResolvedValue([
+        {
+          userId: "accountant-1",
+          user: { email: "accountant@test.com", fullName: "Accountant" },
+        },
+      ]);
 
-      await service.notifyReviewRequired(
-        "obl-123",
-        "reviewer@test.com",
-        "Reviewer Name",
-        "Test Org",
-        "Tax Payment Q1",
+      const created = await service.notifyReviewPending(
+        "org-1",
+        "obl-1",
+        "user-1",
       );
 
+      expect(created).toBe(1);
+      expect(mockPrismaService.userOrg.findMany).toHaveBeenCalledWith({
+        where: {
+          organizationId: "org-1",
+          role: { in: ["OWNER", "ACCOUNTANT", "MANAGER"] },
+          userId: { not: "user-1" },
+        },
+        select: {
+          userId: true,
+          user: { select: { email: true, fullName: true } },
+        },
+      });
+      expect(mockEmailService.sendReviewRequiredEmail).not.toHaveBeenCalled();
+    });
+
+    it("should email reviewers that want immediate notifications", async () => {
+      mockPrismaService.obligation.findFirst.mockResolvedValue({
+        id: "obl-1",
+        title: "Habilitacion",
+        requiresReview: true,
+        requiredEvidenceCount: 1,
+        organization: { name: "Org 1" },
+        reviews: [],
+        _count: { documents: 1 },
+      });
+      mockPrismaService.userOrg.findMany.mockResolvedValue([
+        {
+          userId: "accountant-1",
+          user: { email: "accountant@test.com", fullName: "Accountant" },
+        },
+      ]);
+      withPreferences({
+        "accountant-1": {
+          frequency: "IMMEDIATE" as any,
+          channels: ["EMAIL" as any],
+        },
+      });
+
+      const created = await service.notifyReviewPending("org-1", "obl-1");
+
+      expect(created).toBe(0);
       expect(mockEmailService.sendReviewRequiredEmail).toHaveBeenCalledWith(
-        "reviewer@test.com",
-        "Reviewer Name",
-        "Test Org",
-        "Tax Payment Q1",
+        "accountant@test.com",
+        "Accountant",
+        "Org 1",
+        "Habilitacion",
+        {
+          organizationId: "org-1",
+          userId: "accountant-1",
+          entityIds: ["obl-1"],
+        },
       );
     });
+
+    it("should skip obligations that are already approved", async () => {
+      mockPrismaService.obligation.findFirst.mockResolvedValue({
+        id: "obl-1",
+        requiresReview: true,
+        requiredEvidenceCount: 1,
+        reviews: [{ id: "review-1" }],
+        _count: { documents: 2 },
+      });
+
+      const created = await service.notifyReviewPending("org-1", "obl-1");
+
+      expect(created).toBe(0);
+      expect(mockPrismaService.userOrg.findMany).not.toHaveBeenCalled();
+    });
   });
 
-  describe("notifyReviewRejected", () => {
-    it("should send review rejected notification", async () => {
-      mockEmailService.sendReviewRejectedEmail.mockResolvedValue(true);
+  describe("notifyReviewResult", () => {
+    it("should send the rejection through the channels of the owner", async () => {
+      withPreferences({
+        "user-1": {
+          frequency: "IMMEDIATE" as any,
+          channels: ["EMAIL" as any, "TELEGRAM" as any],
+          telegramChatId: "123456",
+        },
+      });
+      mockPrismaService.user.findMany.mockResolvedValue([
+        { id: "user-1", email: "owner@test.com", fullName: "Owner Name" },
+        { id: "accountant-1", email: "acc@test.com", fullName: "Contadora" },
+      ]);
+      mockPrismaService.organization.findUnique.mockResolvedValue({
+        name: "Test Org",
+      });
 
-      await service.notifyReviewRejected(
-        "owner@test.com",
-        "Owner Name",
-        "Test Org",
-        "Tax Payment Q1",
-        "Reviewer Name",
-        "Missing documents",
+      await service.notifyReviewResult(
+        "org-1",
+        { id: "obl-1", title: "Habilitacion", ownerUserId: "user-1" },
+        "REJECTED" as any,
+        "accountant-1",
+        "Falta el plano",
       );
 
+      const target = {
+        organizationId: "org-1",
+        userId: "user-1",
+        entityIds: ["obl-1"],
+      };
       expect(mockEmailService.sendReviewRejectedEmail).toHaveBeenCalledWith(
         "owner@test.com",
         "Owner Name",
         "Test Org",
-        "Tax Payment Q1",
-        "Reviewer Name",
-        "Missing documents",
+        "Habilitacion",
+        "Contadora",
+        "Falta el plano",
+        target,
+      );
+      expect(mockTelegramChannel.send).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "user-1" }),
+        {
+          template: "review_rejected",
+          organizationName: "Test Org",
+          obligationTitle: "Habilitacion",
+          reviewerName: "Contadora",
+          comment: "Falta el plano",
+        },
+        target,
+      );
+      expect(mockWhatsAppChannel.send).not.toHaveBeenCalled();
+    });
+
+    it("should notify the obligation owner of a rejection", async () => {
+      await service.notifyReviewResult(
+        "org-1",
+        { id: "obl-1", title: "Habilitacion", ownerUserId: "user-1" },
+        "REJECTED" as any,
+        "accountant-1",
+        "Falta el plano",
+      );
+
+      expect(mockPrismaService.notification.findMany).not.toHaveBeenCalled();
+      expect(mockPrismaService.notification.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            userId: "user-1",
+            type: "REVIEW_REJECTED",
+            severity: "WARNING",
+            message: "Falta el plano",
+          }),
+        ],
+      });
+    });
+  });
+
+  describe("notifyTaskAssigned", () => {
+    const task = {
+      id: "task-1",
+      title: "Juntar facturas",
+      assignedToUserId: "user-2",
+      assignee: { email: "two@test.com", fullName: "Two" },
+      obligation: { title: "IVA" },
+    };
+
+    it("should notify the assignee in-app", async () => {
+      const created = await service.notifyTaskAssigned("org-1", task, "user-1");
+
+      expect(created).toBe(1);
+      expect(mockPrismaService.notification.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            userId: "user-2",
+            type: "TASK_ASSIGNED",
+            entityType: "Task",
+            entityId: "task-1",
+          }),
+        ],
+      });
+      expect(mockEmailService.sendTaskAssignedEmail).not.toHaveBeenCalled();
+    });
+
+    it("should skip tasks the user assigned to themselves", async () => {
+      const created = await service.notifyTaskAssigned("org-1", task, "user-2");
+
+      expect(created).toBe(0);
+      expect(mockPreferencesService.getForUsers).not.toHaveBeenCalled();
+    });
+
+    it("should hold the email during quiet hours", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-07-07T02:00:00Z")); // 23:00 local
+      withPreferences({
+        "user-2": {
+          frequency: "IMMEDIATE" as any,
+          quietHoursStart: "22:00",
+          quietHoursEnd: "08:00",
+        },
+      });
+
+      await service.notifyTaskAssigned("org-1", task, "user-1");
+
+      expect(mockEmailService.sendTaskAssignedEmail).not.toHaveBeenCalled();
+      expect(mockPrismaService.notification.createMany).toHaveBeenCalled();
+
+      vi.useRealTimers();
+    });
+  });
+
+  describe("dispatch", () => {
+    it("should log a failed notification instead of rejecting", async () => {
+      const logError = vi
+        .spyOn((service as any).logger, "error")
+        .mockImplementation(() => undefined);
+
+      service.dispatch(Promise.reject(new Error("SMTP caido")), "task task-1");
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(logError).toHaveBeenCalledWith(
+        "Failed to notify task task-1: SMTP caido",
+      );
+    });
+  });
+
+  describe("createInApp", () => {
+    it("should skip notifications the user has not read yet", async () => {
+      const base = {
+        organizationId: "org-1",
+        type: "OBLIGATION_OVERDUE" as any,
+        severity: "CRITICAL" as any,
+        title: "Obligacion vencida: IVA",
+        entityType: "Obligation",
+        entityId: "obl-1",
+      };
+      mockPrismaService.notification.findMany.mockResolvedValue([
+        {
+          userId: "user-1",
+          organizationId: "org-1",
+          type: "OBLIGATION_OVERDUE",
+          entityId: "obl-1",
+        },
+      ]);
+
+      const created = await service.createInApp([
+        { ...base, userId: "user-1" },
+        { ...base, userId: "user-2" },
+        { ...base, userId: "user-2" },
+      ]);
+
+      expect(created).toBe(1);
+      expect(
+        mockPrismaService.notification.createMany.mock.calls[0][0].data,
+      ).toEqual([{ ...base, userId: "user-2" }]);
+    });
+  });
+
+  describe("hourly job dedupe", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-07-07T10:00:00Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should not recreate a notification the user already read that day", async () => {
+      // In-memory notifications table honoring the dedupe query
+      const stored: any[] = [];
+      mockPrismaService.notification.createMany.mockImplementation(
+        ({ data }) => {
+          stored.push(
+            ...data.map((n: object) => ({
+              ...n,
+              readAt: null,
+              createdAt: new Date(),
+            })),
+          );
+          return { count: data.length };
+        },
+      );
+      mockPrismaService.notification.findMany.mockImplementation(
+        ({ where }) => {
+          const since: Date = where.OR[1].createdAt.gte;
+          return stored.filter(
+            (n) =>
+              (n.readAt === null || n.createdAt >= since) &&
+              where.AND.OR.some(
+                (key: any) =>
+                  key.userId === n.userId &&
+                  key.type === n.type &&
+                  key.entityId === n.entityId,
+              ),
+          );
+        },
+      );
+      mockPrismaService.organization.findMany.mockResolvedValue([
+        { id: "org-1", name: "Org 1", thresholdYellowDays: 15 },
+      ]);
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        {
+          id: "obl-1",
+          title: "IVA",
+          dueDate: new Date("2025-07-10"),
+          owner: { id: "user-1", email: "one@test.com", fullName: "One" },
+        },
+      ]);
+
+      await service.notifyUpcomingObligations();
+      expect(stored).toHaveLength(1);
+
+      stored[0].readAt = new Date();
+      vi.setSystemTime(new Date("2025-07-07T11:00:00Z"));
+      await service.notifyUpcomingObligations();
+      expect(stored).toHaveLength(1);
+
+      // A day later the reminder comes back
+      vi.setSystemTime(new Date("2025-07-08T11:00:00Z"));
+      await service.notifyUpcomingObligations();
+      expect(stored).toHaveLength(2);
+    });
+  });
+
+  describe("markRead", () => {
+    it("should throw NotFoundException for notifications of another user", async () => {
+      mockPrismaService.notification.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.markRead("org-1", "user-2", "notif-1"),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.notification.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("findDeliveries", () => {
+    it("should filter the delivery log of the organization", async () => {
+      mockPrismaService.notificationDelivery.findMany.mockResolvedValue([
+        {
+          id: "del-1",
+          channel: "EMAIL",
+          recipient: "owner@test.com",
+          userId: "user-1",
+          template: "upcoming_obligations",
+          entityIds: ["obl-1"],
+          status: "SUPPRESSED",
+          providerMessageId: null,
+          error: "Duplicado de del-0",
+          attempts: 0,
+          nextAttemptAt: null,
+          sentAt: null,
+          createdAt: new Date("2025-07-07T10:00:00Z"),
+        },
+      ]);
+      mockPrismaService.notificationDelivery.count.mockResolvedValue(1);
+      const result = await service.findDeliveries(
+        "org-1",
+        { entityId: "obl-1", recipient: "owner" },
+        new PaginationDto(),
       );
+
+      expect(result.data[0]).toMatchObject({
+        status: "SUPPRESSED",
+        error: "Duplicado de del-0",
+        providerMessageId: undefined,
+      });
+      expect(
+        mockPrismaService.notificationDelivery.findMany,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            organizationId: "org-1",
+            recipient: { contains: "owner", mode: "insensitive" },
+            entityIds: { has: "obl-1" },
+          },
+        }),
+      );
+    });
+  });
+
+  describe("markAllRead", () => {
+    it("should mark only the unread notifications of the user", async () => {
+      mockPrismaService.notification.updateMany.mockResolvedValue({
+        count: 3,
+      });
+
+      const result = await service.markAllRead("org-1", "user-1");
+
+      expect(result).toEqual({ updated: 3 });
+      expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: { organizationId: "org-1", userId: "user-1", readAt: null },
+        data: { readAt: expect.any(Date) },
+      });
     });
   });
 });
@@ -1,7 +1,70 @@
-import { Injectable, Logger } from "@nestjs/common";
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
 import { PrismaService } from "../common/prisma/prisma.service";
-import { EmailService } from "../common/email/email.service";
-import { ObligationStatus } from "@prisma/client";
+import { NotificationChannelsService } from "./channels/notification-channels.service";
+import {
+  BusinessCalendar,
+  BusinessCalendarService,
+} from "../jurisdictions/business-calendar.service";
+import {
+  Notification,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationSeverity,
+  NotificationType,
+  ObligationStatus,
+  Prisma,
+  ReviewStatus,
+  Role,
+  TemplateSeverity,
+} from "@prisma/client";
+import { thresholdsFor } from "../obligations/obligation-risk";
+import {
+  MarkAllReadResultDto,
+  NotificationQueryDto,
+  NotificationResponseDto,
+  UnreadCountDto,
+} from "./dto/notification.dto";
+import {
+  NotificationDeliveryQueryDto,
+  NotificationDeliveryResponseDto,
+} from "./dto/notification-delivery.dto";
+import {
+  PaginationDto,
+  PaginatedResponse,
+  createPaginatedResponse,
+} from "../common/dto/pagination.dto";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationPreferencesService,
+  NotificationSettings,
+  acceptsEvent,
+  acceptsImmediate,
+  acceptsNotification,
+  isDigestDue,
+} from "./notification-preferences.service";
+
+export interface InAppNotification {
+  userId: string;
+  organizationId: string;
+  type: NotificationType;
+  severity: NotificationSeverity;
+  title: string;
+  message?: string;
+  entityType?: string;
+  entityId?: string;
+}
+
+// Roles that can approve or reject a review
+const REVIEWER_ROLES: Role[] = [Role.OWNER, Role.ACCOUNTANT, Role.MANAGER];
+
+const IN_APP_DEDUPE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const notificationKey = (n: {
+  userId: string;
+  organizationId: string;
+  type: NotificationType;
+  entityId?: string | null;
+}) => `${n.userId}:${n.organizationId}:${n.type}:${n.entityId ?? ""}`;
 
 @Injectable()
 export class NotificationsService {
@@ -9,7 +72,9 @@ export class NotificationsService {
 
   constructor(
     private prisma: PrismaService,
-    private emailService: EmailService,
+    private channelsService: NotificationChannelsService,
+    private businessCalendarService: BusinessCalendarService,
+    private preferencesService: NotificationPreferencesService,
   ) {}
 
   async notifyUpcomingObligations(): Promise<number> {
@@ -22,25 +87,80 @@ export class NotificationsService {
 
     for (const org of organizations) {
       const now = new Date();
-      const yellowThreshold = new Date();
-      yellowThreshold.setDate(now.getDate() + org.thresholdYellowDays);
+      const businessCalendar =
+        await this.businessCalendarService.getCalendarForOrganization(org);
+      const calendar = businessCalendar ?? new BusinessCalendar();
+      const yellowLimit = (days: number) => {
+        if (businessCalendar) {
+          return businessCalendar.addBusinessDays(now, days);
+        }
+        const limit = new Date();
+        limit.setDate(now.getDate() + days);
+        return limit;
+      };
+      const widestYellowDays = Math.max(
+        ...Object.values(TemplateSeverity).map(
+          (severity) => thresholdsFor(org, severity).yellowDays,
+        ),
+      );
 
-      // Get obligations that are approaching due date
-      const upcomingObligations = await this.prisma.obligation.findMany({
-        where: {
-          organizationId: org.id,
-          status: {
-            in: [ObligationStatus.PENDING, ObligationStatus.IN_PROGRESS],
+      // Get obligations that are approaching due date. The query uses the
+      // widest threshold; each obligation is then checked against its own.
+      const upcomingObligations = (
+        await this.prisma.obligation.findMany({
+          where: {
+            organizationId: org.id,
+            status: {
+              in: [ObligationStatus.PENDING, ObligationStatus.IN_PROGRESS],
+            },
+            dueDate: {
+              gte: now,
+              lte: yellowLimit(widestYellowDays),
+            },
           },
-          dueDate: {
-            gte: now,
-            lte: yellowThreshold,
+          include: {
+            owner: { select: { id: true, email: true, fullName: true } },
           },
-        },
-        include: {
-          owner: { select: { email: true, fullName: true } },
-        },
-      });
+        })
+      ).filter(
+        (o) =>
+          o.dueDate <= yellowLimit(thresholdsFor(org, o.severity).yellowDays),
+      );
+
+      const preferences = await this.preferencesService.getForUsers(org.id, [
+        ...new Set(upcomingObligations.map((o) => o.owner.id)),
+      ]);
+      const wants = (userId: string, channel: NotificationChannel) =>
+        acceptsNotification(
+          this.settingsFor(preferences, userId),
+          channel,
+          NotificationType.OBLIGATION_UPCOMING,
+        );
+
+      await this.createInApp(
+        upcomingObligations
+          .filter((o) => wants(o.owner.id, NotificationChannel.IN_APP))
+          .map((o) => {
+            const daysUntilDue = calendar.daysBetween(
+              now,
+              o.dueDate,
+              !!businessCalendar,
+            );
+            return {
+              userId: o.owner.id,
+              organizationId: org.id,
+              type: NotificationType.OBLIGATION_UPCOMING,
+              severity:
+                daysUntilDue <= thresholdsFor(org, o.severity).redDays
+                  ? NotificationSeverity.CRITICAL
+                  : NotificationSeverity.WARNING,
+              title: `Vence pronto: ${o.title}`,
+              message: `Vence en ${daysUntilDue} ${businessCalendar ? "dias habiles" : "dias"}`,
+              entityType: "Obligation",
+              entityId: o.id,
+            };
+          }),
+      );
 
       // Group by owner
       const byOwner = new Map<string, typeof upcomingObligations>();
@@ -52,27 +172,45 @@ export class NotificationsService {
         byOwner.get(ownerEmail)!.push(obl);
       }
 
-      // Send notification to each owner
+      // Send notification to each owner at their digest hour
       for (const [email, obligations] of byOwner) {
         const owner = obligations[0].owner;
-        const obligationsWithDays = obligations.map((o) => {
-          const due = new Date(o.dueDate);
-          const daysUntilDue = Math.floor(
-            (due.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-          );
-          return { title: o.title, daysUntilDue };
-        });
+        const settings = this.settingsFor(preferences, owner.id);
+        if (
+          !acceptsEvent(settings, NotificationType.OBLIGATION_UPCOMING) ||
+          !isDigestDue(settings, now)
+        ) {
+          continue;
+        }
+
+        const obligationsWithDays = obligations.map((o) => ({
+          title: o.title,
+          daysUntilDue: calendar.daysBetween(
+            now,
+            o.dueDate,
+            !!businessCalendar,
+          ),
+        }));
 
-        const urgentCount = obligationsWithDays.filter(
-          (o) => o.daysUntilDue <= org.thresholdRedDays,
+        const urgentCount = obligations.filter(
+          (o, i) =>
+            obligationsWithDays[i].daysUntilDue <=
+            thresholdsFor(org, o.severity).redDays,
         ).length;
 
-        const sent = await this.emailService.sendUpcomingObligationsEmail(
-          email,
-          owner.fullName,
-          org.name,
-          obligationsWithDays,
-          urgentCount,
+        const sent = await this.channelsService.send(
+          { userId: owner.id, email, fullName: owner.fullName, settings },
+          {
+            template: "upcoming_obligations",
+            organizationName: org.name,
+            obligations: obligationsWithDays,
+            urgentCount,
+          },
+          {
+            organizationId: org.id,
+            userId: owner.id,
+            entityIds: obligations.map((o) => o.id),
+          },
         );
 
         if (sent) {
@@ -93,6 +231,8 @@ export class NotificationsService {
     let notificationsSent = 0;
 
     for (const org of organizations) {
+      const now = new Date();
+
       // Get overdue obligations
       const overdueObligations = await this.prisma.obligation.findMany({
         where: {
@@ -101,6 +241,7 @@ export class NotificationsService {
         },
         include: {
           owner: { select: { email: true, fullName: true } },
+          escalations: { select: { level: true, notifiedUserIds: true } },
         },
       });
 
@@ -108,37 +249,94 @@ export class NotificationsService {
         continue;
       }
 
-      // Get organization owners
-      const owners = await this.prisma.userOrg.findMany({
+      // The assignee and whoever was added by the escalation levels
+      // reached
+      const recipientsOf = (o: (typeof overdueObligations)[number]) => [
+        ...new Set([
+          o.ownerUserId,
+          ...o.escalations
+            .filter((e) => e.level <= o.escalationLevel)
+            .flatMap((e) => e.notifiedUserIds),
+        ]),
+      ];
+      const recipientIds = [
+        ...new Set(overdueObligations.flatMap((o) => recipientsOf(o))),
+      ];
+
+      const members = await this.prisma.userOrg.findMany({
         where: {
           organizationId: org.id,
-          role: "OWNER",
+          userId: { in: recipientIds },
         },
         include: {
           user: { select: { email: true, fullName: true } },
         },
       });
 
-      if (owners.length > 0) {
-        const obligationsData = overdueObligations.map((o) => ({
-          title: o.title,
-          ownerName: o.owner.fullName,
-        }));
+      const preferences = await this.preferencesService.getForUsers(
+        org.id,
+        recipientIds,
+      );
+      const wants = (userId: string, channel: NotificationChannel) =>
+        acceptsNotification(
+          this.settingsFor(preferences, userId),
+          channel,
+          NotificationType.OBLIGATION_OVERDUE,
+        );
 
-        // Send notification to each owner
-        for (const ownerMembership of owners) {
-          const sent = await this.emailService.sendOverdueObligationsEmail(
-            ownerMembership.user.email,
-            org.name,
-            obligationsData,
-          );
+      await this.createInApp(
+        overdueObligations.flatMap((o) =>
+          recipientsOf(o)
+            .filter((userId) => wants(userId, NotificationChannel.IN_APP))
+            .map((userId) => ({
+              userId,
+              organizationId: org.id,
+              type: NotificationType.OBLIGATION_OVERDUE,
+              severity: NotificationSeverity.CRITICAL,
+              title: `Obligacion vencida: ${o.title}`,
+              message: `Responsable: ${o.owner.fullName}`,
+              entityType: "Obligation",
+              entityId: o.id,
+            })),
+        ),
+      );
 
-          if (sent) {
-            notificationsSent++;
-            this.logger.log(
-              `Sent overdue obligations notification to ${ownerMembership.user.email}`,
-            );
-          }
+      // Send each recipient their overdue obligations at their digest hour
+      for (const membership of members) {
+        const settings = this.settingsFor(preferences, membership.userId);
+        if (
+          !acceptsEvent(settings, NotificationType.OBLIGATION_OVERDUE) ||
+          !isDigestDue(settings, now)
+        ) {
+          continue;
+        }
+
+        const obligations = overdueObligations.filter((o) =>
+          recipientsOf(o).includes(membership.userId),
+        );
+
+        const sent = await this.channelsService.send(
+          { userId: membership.userId, ...membership.user, settings },
+          {
+            template: "overdue_obligations",
+            organizationName: org.name,
+            obligations: obligations.map((o) => ({
+              title: o.title,
+              ownerName: o.owner.fullName,
+            })),
+          },
+          {
+            organizationId: org.id,
+            userId: membership.userId,
+            entityIds: obligations.map((o) => o.id),
+          },
+        );
+
+        if (sent) {
+          notificationsSent++;
+          this.logger.log(
+            `Sent overdue obligations notification to ${membership.user.email}`,
+          );
         }
       }
     }
@@ -146,42 +344,465 @@ export class NotificationsService {
     return notificationsSent;
   }
 
-  async notifyReviewRequired(
+  /**
+   * Notices triggered by an API action. They aren't awaited: a slow provider
+   * doesn't delay the response and a failure is only logged, because the
+   * change that triggered them is already saved. Failed sends stay in the
+   * delivery log for the retry job.
+   */
+  dispatch(notification: Promise<unknown>, description: string): void {
+    notification.catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to notify ${description}: ${message}`);
+    });
+  }
+
+  // The obligation has the required evidence and awaits a review.
+  async notifyReviewPending(
+    organizationId: string,
     obligationId: string,
-    reviewerEmail: string,
-    reviewerName: string,
-    organizationName: string,
-    obligationTitle: string,
-  ): Promise<void> {
-    await this.emailService.sendReviewRequiredEmail(
-      reviewerEmail,
-      reviewerName,
-      organizationName,
-      obligationTitle,
+    actorUserId?: string,
+  ): Promise<number> {
+    const obligation = await this.prisma.obligation.findFirst({
+      where: { id: obligationId, organizationId },
+      include: {
+        organization: { select: { name: true } },
+        _count: { select: { documents: true } },
+        reviews: {
+          where: { status: ReviewStatus.APPROVED },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (
+      !obligation?.requiresReview ||
+      obligation.reviews.length > 0 ||
+      obligation._count.documents <
+        Math.max(obligation.requiredEvidenceCount, 1)
+    ) {
+      return 0;
+    }
+
+    const reviewers = await this.prisma.userOrg.findMany({
+      where: {
+        organizationId,
+        role: { in: REVIEWER_ROLES },
+        ...(actorUserId && { userId: { not: actorUserId } }),
+      },
+      select: {
+        userId: true,
+        user: { select: { email: true, fullName: true } },
+      },
+    });
+
+    const now = new Date();
+    const preferences = await this.preferencesService.getForUsers(
+      organizationId,
+      reviewers.map((r) => r.userId),
+    );
+
+    for (const reviewer of reviewers) {
+      const settings = this.settingsFor(preferences, reviewer.userId);
+      if (acceptsImmediate(settings, NotificationType.REVIEW_REQUIRED, now)) {
+        await this.channelsService.send(
+          { userId: reviewer.userId, ...reviewer.user, settings },
+          {
+            template: "review_required",
+            organizationName: obligation.organization.name,
+            obligationTitle: obligation.title,
+          },
+          {
+            organizationId,
+            userId: reviewer.userId,
+            entityIds: [obligation.id],
+          },
+        );
+      }
+    }
+
+    return this.createInApp(
+      reviewers
+        .filter((r) =>
+          acceptsNotification(
+            this.settingsFor(preferences, r.userId),
+            NotificationChannel.IN_APP,
+            NotificationType.REVIEW_REQUIRED,
+          ),
+        )
+        .map((r) => ({
+          userId: r.userId,
+          organizationId,
+          type: NotificationType.REVIEW_REQUIRED,
+          severity: NotificationSeverity.WARNING,
+          title: `Revision pendiente: ${obligation.title}`,
+          message: "La evidencia esta completa y espera aprobacion",
+          entityType: "Obligation",
+          entityId: obligation.id,
+        })),
+    );
+  }
+
+  // Outcome of a review, for the obligation's assignee.
+  async notifyReviewResult(
+    organizationId: string,
+    obligation: { id: string; title: string; ownerUserId: string },
+    status: ReviewStatus,
+    reviewerUserId: string,
+    comment?: string,
+  ): Promise<number> {
+    if (
+      status === ReviewStatus.PENDING ||
+      obligation.ownerUserId === reviewerUserId
+    ) {
+      return 0;
+    }
+
+    const approved = status === ReviewStatus.APPROVED;
+    const type = approved
+      ? NotificationType.REVIEW_APPROVED
+      : NotificationType.REVIEW_REJECTED;
+    const settings = this.settingsFor(
+      await this.preferencesService.getForUsers(organizationId, [
+        obligation.ownerUserId,
+      ]),
+      obligation.ownerUserId,
+    );
+
+    if (!approved && acceptsImmediate(settings, type, new Date())) {
+      const [users, organization] = await Promise.all([
+        this.prisma.user.findMany({
+          where: { id: { in: [obligation.ownerUserId, reviewerUserId] } },
+          select: { id: true, email: true, fullName: true },
+        }),
+        this.prisma.organization.findUnique({
+          where: { id: organizationId },
+          select: { name: true },
+        }),
+      ]);
+      const owner = users.find((u) => u.id === obligation.ownerUserId);
+      const reviewer = users.find((u) => u.id === reviewerUserId);
+
+      if (owner && organization) {
+        await this.channelsService.send(
+          { userId: owner.id, ...owner, settings },
+          {
+            template: "review_rejected",
+            organizationName: organization.name,
+            obligationTitle: obligation.title,
+            reviewerName: reviewer?.fullName ?? "",
+            comment: comment ?? "",
+          },
+          {
+            organizationId,
+            userId: owner.id,
+            entityIds: [obligation.id],
+          },
+        );
+      }
+    }
+
+    if (!acceptsNotification(settings, NotificationChannel.IN_APP, type)) {
+      return 0;
+    }
+
+    return this.createInApp(
+      [
+        {
+          userId: obligation.ownerUserId,
+          organizationId,
+          type,
+          severity: approved
+            ? NotificationSeverity.INFO
+            : NotificationSeverity.WARNING,
+          title: `${approved ? "Revision aprobada" : "Revision rechazada"}: ${obligation.title}`,
+          message: comment,
+          entityType: "Obligation",
+          entityId: obligation.id,
+        },
+      ],
+      false,
     );
+  }
+
+  // Notice to the user who gets a task (not when self-assigned).
+  async notifyTaskAssigned(
+    organizationId: string,
+    task: {
+      id: string;
+      title: string;
+      assignedToUserId: string | null;
+      assignee?: { email: string; fullName: string } | null;
+      obligation: { title: string };
+    },
+    actorUserId?: string,
+  ): Promise<number> {
+    const assigneeId = task.assignedToUserId;
+    if (!assigneeId || assigneeId === actorUserId) {
+      return 0;
+    }
 
-    this.logger.log(
-      `Sent review required notification to ${reviewerEmail} for obligation ${obligationId}`,
+    const settings = this.settingsFor(
+      await this.preferencesService.getForUsers(organizationId, [assigneeId]),
+      assigneeId,
     );
+
+    if (
+      task.assignee &&
+      acceptsImmediate(settings, NotificationType.TASK_ASSIGNED, new Date())
+    ) {
+      const organization = await this.prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { name: true },
+      });
+      if (organization) {
+        await this.channelsService.send(
+          { userId: assigneeId, ...task.assignee, settings },
+          {
+            template: "task_assigned",
+            organizationName: organization.name,
+            taskTitle: task.title,
+            obligationTitle: task.obligation.title,
+          },
+          { organizationId, userId: assigneeId, entityIds: [task.id] },
+        );
+      }
+    }
+
+    if (
+      !acceptsNotification(
+        settings,
+        NotificationChannel.IN_APP,
+        NotificationType.TASK_ASSIGNED,
+      )
+    ) {
+      return 0;
+    }
+
+    return this.createInApp([
+      {
+        userId: assigneeId,
+        organizationId,
+        type: NotificationType.TASK_ASSIGNED,
+        severity: NotificationSeverity.INFO,
+        title: `Nueva tarea: ${task.title}`,
+        message: `Obligacion: ${task.obligation.title}`,
+        entityType: "Task",
+        entityId: task.id,
+      },
+    ]);
   }
 
-  async notifyReviewRejected(
-    ownerEmail: string,
-    ownerName: string,
-    organizationName: string,
-    obligationTitle: string,
-    reviewerName: string,
-    comment: string,
-  ): Promise<void> {
-    await this.emailService.sendReviewRejectedEmail(
-      ownerEmail,
-      ownerName,
-      organizationName,
-      obligationTitle,
-      reviewerName,
-      comment,
+  /**
+   * Stores in-app notifications. With dedupe, a notification (same type and
+   * entity) is skipped while the user has an unread one, or one created in
+   * the last 24 hours even if already read, so the hourly job notifies each
+   * obligation at most once a day.
+   */
+  async createInApp(
+    notifications: InAppNotification[],
+    dedupe = true,
+  ): Promise<number> {
+    let pending = notifications;
+
+    if (dedupe && pending.length > 0) {
+      const since = new Date(Date.now() - IN_APP_DEDUPE_WINDOW_MS);
+      const existing = await this.prisma.notification.findMany({
+        where: {
+          OR: [{ readAt: null }, { createdAt: { gte: since } }],
+          AND: {
+            OR: pending.map((n) => ({
+              userId: n.userId,
+              organizationId: n.organizationId,
+              type: n.type,
+              entityId: n.entityId ?? null,
+            })),
+          },
+        },
+        select: {
+          userId: true,
+          organizationId: true,
+          type: true,
+          entityId: true,
+        },
+      });
+
+      const seen = new Set(existing.map(notificationKey));
+      pending = pending.filter((n) => {
+        const key = notificationKey(n);
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+    }
+
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const { count } = await this.prisma.notification.createMany({
+      data: pending,
+    });
+    return count;
+  }
+
+  async findForUser(
+    organizationId: string,
+    userId: string,
+    query: NotificationQueryDto,
+    pagination: PaginationDto,
+  ): Promise<PaginatedResponse<NotificationResponseDto>> {
+    const where: Prisma.NotificationWhereInput = {
+      organizationId,
+      userId,
+      ...(query.unreadOnly && { readAt: null }),
+      ...(query.type && { type: query.type }),
+    };
+
+    const [notifications, total] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        skip: pagination.skip,
+        take: pagination.take,
+        orderBy: { createdAt: "desc" },
+      }),
+      this.prisma.notification.count({ where }),
+    ]);
+
+    return createPaginatedResponse(
+      notifications.map((n) => this.toResponseDto(n)),
+      total,
+      pagination.page!,
+      pagination.limit!,
     );
+  }
+
+  async countUnread(
+    organizationId: string,
+    userId: string,
+  ): Promise<UnreadCountDto> {
+    const count = await this.prisma.notification.count({
+      where: { organizationId, userId, readAt: null },
+    });
+    return { count };
+  }
+
+  async markRead(
+    organizationId: string,
+    userId: string,
+    notificationId: string,
+  ): Promise<NotificationResponseDto> {
+    const notification = await this.prisma.notification.findFirst({
+      where: { id: notificationId, organizationId, userId },
+    });
+
+    if (!notification) {
+      throw new NotFoundException("Notificación no encontrada");
+    }
+
+    if (notification.readAt) {
+      return this.toResponseDto(notification);
+    }
+
+    const updated = await this.prisma.notification.update({
+      where: { id: notificationId },
+      data: { readAt: new Date() },
+    });
+    return this.toResponseDto(updated);
+  }
+
+  async markAllRead(
+    organizationId: string,
+    userId: string,
+  ): Promise<MarkAllReadResultDto> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { organizationId, userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return { updated: count };
+  }
+
+  // Organization's delivery history, to diagnose missing notices.
+  async findDeliveries(
+    organizationId: string,
+    query: NotificationDeliveryQueryDto,
+    pagination: PaginationDto,
+  ): Promise<PaginatedResponse<NotificationDeliveryResponseDto>> {
+    const where: Prisma.NotificationDeliveryWhereInput = {
+      organizationId,
+      ...(query.status && { status: query.status }),
+      ...(query.template && { template: query.template }),
+      ...(query.recipient && {
+        recipient: { contains: query.recipient, mode: "insensitive" },
+      }),
+      ...(query.entityId && { entityIds: { has: query.entityId } }),
+      ...((query.fromDate || query.toDate) && {
+        createdAt: {
+          ...(query.fromDate && { gte: query.fromDate }),
+          ...(query.toDate && { lte: query.toDate }),
+        },
+      }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.notificationDelivery.findMany({
+        where,
+        skip: pagination.skip,
+        take: pagination.take,
+        orderBy: { createdAt: "desc" },
+      }),
+      this.prisma.notificationDelivery.count({ where }),
+    ]);
+
+    return createPaginatedResponse(
+      deliveries.map((d) => this.toDeliveryResponseDto(d)),
+      total,
+      pagination.page!,
+      pagination.limit!,
+    );
+  }
+
+  private settingsFor(
+    preferences: Map<string, NotificationSettings>,
+    userId: string,
+  ): NotificationSettings {
+    return preferences.get(userId) ?? DEFAULT_NOTIFICATION_SETTINGS;
+  }
+
+  private toDeliveryResponseDto(
+    delivery: NotificationDelivery,
+  ): NotificationDeliveryResponseDto {
+    return {
+      id: delivery.id,
+      channel: delivery.channel,
+      recipient: delivery.recipient,
+      userId: delivery.userId ?? undefined,
+      template: delivery.template,
+      entityIds: delivery.entityIds,
+      status: delivery.status,
+      providerMessageId: delivery.providerMessageId ?? undefined,
+      error: delivery.error ?? undefined,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt ?? undefined,
+      sentAt: delivery.sentAt ?? undefined,
+      createdAt: delivery.createdAt,
+    };
+  }
 
-    this.logger.log(`Sent review rejected notification to ${ownerEmail}`);
+  private toResponseDto(notification: Notification): NotificationResponseDto {
+    return {
+      id: notification.id,
+      type: notification.type,
+      severity: notification.severity,
+      title: notification.title,
+      message: notification.message ?? undefined,
+      entityType: notification.entityType ?? undefined,
+      entityId: notification.entityId ?? undefined,
+      read: notification.readAt !== null,
+      readAt: notification.readAt ?? undefined,
+      createdAt: notification.createdAt,
+    };
   }
 }
@@ -12,7 +12,12 @@ import {
   MaxLength,
 } from "class-validator";
 import { Type } from "class-transformer";
-import { ObligationType, ObligationStatus } from "@prisma/client";
+import {
+  ObligationType,
+  ObligationStatus,
+  TemplateSeverity,
+} from "@prisma/client";
+import { ObligationEscalationResponseDto } from "../../escalations/dto/escalation.dto";
 
 export class CreateObligationDto {
   @ApiProperty({ example: "Renovación de habilitación comercial" })
@@ -31,6 +36,15 @@ export class CreateObligationDto {
   @IsEnum(ObligationType)
   type: ObligationType;
 
+  @ApiPropertyOptional({
+    enum: TemplateSeverity,
+    default: TemplateSeverity.MEDIUM,
+    description: "Impacto de incumplirla; define el riesgo y el semaforo",
+  })
+  @IsOptional()
+  @IsEnum(TemplateSeverity)
+  severity?: TemplateSeverity;
+
   @ApiProperty({ example: "2024-06-30" })
   @Type(() => Date)
   @IsDate()
@@ -77,6 +91,17 @@ export class UpdateObligationDto extends PartialType(CreateObligationDto) {
 }
 
 export class ObligationFilterDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @ApiPropertyOptional({ description: "Buscar por título" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  q?: string;
+
   @ApiPropertyOptional({ enum: ObligationStatus })
   @IsOptional()
   @IsEnum(ObligationStatus)
@@ -87,6 +112,11 @@ export class ObligationFilterDto {
   @IsEnum(ObligationType)
   type?: ObligationType;
 
+  @ApiPropertyOptional({ enum: TemplateSeverity })
+  @IsOptional()
+  @IsEnum(TemplateSeverity)
+  severity?: TemplateSeverity;
+
   @ApiPropertyOptional()
   @IsOptional()
   @IsUUID()
@@ -113,6 +143,18 @@ export class ObligationFilterDto {
   @IsOptional()
   @IsString()
   trafficLight?: "GREEN" | "YELLOW" | "RED";
+
+  @ApiPropertyOptional({
+    minimum: 0,
+    maximum: 100,
+    description: "Solo obligaciones con riesgo mayor o igual",
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  minRiskScore?: number;
 }
 
 export enum TrafficLight {
@@ -143,6 +185,9 @@ export class ObligationResponseDto {
   @ApiProperty({ enum: ObligationStatus })
   status: ObligationStatus;
 
+  @ApiProperty({ enum: TemplateSeverity })
+  severity: TemplateSeverity;
+
   @ApiProperty()
   dueDate: Date;
 
@@ -158,6 +203,28 @@ export class ObligationResponseDto {
   @ApiProperty()
   ownerUserId: string;
 
+  @ApiPropertyOptional({
+    description: "Ocurrencia anterior (obligaciones recurrentes)",
+  })
+  previousObligationId?: string;
+
+  @ApiProperty({ description: "Numero de ocurrencia dentro de la serie" })
+  occurrenceIndex: number;
+
+  @ApiPropertyOptional({ description: "Plantilla de origen" })
+  templateId?: string;
+
+  @ApiPropertyOptional({ description: "Version de la plantilla aplicada" })
+  templateVersion?: number;
+
+  @ApiProperty({
+    description: "Ultimo nivel de escalamiento alcanzado (0 = sin escalar)",
+  })
+  escalationLevel: number;
+
+  @ApiProperty({ description: "Marcada critica por escalamiento" })
+  critical: boolean;
+
   @ApiProperty()
   createdAt: Date;
 
@@ -167,6 +234,12 @@ export class ObligationResponseDto {
   @ApiProperty()
   daysUntilDue: number;
 
+  @ApiProperty({
+    description:
+      "Riesgo 0-100 segun severidad, cercania del vencimiento y evidencia o revision pendiente",
+  })
+  riskScore: number;
+
   @ApiPropertyOptional()
   location?: {
     id: string;
@@ -186,6 +259,41 @@ export class ObligationResponseDto {
     tasks: number;
     reviews: number;
   };
+
+  @ApiPropertyOptional({
+    type: [ObligationEscalationResponseDto],
+    description: "Historial de escalamiento (solo en el detalle)",
+  })
+  escalations?: ObligationEscalationResponseDto[];
+}
+
+export class ObligationSummaryDto {
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  completed: number;
+
+  @ApiProperty()
+  overdue: number;
+
+  @ApiProperty()
+  red: number;
+
+  @ApiProperty()
+  yellow: number;
+
+  @ApiProperty()
+  green: number;
+
+  @ApiProperty({ description: "Obligaciones marcadas criticas" })
+  critical: number;
+
+  @ApiProperty({ description: "Vencimientos de los proximos 7 dias" })
+  upcoming7Days: number;
+
+  @ApiProperty({ description: "Obligaciones esperando una aprobacion" })
+  pendingReviews: number;
 }
 
 export class ObligationDashboardDto {
@@ -207,9 +315,15 @@ export class ObligationDashboardDto {
   @ApiProperty()
   completed: number;
 
+  @ApiProperty({ description: "Obligaciones marcadas criticas" })
+  critical: number;
+
   @ApiProperty()
   upcoming7Days: ObligationResponseDto[];
 
   @ApiProperty()
   overdueList: ObligationResponseDto[];
+
+  @ApiProperty()
+  criticalList: ObligationResponseDto[];
 }
@@ -0,0 +1,39 @@
+import {
+  ObligationStatus,
+  ObligationType,
+  ReviewStatus,
+  TaskStatus,
+} from "@prisma/client";
+
+// Display names for use outside the app (calendars, PDFs, spreadsheets)
+export const OBLIGATION_TYPE_LABELS: Record<ObligationType, string> = {
+  TAX: "Impuestos",
+  PERMIT: "Habilitaciones",
+  INSURANCE: "Seguros",
+  INSPECTION: "Inspecciones",
+  DECLARATION: "Declaraciones juradas",
+  RENEWAL: "Renovaciones",
+  OTHER: "Otros",
+};
+
+export const OBLIGATION_STATUS_LABELS: Record<ObligationStatus, string> = {
+  PENDING: "Pendiente",
+  IN_PROGRESS: "En curso",
+  COMPLETED: "Cumplida",
+  OVERDUE: "Vencida",
+  NOT_APPLICABLE: "No aplica",
+};
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  OPEN: "Abierta",
+  IN_PROGRESS: "En curso",
+  BLOCKED: "Bloqueada",
+  COMPLETED: "Completada",
+  CANCELLED: "Cancelada",
+};
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  PENDING: "Pendiente",
+  APPROVED: "Aprobada",
+  REJECTED: "Rechazada",
+};
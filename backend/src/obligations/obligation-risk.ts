@@ -0,0 +1,97 @@
+import {
+  ObligationStatus,
+  Organization,
+  TemplateSeverity,
+} from "@prisma/client";
+
+// Weight of each severity in the risk and in the compliance score
+export const SEVERITY_WEIGHTS: Record<TemplateSeverity, number> = {
+  LOW: 1,
+  MEDIUM: 2,
+  HIGH: 3,
+  CRITICAL: 5,
+};
+
+// Beyond this horizon, closeness to the due date adds no risk
+const RISK_HORIZON_DAYS = 60;
+const MIN_URGENCY = 0.1;
+// Share of the risk that depends on pending evidence and review
+const READINESS_SHARE = 0.4;
+
+export interface TrafficLightThreshold {
+  yellowDays: number;
+  redDays: number;
+}
+
+// Per-severity thresholds; missing ones fall back to the organization's
+export type SeverityThresholds = Partial<
+  Record<TemplateSeverity, TrafficLightThreshold>
+>;
+
+export function thresholdsFor(
+  organization: Pick<Organization, "thresholdYellowDays" | "thresholdRedDays"> &
+    Partial<Pick<Organization, "severityThresholds">>,
+  severity: TemplateSeverity,
+): TrafficLightThreshold {
+  const custom = (
+    organization.severityThresholds as SeverityThresholds | null | undefined
+  )?.[severity];
+  return (
+    custom ?? {
+      yellowDays: organization.thresholdYellowDays,
+      redDays: organization.thresholdRedDays,
+    }
+  );
+}
+
+export interface RiskInput {
+  severity: TemplateSeverity;
+  status: ObligationStatus;
+  daysUntilDue: number;
+  requiredEvidenceCount: number;
+  evidenceCount: number;
+  requiresReview: boolean;
+  approved: boolean;
+}
+
+/**
+ * Risk 0-100 of an open obligation: severity x closeness to the due date,
+ * raised when evidence or the approved review is missing. Closed ones have
+ * no risk.
+ */
+export function calculateRiskScore(input: RiskInput): number {
+  if (
+    input.status === ObligationStatus.COMPLETED ||
+    input.status === ObligationStatus.NOT_APPLICABLE
+  ) {
+    return 0;
+  }
+
+  const severity = SEVERITY_WEIGHTS[input.severity] / SEVERITY_WEIGHTS.CRITICAL;
+  const urgency =
+    input.status === ObligationStatus.OVERDUE || input.daysUntilDue < 0
+      ? 1
+      : Math.max(MIN_URGENCY, 1 - input.daysUntilDue / RISK_HORIZON_DAYS);
+
+  const readiness: number[] = [];
+  if (input.requiredEvidenceCount > 0) {
+    readiness.push(
+      Math.min(input.evidenceCount, input.requiredEvidenceCount) /
+        input.requiredEvidenceCount,
+    );
+  }
+  if (input.requiresReview) {
+    readiness.push(input.approved ? 1 : 0);
+  }
+  const missing =
+    readiness.length > 0
+      ? 1 - readiness.reduce((sum, r) => sum + r, 0) / readiness.length
+      : 0;
+
+  return Math.round(
+    100 *
+      severity *
+      urgency *
+      (1 - READINESS_SHARE + READINESS_SHARE * missing),
+  );
+}
@@ -1,10 +1,13 @@
 import { Module } from "@nestjs/common";
 import { ObligationsController } from "./obligations.controller";
 import { ObligationsService } from "./obligations.service";
+import { RecurrenceService } from "./recurrence.service";
+import { JurisdictionsModule } from "../jurisdictions/jurisdictions.module";
 
 @Module({
+  imports: [JurisdictionsModule],
   controllers: [ObligationsController],
-  providers: [ObligationsService],
-  exports: [ObligationsService],
+  providers: [ObligationsService, RecurrenceService],
+  exports: [ObligationsService, RecurrenceService],
 })
 export class ObligationsModule {}
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { ObligationsService } from "./obligations.service";
 import { TrafficLight } from "./dto/obligation.dto";
+import { BusinessCalendar } from "../jurisdictions/business-calendar.service";
+import { calculateRiskScore, thresholdsFor } from "./obligation-risk";
 
 // Mock PrismaService
 const mockPrismaService = {
@@ -29,6 +31,15 @@ const mockAuditService = {
   log: vi.fn(),
 };
 
+const mockRecurrenceService = {
+  validateRule: vi.fn(),
+  rolloverObligation: vi.fn(),
+};
+
+const mockBusinessCalendarService = {
+  getCalendarForOrganization: vi.fn(),
+};
+
 describe("ObligationsService", () => {
   let service: ObligationsService;
 
@@ -37,6 +48,8 @@ describe("ObligationsService", () => {
     service = new ObligationsService(
       mockPrismaService as any,
       mockAuditService as any,
+      mockRecurrenceService as any,
+      mockBusinessCalendarService as any,
     );
   });
 
@@ -139,6 +152,25 @@ describe("ObligationsService", () => {
       expect(result.trafficLight).toBe(TrafficLight.RED);
       expect(result.daysUntilDue).toBeLessThan(0);
     });
+
+    it("should count business days when a calendar is given", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-07-04T12:00:00Z")); // Friday
+
+      // Monday 7th to Monday 14th with a holiday on Wednesday 9th: 5 business days
+      const result = service.calculateTrafficLight(
+        new Date("2025-07-14"),
+        "PENDING" as any,
+        thresholdYellow,
+        thresholdRed,
+        new BusinessCalendar([new Date("2025-07-09")]),
+      );
+
+      expect(result.daysUntilDue).toBe(5);
+      expect(result.trafficLight).toBe(TrafficLight.RED);
+
+      vi.useRealTimers();
+    });
   });
 
   describe("create", () => {
@@ -266,57 +298,471 @@ describe("ObligationsService", () => {
     });
   });
 
+  describe("updateStatus rollover", () => {
+    it("should roll over recurring obligations when completed", async () => {
+      mockPrismaService.organization.findUnique.mockResolvedValue({
+        id: "org-123",
+        thresholdYellowDays: 15,
+        thresholdRedDays: 7,
+      });
+      mockPrismaService.obligation.findFirst.mockResolvedValue({
+        id: "obl-123",
+        status: "IN_PROGRESS",
+        requiredEvidenceCount: 0,
+        requiresReview: false,
+        documents: [],
+        reviews: [],
+      });
+      mockPrismaService.obligation.update.mockResolvedValue({
+        id: "obl-123",
+        status: "COMPLETED",
+        dueDate: new Date(),
+        occurrenceIndex: 1,
+      });
+
+      await service.updateStatus(
+        "org-123",
+        "obl-123",
+        "COMPLETED" as any,
+        "user-123",
+      );
+
+      expect(mockRecurrenceService.rolloverObligation).toHaveBeenCalledWith(
+        "obl-123",
+        "user-123",
+      );
+      expect(mockPrismaService.obligation.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: "COMPLETED", completedAt: expect.any(Date) },
+        }),
+      );
+    });
+
+    it("should keep the completion when the rollover fails", async () => {
+      mockPrismaService.organization.findUnique.mockResolvedValue({
+        id: "org-123",
+        thresholdYellowDays: 15,
+        thresholdRedDays: 7,
+      });
+      mockPrismaService.obligation.findFirst.mockResolvedValue({
+        id: "obl-123",
+        status: "IN_PROGRESS",
+        requiredEvidenceCount: 0,
+        requiresReview: false,
+        documents: [],
+        reviews: [],
+      });
+      mockPrismaService.obligation.update.mockResolvedValue({
+        id: "obl-123",
+        status: "COMPLETED",
+        dueDate: new Date(),
+        occurrenceIndex: 1,
+      });
+      mockRecurrenceService.rolloverObligation.mockRejectedValueOnce(
+        new Error("connection reset"),
+      );
+
+      const result = await service.updateStatus(
+        "org-123",
+        "obl-123",
+        "COMPLETED" as any,
+        "user-123",
+      );
+
+      expect(result.status).toBe("COMPLETED");
+      expect(mockAuditService.log).toHaveBeenCalled();
+    });
+
+    it("should not roll over on other status changes", async () => {
+      mockPrismaService.organization.findUnique.mockResolvedValue({
+        id: "org-123",
+        thresholdYellowDays: 15,
+        thresholdRedDays: 7,
+      });
+      mockPrismaService.obligation.findFirst.mockResolvedValue({
+        id: "obl-123",
+        status: "PENDING",
+        documents: [],
+        reviews: [],
+      });
+      mockPrismaService.obligation.update.mockResolvedValue({
+        id: "obl-123",
+        status: "IN_PROGRESS",
+        dueDate: new Date(),
+        occurrenceIndex: 1,
+      });
+
+      await service.updateStatus("org-123", "obl-123", "IN_PROGRESS" as any);
+
+      expect(mockRecurrenceService.rolloverObligation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateStatus escalation", () => {
+    it("should restart the escalation chain when leaving OVERDUE", async () => {
+      mockPrismaService.organization.findUnique.mockResolvedValue({
+        id: "org-123",
+        thresholdYellowDays: 15,
+        thresholdRedDays: 7,
+      });
+      mockPrismaService.obligation.findFirst.mockResolvedValue({
+        id: "obl-123",
+        status: "OVERDUE",
+        escalationLevel: 4,
+        critical: true,
+        documents: [],
+        reviews: [],
+      });
+      mockPrismaService.obligation.update.mockResolvedValue({
+        id: "obl-123",
+        status: "IN_PROGRESS",
+        dueDate: new Date(),
+        occurrenceIndex: 1,
+      });
+
+      await service.updateStatus("org-123", "obl-123", "IN_PROGRESS" as any);
+
+      expect(mockPrismaService.obligation.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            status: "IN_PROGRESS",
+            completedAt: null,
+            escalationLevel: 0,
+            critical: false,
+          },
+        }),
+      );
+    });
+  });
+
   describe("updateOverdueObligations", () => {
     it("should update pending/in_progress obligations past due date to overdue", async () => {
-      mockPrismaService.obligation.updateMany.mockResolvedValue({ count: 5 });
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        { id: "obl-1", organizationId: "org-1", status: "PENDING" },
+        { id: "obl-2", organizationId: "org-2", status: "IN_PROGRESS" },
+      ]);
+      mockPrismaService.obligation.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        // completed since it was read
+        .mockResolvedValueOnce({ count: 0 });
 
       const result = await service.updateOverdueObligations();
 
-      expect(result).toBe(5);
-      expect(mockPrismaService.obligation.updateMany).toHaveBeenCalledWith({
+      expect(result).toBe(1);
+      expect(mockPrismaService.obligation.findMany).toHaveBeenCalledWith({
         where: {
           status: { in: ["PENDING", "IN_PROGRESS"] },
           dueDate: { lt: expect.any(Date) },
         },
+      });
+      expect(mockPrismaService.obligation.updateMany).toHaveBeenCalledWith({
+        where: { id: "obl-1", status: { in: ["PENDING", "IN_PROGRESS"] } },
         data: { status: "OVERDUE" },
       });
+      expect(mockAuditService.log).toHaveBeenCalledTimes(1);
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        "org-1",
+        "obligation.status_changed",
+        "Obligation",
+        "obl-1",
+        undefined,
+        {
+          from: "PENDING",
+          to: "OVERDUE",
+          changes: { status: { before: "PENDING", after: "OVERDUE" } },
+        },
+      );
     });
   });
 
-  describe("getDashboard", () => {
-    it("should return dashboard statistics", async () => {
-      const organizationId = "org-123";
-      const mockOrganization = {
-        id: organizationId,
+  describe("risk", () => {
+    const open = {
+      status: "PENDING" as any,
+      requiredEvidenceCount: 0,
+      evidenceCount: 0,
+      requiresReview: false,
+      approved: false,
+    };
+
+    it("should weigh severity, due date and missing evidence", () => {
+      expect(
+        calculateRiskScore({
+          ...open,
+          severity: "CRITICAL" as any,
+          status: "OVERDUE" as any,
+          daysUntilDue: -3,
+          requiredEvidenceCount: 2,
+          requiresReview: true,
+        }),
+      ).toBe(100);
+      expect(
+        calculateRiskScore({
+          ...open,
+          severity: "CRITICAL" as any,
+          daysUntilDue: -3,
+        }),
+      ).toBe(60);
+      expect(
+        calculateRiskScore({
+          ...open,
+          severity: "MEDIUM" as any,
+          daysUntilDue: 30,
+        }),
+      ).toBe(12);
+      expect(
+        calculateRiskScore({
+          ...open,
+          severity: "LOW" as any,
+          daysUntilDue: 200,
+        }),
+      ).toBe(1);
+      expect(
+        calculateRiskScore({
+          ...open,
+          severity: "CRITICAL" as any,
+          status: "COMPLETED" as any,
+          daysUntilDue: -3,
+        }),
+      ).toBe(0);
+    });
+
+    it("should use the severity thresholds when configured", () => {
+      const organization = {
         thresholdYellowDays: 15,
         thresholdRedDays: 7,
+        severityThresholds: { CRITICAL: { yellowDays: 45, redDays: 20 } },
       };
-      const mockObligations = [
-        { id: "1", status: "COMPLETED", dueDate: new Date(), organizationId },
+
+      expect(thresholdsFor(organization, "CRITICAL" as any)).toEqual({
+        yellowDays: 45,
+        redDays: 20,
+      });
+      expect(thresholdsFor(organization, "LOW" as any)).toEqual({
+        yellowDays: 15,
+        redDays: 7,
+      });
+    });
+
+    it("should sort by risk before paginating", async () => {
+      mockPrismaService.organization.findUnique.mockResolvedValue({
+        id: "org-123",
+        thresholdYellowDays: 15,
+        thresholdRedDays: 7,
+        severityThresholds: { HIGH: { yellowDays: 60, redDays: 30 } },
+      });
+      const inDays = (days: number) =>
+        new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        { id: "low", status: "PENDING", severity: "LOW", dueDate: inDays(10) },
+        {
+          id: "critical",
+          status: "OVERDUE",
+          severity: "CRITICAL",
+          dueDate: inDays(-2),
+          requiredEvidenceCount: 1,
+          _count: { documents: 0, tasks: 0, reviews: 0 },
+        },
         {
-          id: "2",
+          id: "high",
           status: "PENDING",
-          dueDate: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000),
-          organizationId,
+          severity: "HIGH",
+          dueDate: inDays(20),
         },
+      ]);
+
+      const result = await service.findAll(
+        "org-123",
+        { page: 1, limit: 2, skip: 0, take: 2, sortBy: "riskScore" } as any,
+        { minRiskScore: 1 },
+      );
+
+      const { where, skip } =
+        mockPrismaService.obligation.findMany.mock.calls[0][0];
+      expect(where).toEqual({ organizationId: "org-123" });
+      expect(skip).toBeUndefined();
+      expect(result.data.map((o) => o.id)).toEqual(["critical", "high"]);
+      expect(result.data[0].riskScore).toBe(100);
+      // With HIGH's own thresholds, 20 days is already red
+      expect(result.data[1].trafficLight).toBe(TrafficLight.RED);
+      expect(result.meta.total).toBe(3);
+    });
+  });
+
+  describe("findAll", () => {
+    it("should filter by id and title in the query", async () => {
+      mockPrismaService.organization.findUnique.mockResolvedValue({
+        id: "org-123",
+        thresholdYellowDays: 15,
+        thresholdRedDays: 7,
+      });
+      mockPrismaService.obligation.findMany.mockResolvedValue([]);
+      mockPrismaService.obligation.count.mockResolvedValue(0);
+
+      await service.findAll(
+        "org-123",
+        { page: 1, limit: 10, skip: 0, take: 10 } as any,
+        { id: "obl-1", q: " habilitación " },
+      );
+
+      expect(
+        mockPrismaService.obligation.findMany.mock.calls[0][0].where,
+      ).toEqual({
+        organizationId: "org-123",
+        id: "obl-1",
+        title: { contains: "habilitación", mode: "insensitive" },
+      });
+    });
+  });
+
+  describe("trafficLightWhere", () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const today = new Date(
+      new Date().toISOString().slice(0, 10) + "T00:00:00.000Z",
+    );
+
+    // Evaluates the subset of Prisma filters the builder uses.
+    const matches = (where: any, o: Record<string, any>): boolean =>
+      Object.entries(where).every(([key, condition]: [string, any]) => {
+        if (key === "OR") return condition.some((w: any) => matches(w, o));
+        if (key === "AND") return condition.every((w: any) => matches(w, o));
+        if (typeof condition !== "object" || condition instanceof Date) {
+          return o[key] === condition;
+        }
+        return (
+          (!condition.in || condition.in.includes(o[key])) &&
+          (!condition.lt || o[key] < condition.lt) &&
+          (!condition.gte || o[key] >= condition.gte)
+        );
+      });
+
+    it.each([
+      ["calendar days", null],
+      [
+        "business days",
+        new BusinessCalendar([new Date(today.getTime() + 3 * DAY)]),
+      ],
+    ])("should agree with calculateTrafficLight in %s", (_, calendar) => {
+      const organization = {
+        thresholdYellowDays: 15,
+        thresholdRedDays: 7,
+        severityThresholds: { CRITICAL: { yellowDays: 30, redDays: 10 } },
+      } as any;
+
+      for (const severity of ["LOW", "CRITICAL"]) {
+        for (const status of ["PENDING", "OVERDUE", "COMPLETED"]) {
+          for (let days = -3; days <= 40; days++) {
+            const obligation = {
+              severity,
+              status,
+              dueDate: new Date(today.getTime() + days * DAY),
+            };
+            const thresholds = thresholdsFor(organization, severity as any);
+            const { trafficLight } = service.calculateTrafficLight(
+              obligation.dueDate,
+              status as any,
+              thresholds.yellowDays,
+              thresholds.redDays,
+              calendar,
+            );
+
+            for (const light of Object.values(TrafficLight)) {
+              const where = service.trafficLightWhere(
+                light,
+                organization,
+                calendar,
+              );
+              expect(matches(where, obligation)).toBe(light === trafficLight);
+            }
+          }
+        }
+      }
+    });
+
+    it("should filter and count in the query before paginating", async () => {
+      mockPrismaService.organization.findUnique.mockResolvedValue({
+        id: "org-123",
+        thresholdYellowDays: 15,
+        thresholdRedDays: 7,
+      });
+      mockPrismaService.obligation.findMany.mockResolvedValue([]);
+      mockPrismaService.obligation.count.mockResolvedValue(42);
+
+      const result = await service.findAll(
+        "org-123",
+        { page: 3, limit: 10, skip: 20, take: 10, sortOrder: "asc" } as any,
+        { trafficLight: "YELLOW" },
+      );
+
+      const query = mockPrismaService.obligation.findMany.mock.calls[0][0];
+      expect(query.skip).toBe(20);
+      expect(query.where.AND).toEqual([
         {
-          id: "3",
-          status: "OVERDUE",
-          dueDate: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
-          organizationId,
+          OR: [
+            {
+              severity: { in: ["LOW", "MEDIUM", "HIGH", "CRITICAL"] },
+              status: { in: ["PENDING", "IN_PROGRESS"] },
+              dueDate: {
+                gte: new Date(today.getTime() + 8 * DAY),
+                lt: new Date(today.getTime() + 16 * DAY),
+              },
+            },
+          ],
         },
-      ];
+      ]);
+      expect(mockPrismaService.obligation.count).toHaveBeenCalledWith({
+        where: query.where,
+      });
+      expect(result.meta.total).toBe(42);
+    });
+  });
+
+  describe("getDashboard", () => {
+    it("should return dashboard statistics", async () => {
+      const organizationId = "org-123";
+      const mockOrganization = {
+        id: organizationId,
+        thresholdYellowDays: 15,
+        thresholdRedDays: 7,
+      };
+      const critical = {
+        id: "3",
+        status: "OVERDUE",
+        dueDate: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
+        critical: true,
+        organizationId,
+      };
 
       mockPrismaService.organization.findUnique.mockResolvedValue(
         mockOrganization,
       );
-      mockPrismaService.obligation.findMany.mockResolvedValue(mockObligations);
+      mockPrismaService.obligation.count.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.status === "COMPLETED"
+            ? 1
+            : where.AND
+              ? 0
+              : where.status
+                ? 1
+                : 3,
+        ),
+      );
+      mockPrismaService.obligation.findMany.mockImplementation(({ where }) =>
+        Promise.resolve(where.critical ? [critical] : []),
+      );
 
       const result = await service.getDashboard(organizationId);
 
       expect(result).toBeDefined();
       expect(result.total).toBe(3);
       expect(result.completed).toBe(1);
+      expect(result.overdue).toBe(1);
+      expect(result.critical).toBe(1);
+      expect(result.criticalList.map((o) => o.id)).toEqual(["3"]);
+      // Nothing is loaded beyond the listed obligations
+      for (const [{ where }] of mockPrismaService.obligation.findMany.mock
+        .calls) {
+        expect(Object.keys(where).length).toBeGreaterThan(1);
+      }
     });
   });
 });
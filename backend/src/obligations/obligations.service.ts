@@ -2,15 +2,26 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  Logger,
 } from "@nestjs/common";
 import { PrismaService } from "../common/prisma/prisma.service";
 import { AuditService } from "../audit/audit.service";
 import { AuditActions } from "../audit/dto/audit.dto";
+import { diffEntity } from "../audit/audit-diff";
+import { RecurrenceService } from "./recurrence.service";
+import {
+  BusinessCalendar,
+  BusinessCalendarService,
+  localCalendarDay,
+} from "../jurisdictions/business-calendar.service";
 import {
   Prisma,
   ObligationStatus,
   Obligation,
+  ObligationEscalation,
   Organization,
+  ReviewStatus,
+  TemplateSeverity,
 } from "@prisma/client";
 import {
   CreateObligationDto,
@@ -18,6 +29,7 @@ import {
   ObligationFilterDto,
   ObligationResponseDto,
   ObligationDashboardDto,
+  ObligationSummaryDto,
   TrafficLight,
 } from "./dto/obligation.dto";
 import {
@@ -25,20 +37,56 @@ import {
   createPaginatedResponse,
   PaginatedResponse,
 } from "../common/dto/pagination.dto";
+import {
+  TrafficLightThreshold,
+  calculateRiskScore,
+  thresholdsFor,
+} from "./obligation-risk";
+
+// What the response needs: relations to show and data for the risk
+const obligationInclude = {
+  location: { select: { id: true, name: true } },
+  owner: { select: { id: true, fullName: true, email: true } },
+  _count: { select: { documents: true, tasks: true, reviews: true } },
+  reviews: {
+    where: { status: ReviewStatus.APPROVED },
+    select: { id: true },
+    take: 1,
+  },
+} satisfies Prisma.ObligationInclude;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CLOSED_STATUSES = [
+  ObligationStatus.COMPLETED,
+  ObligationStatus.NOT_APPLICABLE,
+];
+// Open ones not yet marked as overdue
+const UPCOMING_STATUSES = [
+  ObligationStatus.PENDING,
+  ObligationStatus.IN_PROGRESS,
+];
+const OPEN_STATUSES = [...UPCOMING_STATUSES, ObligationStatus.OVERDUE];
 
 @Injectable()
 export class ObligationsService {
+  private readonly logger = new Logger(ObligationsService.name);
+
   constructor(
     private prisma: PrismaService,
     private auditService: AuditService,
+    private recurrenceService: RecurrenceService,
+    private businessCalendarService: BusinessCalendarService,
   ) {}
 
   // Compute traffic light state based on due date, status, and org thresholds.
+  // With a business calendar, days are counted as business days.
   calculateTrafficLight(
     dueDate: Date,
     status: ObligationStatus,
     thresholdYellow: number,
     thresholdRed: number,
+    businessCalendar?: BusinessCalendar | null,
   ): { trafficLight: TrafficLight; daysUntilDue: number } {
     if (
       status === ObligationStatus.COMPLETED ||
@@ -47,22 +95,17 @@ export class ObligationsService {
       return { trafficLight: TrafficLight.GREEN, daysUntilDue: 0 };
     }
 
+    const calendar = businessCalendar ?? new BusinessCalendar();
+    const daysUntilDue = calendar.daysBetween(
+      localCalendarDay(new Date()),
+      dueDate,
+      !!businessCalendar,
+    );
+
     if (status === ObligationStatus.OVERDUE) {
-      const daysUntilDue = Math.floor(
-        (dueDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24),
-      );
       return { trafficLight: TrafficLight.RED, daysUntilDue };
     }
 
-    const now = new Date();
-    now.setHours(0, 0, 0, 0);
-    const due = new Date(dueDate);
-    due.setHours(0, 0, 0, 0);
-
-    const daysUntilDue = Math.floor(
-      (due.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-    );
-
     if (daysUntilDue < 0) {
       return { trafficLight: TrafficLight.RED, daysUntilDue };
     }
@@ -78,21 +121,112 @@ export class ObligationsService {
     return { trafficLight: TrafficLight.GREEN, daysUntilDue };
   }
 
+  /**
+   * Prisma filter equivalent to calculateTrafficLight for today. Each threshold
+   * becomes a due date cutoff, so filtering, counting and pagination happen in
+   * the database.
+   */
+  trafficLightWhere(
+    trafficLight: TrafficLight,
+    organization: Organization,
+    businessCalendar?: BusinessCalendar | null,
+  ): Prisma.ObligationWhereInput {
+    const today = localCalendarDay(new Date());
+    // First due date more than `days` days from today.
+    const cutoff = (days: number) =>
+      businessCalendar
+        ? businessCalendar.addBusinessDays(today, days + 1)
+        : new Date(today.getTime() + (days + 1) * DAY_MS);
+
+    // Severities with the same thresholds share a condition.
+    const groups = new Map<
+      string,
+      TrafficLightThreshold & { severities: TemplateSeverity[] }
+    >();
+    for (const severity of Object.values(TemplateSeverity)) {
+      const thresholds = thresholdsFor(organization, severity);
+      const key = `${thresholds.yellowDays}:${thresholds.redDays}`;
+      const group = groups.get(key) ?? { ...thresholds, severities: [] };
+      group.severities.push(severity);
+      groups.set(key, group);
+    }
+
+    const open = { in: OPEN_STATUSES };
+    const bySeverity = [...groups.values()].map(
+      ({ yellowDays, redDays, severities }) => {
+        const redCutoff = cutoff(redDays);
+        const severity = { in: severities };
+
+        if (trafficLight === TrafficLight.RED) {
+          return { severity, status: open, dueDate: { lt: redCutoff } };
+        }
+        if (trafficLight === TrafficLight.YELLOW) {
+          return {
+            severity,
+            status: { in: UPCOMING_STATUSES },
+            dueDate: { gte: redCutoff, lt: cutoff(yellowDays) },
+          };
+        }
+        return {
+          severity,
+          status: { in: UPCOMING_STATUSES },
+          dueDate: { gte: cutoff(Math.max(yellowDays, redDays)) },
+        };
+      },
+    );
+
+    if (trafficLight === TrafficLight.RED) {
+      return { OR: [{ status: ObligationStatus.OVERDUE }, ...bySeverity] };
+    }
+    if (trafficLight === TrafficLight.GREEN) {
+      return { OR: [{ status: { in: CLOSED_STATUSES } }, ...bySeverity] };
+    }
+    return { OR: bySeverity };
+  }
+
+  // Keeps the original completion date when an already closed obligation is
+  // saved again, so on-time metrics are not rewritten.
+  private completedAtFor(
+    obligation: Pick<Obligation, "status" | "completedAt">,
+    status: ObligationStatus,
+  ): Date | null {
+    if (status !== ObligationStatus.COMPLETED) {
+      return null;
+    }
+    return obligation.status === ObligationStatus.COMPLETED
+      ? (obligation.completedAt ?? new Date())
+      : new Date();
+  }
+
   private enrichWithTrafficLight(
     obligation: Obligation & {
       organization?: Organization;
       location?: { id: string; name: string } | null;
       owner?: { id: string; fullName: string; email: string } | null;
       _count?: { documents: number; tasks: number; reviews: number };
+      reviews?: { id: string }[];
+      escalations?: ObligationEscalation[];
     },
     organization: Organization,
+    businessCalendar?: BusinessCalendar | null,
   ): ObligationResponseDto {
+    const thresholds = thresholdsFor(organization, obligation.severity);
     const { trafficLight, daysUntilDue } = this.calculateTrafficLight(
       obligation.dueDate,
       obligation.status,
-      organization.thresholdYellowDays,
-      organization.thresholdRedDays,
+      thresholds.yellowDays,
+      thresholds.redDays,
+      businessCalendar,
     );
+    const riskScore = calculateRiskScore({
+      severity: obligation.severity,
+      status: obligation.status,
+      daysUntilDue,
+      requiredEvidenceCount: obligation.requiredEvidenceCount,
+      evidenceCount: obligation._count?.documents ?? 0,
+      requiresReview: obligation.requiresReview,
+      approved: (obligation.reviews?.length ?? 0) > 0,
+    });
 
     return {
       id: obligation.id,
@@ -102,17 +236,33 @@ export class ObligationsService {
       description: obligation.description ?? undefined,
       type: obligation.type,
       status: obligation.status,
+      severity: obligation.severity,
       dueDate: obligation.dueDate,
       recurrenceRule: obligation.recurrenceRule ?? undefined,
       requiresReview: obligation.requiresReview,
       requiredEvidenceCount: obligation.requiredEvidenceCount,
       ownerUserId: obligation.ownerUserId,
+      previousObligationId: obligation.previousObligationId ?? undefined,
+      occurrenceIndex: obligation.occurrenceIndex,
+      templateId: obligation.templateId ?? undefined,
+      templateVersion: obligation.templateVersion ?? undefined,
+      escalationLevel: obligation.escalationLevel,
+      critical: obligation.critical,
       createdAt: obligation.createdAt,
       trafficLight,
       daysUntilDue,
+      riskScore,
       location: obligation.location ?? undefined,
       owner: obligation.owner ?? undefined,
       _count: obligation._count,
+      escalations: obligation.escalations?.map((e) => ({
+        id: e.id,
+        level: e.level,
+        daysOverdue: e.daysOverdue,
+        notifiedUserIds: e.notifiedUserIds,
+        markedCritical: e.markedCritical,
+        createdAt: e.createdAt,
+      })),
     };
   }
 
@@ -133,6 +283,8 @@ export class ObligationsService {
       }
     }
 
+    this.recurrenceService.validateRule(dto.recurrenceRule);
+
     // Verify owner belongs to organization
     const ownerMembership = await this.prisma.userOrg.findFirst({
       where: { userId: dto.ownerUserId, organizationId },
@@ -154,17 +306,14 @@ export class ObligationsService {
         title: dto.title,
         description: dto.description,
         type: dto.type,
+        severity: dto.severity,
         dueDate: dto.dueDate,
         recurrenceRule: dto.recurrenceRule,
         requiresReview: dto.requiresReview ?? false,
         requiredEvidenceCount: dto.requiredEvidenceCount ?? 0,
         ownerUserId: dto.ownerUserId,
       },
-      include: {
-        location: { select: { id: true, name: true } },
-        owner: { select: { id: true, fullName: true, email: true } },
-        _count: { select: { documents: true, tasks: true, reviews: true } },
-      },
+      include: obligationInclude,
     });
 
     await this.auditService.log(
@@ -173,16 +322,19 @@ export class ObligationsService {
       "Obligation",
       obligation.id,
       userId,
-      {
-        title: obligation.title,
-        type: obligation.type,
-        dueDate: obligation.dueDate,
-        ownerUserId: obligation.ownerUserId,
-        locationId: obligation.locationId ?? undefined,
-      },
+      { changes: diffEntity("Obligation", null, obligation) },
     );
 
-    return this.enrichWithTrafficLight(obligation, organization!);
+    const businessCalendar =
+      await this.businessCalendarService.getCalendarForOrganization(
+        organization!,
+      );
+
+    return this.enrichWithTrafficLight(
+      obligation,
+      organization!,
+      businessCalendar,
+    );
   }
 
   async findAll(
@@ -200,12 +352,21 @@ export class ObligationsService {
 
     const where: Prisma.ObligationWhereInput = { organizationId };
 
+    if (filters.id) {
+      where.id = filters.id;
+    }
+    if (filters.q?.trim()) {
+      where.title = { contains: filters.q.trim(), mode: "insensitive" };
+    }
     if (filters.status) {
       where.status = filters.status;
     }
     if (filters.type) {
       where.type = filters.type;
     }
+    if (filters.severity) {
+      where.severity = filters.severity;
+    }
     if (filters.locationId) {
       where.locationId = filters.locationId;
     }
@@ -222,34 +383,67 @@ export class ObligationsService {
       }
     }
 
+    const businessCalendar =
+      await this.businessCalendarService.getCalendarForOrganization(
+        organization,
+      );
+    if (filters.trafficLight) {
+      where.AND = [
+        this.trafficLightWhere(
+          filters.trafficLight as TrafficLight,
+          organization,
+          businessCalendar,
+        ),
+      ];
+    }
+
+    // The risk score depends on today's date, so ranking by it needs the
+    // whole filtered set before paginating.
+    if (
+      pagination.sortBy === "riskScore" ||
+      filters.minRiskScore !== undefined
+    ) {
+      const ranked = (
+        await this.prisma.obligation.findMany({
+          where,
+          orderBy: { dueDate: "asc" },
+          include: obligationInclude,
+        })
+      )
+        .map((o) =>
+          this.enrichWithTrafficLight(o, organization, businessCalendar),
+        )
+        .filter((o) => o.riskScore >= (filters.minRiskScore ?? 0));
+
+      if (pagination.sortBy === "riskScore") {
+        const direction = pagination.sortOrder === "asc" ? 1 : -1;
+        ranked.sort((a, b) => direction * (a.riskScore - b.riskScore));
+      }
+
+      return createPaginatedResponse(
+        ranked.slice(pagination.skip, pagination.skip + pagination.take),
+        ranked.length,
+        pagination.page!,
+        pagination.limit!,
+      );
+    }
+
     const [obligations, total] = await Promise.all([
       this.prisma.obligation.findMany({
         where,
         skip: pagination.skip,
         take: pagination.take,
+        // daysUntilDue grows with the due date: sorting by either is the same
         orderBy: { dueDate: pagination.sortOrder },
-        include: {
-          location: { select: { id: true, name: true } },
-          owner: { select: { id: true, fullName: true, email: true } },
-          _count: { select: { documents: true, tasks: true, reviews: true } },
-        },
+        include: obligationInclude,
       }),
       this.prisma.obligation.count({ where }),
     ]);
 
-    let enrichedObligations = obligations.map((o) =>
-      this.enrichWithTrafficLight(o, organization),
-    );
-
-    // Filter by traffic light if specified
-    if (filters.trafficLight) {
-      enrichedObligations = enrichedObligations.filter(
-        (o) => o.trafficLight === filters.trafficLight,
-      );
-    }
-
     return createPaginatedResponse(
-      enrichedObligations,
+      obligations.map((o) =>
+        this.enrichWithTrafficLight(o, organization, businessCalendar),
+      ),
       total,
       pagination.page!,
       pagination.limit!,
@@ -267,9 +461,8 @@ export class ObligationsService {
     const obligation = await this.prisma.obligation.findFirst({
       where: { id: obligationId, organizationId },
       include: {
-        location: { select: { id: true, name: true } },
-        owner: { select: { id: true, fullName: true, email: true } },
-        _count: { select: { documents: true, tasks: true, reviews: true } },
+        ...obligationInclude,
+        escalations: { orderBy: { createdAt: "asc" } },
       },
     });
 
@@ -277,7 +470,16 @@ export class ObligationsService {
       throw new NotFoundException("Obligación no encontrada");
     }
 
-    return this.enrichWithTrafficLight(obligation, organization!);
+    const businessCalendar =
+      await this.businessCalendarService.getCalendarForOrganization(
+        organization!,
+      );
+
+    return this.enrichWithTrafficLight(
+      obligation,
+      organization!,
+      businessCalendar,
+    );
   }
 
   async update(
@@ -310,6 +512,8 @@ export class ObligationsService {
       }
     }
 
+    this.recurrenceService.validateRule(dto.recurrenceRule);
+
     // Validate owner if being updated
     if (dto.ownerUserId) {
       const ownerMembership = await this.prisma.userOrg.findFirst({
@@ -324,12 +528,10 @@ export class ObligationsService {
 
     const obligation = await this.prisma.obligation.update({
       where: { id: obligationId },
-      data: dto,
-      include: {
-        location: { select: { id: true, name: true } },
-        owner: { select: { id: true, fullName: true, email: true } },
-        _count: { select: { documents: true, tasks: true, reviews: true } },
-      },
+      data: dto.status
+        ? { ...dto, completedAt: this.completedAtFor(existing, dto.status) }
+        : dto,
+      include: obligationInclude,
     });
 
     await this.auditService.log(
@@ -338,10 +540,19 @@ export class ObligationsService {
       "Obligation",
       obligationId,
       userId,
-      { changes: dto },
+      { changes: diffEntity("Obligation", existing, obligation) },
     );
 
-    return this.enrichWithTrafficLight(obligation, organization!);
+    const businessCalendar =
+      await this.businessCalendarService.getCalendarForOrganization(
+        organization!,
+      );
+
+    return this.enrichWithTrafficLight(
+      obligation,
+      organization!,
+      businessCalendar,
+    );
   }
 
   async updateStatus(
@@ -387,14 +598,19 @@ export class ObligationsService {
       }
     }
 
+    // Leaving OVERDUE restarts the escalation chain; the history is kept.
+    const resetEscalation =
+      status !== ObligationStatus.OVERDUE &&
+      (obligation.escalationLevel > 0 || obligation.critical);
+
     const updated = await this.prisma.obligation.update({
       where: { id: obligationId },
-      data: { status },
-      include: {
-        location: { select: { id: true, name: true } },
-        owner: { select: { id: true, fullName: true, email: true } },
-        _count: { select: { documents: true, tasks: true, reviews: true } },
+      data: {
+        status,
+        completedAt: this.completedAtFor(obligation, status),
+        ...(resetEscalation && { escalationLevel: 0, critical: false }),
       },
+      include: obligationInclude,
     });
 
     await this.auditService.log(
@@ -403,10 +619,40 @@ export class ObligationsService {
       "Obligation",
       obligationId,
       userId,
-      { from: obligation.status, to: status },
+      {
+        from: obligation.status,
+        to: status,
+        changes: diffEntity("Obligation", obligation, updated),
+      },
     );
 
-    return this.enrichWithTrafficLight(updated, organization!);
+    // Completing a recurring obligation opens its next occurrence. The
+    // completion is already saved, so a failure here is left to the daily
+    // rollover job instead of failing the request.
+    if (
+      status === ObligationStatus.COMPLETED &&
+      obligation.status !== ObligationStatus.COMPLETED
+    ) {
+      try {
+        await this.recurrenceService.rolloverObligation(obligationId, userId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(
+          `Failed to roll over obligation ${obligationId}: ${message}`,
+        );
+      }
+    }
+
+    const businessCalendar =
+      await this.businessCalendarService.getCalendarForOrganization(
+        organization!,
+      );
+
+    return this.enrichWithTrafficLight(
+      updated,
+      organization!,
+      businessCalendar,
+    );
   }
 
   async delete(
@@ -432,7 +678,10 @@ export class ObligationsService {
       "Obligation",
       obligationId,
       userId,
-      { title: obligation.title },
+      {
+        title: obligation.title,
+        changes: diffEntity("Obligation", obligation, null),
+      },
     );
   }
 
@@ -445,71 +694,151 @@ export class ObligationsService {
       throw new NotFoundException("Organización no encontrada");
     }
 
-    const now = new Date();
-    const in7Days = new Date();
-    in7Days.setDate(now.getDate() + 7);
+    const businessCalendar =
+      await this.businessCalendarService.getCalendarForOrganization(
+        organization,
+      );
+    const { today, upcomingEnd } = this.upcomingWindow(businessCalendar);
+    const list = (where: Prisma.ObligationWhereInput) =>
+      this.prisma.obligation.findMany({
+        where: { organizationId, ...where },
+        orderBy: { dueDate: "asc" },
+        include: obligationInclude,
+      });
 
-    const obligations = await this.prisma.obligation.findMany({
-      where: { organizationId },
-      include: {
-        location: { select: { id: true, name: true } },
-        owner: { select: { id: true, fullName: true, email: true } },
-        _count: { select: { documents: true, tasks: true, reviews: true } },
-      },
-    });
+    const [summary, upcoming, overdueObligations, criticalObligations] =
+      await Promise.all([
+        this.countSummary(organization, businessCalendar),
+        list({
+          status: { in: OPEN_STATUSES },
+          dueDate: { gte: today, lt: upcomingEnd },
+        }),
+        list({
+          OR: [
+            { status: ObligationStatus.OVERDUE },
+            { status: { in: OPEN_STATUSES }, dueDate: { lt: today } },
+          ],
+        }),
+        list({ critical: true }),
+      ]);
+
+    const enrich = (obligations: typeof upcoming) =>
+      obligations.map((o) =>
+        this.enrichWithTrafficLight(o, organization, businessCalendar),
+      );
+    const criticalList = enrich(criticalObligations);
 
-    const enriched = obligations.map((o) =>
-      this.enrichWithTrafficLight(o, organization),
-    );
+    return {
+      total: summary.total,
+      overdue: summary.overdue,
+      red: summary.red,
+      yellow: summary.yellow,
+      green: summary.green,
+      completed: summary.completed,
+      critical: criticalList.length,
+      upcoming7Days: enrich(upcoming),
+      overdueList: enrich(overdueObligations),
+      criticalList,
+    };
+  }
 
-    const total = enriched.length;
-    const completed = enriched.filter(
-      (o) => o.status === ObligationStatus.COMPLETED,
-    ).length;
-    const overdue = enriched.filter(
-      (o) => o.status === ObligationStatus.OVERDUE,
-    ).length;
-    const red = enriched.filter(
-      (o) =>
-        o.trafficLight === TrafficLight.RED &&
-        o.status !== ObligationStatus.COMPLETED,
-    ).length;
-    const yellow = enriched.filter(
-      (o) =>
-        o.trafficLight === TrafficLight.YELLOW &&
-        o.status !== ObligationStatus.COMPLETED,
-    ).length;
-    const green = enriched.filter(
-      (o) =>
-        o.trafficLight === TrafficLight.GREEN &&
-        o.status !== ObligationStatus.COMPLETED,
-    ).length;
-
-    const upcoming7Days = enriched
-      .filter(
-        (o) =>
-          o.status !== ObligationStatus.COMPLETED &&
-          o.status !== ObligationStatus.NOT_APPLICABLE &&
-          o.daysUntilDue >= 0 &&
-          o.daysUntilDue <= 7,
-      )
-      .sort((a, b) => a.daysUntilDue - b.daysUntilDue);
+  /**
+   * Dashboard counts without the listings, to summarize many organizations at
+   * once (an accounting firm's portfolio).
+   */
+  async getSummary(organization: Organization): Promise<ObligationSummaryDto> {
+    const businessCalendar =
+      await this.businessCalendarService.getCalendarForOrganization(
+        organization,
+      );
+    return this.countSummary(organization, businessCalendar);
+  }
 
-    const overdueList = enriched
-      .filter(
-        (o) => o.status === ObligationStatus.OVERDUE || o.daysUntilDue < 0,
-      )
-      .sort((a, b) => a.daysUntilDue - b.daysUntilDue);
+  private async countSummary(
+    organization: Organization,
+    businessCalendar: BusinessCalendar | null,
+  ): Promise<ObligationSummaryDto> {
+    const organizationId = organization.id;
+    const { today, upcomingEnd } = this.upcomingWindow(businessCalendar);
+    const light = (trafficLight: TrafficLight) => ({
+      organizationId,
+      AND: [
+        this.trafficLightWhere(trafficLight, organization, businessCalendar),
+      ],
+    });
 
-    return {
+    const [
       total,
+      completed,
       overdue,
       red,
       yellow,
       green,
+      critical,
+      upcoming7Days,
+      pendingReviews,
+    ] = await Promise.all([
+      this.prisma.obligation.count({ where: { organizationId } }),
+      this.prisma.obligation.count({
+        where: { organizationId, status: ObligationStatus.COMPLETED },
+      }),
+      this.prisma.obligation.count({
+        where: { organizationId, status: ObligationStatus.OVERDUE },
+      }),
+      this.prisma.obligation.count({ where: light(TrafficLight.RED) }),
+      this.prisma.obligation.count({ where: light(TrafficLight.YELLOW) }),
+      this.prisma.obligation.count({
+        where: {
+          ...light(TrafficLight.GREEN),
+          status: { not: ObligationStatus.COMPLETED },
+        },
+      }),
+      this.prisma.obligation.count({
+        where: { organizationId, critical: true },
+      }),
+      this.prisma.obligation.count({
+        where: {
+          organizationId,
+          status: { in: OPEN_STATUSES },
+          dueDate: { gte: today, lt: upcomingEnd },
+        },
+      }),
+      // Same criteria as the pending reviews queue
+      this.prisma.obligation.count({
+        where: {
+          organizationId,
+          requiresReview: true,
+          status: { notIn: CLOSED_STATUSES },
+          reviews: { none: { status: ReviewStatus.APPROVED } },
+        },
+      }),
+    ]);
+
+    return {
+      total,
       completed,
+      overdue,
+      red,
+      yellow,
+      green,
+      critical,
       upcoming7Days,
-      overdueList,
+      pendingReviews,
+    };
+  }
+
+  // Next 7 days from today, counting days like the traffic light: business
+  // days if the organization uses them
+  private upcomingWindow(businessCalendar: BusinessCalendar | null): {
+    today: Date;
+    upcomingEnd: Date;
+  } {
+    const today = localCalendarDay(new Date());
+    return {
+      today,
+      upcomingEnd: businessCalendar
+        ? businessCalendar.addBusinessDays(today, 8)
+        : new Date(today.getTime() + 8 * DAY_MS),
     };
   }
 
@@ -534,15 +863,17 @@ export class ObligationsService {
           lte: endDate,
         },
       },
-      include: {
-        location: { select: { id: true, name: true } },
-        owner: { select: { id: true, fullName: true, email: true } },
-        _count: { select: { documents: true, tasks: true, reviews: true } },
-      },
+      include: obligationInclude,
       orderBy: { dueDate: "asc" },
     });
 
-    return obligations.map((o) => this.enrichWithTrafficLight(o, organization));
+    const businessCalendar =
+      await this.businessCalendarService.getCalendarForOrganization(
+        organization,
+      );
+    return obligations.map((o) =>
+      this.enrichWithTrafficLight(o, organization, businessCalendar),
+    );
   }
 
   // Job to update overdue status
@@ -550,16 +881,45 @@ export class ObligationsService {
     const now = new Date();
     now.setHours(0, 0, 0, 0);
 
-    const result = await this.prisma.obligation.updateMany({
-      where: {
-        status: {
-          in: [ObligationStatus.PENDING, ObligationStatus.IN_PROGRESS],
-        },
-        dueDate: { lt: now },
+    const open = {
+      status: {
+        in: [ObligationStatus.PENDING, ObligationStatus.IN_PROGRESS],
       },
-      data: { status: ObligationStatus.OVERDUE },
+    };
+    const obligations = await this.prisma.obligation.findMany({
+      where: { ...open, dueDate: { lt: now } },
     });
 
-    return result.count;
+    // One row at a time so each change gets its own audit event; the status
+    // condition skips obligations completed since they were read.
+    let updated = 0;
+    for (const obligation of obligations) {
+      const result = await this.prisma.obligation.updateMany({
+        where: { id: obligation.id, ...open },
+        data: { status: ObligationStatus.OVERDUE },
+      });
+      if (result.count === 0) {
+        continue;
+      }
+
+      await this.auditService.log(
+        obligation.organizationId,
+        AuditActions.OBLIGATION_STATUS_CHANGED,
+        "Obligation",
+        obligation.id,
+        undefined,
+        {
+          from: obligation.status,
+          to: ObligationStatus.OVERDUE,
+          changes: diffEntity("Obligation", obligation, {
+            ...obligation,
+            status: ObligationStatus.OVERDUE,
+          }),
+        },
+      );
+      updated++;
+    }
+
+    return updated;
   }
 }
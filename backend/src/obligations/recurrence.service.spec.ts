@@ -0,0 +1,345 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BadRequestException } from "@nestjs/common";
+import {
+  RecurrenceService,
+  parseRecurrenceRule,
+  getNextOccurrence,
+} from "./recurrence.service";
+import { BusinessCalendar } from "../jurisdictions/business-calendar.service";
+
+const mockPrismaService = {
+  obligation: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+  },
+};
+
+const mockAuditService = {
+  log: vi.fn(),
+};
+
+const mockBusinessCalendarService = {
+  getCalendar: vi.fn(),
+};
+
+const mockTaxSchedulesService = {
+  findNextDueDate: vi.fn(),
+};
+
+const utc = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+const next = (rule: string, from: string, index = 1) =>
+  getNextOccurrence(parseRecurrenceRule(rule), utc(from), index)
+    ?.toISOString()
+    .split("T")[0] ?? null;
+
+describe("parseRecurrenceRule", () => {
+  it("should parse the rules produced by templates", () => {
+    const rule = parseRecurrenceRule("FREQ=MONTHLY;INTERVAL=3");
+
+    expect(rule.freq).toBe("MONTHLY");
+    expect(rule.interval).toBe(3);
+  });
+
+  it("should parse BYDAY with ordinals and RRULE prefix", () => {
+    const rule = parseRecurrenceRule("RRULE:FREQ=MONTHLY;BYDAY=-1FR,2MO");
+
+    expect(rule.byDay).toEqual([
+      { weekday: 5, ordinal: -1 },
+      { weekday: 1, ordinal: 2 },
+    ]);
+  });
+
+  it("should reject unsupported or malformed parts", () => {
+    expect(() => parseRecurrenceRule("FREQ=HOURLY")).toThrow();
+    expect(() => parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=0")).toThrow();
+    expect(() => parseRecurrenceRule("FREQ=MONTHLY;BYHOUR=3")).toThrow();
+    expect(() =>
+      parseRecurrenceRule("FREQ=MONTHLY;COUNT=3;UNTIL=20250101"),
+    ).toThrow();
+  });
+});
+
+describe("getNextOccurrence", () => {
+  it("should add the interval for simple rules", () => {
+    expect(next("FREQ=WEEKLY;INTERVAL=2", "2025-03-05")).toBe("2025-03-19");
+    expect(next("FREQ=MONTHLY;INTERVAL=1", "2025-01-15")).toBe("2025-02-15");
+    expect(next("FREQ=YEARLY;INTERVAL=1", "2025-06-30")).toBe("2026-06-30");
+  });
+
+  it("should skip months where the day does not exist", () => {
+    expect(next("FREQ=MONTHLY", "2025-01-31")).toBe("2025-03-31");
+  });
+
+  it("should support BYMONTHDAY including negative days", () => {
+    expect(next("FREQ=MONTHLY;BYMONTHDAY=-1", "2025-01-31")).toBe("2025-02-28");
+    expect(next("FREQ=MONTHLY;BYMONTHDAY=10,20", "2025-01-10")).toBe(
+      "2025-01-20",
+    );
+  });
+
+  it("should support BYDAY with ordinals", () => {
+    // Last Friday of each month
+    expect(next("FREQ=MONTHLY;BYDAY=-1FR", "2025-01-31")).toBe("2025-02-28");
+    // Second Monday
+    expect(next("FREQ=MONTHLY;BYDAY=2MO", "2025-01-13")).toBe("2025-02-10");
+  });
+
+  it("should support weekly BYDAY lists", () => {
+    expect(next("FREQ=WEEKLY;BYDAY=MO,TH", "2025-03-03")).toBe("2025-03-06");
+    expect(next("FREQ=WEEKLY;BYDAY=MO,TH", "2025-03-06")).toBe("2025-03-10");
+  });
+
+  it("should support BYSETPOS", () => {
+    // Last business day of the month
+    expect(
+      next("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1", "2025-05-30"),
+    ).toBe("2025-06-30");
+    expect(
+      next("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1", "2025-07-31"),
+    ).toBe("2025-08-29");
+  });
+
+  it("should stop after UNTIL", () => {
+    expect(next("FREQ=MONTHLY;UNTIL=20250301", "2025-02-15")).toBeNull();
+    expect(next("FREQ=MONTHLY;UNTIL=20250315T000000Z", "2025-02-15")).toBe(
+      "2025-03-15",
+    );
+  });
+
+  it("should stop after COUNT occurrences", () => {
+    expect(next("FREQ=MONTHLY;COUNT=3", "2025-02-15", 2)).toBe("2025-03-15");
+    expect(next("FREQ=MONTHLY;COUNT=3", "2025-03-15", 3)).toBeNull();
+  });
+});
+
+describe("RecurrenceService", () => {
+  let service: RecurrenceService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new RecurrenceService(
+      mockPrismaService as any,
+      mockAuditService as any,
+      mockBusinessCalendarService as any,
+      mockTaxSchedulesService as any,
+    );
+    mockBusinessCalendarService.getCalendar.mockResolvedValue(
+      new BusinessCalendar(),
+    );
+  });
+
+  describe("validateRule", () => {
+    it("should accept empty and valid rules", () => {
+      expect(() => service.validateRule(undefined)).not.toThrow();
+      expect(() => service.validateRule("FREQ=YEARLY")).not.toThrow();
+    });
+
+    it("should throw BadRequestException for invalid rules", () => {
+      expect(() => service.validateRule("FREQ=SOMETIMES")).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe("rolloverObligation", () => {
+    const completed = {
+      id: "obl-1",
+      organizationId: "org-1",
+      locationId: null,
+      title: "DREI mensual",
+      description: null,
+      type: "TAX",
+      status: "COMPLETED",
+      dueDate: utc("2025-01-20"),
+      recurrenceRule: "FREQ=MONTHLY;INTERVAL=1",
+      requiresReview: false,
+      requiredEvidenceCount: 1,
+      ownerUserId: "user-1",
+      occurrenceIndex: 1,
+      nominalDueDate: null,
+      organization: { jurisdictionId: "juris-1", cuit: "30-71234567-4" },
+      location: null,
+      nextObligation: null,
+      tasks: [
+        {
+          title: "Checklist: DREI mensual",
+          description: null,
+          assignedToUserId: "user-1",
+          dueDate: utc("2025-01-18"),
+          items: [{ description: "Presentar DDJJ", order: 0, done: true }],
+        },
+      ],
+    };
+
+    it("should create the next occurrence with cloned checklist", async () => {
+      mockPrismaService.obligation.findUnique.mockResolvedValue(completed);
+      mockPrismaService.obligation.create.mockResolvedValue({
+        id: "obl-2",
+        dueDate: utc("2025-02-20"),
+        occurrenceIndex: 2,
+      });
+
+      const result = await service.rolloverObligation("obl-1", "user-1");
+
+      expect(result).toBe("obl-2");
+      const { data } = mockPrismaService.obligation.create.mock.calls[0][0];
+      expect(data.dueDate).toEqual(utc("2025-02-20"));
+      expect(data.previousObligationId).toBe("obl-1");
+      expect(data.occurrenceIndex).toBe(2);
+      expect(data.status).toBe("PENDING");
+      expect(data.tasks.create[0].dueDate).toEqual(utc("2025-02-18"));
+      expect(data.tasks.create[0].items.create[0].done).toBe(false);
+      expect(mockAuditService.log).toHaveBeenCalled();
+    });
+
+    it("should shift to a business day and keep the nominal date", async () => {
+      // 2025-09-20 is a Saturday: due the following Monday
+      mockPrismaService.obligation.findUnique.mockResolvedValue({
+        ...completed,
+        dueDate: utc("2025-08-20"),
+        tasks: [],
+      });
+      mockPrismaService.obligation.create.mockResolvedValue({ id: "obl-2" });
+
+      await service.rolloverObligation("obl-1");
+
+      const { data } = mockPrismaService.obligation.create.mock.calls[0][0];
+      expect(data.nominalDueDate).toEqual(utc("2025-09-20"));
+      expect(data.dueDate).toEqual(utc("2025-09-22"));
+      expect(mockBusinessCalendarService.getCalendar).toHaveBeenCalledWith(
+        "juris-1",
+      );
+    });
+
+    it("should compute the next date from the inherited due rule", async () => {
+      // ending 4 -> the 19th of the month after the period
+      const dueRule = {
+        cuitDigitDays: [18, 18, 19, 19, 19, 20, 20, 21, 21, 22],
+      };
+      mockPrismaService.obligation.findUnique.mockResolvedValue({
+        ...completed,
+        dueDate: utc("2025-02-19"),
+        dueRule,
+        tasks: [],
+      });
+      mockPrismaService.obligation.create.mockResolvedValue({ id: "obl-2" });
+
+      await service.rolloverObligation("obl-1");
+
+      const { data } = mockPrismaService.obligation.create.mock.calls[0][0];
+      expect(data.nominalDueDate).toEqual(utc("2025-03-19"));
+      expect(data.dueDate).toEqual(utc("2025-03-19"));
+      expect(data.dueRule).toEqual(dueRule);
+    });
+
+    it("should take the next date from the CUIT tax schedule", async () => {
+      mockPrismaService.obligation.findUnique.mockResolvedValue({
+        ...completed,
+        taxScheduleCode: "ar.afip.iva",
+        tasks: [],
+      });
+      mockTaxSchedulesService.findNextDueDate.mockResolvedValue({
+        period: "2025-01",
+        dueDate: utc("2025-02-21"),
+      });
+      mockPrismaService.obligation.create.mockResolvedValue({ id: "obl-2" });
+
+      await service.rolloverObligation("obl-1");
+
+      expect(mockTaxSchedulesService.findNextDueDate).toHaveBeenCalledWith(
+        "ar.afip.iva",
+        "30-71234567-4",
+        utc("2025-01-21"),
+      );
+      const { data } = mockPrismaService.obligation.create.mock.calls[0][0];
+      expect(data.dueDate).toEqual(utc("2025-02-21"));
+      expect(data.taxScheduleCode).toBe("ar.afip.iva");
+    });
+
+    it("should fall back to the RRULE when the schedule year is missing", async () => {
+      mockPrismaService.obligation.findUnique.mockResolvedValue({
+        ...completed,
+        taxScheduleCode: "ar.afip.iva",
+        tasks: [],
+      });
+      mockTaxSchedulesService.findNextDueDate.mockResolvedValue(null);
+      mockPrismaService.obligation.create.mockResolvedValue({ id: "obl-2" });
+
+      await service.rolloverObligation("obl-1");
+
+      const { data } = mockPrismaService.obligation.create.mock.calls[0][0];
+      expect(data.dueDate).toEqual(utc("2025-02-20"));
+    });
+
+    it("should advance the series from the nominal date", async () => {
+      mockPrismaService.obligation.findUnique.mockResolvedValue({
+        ...completed,
+        dueDate: utc("2025-09-22"),
+        nominalDueDate: utc("2025-09-20"),
+        tasks: [],
+      });
+      mockPrismaService.obligation.create.mockResolvedValue({ id: "obl-3" });
+
+      await service.rolloverObligation("obl-2");
+
+      const { data } = mockPrismaService.obligation.create.mock.calls[0][0];
+      expect(data.nominalDueDate).toEqual(utc("2025-10-20"));
+      expect(data.dueDate).toEqual(utc("2025-10-20"));
+    });
+
+    it("should not duplicate an existing next occurrence", async () => {
+      mockPrismaService.obligation.findUnique.mockResolvedValue({
+        ...completed,
+        nextObligation: { id: "obl-2" },
+      });
+
+      const result = await service.rolloverObligation("obl-1");
+
+      expect(result).toBeNull();
+      expect(mockPrismaService.obligation.create).not.toHaveBeenCalled();
+    });
+
+    it("should treat a concurrently created next occurrence as rolled over", async () => {
+      mockPrismaService.obligation.findUnique.mockResolvedValue(completed);
+      mockPrismaService.obligation.create.mockRejectedValueOnce(
+        Object.assign(new Error("Unique constraint failed"), { code: "P2002" }),
+      );
+
+      const result = await service.rolloverObligation("obl-1");
+
+      expect(result).toBeNull();
+      expect(mockAuditService.log).not.toHaveBeenCalled();
+    });
+
+    it("should not roll over when the series has ended", async () => {
+      mockPrismaService.obligation.findUnique.mockResolvedValue({
+        ...completed,
+        recurrenceRule: "FREQ=MONTHLY;COUNT=1",
+      });
+
+      const result = await service.rolloverObligation("obl-1");
+
+      expect(result).toBeNull();
+      expect(mockPrismaService.obligation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("rolloverCompletedObligations", () => {
+    it("should roll over every pending series", async () => {
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        { id: "a" },
+        { id: "b" },
+      ]);
+      const spy = vi
+        .spyOn(service, "rolloverObligation")
+        .mockResolvedValueOnce("a-next")
+        .mockResolvedValueOnce(null);
+
+      const result = await service.rolloverCompletedObligations();
+
+      expect(result).toBe(1);
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,632 @@
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { ObligationStatus, TaskStatus } from "@prisma/client";
+import {
+  PrismaService,
+  isUniqueConstraintError,
+} from "../common/prisma/prisma.service";
+import { AuditService } from "../audit/audit.service";
+import { AuditActions } from "../audit/dto/audit.dto";
+import { diffEntity } from "../audit/audit-diff";
+import {
+  BusinessCalendar,
+  BusinessCalendarService,
+} from "../jurisdictions/business-calendar.service";
+import { TaxSchedulesService } from "../jurisdictions/tax-schedules.service";
+import { DueRule, computeDueDates } from "../templates/due-rule.service";
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday ... 6 = Saturday (same as Date.getUTCDay)
+  ordinal?: number; // 1MO, -1FR, etc.
+}
+
+export interface ParsedRecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byMonthDay: number[];
+  byDay: RecurrenceWeekday[];
+  bySetPos: number[];
+  until?: Date;
+  count?: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MAX_PERIODS = 1000;
+
+const WEEKDAY_CODES: Record<string, number> = {
+  SU: 0,
+  MO: 1,
+  TU: 2,
+  WE: 3,
+  TH: 4,
+  FR: 5,
+  SA: 6,
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = [
+  "DAILY",
+  "WEEKLY",
+  "MONTHLY",
+  "YEARLY",
+];
+
+function parseIntList(
+  value: string,
+  min: number,
+  max: number,
+  name: string,
+): number[] {
+  return value.split(",").map((raw) => {
+    const n = Number(raw);
+    if (!Number.isInteger(n) || n === 0 || n < min || n > max) {
+      throw new Error(`${name} invalido: ${raw}`);
+    }
+    return n;
+  });
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  if (!match) {
+    throw new Error(`UNTIL invalido: ${value}`);
+  }
+  return new Date(
+    Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+  );
+}
+
+/**
+ * Parse an iCalendar RRULE string (optionally prefixed with "RRULE:").
+ * Supported parts: FREQ, INTERVAL, BYMONTHDAY, BYDAY, BYSETPOS, UNTIL, COUNT.
+ */
+export function parseRecurrenceRule(rule: string): ParsedRecurrenceRule {
+  const body = rule.trim().replace(/^RRULE:/i, "");
+  const parts = new Map<string, string>();
+
+  for (const segment of body.split(";").filter(Boolean)) {
+    const [key, value] = segment.split("=");
+    if (!key || value === undefined || value === "") {
+      throw new Error(`Segmento invalido: ${segment}`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error("FREQ debe ser DAILY, WEEKLY, MONTHLY o YEARLY");
+  }
+
+  const parsed: ParsedRecurrenceRule = {
+    freq,
+    interval: 1,
+    byMonthDay: [],
+    byDay: [],
+    bySetPos: [],
+  };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL": {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) {
+          throw new Error(`INTERVAL invalido: ${value}`);
+        }
+        parsed.interval = interval;
+        break;
+      }
+      case "BYMONTHDAY":
+        parsed.byMonthDay = parseIntList(value, -31, 31, "BYMONTHDAY");
+        break;
+      case "BYDAY":
+        parsed.byDay = value.split(",").map((raw) => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(raw);
+          if (!match) {
+            throw new Error(`BYDAY invalido: ${raw}`);
+          }
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal === 0) {
+            throw new Error(`BYDAY invalido: ${raw}`);
+          }
+          return { weekday: WEEKDAY_CODES[match[2]], ordinal };
+        });
+        break;
+      case "BYSETPOS":
+        parsed.bySetPos = parseIntList(value, -366, 366, "BYSETPOS");
+        break;
+      case "UNTIL":
+        parsed.until = parseUntil(value);
+        break;
+      case "COUNT": {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1) {
+          throw new Error(`COUNT invalido: ${value}`);
+        }
+        parsed.count = count;
+        break;
+      }
+      default:
+        throw new Error(`Parte de RRULE no soportada: ${key}`);
+    }
+  }
+
+  if (parsed.until && parsed.count) {
+    throw new Error("UNTIL y COUNT no pueden usarse juntos");
+  }
+  if (
+    parsed.bySetPos.length > 0 &&
+    parsed.byDay.length === 0 &&
+    parsed.byMonthDay.length === 0
+  ) {
+    throw new Error("BYSETPOS requiere BYDAY o BYMONTHDAY");
+  }
+
+  return parsed;
+}
+
+function toUtcDate(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function resolveMonthDays(
+  year: number,
+  month: number,
+  byMonthDay: number[],
+): number[] {
+  const total = daysInMonth(year, month);
+  return byMonthDay
+    .map((d) => (d > 0 ? d : total + d + 1))
+    .filter((d) => d >= 1 && d <= total);
+}
+
+// Expand BYDAY within a range of days (a month or a whole year).
+function expandByDay(start: Date, length: number, byDay: RecurrenceWeekday[]) {
+  const result: Date[] = [];
+  for (const { weekday, ordinal } of byDay) {
+    const matches: Date[] = [];
+    for (let i = 0; i < length; i++) {
+      const day = new Date(start.getTime() + i * DAY_MS);
+      if (day.getUTCDay() === weekday) {
+        matches.push(day);
+      }
+    }
+    if (ordinal === undefined) {
+      result.push(...matches);
+    } else {
+      const index = ordinal > 0 ? ordinal - 1 : matches.length + ordinal;
+      if (matches[index]) {
+        result.push(matches[index]);
+      }
+    }
+  }
+  return result;
+}
+
+function applySetPos(candidates: Date[], bySetPos: number[]): Date[] {
+  if (bySetPos.length === 0) {
+    return candidates;
+  }
+  return bySetPos
+    .map((pos) =>
+      pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos],
+    )
+    .filter((d): d is Date => d !== undefined);
+}
+
+function uniqueSorted(dates: Date[]): Date[] {
+  const byTime = new Map(dates.map((d) => [d.getTime(), d]));
+  return Array.from(byTime.values()).sort((a, b) => a.getTime() - b.getTime());
+}
+
+// Candidates of the period that starts `step` intervals after the anchor's period.
+function periodCandidates(
+  rule: ParsedRecurrenceRule,
+  anchor: Date,
+  step: number,
+): Date[] {
+  const offset = step * rule.interval;
+  let candidates: Date[];
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = new Date(anchor.getTime() + offset * DAY_MS);
+      candidates = [day];
+      if (rule.byMonthDay.length > 0) {
+        const days = resolveMonthDays(
+          day.getUTCFullYear(),
+          day.getUTCMonth(),
+          rule.byMonthDay,
+        );
+        candidates = candidates.filter((d) => days.includes(d.getUTCDate()));
+      }
+      if (rule.byDay.length > 0) {
+        const weekdays = rule.byDay.map((d) => d.weekday);
+        candidates = candidates.filter((d) => weekdays.includes(d.getUTCDay()));
+      }
+      break;
+    }
+    case "WEEKLY": {
+      // Weeks start on Monday (WKST=MO)
+      const mondayOffset = (anchor.getUTCDay() + 6) % 7;
+      const weekStart = new Date(
+        anchor.getTime() + (offset * 7 - mondayOffset) * DAY_MS,
+      );
+      if (rule.byDay.length > 0) {
+        candidates = expandByDay(
+          weekStart,
+          7,
+          rule.byDay.map((d) => ({ weekday: d.weekday })),
+        );
+      } else {
+        candidates = [new Date(weekStart.getTime() + mondayOffset * DAY_MS)];
+      }
+      break;
+    }
+    case "MONTHLY": {
+      const monthIndex = anchor.getUTCMonth() + offset;
+      const year = anchor.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = ((monthIndex % 12) + 12) % 12;
+      const monthStart = new Date(Date.UTC(year, month, 1));
+      const total = daysInMonth(year, month);
+
+      if (rule.byDay.length > 0) {
+        candidates = expandByDay(monthStart, total, rule.byDay);
+        if (rule.byMonthDay.length > 0) {
+          const days = resolveMonthDays(year, month, rule.byMonthDay);
+          candidates = candidates.filter((d) => days.includes(d.getUTCDate()));
+        }
+      } else if (rule.byMonthDay.length > 0) {
+        candidates = resolveMonthDays(year, month, rule.byMonthDay).map(
+          (d) => new Date(Date.UTC(year, month, d)),
+        );
+      } else {
+        // Nonexistent dates (e.g. February 31) are skipped, as in RFC 5545
+        const day = anchor.getUTCDate();
+        candidates = day <= total ? [new Date(Date.UTC(year, month, day))] : [];
+      }
+      break;
+    }
+    case "YEARLY": {
+      const year = anchor.getUTCFullYear() + offset;
+      const month = anchor.getUTCMonth();
+
+      if (rule.byMonthDay.length > 0) {
+        candidates = resolveMonthDays(year, month, rule.byMonthDay).map(
+          (d) => new Date(Date.UTC(year, month, d)),
+        );
+        if (rule.byDay.length > 0) {
+          const weekdays = rule.byDay.map((d) => d.weekday);
+          candidates = candidates.filter((d) =>
+            weekdays.includes(d.getUTCDay()),
+          );
+        }
+      } else if (rule.byDay.length > 0) {
+        const yearStart = new Date(Date.UTC(year, 0, 1));
+        const length =
+          (Date.UTC(year + 1, 0, 1) - yearStart.getTime()) / DAY_MS;
+        candidates = expandByDay(yearStart, length, rule.byDay);
+      } else {
+        const day = anchor.getUTCDate();
+        candidates =
+          day <= daysInMonth(year, month)
+            ? [new Date(Date.UTC(year, month, day))]
+            : [];
+      }
+      break;
+    }
+  }
+
+  return applySetPos(uniqueSorted(candidates), rule.bySetPos);
+}
+
+/**
+ * Compute the occurrence that follows `current` (the due date of occurrence
+ * number `occurrenceIndex`). Returns null when the series has ended.
+ */
+export function getNextOccurrence(
+  rule: ParsedRecurrenceRule,
+  current: Date,
+  occurrenceIndex = 1,
+): Date | null {
+  if (rule.count !== undefined && occurrenceIndex >= rule.count) {
+    return null;
+  }
+
+  const anchor = toUtcDate(current);
+
+  for (let step = 0; step < MAX_PERIODS; step++) {
+    const next = periodCandidates(rule, anchor, step).find(
+      (d) => d.getTime() > anchor.getTime(),
+    );
+    if (next) {
+      if (rule.until && next.getTime() > rule.until.getTime()) {
+        return null;
+      }
+      return next;
+    }
+  }
+
+  return null;
+}
+
+@Injectable()
+export class RecurrenceService {
+  private readonly logger = new Logger(RecurrenceService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private businessCalendarService: BusinessCalendarService,
+    private taxSchedulesService: TaxSchedulesService,
+  ) {}
+
+  // Reject malformed RRULEs before they are stored.
+  validateRule(rule?: string | null): void {
+    if (!rule) {
+      return;
+    }
+    try {
+      parseRecurrenceRule(rule);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new BadRequestException(
+        `Regla de recurrencia invalida: ${message}`,
+      );
+    }
+  }
+
+  /**
+   * Create the next occurrence of a completed recurring obligation, cloning
+   * its checklist tasks. Returns the new obligation id, or null when the
+   * obligation is not recurring, the series ended, or the next occurrence
+   * already exists (also when it is created concurrently).
+   */
+  async rolloverObligation(
+    obligationId: string,
+    userId?: string,
+  ): Promise<string | null> {
+    const obligation = await this.prisma.obligation.findUnique({
+      where: { id: obligationId },
+      include: {
+        organization: { select: { jurisdictionId: true, cuit: true } },
+        location: { select: { jurisdictionId: true } },
+        nextObligation: { select: { id: true } },
+        tasks: {
+          where: { status: { not: TaskStatus.CANCELLED } },
+          include: { items: { orderBy: { order: "asc" } } },
+        },
+      },
+    });
+
+    if (
+      !obligation ||
+      !obligation.recurrenceRule ||
+      obligation.status !== ObligationStatus.COMPLETED ||
+      obligation.nextObligation
+    ) {
+      return null;
+    }
+
+    let rule: ParsedRecurrenceRule;
+    try {
+      rule = parseRecurrenceRule(obligation.recurrenceRule);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(
+        `Skipping rollover of obligation ${obligation.id}: ${message}`,
+      );
+      return null;
+    }
+
+    const calendar = await this.businessCalendarService.getCalendar(
+      obligation.location?.jurisdictionId ??
+        obligation.organization.jurisdictionId,
+    );
+
+    let nominalDueDate: Date | null;
+    let nextDueDate: Date;
+    const occurrence = await this.nextFromTemplateRules(
+      obligation,
+      rule,
+      calendar,
+    );
+    if (occurrence === null) {
+      return null;
+    }
+    if (occurrence) {
+      ({ nominalDueDate, dueDate: nextDueDate } = occurrence);
+    } else {
+      // The series advances from the nominal date so holiday shifts do not drift it.
+      nominalDueDate = getNextOccurrence(
+        rule,
+        obligation.nominalDueDate ?? obligation.dueDate,
+        obligation.occurrenceIndex,
+      );
+      if (!nominalDueDate) {
+        return null;
+      }
+      nextDueDate = calendar.nextBusinessDay(nominalDueDate);
+    }
+
+    const shiftMs =
+      nextDueDate.getTime() - toUtcDate(obligation.dueDate).getTime();
+
+    const next = await this.prisma.obligation
+      .create({
+        data: {
+          organizationId: obligation.organizationId,
+          locationId: obligation.locationId,
+          title: obligation.title,
+          description: obligation.description,
+          type: obligation.type,
+          status: ObligationStatus.PENDING,
+          severity: obligation.severity,
+          dueDate: nextDueDate,
+          nominalDueDate,
+          recurrenceRule: obligation.recurrenceRule,
+          dueRule: obligation.dueRule ?? undefined,
+          taxScheduleCode: obligation.taxScheduleCode,
+          templateId: obligation.templateId,
+          templateVersion: obligation.templateVersion,
+          templateSnapshot: obligation.templateSnapshot ?? undefined,
+          requiresReview: obligation.requiresReview,
+          requiredEvidenceCount: obligation.requiredEvidenceCount,
+          ownerUserId: obligation.ownerUserId,
+          previousObligationId: obligation.id,
+          occurrenceIndex: obligation.occurrenceIndex + 1,
+          tasks: {
+            create: obligation.tasks.map((task) => ({
+              title: task.title,
+              description: task.description,
+              assignedToUserId: task.assignedToUserId,
+              status: TaskStatus.OPEN,
+              dueDate: task.dueDate
+                ? new Date(task.dueDate.getTime() + shiftMs)
+                : null,
+              items: {
+                create: task.items.map((item) => ({
+                  description: item.description,
+                  order: item.order,
+                  done: false,
+                })),
+              },
+            })),
+          },
+        },
+      })
+      .catch((error: unknown) => {
+        // previousObligationId is unique: a concurrent completion or the daily
+        // job already opened the next occurrence.
+        if (isUniqueConstraintError(error)) {
+          return null;
+        }
+        throw error;
+      });
+    if (!next) {
+      return null;
+    }
+
+    await this.auditService.log(
+      obligation.organizationId,
+      AuditActions.OBLIGATION_RECURRENCE_GENERATED,
+      "Obligation",
+      next.id,
+      userId,
+      {
+        previousObligationId: obligation.id,
+        occurrenceIndex: next.occurrenceIndex,
+        changes: diffEntity("Obligation", null, next),
+      },
+    );
+
+    return next.id;
+  }
+
+  /**
+   * Next period from the CUIT tax schedule or the template due rule, honouring
+   * the RRULE's COUNT and UNTIL. Returns undefined when neither applies (or the
+   * schedule year is not loaded yet) so the caller falls back to the RRULE.
+   */
+  private async nextFromTemplateRules(
+    obligation: {
+      id: string;
+      dueDate: Date;
+      occurrenceIndex: number;
+      dueRule: unknown;
+      taxScheduleCode: string | null;
+      organization: { cuit: string };
+    },
+    rule: ParsedRecurrenceRule,
+    calendar: BusinessCalendar,
+  ): Promise<{ nominalDueDate: Date; dueDate: Date } | null | undefined> {
+    if (!obligation.taxScheduleCode && !obligation.dueRule) {
+      return undefined;
+    }
+    if (rule.count !== undefined && obligation.occurrenceIndex >= rule.count) {
+      return null;
+    }
+
+    const after = new Date(toUtcDate(obligation.dueDate).getTime() + DAY_MS);
+    let occurrence: { nominalDueDate: Date; dueDate: Date } | undefined;
+
+    if (obligation.taxScheduleCode) {
+      const scheduled = await this.taxSchedulesService.findNextDueDate(
+        obligation.taxScheduleCode,
+        obligation.organization.cuit,
+        after,
+      );
+      if (scheduled) {
+        occurrence = {
+          nominalDueDate: scheduled.dueDate,
+          dueDate: scheduled.dueDate,
+        };
+      } else {
+        this.logger.warn(
+          `Tax schedule ${obligation.taxScheduleCode} has no date after ${after.toISOString().slice(0, 10)} for obligation ${obligation.id} (year not imported or no CUIT); using the ${obligation.dueRule ? "due rule" : "recurrence rule"}`,
+        );
+      }
+    }
+
+    const periodMonths =
+      rule.freq === "MONTHLY"
+        ? rule.interval
+        : rule.freq === "YEARLY"
+          ? rule.interval * 12
+          : null;
+    if (!occurrence && obligation.dueRule && periodMonths) {
+      [occurrence] = computeDueDates(
+        obligation.dueRule as DueRule,
+        periodMonths,
+        after,
+        1,
+        { calendar, cuit: obligation.organization.cuit },
+      );
+    }
+
+    if (!occurrence) {
+      return undefined;
+    }
+    if (rule.until && occurrence.nominalDueDate > rule.until) {
+      return null;
+    }
+    return occurrence;
+  }
+
+  // Job: generate missing next occurrences for completed recurring obligations.
+  async rolloverCompletedObligations(): Promise<number> {
+    const candidates = await this.prisma.obligation.findMany({
+      where: {
+        status: ObligationStatus.COMPLETED,
+        recurrenceRule: { not: null },
+        nextObligation: { is: null },
+        organization: { active: true },
+      },
+      select: { id: true },
+    });
+
+    let created = 0;
+    for (const candidate of candidates) {
+      try {
+        const nextId = await this.rolloverObligation(candidate.id);
+        if (nextId) {
+          created++;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(
+          `Failed to roll over obligation ${candidate.id}: ${message}`,
+        );
+      }
+    }
+
+    return created;
+  }
+}
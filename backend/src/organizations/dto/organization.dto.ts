@@ -6,22 +6,67 @@ import {
   Min,
   Max,
   MaxLength,
-  Matches,
   IsEnum,
   IsEmail,
   IsUUID,
+  IsBoolean,
+  ValidateNested,
 } from "class-validator";
-import { Plan, Role } from "@prisma/client";
+import { Transform, Type } from "class-transformer";
+import { Plan, Prisma, Role, TaxpayerKind } from "@prisma/client";
+import { IsCuit, formatCuit } from "../../common/validators/cuit.validator";
+
+export class TrafficLightThresholdDto {
+  @ApiProperty({ minimum: 1, maximum: 90 })
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  yellowDays: number;
+
+  @ApiProperty({ minimum: 1, maximum: 30 })
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  redDays: number;
+}
+
+// Severities without their own threshold use the organization's general ones
+export class SeverityThresholdsDto {
+  @ApiPropertyOptional({ type: TrafficLightThresholdDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TrafficLightThresholdDto)
+  LOW?: TrafficLightThresholdDto;
+
+  @ApiPropertyOptional({ type: TrafficLightThresholdDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TrafficLightThresholdDto)
+  MEDIUM?: TrafficLightThresholdDto;
+
+  @ApiPropertyOptional({ type: TrafficLightThresholdDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TrafficLightThresholdDto)
+  HIGH?: TrafficLightThresholdDto;
+
+  @ApiPropertyOptional({ type: TrafficLightThresholdDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TrafficLightThresholdDto)
+  CRITICAL?: TrafficLightThresholdDto;
+}
 
 export class CreateOrganizationDto {
   @ApiProperty({
-    example: "30-12345678-9",
-    description: "CUIT de la organizacion",
-  })
-  @IsString()
-  @Matches(/^\d{2}-\d{8}-\d{1}$/, {
-    message: "CUIT invalido. Formato: XX-XXXXXXXX-X",
+    example: "30-71234567-1",
+    description:
+      "CUIT de la organizacion (con o sin guiones, se valida el digito verificador)",
   })
+  @Transform(({ value }) =>
+    typeof value === "string" ? formatCuit(value.trim()) : value,
+  )
+  @IsCuit()
   cuit: string;
 
   @ApiProperty({ example: "Mi Comercio S.R.L." })
@@ -55,6 +100,39 @@ export class CreateOrganizationDto {
   @Min(1)
   @Max(30)
   thresholdRedDays?: number;
+
+  @ApiPropertyOptional({
+    default: false,
+    description:
+      "Contar los dias del semaforo y recordatorios en dias habiles (segun los feriados de la jurisdiccion)",
+  })
+  @IsOptional()
+  @IsBoolean()
+  countBusinessDays?: boolean;
+
+  @ApiPropertyOptional({
+    type: SeverityThresholdsDto,
+    nullable: true,
+    description:
+      "Umbrales del semaforo por severidad (ej. avisar antes las CRITICAL); null vuelve a los generales",
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SeverityThresholdsDto)
+  severityThresholds?: SeverityThresholdsDto | null;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    minimum: 12,
+    maximum: 120,
+    description:
+      "Meses que los eventos de auditoria quedan en la base antes de archivarse en el storage; null los conserva",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(12)
+  @Max(120)
+  auditRetentionMonths?: number | null;
 }
 
 export class UpdateOrganizationDto extends PartialType(CreateOrganizationDto) {}
@@ -96,6 +174,12 @@ export class OrganizationResponseDto {
   @ApiProperty()
   cuit: string;
 
+  @ApiPropertyOptional({ example: "30712345671" })
+  cuitNumber?: string | null;
+
+  @ApiPropertyOptional({ enum: TaxpayerKind, nullable: true })
+  taxpayerKind?: TaxpayerKind | null;
+
   @ApiProperty()
   name: string;
 
@@ -114,6 +198,15 @@ export class OrganizationResponseDto {
   @ApiProperty()
   thresholdRedDays: number;
 
+  @ApiProperty()
+  countBusinessDays: boolean;
+
+  @ApiPropertyOptional({ type: SeverityThresholdsDto, nullable: true })
+  severityThresholds?: Prisma.JsonValue;
+
+  @ApiPropertyOptional({ nullable: true })
+  auditRetentionMonths?: number | null;
+
   @ApiProperty()
   active: boolean;
 
@@ -75,7 +75,7 @@ describe("OrganizationsService", () => {
   describe("create", () => {
     const userId = "user-123";
     const createDto = {
-      cuit: "20-12345678-9",
+      cuit: "20-12345678-6",
       name: "Test Organization",
       plan: "BASIC" as any,
     };
@@ -97,6 +97,8 @@ describe("OrganizationsService", () => {
       expect(mockPrismaService.organization.create).toHaveBeenCalledWith(
         expect.objectContaining({
           data: expect.objectContaining({
+            cuitNumber: "20123456786",
+            taxpayerKind: "INDIVIDUAL",
             userOrgs: { create: { userId, role: "OWNER" } },
           }),
         }),
@@ -328,4 +330,55 @@ describe("OrganizationsService", () => {
       ).rejects.toThrow(BadRequestException);
     });
   });
+
+  describe("backfillCuitFields", () => {
+    it("should fill the normalized CUIT and taxpayer kind of older organizations", async () => {
+      mockPrismaService.organization.findMany.mockResolvedValue([
+        {
+          id: "org-1",
+          cuit: "20-12345678-6",
+          cuitNumber: null,
+          taxpayerKind: null,
+        },
+        {
+          id: "org-2",
+          cuit: "30.71234567.1",
+          cuitNumber: "30712345671",
+          taxpayerKind: null,
+        },
+        { id: "org-3", cuit: "sin CUIT", cuitNumber: null, taxpayerKind: null },
+        {
+          id: "org-4",
+          cuit: "20123456786",
+          cuitNumber: null,
+          taxpayerKind: null,
+        },
+      ]);
+      mockPrismaService.organization.update
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce({ code: "P2002" });
+
+      const updated = await service.backfillCuitFields();
+
+      expect(updated).toBe(2);
+      expect(mockPrismaService.organization.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { OR: [{ cuitNumber: null }, { taxpayerKind: null }] },
+        }),
+      );
+      expect(mockPrismaService.organization.update).toHaveBeenCalledWith({
+        where: { id: "org-1" },
+        data: { cuitNumber: "20123456786", taxpayerKind: "INDIVIDUAL" },
+      });
+      expect(mockPrismaService.organization.update).toHaveBeenCalledWith({
+        where: { id: "org-2" },
+        data: { cuitNumber: "30712345671", taxpayerKind: "LEGAL_ENTITY" },
+      });
+      // Nothing to derive from an invalid CUIT
+      expect(mockPrismaService.organization.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "org-3" } }),
+      );
+    });
+  });
 });
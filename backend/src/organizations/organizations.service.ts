@@ -8,11 +8,19 @@ import {
 } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { v4 as uuidv4 } from "uuid";
-import { PrismaService } from "../common/prisma/prisma.service";
+import {
+  PrismaService,
+  isUniqueConstraintError,
+} from "../common/prisma/prisma.service";
 import { EmailService } from "../common/email/email.service";
-import { Role } from "@prisma/client";
+import { Organization, Prisma, Role } from "@prisma/client";
 import { AuditService } from "../audit/audit.service";
 import { AuditActions } from "../audit/dto/audit.dto";
+import { diffEntity } from "../audit/audit-diff";
+import {
+  getTaxpayerKind,
+  normalizeCuit,
+} from "../common/validators/cuit.validator";
 import {
   CreateOrganizationDto,
   UpdateOrganizationDto,
@@ -21,6 +29,7 @@ import {
   OrganizationResponseDto,
   OrganizationMemberDto,
   OrganizationStatsDto,
+  SeverityThresholdsDto,
 } from "./dto/organization.dto";
 import {
   PaginationDto,
@@ -28,6 +37,21 @@ import {
   PaginatedResponse,
 } from "../common/dto/pagination.dto";
 
+// Organizations read per query by the CUIT backfill
+const CUIT_BACKFILL_BATCH_SIZE = 100;
+
+// null clears the per-severity thresholds; undefined leaves them as they are
+function severityThresholdsData(
+  thresholds: SeverityThresholdsDto | null | undefined,
+): Prisma.InputJsonObject | typeof Prisma.DbNull | undefined {
+  if (thresholds === undefined) {
+    return undefined;
+  }
+  return thresholds === null
+    ? Prisma.DbNull
+    : (JSON.parse(JSON.stringify(thresholds)) as Prisma.InputJsonObject);
+}
+
 @Injectable()
 export class OrganizationsService {
   private readonly logger = new Logger(OrganizationsService.name);
@@ -65,11 +89,16 @@ export class OrganizationsService {
     const organization = await this.prisma.organization.create({
       data: {
         cuit: dto.cuit,
+        cuitNumber: normalizeCuit(dto.cuit),
+        taxpayerKind: getTaxpayerKind(dto.cuit),
         name: dto.name,
         jurisdictionId,
         plan: dto.plan,
         thresholdYellowDays: dto.thresholdYellowDays ?? 15,
         thresholdRedDays: dto.thresholdRedDays ?? 7,
+        countBusinessDays: dto.countBusinessDays ?? false,
+        severityThresholds: severityThresholdsData(dto.severityThresholds),
+        auditRetentionMonths: dto.auditRetentionMonths,
         userOrgs: {
           create: {
             userId,
@@ -97,6 +126,7 @@ export class OrganizationsService {
         cuit: organization.cuit,
         name: organization.name,
         plan: organization.plan,
+        changes: diffEntity("Organization", null, organization),
       },
     );
 
@@ -140,6 +170,23 @@ export class OrganizationsService {
     );
   }
 
+  // All of the user's active organizations with their role, unpaginated: a
+  // firm's portfolio summarizes and sorts them together.
+  async findAllMembershipsForUser(
+    userId: string,
+  ): Promise<{ organization: Organization; role: Role }[]> {
+    const memberships = await this.prisma.userOrg.findMany({
+      where: { userId, organization: { active: true } },
+      include: { organization: true },
+      orderBy: { organization: { name: "asc" } },
+    });
+
+    return memberships.map(({ organization, role }) => ({
+      organization,
+      role,
+    }));
+  }
+
   async findOne(organizationId: string): Promise<OrganizationResponseDto> {
     const organization = await this.prisma.organization.findUnique({
       where: { id: organizationId },
@@ -179,9 +226,20 @@ export class OrganizationsService {
       }
     }
 
+    const before = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+    });
+    const { severityThresholds, ...changes } = dto;
     const organization = await this.prisma.organization.update({
       where: { id: organizationId },
-      data: dto,
+      data: {
+        ...changes,
+        severityThresholds: severityThresholdsData(severityThresholds),
+        ...(dto.cuit && {
+          cuitNumber: normalizeCuit(dto.cuit),
+          taxpayerKind: getTaxpayerKind(dto.cuit),
+        }),
+      },
       include: {
         jurisdiction: {
           select: { id: true, code: true, name: true, province: true },
@@ -198,14 +256,17 @@ export class OrganizationsService {
       "Organization",
       organizationId,
       userId,
-      { changes: dto },
+      { changes: diffEntity("Organization", before, organization) },
     );
 
     return organization;
   }
 
   async deactivate(organizationId: string, userId?: string): Promise<void> {
-    await this.prisma.organization.update({
+    const before = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+    });
+    const organization = await this.prisma.organization.update({
       where: { id: organizationId },
       data: { active: false },
     });
@@ -216,6 +277,7 @@ export class OrganizationsService {
       "Organization",
       organizationId,
       userId,
+      { changes: diffEntity("Organization", before, organization) },
     );
   }
 
@@ -438,7 +500,7 @@ export class OrganizationsService {
       }
     }
 
-    await this.prisma.userOrg.update({
+    const updated = await this.prisma.userOrg.update({
       where: { id: memberId },
       data: { role: dto.role },
     });
@@ -449,7 +511,7 @@ export class OrganizationsService {
       "UserOrg",
       memberId,
       currentUserId,
-      { role: dto.role },
+      { role: dto.role, changes: diffEntity("UserOrg", userOrg, updated) },
     );
   }
 
@@ -499,7 +561,11 @@ export class OrganizationsService {
       "UserOrg",
       memberId,
       currentUserId,
-      { removedUserId: userOrg.userId, role: userOrg.role },
+      {
+        removedUserId: userOrg.userId,
+        role: userOrg.role,
+        changes: diffEntity("UserOrg", userOrg, null),
+      },
     );
   }
 
@@ -544,4 +610,56 @@ export class OrganizationsService {
       orderBy: { createdAt: "desc" },
     });
   }
+
+  // Job: fill the normalized CUIT and taxpayer kind of organizations created
+  // before they were stored. CUITs that don't normalize to 11 digits, or whose
+  // digits another organization already has, are left for a person to fix.
+  async backfillCuitFields(): Promise<number> {
+    let updated = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const organizations = await this.prisma.organization.findMany({
+        where: { OR: [{ cuitNumber: null }, { taxpayerKind: null }] },
+        select: { id: true, cuit: true, cuitNumber: true, taxpayerKind: true },
+        orderBy: { id: "asc" },
+        take: CUIT_BACKFILL_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      for (const organization of organizations) {
+        const digits = normalizeCuit(organization.cuit);
+        const cuitNumber =
+          organization.cuitNumber ?? (/^\d{11}$/.test(digits) ? digits : null);
+        const taxpayerKind =
+          organization.taxpayerKind ?? getTaxpayerKind(organization.cuit);
+        if (
+          cuitNumber === organization.cuitNumber &&
+          taxpayerKind === organization.taxpayerKind
+        ) {
+          continue;
+        }
+
+        try {
+          await this.prisma.organization.update({
+            where: { id: organization.id },
+            data: { cuitNumber, taxpayerKind },
+          });
+          updated++;
+        } catch (error) {
+          if (!isUniqueConstraintError(error)) {
+            throw error;
+          }
+          this.logger.warn(
+            `Organization ${organization.id} has the same CUIT as another one: ${organization.cuit}`,
+          );
+        }
+      }
+
+      if (organizations.length < CUIT_BACKFILL_BATCH_SIZE) {
+        return updated;
+      }
+      cursor = organizations[organizations.length - 1].id;
+    }
+  }
 }
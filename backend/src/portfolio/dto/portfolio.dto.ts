@@ -0,0 +1,90 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from "class-validator";
+import { Transform } from "class-transformer";
+import { Plan, Role } from "@prisma/client";
+import {
+  ObligationSummaryDto,
+  TrafficLight,
+} from "../../obligations/dto/obligation.dto";
+
+// Pagination `sortBy` values; by default, the most troubled first
+export const PORTFOLIO_SORT_FIELDS = [
+  "overdue",
+  "red",
+  "yellow",
+  "upcoming7Days",
+  "pendingReviews",
+  "name",
+] as const;
+
+export type PortfolioSortField = (typeof PORTFOLIO_SORT_FIELDS)[number];
+
+export class PortfolioFilterDto {
+  @ApiPropertyOptional({ description: "Nombre o CUIT" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+
+  @ApiPropertyOptional({ enum: Plan })
+  @IsOptional()
+  @IsEnum(Plan)
+  plan?: Plan;
+
+  @ApiPropertyOptional({ enum: Role, description: "Rol del usuario" })
+  @IsOptional()
+  @IsEnum(Role)
+  role?: Role;
+
+  @ApiPropertyOptional({
+    enum: TrafficLight,
+    description: "Con al menos una obligacion en ese color",
+  })
+  @IsOptional()
+  @IsEnum(TrafficLight)
+  trafficLight?: TrafficLight;
+
+  @ApiPropertyOptional({
+    default: false,
+    description:
+      "Solo organizaciones con vencidas, en rojo o revisiones pendientes",
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === "true")
+  @IsBoolean()
+  needsAttention?: boolean;
+}
+
+export class PortfolioOrganizationDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  cuit: string;
+
+  @ApiProperty({ enum: Plan })
+  plan: Plan;
+
+  @ApiProperty({
+    enum: Role,
+    description: "Rol del usuario en la organizacion",
+  })
+  role: Role;
+
+  @ApiProperty({ type: ObligationSummaryDto })
+  summary: ObligationSummaryDto;
+}
+
+export class PortfolioTotalsDto extends ObligationSummaryDto {
+  @ApiProperty()
+  organizations: number;
+}
@@ -0,0 +1,39 @@
+import { Controller, Get, Query, UseGuards } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from "@nestjs/swagger";
+import { PortfolioResponse, PortfolioService } from "./portfolio.service";
+import { PortfolioFilterDto } from "./dto/portfolio.dto";
+import { PaginationDto } from "../common/dto/pagination.dto";
+import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
+import { CurrentUser } from "../common/decorators/current-user.decorator";
+import { AuthenticatedUser } from "../common/interfaces/request.interface";
+
+@ApiTags("portfolio")
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller("portfolio")
+export class PortfolioController {
+  constructor(private readonly portfolioService: PortfolioService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: "Cartera de organizaciones del usuario con su estado",
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      "Organizaciones con semaforo, vencidas, revisiones pendientes y vencimientos de 7 dias",
+  })
+  @ApiResponse({ status: 403, description: "Requiere el plan Estudio" })
+  async getPortfolio(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query() pagination: PaginationDto,
+    @Query() filters: PortfolioFilterDto,
+  ): Promise<PortfolioResponse> {
+    return this.portfolioService.getPortfolio(user.id, pagination, filters);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { PortfolioController } from "./portfolio.controller";
+import { PortfolioService } from "./portfolio.service";
+import { OrganizationsModule } from "../organizations/organizations.module";
+import { ObligationsModule } from "../obligations/obligations.module";
+
+@Module({
+  imports: [OrganizationsModule, ObligationsModule],
+  controllers: [PortfolioController],
+  providers: [PortfolioService],
+})
+export class PortfolioModule {}
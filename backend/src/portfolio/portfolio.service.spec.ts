@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ForbiddenException } from "@nestjs/common";
+import { PortfolioService } from "./portfolio.service";
+import { PaginationDto } from "../common/dto/pagination.dto";
+import { TrafficLight } from "../obligations/dto/obligation.dto";
+
+const mockOrganizationsService = {
+  findAllMembershipsForUser: vi.fn(),
+};
+
+const mockObligationsService = {
+  getSummary: vi.fn(),
+};
+
+function membership(
+  id: string,
+  name: string,
+  plan = "BASIC",
+  role = "ACCOUNTANT",
+) {
+  return {
+    organization: { id, name, cuit: `30-0000000${id.length}-1`, plan },
+    role,
+  };
+}
+
+function summary(counts: Record<string, number>) {
+  return {
+    total: 10,
+    completed: 0,
+    overdue: 0,
+    red: 0,
+    yellow: 0,
+    green: 0,
+    critical: 0,
+    upcoming7Days: 0,
+    pendingReviews: 0,
+    ...counts,
+  };
+}
+
+function pagination(values: Partial<PaginationDto> = {}) {
+  return Object.assign(new PaginationDto(), values);
+}
+
+describe("PortfolioService", () => {
+  let service: PortfolioService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOrganizationsService.findAllMembershipsForUser.mockResolvedValue([
+      membership("studio", "Estudio Contable", "STUDIO", "OWNER"),
+      membership("bar", "Bar Centro"),
+      membership("cafe", "Cafe del Rio"),
+    ]);
+    mockObligationsService.getSummary.mockImplementation(({ id }) =>
+      Promise.resolve(
+        {
+          studio: summary({}),
+          bar: summary({ overdue: 1, red: 2, upcoming7Days: 1 }),
+          cafe: summary({ overdue: 3, yellow: 1, pendingReviews: 2 }),
+        }[id as string],
+      ),
+    );
+    service = new PortfolioService(
+      mockOrganizationsService as any,
+      mockObligationsService as any,
+    );
+  });
+
+  it("should list organizations with the most overdue first", async () => {
+    const result = await service.getPortfolio("user-1", pagination(), {});
+
+    expect(result.data.map((o) => o.id)).toEqual(["cafe", "bar", "studio"]);
+    expect(result.data[0]).toMatchObject({
+      name: "Cafe del Rio",
+      role: "ACCOUNTANT",
+      summary: { overdue: 3, pendingReviews: 2 },
+    });
+    expect(result.totals).toMatchObject({
+      organizations: 3,
+      overdue: 4,
+      red: 2,
+      upcoming7Days: 1,
+      pendingReviews: 2,
+    });
+    expect(result.meta.total).toBe(3);
+  });
+
+  it("should filter and sort by the summary counts", async () => {
+    const result = await service.getPortfolio(
+      "user-1",
+      pagination({ sortBy: "red" }),
+      { needsAttention: true },
+    );
+    expect(result.data.map((o) => o.id)).toEqual(["bar", "cafe"]);
+
+    const yellow = await service.getPortfolio("user-1", pagination(), {
+      trafficLight: TrafficLight.YELLOW,
+    });
+    expect(yellow.data.map((o) => o.id)).toEqual(["cafe"]);
+  });
+
+  it("should only summarize the organizations that match the search", async () => {
+    const result = await service.getPortfolio(
+      "user-1",
+      pagination({ sortBy: "name", sortOrder: "asc", limit: 1 }),
+      { search: "bar", role: "ACCOUNTANT" as any },
+    );
+
+    expect(mockObligationsService.getSummary).toHaveBeenCalledTimes(1);
+    expect(result.data.map((o) => o.id)).toEqual(["bar"]);
+  });
+
+  it("should match the CUIT whatever separators the search uses", async () => {
+    mockOrganizationsService.findAllMembershipsForUser.mockResolvedValue(
+      ["studio", "bar", "cafe"].map((id) => {
+        const m = membership(id, id, id === "studio" ? "STUDIO" : "BASIC");
+        return {
+          ...m,
+          organization: {
+            ...m.organization,
+            cuitNumber: m.organization.cuit.replace(/-/g, ""),
+          },
+        };
+      }),
+    );
+
+    const result = await service.getPortfolio("user-1", pagination(), {
+      search: "30.00000003 1",
+    });
+
+    expect(result.data.map((o) => o.id)).toEqual(["bar"]);
+  });
+
+  it("should require a studio plan organization", async () => {
+    mockOrganizationsService.findAllMembershipsForUser.mockResolvedValue([
+      membership("bar", "Bar Centro"),
+    ]);
+
+    await expect(
+      service.getPortfolio("user-1", pagination(), {}),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,157 @@
+import { ForbiddenException, Injectable } from "@nestjs/common";
+import { Plan } from "@prisma/client";
+import { OrganizationsService } from "../organizations/organizations.service";
+import { ObligationsService } from "../obligations/obligations.service";
+import { normalizeCuit } from "../common/validators/cuit.validator";
+import {
+  ObligationSummaryDto,
+  TrafficLight,
+} from "../obligations/dto/obligation.dto";
+import {
+  PaginationDto,
+  PaginatedResponse,
+  createPaginatedResponse,
+} from "../common/dto/pagination.dto";
+import {
+  PORTFOLIO_SORT_FIELDS,
+  PortfolioFilterDto,
+  PortfolioOrganizationDto,
+  PortfolioSortField,
+  PortfolioTotalsDto,
+} from "./dto/portfolio.dto";
+
+// Organizations summarized in parallel (each one is several counts)
+const SUMMARY_CONCURRENCY = 5;
+
+const TRAFFIC_LIGHT_COUNT = {
+  [TrafficLight.GREEN]: "green",
+  [TrafficLight.YELLOW]: "yellow",
+  [TrafficLight.RED]: "red",
+} as const;
+
+export type PortfolioResponse = PaginatedResponse<PortfolioOrganizationDto> & {
+  totals: PortfolioTotalsDto;
+};
+
+@Injectable()
+export class PortfolioService {
+  constructor(
+    private organizationsService: OrganizationsService,
+    private obligationsService: ObligationsService,
+  ) {}
+
+  /**
+   * An accounting firm's portfolio: each of the user's organizations with its
+   * dashboard counts. Filtering and sorting by those counts needs every
+   * organization summarized, so pagination happens last.
+   */
+  async getPortfolio(
+    userId: string,
+    pagination: PaginationDto,
+    filters: PortfolioFilterDto,
+  ): Promise<PortfolioResponse> {
+    const memberships =
+      await this.organizationsService.findAllMembershipsForUser(userId);
+
+    if (!memberships.some((m) => m.organization.plan === Plan.STUDIO)) {
+      throw new ForbiddenException(
+        "La cartera de organizaciones requiere el plan Estudio",
+      );
+    }
+
+    const search = filters.search?.trim().toLowerCase();
+    // "20-12345678" finds the CUIT whatever separators each side uses
+    const cuitSearch = search ? normalizeCuit(search) : "";
+    const candidates = memberships.filter(
+      ({ organization, role }) =>
+        (!search ||
+          organization.name.toLowerCase().includes(search) ||
+          organization.cuit.includes(search) ||
+          (!!cuitSearch && !!organization.cuitNumber?.includes(cuitSearch))) &&
+        (!filters.plan || organization.plan === filters.plan) &&
+        (!filters.role || role === filters.role),
+    );
+
+    const rows: PortfolioOrganizationDto[] = [];
+    for (let i = 0; i < candidates.length; i += SUMMARY_CONCURRENCY) {
+      const batch = candidates.slice(i, i + SUMMARY_CONCURRENCY);
+      const summaries = await Promise.all(
+        batch.map(({ organization }) =>
+          this.obligationsService.getSummary(organization),
+        ),
+      );
+      batch.forEach(({ organization, role }, index) =>
+        rows.push({
+          id: organization.id,
+          name: organization.name,
+          cuit: organization.cuit,
+          plan: organization.plan,
+          role,
+          summary: summaries[index],
+        }),
+      );
+    }
+
+    const filtered = rows.filter(
+      ({ summary }) =>
+        (!filters.trafficLight ||
+          summary[TRAFFIC_LIGHT_COUNT[filters.trafficLight]] > 0) &&
+        (!filters.needsAttention || this.needsAttention(summary)),
+    );
+    this.sort(filtered, pagination);
+
+    return {
+      ...createPaginatedResponse(
+        filtered.slice(pagination.skip, pagination.skip + pagination.take),
+        filtered.length,
+        pagination.page!,
+        pagination.limit!,
+      ),
+      totals: this.totals(filtered),
+    };
+  }
+
+  private needsAttention(summary: ObligationSummaryDto): boolean {
+    return summary.overdue > 0 || summary.red > 0 || summary.pendingReviews > 0;
+  }
+
+  private sort(rows: PortfolioOrganizationDto[], pagination: PaginationDto) {
+    const field = PORTFOLIO_SORT_FIELDS.includes(
+      pagination.sortBy as PortfolioSortField,
+    )
+      ? (pagination.sortBy as PortfolioSortField)
+      : "overdue";
+    const direction = pagination.sortOrder === "asc" ? 1 : -1;
+    const byName = (a: PortfolioOrganizationDto, b: PortfolioOrganizationDto) =>
+      a.name.localeCompare(b.name, "es");
+
+    rows.sort((a, b) =>
+      field === "name"
+        ? direction * byName(a, b)
+        : direction * (a.summary[field] - b.summary[field]) || byName(a, b),
+    );
+  }
+
+  private totals(rows: PortfolioOrganizationDto[]): PortfolioTotalsDto {
+    const totals: PortfolioTotalsDto = {
+      organizations: rows.length,
+      total: 0,
+      completed: 0,
+      overdue: 0,
+      red: 0,
+      yellow: 0,
+      green: 0,
+      critical: 0,
+      upcoming7Days: 0,
+      pendingReviews: 0,
+    };
+    for (const { summary } of rows) {
+      for (const key of Object.keys(
+        summary,
+      ) as (keyof ObligationSummaryDto)[]) {
+        totals[key] += summary[key];
+      }
+    }
+    return totals;
+  }
+}
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  ComplianceSnapshotsService,
+  daysLate,
+  snapshotDate,
+} from "./compliance-snapshots.service";
+import { TrafficLight } from "../obligations/dto/obligation.dto";
+
+const mockPrismaService = {
+  organization: {
+    findMany: vi.fn(),
+  },
+  obligation: {
+    findMany: vi.fn(),
+  },
+  complianceSnapshot: {
+    findMany: vi.fn(),
+    deleteMany: vi.fn(),
+    createMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
+};
+
+const mockObligationsService = {
+  calculateTrafficLight: vi.fn(),
+};
+
+const mockBusinessCalendarService = {
+  getCalendarForOrganization: vi.fn(),
+};
+
+const organization = {
+  id: "org-1",
+  active: true,
+  thresholdYellowDays: 15,
+  thresholdRedDays: 7,
+};
+
+const obligation = (overrides: Record<string, unknown>) => ({
+  locationId: null,
+  status: "PENDING",
+  dueDate: new Date("2025-09-30"),
+  completedAt: null,
+  updatedAt: new Date("2025-07-01T00:00:00Z"),
+  severity: "MEDIUM",
+  critical: false,
+  ...overrides,
+});
+
+describe("snapshot helpers", () => {
+  it("should use the Argentine calendar day", () => {
+    expect(snapshotDate(new Date("2025-08-01T02:00:00Z"))).toEqual(
+      new Date("2025-07-31"),
+    );
+  });
+
+  it("should count late days from the due date", () => {
+    const dueDate = new Date("2025-07-10");
+
+    // 23:00 on the due date in Buenos Aires
+    expect(daysLate(dueDate, new Date("2025-07-11T02:00:00Z"))).toBe(0);
+    expect(daysLate(dueDate, new Date("2025-07-05T12:00:00Z"))).toBe(0);
+    expect(daysLate(dueDate, new Date("2025-07-13T15:00:00Z"))).toBe(3);
+  });
+});
+
+describe("ComplianceSnapshotsService", () => {
+  let service: ComplianceSnapshotsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ComplianceSnapshotsService(
+      mockPrismaService as any,
+      mockObligationsService as any,
+      mockBusinessCalendarService as any,
+    );
+  });
+
+  describe("captureDailySnapshots", () => {
+    const now = new Date("2025-08-01T13:00:00Z");
+
+    beforeEach(() => {
+      mockPrismaService.organization.findMany.mockResolvedValue([organization]);
+      mockBusinessCalendarService.getCalendarForOrganization.mockResolvedValue(
+        null,
+      );
+      mockObligationsService.calculateTrafficLight.mockImplementation(
+        (_dueDate: Date, status: string) => ({
+          trafficLight:
+            status === "OVERDUE"
+              ? TrafficLight.RED
+              : status === "IN_PROGRESS"
+                ? TrafficLight.YELLOW
+                : TrafficLight.GREEN,
+          daysUntilDue: 0,
+        }),
+      );
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        obligation({ locationId: "loc-1", severity: "HIGH" }),
+        obligation({
+          locationId: "loc-1",
+          status: "OVERDUE",
+          dueDate: new Date("2025-07-20"),
+          critical: true,
+          severity: "CRITICAL",
+        }),
+        obligation({
+          status: "COMPLETED",
+          dueDate: new Date("2025-07-15"),
+          completedAt: new Date("2025-07-14T15:00:00Z"),
+        }),
+        obligation({
+          locationId: "loc-2",
+          status: "COMPLETED",
+          dueDate: new Date("2025-07-10"),
+          updatedAt: new Date("2025-07-14T15:00:00Z"),
+          severity: "LOW",
+        }),
+        obligation({
+          locationId: "loc-2",
+          status: "IN_PROGRESS",
+          dueDate: new Date("2025-08-10"),
+        }),
+      ]);
+    });
+
+    it("should store organization and location metrics for the day", async () => {
+      const captured = await service.captureDailySnapshots(now);
+
+      expect(captured).toBe(3);
+      expect(
+        mockPrismaService.complianceSnapshot.deleteMany,
+      ).toHaveBeenCalledWith({
+        where: { organizationId: "org-1", date: new Date("2025-08-01") },
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalled();
+
+      const { data } =
+        mockPrismaService.complianceSnapshot.createMany.mock.calls[0][0];
+      expect(data).toEqual([
+        {
+          organizationId: "org-1",
+          locationId: null,
+          date: new Date("2025-08-01"),
+          total: 5,
+          green: 1,
+          yellow: 1,
+          red: 1,
+          overdue: 1,
+          critical: 1,
+          completed: 2,
+          completedOnTime: 1,
+          onTimeRate: 50,
+          avgDaysLate: 4,
+          severityScore: 50,
+        },
+        expect.objectContaining({
+          locationId: "loc-1",
+          total: 2,
+          onTimeRate: null,
+          severityScore: 37.5,
+        }),
+        expect.objectContaining({
+          locationId: "loc-2",
+          completed: 1,
+          completedOnTime: 0,
+          onTimeRate: 0,
+          avgDaysLate: 4,
+          severityScore: 50,
+        }),
+      ]);
+    });
+
+    it("should only load open obligations and recent closures", async () => {
+      await service.captureDailySnapshots(now);
+
+      const { where } = mockPrismaService.obligation.findMany.mock.calls[0][0];
+      expect(where.OR).toContainEqual({
+        status: "COMPLETED",
+        completedAt: { gte: new Date("2025-07-02T13:00:00Z") },
+      });
+    });
+
+    it("should keep going when an organization fails", async () => {
+      mockPrismaService.organization.findMany.mockResolvedValue([
+        { ...organization, id: "org-broken" },
+        organization,
+      ]);
+      mockPrismaService.obligation.findMany.mockRejectedValueOnce(
+        new Error("timeout"),
+      );
+
+      const captured = await service.captureDailySnapshots(now);
+
+      expect(captured).toBe(3);
+      expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("getTrends", () => {
+    const snapshot = (date: string, overrides: Record<string, unknown>) => ({
+      id: date,
+      organizationId: "org-1",
+      locationId: null,
+      date: new Date(date),
+      total: 10,
+      green: 6,
+      yellow: 2,
+      red: 2,
+      overdue: 1,
+      critical: 0,
+      completed: 4,
+      completedOnTime: 3,
+      onTimeRate: 75,
+      avgDaysLate: 2,
+      severityScore: 70,
+      createdAt: new Date(date),
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-08-03T15:00:00Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should return the daily points and compare with last month", async () => {
+      mockPrismaService.complianceSnapshot.findMany.mockResolvedValue([
+        snapshot("2025-07-01", { severityScore: 60, red: 4 }),
+        snapshot("2025-07-31", { severityScore: 80, onTimeRate: null }),
+        snapshot("2025-08-02", { severityScore: 90 }),
+      ]);
+
+      const trends = await service.getTrends("org-1", { days: 30 });
+
+      expect(
+        mockPrismaService.complianceSnapshot.findMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          organizationId: "org-1",
+          locationId: null,
+          date: { gte: new Date("2025-07-01") },
+        },
+        orderBy: { date: "asc" },
+      });
+      expect(trends.points.map((p) => p.date)).toEqual([
+        "2025-07-31",
+        "2025-08-02",
+      ]);
+      expect(trends.currentMonth).toEqual({
+        month: "2025-08",
+        snapshots: 1,
+        severityScore: 90,
+        onTimeRate: 75,
+        avgDaysLate: 2,
+        red: 2,
+        overdue: 1,
+      });
+      expect(trends.previousMonth).toMatchObject({
+        month: "2025-07",
+        snapshots: 2,
+        severityScore: 70,
+        onTimeRate: 75,
+        red: 3,
+      });
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  ComplianceSnapshot,
+  Obligation,
+  ObligationStatus,
+  Organization,
+  Prisma,
+} from "@prisma/client";
+import { PrismaService } from "../common/prisma/prisma.service";
+import { ObligationsService } from "../obligations/obligations.service";
+import { TrafficLight } from "../obligations/dto/obligation.dto";
+import {
+  BusinessCalendarService,
+  localCalendarDay,
+} from "../jurisdictions/business-calendar.service";
+import {
+  SEVERITY_WEIGHTS,
+  thresholdsFor,
+} from "../obligations/obligation-risk";
+import {
+  ComplianceMonthSummaryDto,
+  ComplianceSnapshotPointDto,
+  ComplianceTrendDto,
+  ComplianceTrendQueryDto,
+} from "./dto/compliance-trend.dto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Window of closures feeding the on-time rate and the average delay
+const SNAPSHOT_WINDOW_DAYS = 30;
+
+const OPEN_STATUSES = [
+  ObligationStatus.PENDING,
+  ObligationStatus.IN_PROGRESS,
+  ObligationStatus.OVERDUE,
+];
+
+type SnapshotObligation = Pick<
+  Obligation,
+  | "locationId"
+  | "status"
+  | "severity"
+  | "dueDate"
+  | "completedAt"
+  | "updatedAt"
+  | "critical"
+>;
+
+type SnapshotMetrics = Pick<
+  ComplianceSnapshot,
+  | "total"
+  | "green"
+  | "yellow"
+  | "red"
+  | "overdue"
+  | "critical"
+  | "completed"
+  | "completedOnTime"
+  | "onTimeRate"
+  | "avgDaysLate"
+  | "severityScore"
+>;
+
+// Calendar day in Argentina, as the UTC midnight Prisma uses for @db.Date.
+export function snapshotDate(date: Date): Date {
+  return localCalendarDay(date);
+}
+
+// Days between the due date and the local day the obligation was closed.
+export function daysLate(dueDate: Date, completedAt: Date): number {
+  const late = Math.round(
+    (snapshotDate(completedAt).getTime() - dueDate.getTime()) / DAY_MS,
+  );
+  return Math.max(late, 0);
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const average = (values: number[]): number | null =>
+  values.length > 0
+    ? round1(values.reduce((sum, v) => sum + v, 0) / values.length)
+    : null;
+
+const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+@Injectable()
+export class ComplianceSnapshotsService {
+  private readonly logger = new Logger(ComplianceSnapshotsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private obligationsService: ObligationsService,
+    private businessCalendarService: BusinessCalendarService,
+  ) {}
+
+  // Job: store today's metrics for every active organization and location.
+  async captureDailySnapshots(now = new Date()): Promise<number> {
+    const organizations = await this.prisma.organization.findMany({
+      where: { active: true },
+    });
+
+    let captured = 0;
+    for (const organization of organizations) {
+      try {
+        captured += await this.captureOrganization(organization, now);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(
+          `Skipping compliance snapshot of organization ${organization.id}: ${message}`,
+        );
+      }
+    }
+
+    return captured;
+  }
+
+  async getTrends(
+    organizationId: string,
+    query: ComplianceTrendQueryDto,
+  ): Promise<ComplianceTrendDto> {
+    const days = query.days ?? 30;
+    const today = snapshotDate(new Date());
+    const from = new Date(today.getTime() - (days - 1) * DAY_MS);
+    const previousMonth = new Date(
+      Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1),
+    );
+
+    const snapshots = await this.prisma.complianceSnapshot.findMany({
+      where: {
+        organizationId,
+        locationId: query.locationId ?? null,
+        date: { gte: from < previousMonth ? from : previousMonth },
+      },
+      orderBy: { date: "asc" },
+    });
+
+    return {
+      days,
+      locationId: query.locationId,
+      points: snapshots
+        .filter((s) => s.date >= from)
+        .map((s) => this.toPoint(s)),
+      currentMonth: this.summarizeMonth(monthKey(today), snapshots),
+      previousMonth: this.summarizeMonth(monthKey(previousMonth), snapshots),
+    };
+  }
+
+  private async captureOrganization(
+    organization: Organization,
+    now: Date,
+  ): Promise<number> {
+    const date = snapshotDate(now);
+    const windowStart = new Date(now.getTime() - SNAPSHOT_WINDOW_DAYS * DAY_MS);
+
+    const obligations: SnapshotObligation[] =
+      await this.prisma.obligation.findMany({
+        where: {
+          organizationId: organization.id,
+          OR: [
+            { status: { in: OPEN_STATUSES } },
+            {
+              status: ObligationStatus.COMPLETED,
+              completedAt: { gte: windowStart },
+            },
+            // Closed before completedAt was recorded.
+            {
+              status: ObligationStatus.COMPLETED,
+              completedAt: null,
+              updatedAt: { gte: windowStart },
+            },
+          ],
+        },
+        select: {
+          locationId: true,
+          status: true,
+          severity: true,
+          dueDate: true,
+          completedAt: true,
+          updatedAt: true,
+          critical: true,
+        },
+      });
+
+    const businessCalendar =
+      await this.businessCalendarService.getCalendarForOrganization(
+        organization,
+      );
+    const lightOf = (o: SnapshotObligation) => {
+      const thresholds = thresholdsFor(organization, o.severity);
+      return this.obligationsService.calculateTrafficLight(
+        o.dueDate,
+        o.status,
+        thresholds.yellowDays,
+        thresholds.redDays,
+        businessCalendar,
+      ).trafficLight;
+    };
+
+    // One row for the whole organization plus one per location in use.
+    const scopes = new Map<string | null, SnapshotObligation[]>([
+      [null, obligations],
+    ]);
+    for (const obligation of obligations) {
+      if (obligation.locationId) {
+        const items = scopes.get(obligation.locationId) ?? [];
+        items.push(obligation);
+        scopes.set(obligation.locationId, items);
+      }
+    }
+
+    const rows: Prisma.ComplianceSnapshotCreateManyInput[] = [...scopes].map(
+      ([locationId, items]) => ({
+        organizationId: organization.id,
+        locationId,
+        date,
+        ...this.computeMetrics(items, lightOf),
+      }),
+    );
+
+    // Running the job twice on the same day replaces that day's snapshots.
+    await this.prisma.$transaction([
+      this.prisma.complianceSnapshot.deleteMany({
+        where: { organizationId: organization.id, date },
+      }),
+      this.prisma.complianceSnapshot.createMany({ data: rows }),
+    ]);
+
+    return rows.length;
+  }
+
+  // Severity score: each obligation weighs by its severity and earns
+  // full credit when green or closed on time, half when yellow or closed late.
+  private computeMetrics(
+    obligations: SnapshotObligation[],
+    lightOf: (o: SnapshotObligation) => TrafficLight,
+  ): SnapshotMetrics {
+    const metrics = {
+      green: 0,
+      yellow: 0,
+      red: 0,
+      overdue: 0,
+      critical: 0,
+      completed: 0,
+      completedOnTime: 0,
+    };
+    let totalDaysLate = 0;
+    let earned = 0;
+    let possible = 0;
+
+    for (const obligation of obligations) {
+      const weight = SEVERITY_WEIGHTS[obligation.severity];
+      possible += weight;
+
+      if (obligation.status === ObligationStatus.COMPLETED) {
+        metrics.completed++;
+        const late = daysLate(
+          obligation.dueDate,
+          obligation.completedAt ?? obligation.updatedAt,
+        );
+        if (late === 0) {
+          metrics.completedOnTime++;
+          earned += weight;
+        } else {
+          totalDaysLate += late;
+          earned += weight / 2;
+        }
+        continue;
+      }
+
+      if (obligation.status === ObligationStatus.OVERDUE) {
+        metrics.overdue++;
+      }
+      if (obligation.critical) {
+        metrics.critical++;
+      }
+
+      const trafficLight = lightOf(obligation);
+      if (trafficLight === TrafficLight.GREEN) {
+        metrics.green++;
+        earned += weight;
+      } else if (trafficLight === TrafficLight.YELLOW) {
+        metrics.yellow++;
+        earned += weight / 2;
+      } else {
+        metrics.red++;
+      }
+    }
+
+    const completedLate = metrics.completed - metrics.completedOnTime;
+    return {
+      total: obligations.length,
+      ...metrics,
+      onTimeRate:
+        metrics.completed > 0
+          ? round1((metrics.completedOnTime / metrics.completed) * 100)
+          : null,
+      avgDaysLate:
+        completedLate > 0 ? round1(totalDaysLate / completedLate) : 0,
+      severityScore: possible > 0 ? round1((earned / possible) * 100) : null,
+    };
+  }
+
+  private toPoint(snapshot: ComplianceSnapshot): ComplianceSnapshotPointDto {
+    return {
+      date: snapshot.date.toISOString().slice(0, 10),
+      total: snapshot.total,
+      green: snapshot.green,
+      yellow: snapshot.yellow,
+      red: snapshot.red,
+      overdue: snapshot.overdue,
+      critical: snapshot.critical,
+      completed: snapshot.completed,
+      completedOnTime: snapshot.completedOnTime,
+      onTimeRate: snapshot.onTimeRate ?? undefined,
+      avgDaysLate: snapshot.avgDaysLate,
+      severityScore: snapshot.severityScore ?? undefined,
+    };
+  }
+
+  // Daily averages of the month, so months with gaps stay comparable.
+  private summarizeMonth(
+    month: string,
+    snapshots: ComplianceSnapshot[],
+  ): ComplianceMonthSummaryDto {
+    const inMonth = snapshots.filter((s) => monthKey(s.date) === month);
+    const present = (values: Array<number | null>) =>
+      values.filter((v): v is number => v !== null);
+
+    return {
+      month,
+      snapshots: inMonth.length,
+      severityScore:
+        average(present(inMonth.map((s) => s.severityScore))) ?? undefined,
+      onTimeRate:
+        average(present(inMonth.map((s) => s.onTimeRate))) ?? undefined,
+      avgDaysLate: average(inMonth.map((s) => s.avgDaysLate)) ?? 0,
+      red: average(inMonth.map((s) => s.red)) ?? 0,
+      overdue: average(inMonth.map((s) => s.overdue)) ?? 0,
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsIn, IsOptional, IsUUID } from "class-validator";
+import { Type } from "class-transformer";
+
+export const TREND_RANGES = [30, 90, 365] as const;
+export type TrendRange = (typeof TREND_RANGES)[number];
+
+export class ComplianceTrendQueryDto {
+  @ApiPropertyOptional({ enum: TREND_RANGES, default: 30 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn(TREND_RANGES)
+  days?: TrendRange;
+
+  @ApiPropertyOptional({ description: "Tendencia de un local" })
+  @IsOptional()
+  @IsUUID()
+  locationId?: string;
+}
+
+export class ComplianceSnapshotPointDto {
+  @ApiProperty({ example: "2025-07-31" })
+  date: string;
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  green: number;
+
+  @ApiProperty()
+  yellow: number;
+
+  @ApiProperty()
+  red: number;
+
+  @ApiProperty()
+  overdue: number;
+
+  @ApiProperty()
+  critical: number;
+
+  @ApiProperty({ description: "Cerradas en los 30 dias previos" })
+  completed: number;
+
+  @ApiProperty()
+  completedOnTime: number;
+
+  @ApiPropertyOptional({ description: "% de cierres a tiempo" })
+  onTimeRate?: number;
+
+  @ApiProperty({
+    description: "Promedio de dias de atraso de los cierres tardios",
+  })
+  avgDaysLate: number;
+
+  @ApiPropertyOptional({ description: "Puntaje 0-100 ponderado por severidad" })
+  severityScore?: number;
+}
+
+export class ComplianceMonthSummaryDto {
+  @ApiProperty({ example: "2025-07" })
+  month: string;
+
+  @ApiProperty({ description: "Cantidad de fotos diarias del mes" })
+  snapshots: number;
+
+  @ApiPropertyOptional()
+  severityScore?: number;
+
+  @ApiPropertyOptional()
+  onTimeRate?: number;
+
+  @ApiProperty()
+  avgDaysLate: number;
+
+  @ApiProperty({ description: "Promedio diario de obligaciones en rojo" })
+  red: number;
+
+  @ApiProperty({ description: "Promedio diario de obligaciones vencidas" })
+  overdue: number;
+}
+
+export class ComplianceTrendDto {
+  @ApiProperty({ enum: TREND_RANGES })
+  days: TrendRange;
+
+  @ApiPropertyOptional()
+  locationId?: string;
+
+  @ApiProperty({ type: [ComplianceSnapshotPointDto] })
+  points: ComplianceSnapshotPointDto[];
+
+  @ApiProperty({ type: ComplianceMonthSummaryDto })
+  currentMonth: ComplianceMonthSummaryDto;
+
+  @ApiProperty({ type: ComplianceMonthSummaryDto })
+  previousMonth: ComplianceMonthSummaryDto;
+}
@@ -0,0 +1,238 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import {
+  GeneratedReportStatus,
+  ReportFormat,
+  ReportType,
+} from "@prisma/client";
+import { PaginationDto } from "../../common/dto/pagination.dto";
+
+export class CreateReportSubscriptionDto {
+  @ApiProperty({ example: "Resumen mensual para el contador" })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ enum: ReportType })
+  @IsEnum(ReportType)
+  reportType: ReportType;
+
+  @ApiProperty({
+    enum: ReportFormat,
+    description: "COMPLIANCE se genera en PDF o XLSX; OBLIGATIONS en CSV",
+  })
+  @IsEnum(ReportFormat)
+  format: ReportFormat;
+
+  @ApiPropertyOptional({ description: "Limitar el reporte a un local" })
+  @IsOptional()
+  @IsUUID()
+  locationId?: string;
+
+  @ApiPropertyOptional({
+    default: 30,
+    description: "Dias hacia atras que cubre cada envio",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(366)
+  periodDays?: number;
+
+  @ApiProperty({
+    example: "0 8 1 * *",
+    description: "Expresion cron (minuto hora dia mes dia-de-semana)",
+  })
+  @IsString()
+  @MaxLength(100)
+  cronExpression: string;
+
+  @ApiPropertyOptional({ example: "America/Argentina/Buenos_Aires" })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiProperty({ type: [String], example: ["contador@estudio.com"] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ArrayUnique()
+  @IsEmail({}, { each: true, message: "Email inválido" })
+  recipients: string[];
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class UpdateReportSubscriptionDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional({ enum: ReportType })
+  @IsOptional()
+  @IsEnum(ReportType)
+  reportType?: ReportType;
+
+  @ApiPropertyOptional({ enum: ReportFormat })
+  @IsOptional()
+  @IsEnum(ReportFormat)
+  format?: ReportFormat;
+
+  @ApiPropertyOptional({ nullable: true })
+  @IsOptional()
+  @IsUUID()
+  locationId?: string | null;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(366)
+  periodDays?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  cronExpression?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ArrayUnique()
+  @IsEmail({}, { each: true, message: "Email inválido" })
+  recipients?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+export class ReportSubscriptionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  organizationId: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ enum: ReportType })
+  reportType: ReportType;
+
+  @ApiProperty({ enum: ReportFormat })
+  format: ReportFormat;
+
+  @ApiPropertyOptional()
+  locationId?: string;
+
+  @ApiProperty()
+  periodDays: number;
+
+  @ApiProperty()
+  cronExpression: string;
+
+  @ApiProperty()
+  timezone: string;
+
+  @ApiProperty({ type: [String] })
+  recipients: string[];
+
+  @ApiProperty()
+  active: boolean;
+
+  @ApiPropertyOptional()
+  nextRunAt?: Date;
+
+  @ApiPropertyOptional()
+  lastRunAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class GeneratedReportFilterDto extends PaginationDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  subscriptionId?: string;
+}
+
+export class GeneratedReportResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiPropertyOptional()
+  subscriptionId?: string;
+
+  @ApiPropertyOptional()
+  subscriptionName?: string;
+
+  @ApiProperty({ enum: ReportType })
+  reportType: ReportType;
+
+  @ApiProperty({ enum: ReportFormat })
+  format: ReportFormat;
+
+  @ApiProperty({ enum: GeneratedReportStatus })
+  status: GeneratedReportStatus;
+
+  @ApiPropertyOptional()
+  fileName?: string;
+
+  @ApiPropertyOptional()
+  sizeBytes?: number;
+
+  @ApiProperty()
+  periodFrom: Date;
+
+  @ApiProperty()
+  periodTo: Date;
+
+  @ApiProperty({ type: [String] })
+  recipients: string[];
+
+  @ApiPropertyOptional()
+  error?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class GeneratedReportDownloadDto {
+  @ApiProperty()
+  url: string;
+
+  @ApiProperty()
+  expiresAt: Date;
+}
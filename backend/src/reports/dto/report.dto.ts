@@ -21,6 +21,16 @@ export class ReportFilterDto {
   locationId?: string;
 }
 
+export class ExportPdfQueryDto extends ReportFilterDto {
+  @ApiPropertyOptional({
+    description:
+      "Genera el legajo de esta obligacion en lugar del reporte de cumplimiento",
+  })
+  @IsOptional()
+  @IsUUID()
+  obligationId?: string;
+}
+
 export class ComplianceReportDto {
   @ApiProperty()
   period: {
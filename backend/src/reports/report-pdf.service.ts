@@ -0,0 +1,448 @@
+import { Injectable } from "@nestjs/common";
+import { ObligationStatus, ObligationType } from "@prisma/client";
+import PDFDocument = require("pdfkit");
+import {
+  OBLIGATION_STATUS_LABELS,
+  OBLIGATION_TYPE_LABELS,
+  REVIEW_STATUS_LABELS,
+  TASK_STATUS_LABELS,
+} from "../obligations/obligation-labels";
+import { ComplianceReportDto, ObligationReportItemDto } from "./dto/report.dto";
+import type { ObligationDossier } from "./reports.service";
+
+type Doc = PDFKit.PDFDocument;
+
+interface Column {
+  header: string;
+  width: number;
+  align?: "left" | "right" | "center";
+}
+
+const MARGIN = 50;
+const FONT = "Helvetica";
+const FONT_BOLD = "Helvetica-Bold";
+const MUTED = "#6b7280";
+const TIMEZONE = "America/Argentina/Buenos_Aires";
+
+// Columnas @db.Date: se guardan a medianoche UTC
+export function formatPdfDate(date: Date): string {
+  const [year, month, day] = date.toISOString().slice(0, 10).split("-");
+  return `${day}/${month}/${year}`;
+}
+
+export function formatPdfDateTime(date: Date): string {
+  return date.toLocaleString("es-AR", {
+    timeZone: TIMEZONE,
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+/**
+ * Builds the printable report PDFs: the compliance report and an
+ * obligation's dossier. All of them carry the organization's name and CUIT
+ * in the header and page numbers in the footer.
+ */
+@Injectable()
+export class ReportPdfService {
+  async renderComplianceReport(
+    organization: { name: string; cuit: string },
+    report: ComplianceReportDto,
+    obligations: ObligationReportItemDto[],
+  ): Promise<Buffer> {
+    return this.render(
+      organization,
+      "Reporte de cumplimiento",
+      `Período: ${formatPdfDate(report.period.from)} al ${formatPdfDate(report.period.to)}`,
+      (doc) => {
+        const { summary } = report;
+        this.section(doc, "Resumen");
+        this.fields(doc, [
+          ["Obligaciones", String(summary.totalObligations)],
+          ["Cumplidas", String(summary.completed)],
+          ["Pendientes", String(summary.pending)],
+          ["Vencidas", String(summary.overdue)],
+          ["Tasa de cumplimiento", `${summary.complianceRate}%`],
+        ]);
+
+        this.section(doc, "Por tipo");
+        this.table(
+          doc,
+          [
+            { header: "Tipo", width: 245 },
+            { header: "Total", width: 80, align: "right" },
+            { header: "Cumplidas", width: 85, align: "right" },
+            { header: "Cumplimiento", width: 85, align: "right" },
+          ],
+          report.byType.map((row) => [
+            OBLIGATION_TYPE_LABELS[row.type as ObligationType] ?? row.type,
+            String(row.total),
+            String(row.completed),
+            `${row.complianceRate}%`,
+          ]),
+        );
+
+        this.section(doc, "Por local");
+        this.table(
+          doc,
+          [
+            { header: "Local", width: 205 },
+            { header: "Total", width: 70, align: "right" },
+            { header: "Cumplidas", width: 75, align: "right" },
+            { header: "Vencidas", width: 70, align: "right" },
+            { header: "Cumplimiento", width: 75, align: "right" },
+          ],
+          report.byLocation.map((row) => [
+            row.locationName,
+            String(row.total),
+            String(row.completed),
+            String(row.overdue),
+            `${row.complianceRate}%`,
+          ]),
+        );
+
+        this.section(doc, "Detalle de obligaciones");
+        this.table(
+          doc,
+          [
+            { header: "Vencimiento", width: 70 },
+            { header: "Obligación", width: 150 },
+            { header: "Local", width: 85 },
+            { header: "Responsable", width: 85 },
+            { header: "Estado", width: 60 },
+            { header: "Evid.", width: 45, align: "right" },
+          ],
+          obligations.map((o) => [
+            formatPdfDate(o.dueDate),
+            o.title,
+            o.locationName ?? "Global",
+            o.ownerName,
+            OBLIGATION_STATUS_LABELS[o.status as ObligationStatus] ?? o.status,
+            String(o.documentsCount),
+          ]),
+        );
+      },
+    );
+  }
+
+  async renderDossier(dossier: ObligationDossier): Promise<Buffer> {
+    const { obligation } = dossier;
+
+    return this.render(
+      dossier.organization,
+      "Legajo de cumplimiento",
+      obligation.title,
+      (doc) => {
+        this.section(doc, "Obligación");
+        this.fields(doc, [
+          ["Tipo", OBLIGATION_TYPE_LABELS[obligation.type]],
+          ["Estado", OBLIGATION_STATUS_LABELS[obligation.status]],
+          ["Vencimiento", formatPdfDate(obligation.dueDate)],
+          ...(obligation.nominalDueDate &&
+          obligation.nominalDueDate.getTime() !== obligation.dueDate.getTime()
+            ? [
+                [
+                  "Vencimiento original",
+                  formatPdfDate(obligation.nominalDueDate),
+                ] as [string, string],
+              ]
+            : []),
+          ["Local", obligation.location?.name ?? "Global (Organización)"],
+          [
+            "Responsable",
+            `${obligation.owner.fullName} (${obligation.owner.email})`,
+          ],
+          ["Requiere revisión", obligation.requiresReview ? "Sí" : "No"],
+          [
+            "Evidencias requeridas",
+            `${dossier.documents.length} de ${obligation.requiredEvidenceCount}`,
+          ],
+          ...(obligation.recurrenceRule
+            ? [["Recurrencia", obligation.recurrenceRule] as [string, string]]
+            : []),
+        ]);
+        if (obligation.description) {
+          doc.moveDown(0.5).font(FONT).fontSize(9).text(obligation.description);
+        }
+
+        this.section(doc, "Checklist");
+        if (dossier.tasks.length === 0) {
+          this.empty(doc, "Sin tareas");
+        }
+        for (const task of dossier.tasks) {
+          const done = task.items.filter((item) => item.done).length;
+          this.ensureSpace(doc, 40);
+          doc
+            .font(FONT_BOLD)
+            .fontSize(9)
+            .fillColor("black")
+            .text(
+              `${task.title} — ${TASK_STATUS_LABELS[task.status]}${task.items.length ? ` (${done}/${task.items.length})` : ""}`,
+            );
+          doc
+            .font(FONT)
+            .fontSize(8)
+            .fillColor(MUTED)
+            .text(
+              [
+                task.assignee && `Asignada a ${task.assignee.fullName}`,
+                task.dueDate && `vence ${formatPdfDate(task.dueDate)}`,
+              ]
+                .filter(Boolean)
+                .join(", ") || "Sin asignar",
+            );
+          doc.fillColor("black").fontSize(9);
+          for (const item of task.items) {
+            this.ensureSpace(doc, 14);
+            doc.text(`${item.done ? "[x]" : "[ ]"} ${item.description}`, {
+              indent: 12,
+            });
+          }
+          doc.moveDown(0.4);
+        }
+
+        this.section(doc, "Evidencias");
+        this.table(
+          doc,
+          [
+            { header: "Archivo", width: 140 },
+            { header: "Subido", width: 105 },
+            { header: "Tamaño", width: 45, align: "right" },
+            { header: "SHA-256", width: 205 },
+          ],
+          dossier.documents.map((d) => [
+            d.fileName,
+            `${formatPdfDateTime(d.uploadedAt)}\n${d.uploadedBy.fullName}`,
+            formatSize(d.sizeBytes),
+            d.sha256 ?? "No disponible",
+          ]),
+          { monospaceColumn: 3 },
+        );
+
+        this.section(doc, "Revisiones");
+        this.table(
+          doc,
+          [
+            { header: "Fecha", width: 95 },
+            { header: "Revisor", width: 110 },
+            { header: "Resultado", width: 70 },
+            { header: "Comentario", width: 220 },
+          ],
+          dossier.reviews.map((r) => [
+            formatPdfDateTime(r.createdAt),
+            r.reviewer.fullName,
+            REVIEW_STATUS_LABELS[r.status],
+            r.comment ?? "",
+          ]),
+        );
+
+        this.section(doc, "Historial de auditoría");
+        if (dossier.auditEventsTruncated) {
+          doc
+            .font(FONT)
+            .fontSize(8)
+            .fillColor(MUTED)
+            .text(
+              `Se muestran los últimos ${dossier.auditEvents.length} eventos. El historial completo está en el log de auditoría.`,
+            );
+          doc.fillColor("black").moveDown(0.4);
+        }
+        this.table(
+          doc,
+          [
+            { header: "Fecha", width: 95 },
+            { header: "Usuario", width: 110 },
+            { header: "Acción", width: 150 },
+            { header: "Entidad", width: 140 },
+          ],
+          dossier.auditEvents.map((e) => [
+            formatPdfDateTime(e.createdAt),
+            e.user?.fullName ?? "Sistema",
+            e.action,
+            e.entityType,
+          ]),
+        );
+      },
+    );
+  }
+
+  private render(
+    organization: { name: string; cuit: string },
+    title: string,
+    subtitle: string,
+    draw: (doc: Doc) => void,
+  ): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `${title} - ${organization.name}`,
+        Author: "CumpliRos",
+      },
+    });
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+    });
+
+    doc.font(FONT_BOLD).fontSize(16).text(organization.name);
+    doc
+      .font(FONT)
+      .fontSize(10)
+      .fillColor(MUTED)
+      .text(`CUIT ${organization.cuit}`);
+    doc.moveDown(0.8).fillColor("black").font(FONT_BOLD).fontSize(13);
+    doc.text(title);
+    doc.font(FONT).fontSize(10).text(subtitle);
+    doc
+      .fontSize(8)
+      .fillColor(MUTED)
+      .text(`Generado el ${formatPdfDateTime(new Date())}`);
+    doc.fillColor("black");
+
+    draw(doc);
+
+    // The footer is written last, once the page count is known
+    const { start, count } = doc.bufferedPageRange();
+    for (let i = start; i < start + count; i++) {
+      doc.switchToPage(i);
+      const bottom = doc.page.height - MARGIN + 15;
+      doc.page.margins.bottom = 0;
+      doc
+        .font(FONT)
+        .fontSize(8)
+        .fillColor(MUTED)
+        .text(
+          `${organization.name} - CUIT ${organization.cuit}`,
+          MARGIN,
+          bottom,
+          { lineBreak: false },
+        )
+        .text(`Página ${i + 1} de ${count}`, MARGIN, bottom, {
+          width: doc.page.width - MARGIN * 2,
+          align: "right",
+          lineBreak: false,
+        });
+      doc.page.margins.bottom = MARGIN;
+    }
+
+    doc.end();
+    return done;
+  }
+
+  private section(doc: Doc, title: string): void {
+    this.ensureSpace(doc, 60);
+    doc.moveDown(1).font(FONT_BOLD).fontSize(11).fillColor("black");
+    doc.text(title, MARGIN);
+    const y = doc.y + 2;
+    doc
+      .moveTo(MARGIN, y)
+      .lineTo(doc.page.width - MARGIN, y)
+      .strokeColor("#d1d5db")
+      .stroke();
+    doc.moveDown(0.5);
+  }
+
+  private fields(doc: Doc, rows: Array<[string, string]>): void {
+    for (const [label, value] of rows) {
+      this.ensureSpace(doc, 14);
+      doc.font(FONT_BOLD).fontSize(9).text(`${label}: `, MARGIN, doc.y, {
+        continued: true,
+      });
+      doc.font(FONT).text(value);
+    }
+  }
+
+  private empty(doc: Doc, message: string): void {
+    doc.font(FONT).fontSize(9).fillColor(MUTED).text(message, MARGIN);
+    doc.fillColor("black");
+  }
+
+  private table(
+    doc: Doc,
+    columns: Column[],
+    rows: string[][],
+    options: { monospaceColumn?: number } = {},
+  ): void {
+    if (rows.length === 0) {
+      this.empty(doc, "Sin registros");
+      return;
+    }
+
+    const drawRow = (cells: string[], header: boolean) => {
+      const fontFor = (index: number) =>
+        header
+          ? FONT_BOLD
+          : index === options.monospaceColumn
+            ? "Courier"
+            : FONT;
+      const fontSize = (index: number) =>
+        !header && index === options.monospaceColumn ? 7 : 8;
+      const height = Math.max(
+        ...cells.map((cell, index) =>
+          doc
+            .font(fontFor(index))
+            .fontSize(fontSize(index))
+            .heightOfString(cell, { width: columns[index].width - 6 }),
+        ),
+      );
+
+      if (this.ensureSpace(doc, height + 6) && !header) {
+        drawRow(
+          columns.map((c) => c.header),
+          true,
+        );
+      }
+
+      const y = doc.y;
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        doc
+          .font(fontFor(index))
+          .fontSize(fontSize(index))
+          .fillColor("black")
+          .text(cell, x + 3, y + 3, {
+            width: columns[index].width - 6,
+            align: columns[index].align ?? "left",
+          });
+        x += columns[index].width;
+      });
+      doc.y = y + height + 6;
+      doc
+        .moveTo(MARGIN, doc.y)
+        .lineTo(x, doc.y)
+        .strokeColor(header ? "#9ca3af" : "#e5e7eb")
+        .stroke();
+    };
+
+    drawRow(
+      columns.map((c) => c.header),
+      true,
+    );
+    for (const row of rows) {
+      drawRow(row, false);
+    }
+    doc.x = MARGIN;
+  }
+
+  // Adds a page if the block doesn't fit; returns true if it did
+  private ensureSpace(doc: Doc, height: number): boolean {
+    if (doc.y + height > doc.page.height - MARGIN) {
+      doc.addPage();
+      return true;
+    }
+    return false;
+  }
+}
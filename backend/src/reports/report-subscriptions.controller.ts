@@ -0,0 +1,117 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { Role } from "@prisma/client";
+import { ReportSubscriptionsService } from "./report-subscriptions.service";
+import {
+  CreateReportSubscriptionDto,
+  GeneratedReportResponseDto,
+  ReportSubscriptionResponseDto,
+  UpdateReportSubscriptionDto,
+} from "./dto/report-subscription.dto";
+import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
+import { OrganizationGuard } from "../common/guards/organization.guard";
+import { RolesGuard } from "../common/guards/roles.guard";
+import { Roles } from "../common/decorators/roles.decorator";
+import { CurrentUser } from "../common/decorators/current-user.decorator";
+import { AuthenticatedUser } from "../common/interfaces/request.interface";
+
+@ApiTags("reports")
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, OrganizationGuard, RolesGuard)
+@Roles(Role.OWNER, Role.ADMIN, Role.ACCOUNTANT)
+@Controller("organizations/:organizationId/report-subscriptions")
+export class ReportSubscriptionsController {
+  constructor(
+    private readonly subscriptionsService: ReportSubscriptionsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: "Listar reportes programados" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: [ReportSubscriptionResponseDto] })
+  async list(
+    @Param("organizationId") organizationId: string,
+  ): Promise<ReportSubscriptionResponseDto[]> {
+    return this.subscriptionsService.list(organizationId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: "Programar el envío de un reporte" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 201, type: ReportSubscriptionResponseDto })
+  @ApiResponse({ status: 400, description: "Datos inválidos" })
+  async create(
+    @Param("organizationId") organizationId: string,
+    @Body() dto: CreateReportSubscriptionDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ReportSubscriptionResponseDto> {
+    return this.subscriptionsService.create(organizationId, dto, user.id);
+  }
+
+  @Patch(":subscriptionId")
+  @ApiOperation({ summary: "Actualizar un reporte programado" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "subscriptionId", type: "string" })
+  @ApiResponse({ status: 200, type: ReportSubscriptionResponseDto })
+  @ApiResponse({ status: 404, description: "Suscripción no encontrada" })
+  async update(
+    @Param("organizationId") organizationId: string,
+    @Param("subscriptionId") subscriptionId: string,
+    @Body() dto: UpdateReportSubscriptionDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ReportSubscriptionResponseDto> {
+    return this.subscriptionsService.update(
+      organizationId,
+      subscriptionId,
+      dto,
+      user.id,
+    );
+  }
+
+  @Delete(":subscriptionId")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Eliminar un reporte programado" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "subscriptionId", type: "string" })
+  @ApiResponse({ status: 204, description: "Suscripción eliminada" })
+  async remove(
+    @Param("organizationId") organizationId: string,
+    @Param("subscriptionId") subscriptionId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<void> {
+    await this.subscriptionsService.remove(
+      organizationId,
+      subscriptionId,
+      user.id,
+    );
+  }
+
+  @Post(":subscriptionId/run")
+  @ApiOperation({ summary: "Generar y enviar el reporte ahora" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "subscriptionId", type: "string" })
+  @ApiResponse({ status: 201, type: GeneratedReportResponseDto })
+  async run(
+    @Param("organizationId") organizationId: string,
+    @Param("subscriptionId") subscriptionId: string,
+  ): Promise<GeneratedReportResponseDto> {
+    return this.subscriptionsService.runNow(organizationId, subscriptionId);
+  }
+}
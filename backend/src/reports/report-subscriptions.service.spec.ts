@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BadRequestException, NotFoundException } from "@nestjs/common";
+import {
+  ReportSubscriptionsService,
+  assertValidSchedule,
+  nextRunAt,
+} from "./report-subscriptions.service";
+
+const mockPrismaService = {
+  reportSubscription: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    delete: vi.fn(),
+  },
+  generatedReport: {
+    findFirst: vi.fn(),
+    create: vi.fn(),
+  },
+  organization: {
+    findUnique: vi.fn(),
+  },
+  location: {
+    findFirst: vi.fn(),
+  },
+};
+
+const mockReportsService = {
+  exportToCsv: vi.fn(),
+  exportToPdf: vi.fn(),
+  exportToXlsx: vi.fn(),
+};
+
+const mockStorageService = {
+  generateFileKey: vi.fn(),
+  uploadFile: vi.fn(),
+  getDownloadUrl: vi.fn(),
+};
+
+const mockEmailService = {
+  sendScheduledReportEmail: vi.fn(),
+};
+
+const mockAuditService = {
+  log: vi.fn(),
+};
+
+const subscription = {
+  id: "sub-1",
+  organizationId: "org-1",
+  createdByUserId: "user-1",
+  name: "Resumen mensual",
+  reportType: "COMPLIANCE",
+  format: "PDF",
+  locationId: null,
+  periodDays: 30,
+  cronExpression: "0 8 1 * *",
+  timezone: "America/Argentina/Buenos_Aires",
+  recipients: ["contador@estudio.com", "duenio@panaderia.com"],
+  active: true,
+  nextRunAt: new Date("2025-08-01T11:00:00Z"),
+  lastRunAt: null,
+  createdAt: new Date("2025-07-01T00:00:00Z"),
+  updatedAt: new Date("2025-07-01T00:00:00Z"),
+};
+
+describe("schedule helpers", () => {
+  it("should compute the next run in the subscription timezone", () => {
+    expect(
+      nextRunAt(
+        "0 8 1 * *",
+        "America/Argentina/Buenos_Aires",
+        new Date("2025-07-10T12:00:00Z"),
+      ),
+    ).toEqual(new Date("2025-08-01T11:00:00Z"));
+  });
+
+  it("should reject invalid or too frequent schedules", () => {
+    const tz = "America/Argentina/Buenos_Aires";
+
+    expect(() => assertValidSchedule("0 0 8 1 * *", tz)).toThrow(
+      "La programación debe ser una expresión cron de 5 campos",
+    );
+    expect(() => assertValidSchedule("0 25 * * *", tz)).toThrow(
+      BadRequestException,
+    );
+    expect(() => assertValidSchedule("*/30 * * * *", tz)).toThrow(
+      "La programación no puede ejecutarse más de una vez por hora",
+    );
+    expect(() => assertValidSchedule("0 8 * * 1", tz)).not.toThrow();
+  });
+});
+
+describe("ReportSubscriptionsService", () => {
+  let service: ReportSubscriptionsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ReportSubscriptionsService(
+      mockPrismaService as any,
+      mockReportsService as any,
+      mockStorageService as any,
+      mockEmailService as any,
+      mockAuditService as any,
+    );
+    mockPrismaService.organization.findUnique.mockResolvedValue({
+      name: "Panadería Sur",
+    });
+    mockPrismaService.generatedReport.create.mockImplementation(({ data }) => ({
+      id: "rep-1",
+      createdAt: new Date(),
+      ...data,
+    }));
+    mockStorageService.generateFileKey.mockImplementation(
+      (orgId: string, fileName: string, folder: string) =>
+        `org/${orgId}/${folder}/1_${fileName}`,
+    );
+    mockStorageService.getDownloadUrl.mockResolvedValue(
+      "https://s3.example.com/signed",
+    );
+  });
+
+  describe("create", () => {
+    it("should reject formats the report does not support", async () => {
+      await expect(
+        service.create(
+          "org-1",
+          {
+            name: "Obligaciones",
+            reportType: "OBLIGATIONS" as any,
+            format: "PDF" as any,
+            cronExpression: "0 8 1 * *",
+            recipients: ["contador@estudio.com"],
+          },
+          "user-1",
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        mockPrismaService.reportSubscription.create,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("should schedule the first run and audit the subscription", async () => {
+      mockPrismaService.reportSubscription.create.mockImplementation(
+        ({ data }) => ({ ...subscription, ...data }),
+      );
+
+      const result = await service.create(
+        "org-1",
+        {
+          name: "Resumen mensual",
+          reportType: "COMPLIANCE" as any,
+          format: "XLSX" as any,
+          cronExpression: " 0 8 1 * * ",
+          recipients: ["Contador@Estudio.com"],
+        },
+        "user-1",
+      );
+
+      const { data } =
+        mockPrismaService.reportSubscription.create.mock.calls[0][0];
+      expect(data).toMatchObject({
+        cronExpression: "0 8 1 * *",
+        timezone: "America/Argentina/Buenos_Aires",
+        recipients: ["contador@estudio.com"],
+        active: true,
+      });
+      expect(data.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+      expect(result.nextRunAt).toEqual(data.nextRunAt);
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        "org-1",
+        "report_subscription.created",
+        "ReportSubscription",
+        "sub-1",
+        "user-1",
+        expect.objectContaining({ format: "XLSX" }),
+      );
+    });
+  });
+
+  describe("runDueSubscriptions", () => {
+    const now = new Date("2025-08-01T11:05:00Z");
+
+    beforeEach(() => {
+      mockPrismaService.reportSubscription.findMany.mockResolvedValue([
+        subscription,
+      ]);
+      mockPrismaService.reportSubscription.updateMany.mockResolvedValue({
+        count: 1,
+      });
+      mockReportsService.exportToPdf.mockResolvedValue(Buffer.from("%PDF-1.3"));
+    });
+
+    it("should store the report and email a link to every recipient", async () => {
+      const generated = await service.runDueSubscriptions(now);
+
+      expect(generated).toBe(1);
+      expect(
+        mockPrismaService.reportSubscription.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { id: "sub-1", nextRunAt: subscription.nextRunAt },
+        data: {
+          nextRunAt: new Date("2025-09-01T11:00:00Z"),
+          lastRunAt: now,
+        },
+      });
+      expect(mockReportsService.exportToPdf).toHaveBeenCalledWith("org-1", {
+        fromDate: new Date("2025-07-02T11:05:00Z"),
+        toDate: now,
+        locationId: undefined,
+      });
+      expect(mockStorageService.uploadFile).toHaveBeenCalledWith(
+        "org/org-1/reports/1_cumplimiento_2025-08-01.pdf",
+        Buffer.from("%PDF-1.3"),
+        "application/pdf",
+      );
+      expect(mockPrismaService.generatedReport.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          subscriptionId: "sub-1",
+          status: "COMPLETED",
+          fileName: "cumplimiento_2025-08-01.pdf",
+          sizeBytes: 8,
+        }),
+      });
+      expect(mockEmailService.sendScheduledReportEmail).toHaveBeenCalledTimes(
+        2,
+      );
+      expect(mockEmailService.sendScheduledReportEmail).toHaveBeenCalledWith(
+        "contador@estudio.com",
+        "Panadería Sur",
+        expect.objectContaining({
+          downloadUrl: "https://s3.example.com/signed",
+          period: "02/07/2025 al 01/08/2025",
+          expiresInDays: 7,
+        }),
+        { organizationId: "org-1", entityIds: ["rep-1"] },
+      );
+    });
+
+    it("should skip subscriptions claimed by another instance", async () => {
+      mockPrismaService.reportSubscription.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      const generated = await service.runDueSubscriptions(now);
+
+      expect(generated).toBe(0);
+      expect(mockReportsService.exportToPdf).not.toHaveBeenCalled();
+    });
+
+    it("should record failed reports without emailing", async () => {
+      mockReportsService.exportToPdf.mockRejectedValue(
+        new NotFoundException("Organización no encontrada"),
+      );
+
+      const generated = await service.runDueSubscriptions(now);
+
+      expect(generated).toBe(0);
+      expect(mockPrismaService.generatedReport.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          status: "FAILED",
+          error: "Organización no encontrada",
+        }),
+      });
+      expect(mockEmailService.sendScheduledReportEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getDownloadUrl", () => {
+    it("should fail for reports without a file", async () => {
+      mockPrismaService.generatedReport.findFirst.mockResolvedValue({
+        id: "rep-1",
+        status: "FAILED",
+        fileKey: null,
+      });
+
+      await expect(service.getDownloadUrl("org-1", "rep-1")).rejects.toThrow(
+        "Reporte no encontrado",
+      );
+    });
+  });
+});
@@ -0,0 +1,563 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  GeneratedReport,
+  GeneratedReportStatus,
+  ReportFormat,
+  ReportSubscription,
+  ReportType,
+} from "@prisma/client";
+import { CronTime } from "cron";
+import { PrismaService } from "../common/prisma/prisma.service";
+import { StorageService } from "../common/storage/storage.service";
+import { EmailService } from "../common/email/email.service";
+import { AuditService } from "../audit/audit.service";
+import { AuditActions } from "../audit/dto/audit.dto";
+import {
+  PaginatedResponse,
+  createPaginatedResponse,
+} from "../common/dto/pagination.dto";
+import { ReportsService } from "./reports.service";
+import {
+  CreateReportSubscriptionDto,
+  GeneratedReportDownloadDto,
+  GeneratedReportFilterDto,
+  GeneratedReportResponseDto,
+  ReportSubscriptionResponseDto,
+  UpdateReportSubscriptionDto,
+} from "./dto/report-subscription.dto";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const HOUR_MS = 1000 * 60 * 60;
+const DEFAULT_TIMEZONE = "America/Argentina/Buenos_Aires";
+const DOWNLOAD_LINK_DAYS = 7; // maximum for an S3 signed URL
+const HISTORY_DOWNLOAD_SECONDS = 3600;
+const SCHEDULE_SAMPLES = 24;
+
+// Formats each report can be generated in
+export const REPORT_FORMATS: Record<ReportType, ReportFormat[]> = {
+  COMPLIANCE: [ReportFormat.PDF, ReportFormat.XLSX],
+  OBLIGATIONS: [ReportFormat.CSV],
+};
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  CSV: "text/csv",
+  PDF: "application/pdf",
+  XLSX: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const FILE_PREFIXES: Record<ReportType, string> = {
+  COMPLIANCE: "cumplimiento",
+  OBLIGATIONS: "obligaciones",
+};
+
+/**
+ * Next run of a 5-field cron expression in the subscription's time zone,
+ * strictly after `from`.
+ */
+export function nextRunAt(
+  cronExpression: string,
+  timezone: string,
+  from: Date,
+): Date {
+  return new CronTime(cronExpression, timezone)
+    .getNextDateFrom(from, timezone)
+    .toJSDate();
+}
+
+// Rejects invalid expressions or ones that run more than once an hour
+export function assertValidSchedule(
+  cronExpression: string,
+  timezone: string,
+  from = new Date(),
+): void {
+  if (cronExpression.trim().split(/\s+/).length !== 5) {
+    throw new BadRequestException(
+      "La programación debe ser una expresión cron de 5 campos",
+    );
+  }
+
+  let runs: Date[];
+  try {
+    runs = [nextRunAt(cronExpression, timezone, from)];
+    for (let i = 1; i < SCHEDULE_SAMPLES; i++) {
+      runs.push(nextRunAt(cronExpression, timezone, runs[i - 1]));
+    }
+  } catch {
+    throw new BadRequestException(`Expresión cron inválida: ${cronExpression}`);
+  }
+
+  if (
+    runs.some(
+      (run, i) => i > 0 && run.getTime() - runs[i - 1].getTime() < HOUR_MS,
+    )
+  ) {
+    throw new BadRequestException(
+      "La programación no puede ejecutarse más de una vez por hora",
+    );
+  }
+}
+
+function formatLocalDate(date: Date, timezone: string): string {
+  return date.toLocaleDateString("es-AR", {
+    timeZone: timezone,
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+  });
+}
+
+@Injectable()
+export class ReportSubscriptionsService {
+  private readonly logger = new Logger(ReportSubscriptionsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private reportsService: ReportsService,
+    private storageService: StorageService,
+    private emailService: EmailService,
+    private auditService: AuditService,
+  ) {}
+
+  async list(organizationId: string): Promise<ReportSubscriptionResponseDto[]> {
+    const subscriptions = await this.prisma.reportSubscription.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return subscriptions.map((s) => this.toResponseDto(s));
+  }
+
+  async create(
+    organizationId: string,
+    dto: CreateReportSubscriptionDto,
+    userId: string,
+  ): Promise<ReportSubscriptionResponseDto> {
+    const timezone = dto.timezone ?? DEFAULT_TIMEZONE;
+    const active = dto.active ?? true;
+    await this.validate(organizationId, {
+      ...dto,
+      timezone,
+      locationId: dto.locationId ?? null,
+    });
+
+    const subscription = await this.prisma.reportSubscription.create({
+      data: {
+        organizationId,
+        createdByUserId: userId,
+        name: dto.name,
+        reportType: dto.reportType,
+        format: dto.format,
+        locationId: dto.locationId,
+        periodDays: dto.periodDays,
+        cronExpression: dto.cronExpression.trim(),
+        timezone,
+        recipients: dto.recipients.map((r) => r.toLowerCase()),
+        active,
+        nextRunAt: active
+          ? nextRunAt(dto.cronExpression, timezone, new Date())
+          : null,
+      },
+    });
+
+    await this.auditService.log(
+      organizationId,
+      AuditActions.REPORT_SUBSCRIPTION_CREATED,
+      "ReportSubscription",
+      subscription.id,
+      userId,
+      {
+        name: subscription.name,
+        reportType: subscription.reportType,
+        format: subscription.format,
+        recipients: subscription.recipients,
+      },
+    );
+
+    return this.toResponseDto(subscription);
+  }
+
+  async update(
+    organizationId: string,
+    subscriptionId: string,
+    dto: UpdateReportSubscriptionDto,
+    userId: string,
+  ): Promise<ReportSubscriptionResponseDto> {
+    const current = await this.findSubscription(organizationId, subscriptionId);
+    const merged = {
+      reportType: dto.reportType ?? current.reportType,
+      format: dto.format ?? current.format,
+      cronExpression: dto.cronExpression?.trim() ?? current.cronExpression,
+      timezone: dto.timezone ?? current.timezone,
+      locationId:
+        dto.locationId !== undefined ? dto.locationId : current.locationId,
+    };
+    await this.validate(organizationId, merged);
+
+    const active = dto.active ?? current.active;
+    const scheduleChanged =
+      merged.cronExpression !== current.cronExpression ||
+      merged.timezone !== current.timezone ||
+      active !== current.active;
+
+    const subscription = await this.prisma.reportSubscription.update({
+      where: { id: current.id },
+      data: {
+        ...merged,
+        name: dto.name,
+        periodDays: dto.periodDays,
+        recipients: dto.recipients?.map((r) => r.toLowerCase()),
+        active,
+        ...(scheduleChanged && {
+          nextRunAt: active
+            ? nextRunAt(merged.cronExpression, merged.timezone, new Date())
+            : null,
+        }),
+      },
+    });
+
+    await this.auditService.log(
+      organizationId,
+      AuditActions.REPORT_SUBSCRIPTION_UPDATED,
+      "ReportSubscription",
+      subscription.id,
+      userId,
+      { changes: Object.keys(dto) },
+    );
+
+    return this.toResponseDto(subscription);
+  }
+
+  // History is kept; its reports are left without a subscription
+  async remove(
+    organizationId: string,
+    subscriptionId: string,
+    userId: string,
+  ): Promise<void> {
+    const subscription = await this.findSubscription(
+      organizationId,
+      subscriptionId,
+    );
+
+    await this.prisma.reportSubscription.delete({
+      where: { id: subscription.id },
+    });
+
+    await this.auditService.log(
+      organizationId,
+      AuditActions.REPORT_SUBSCRIPTION_DELETED,
+      "ReportSubscription",
+      subscription.id,
+      userId,
+      { name: subscription.name },
+    );
+  }
+
+  // On-demand send: doesn't change the next scheduled run
+  async runNow(
+    organizationId: string,
+    subscriptionId: string,
+  ): Promise<GeneratedReportResponseDto> {
+    const subscription = await this.findSubscription(
+      organizationId,
+      subscriptionId,
+    );
+    const report = await this.generate(subscription, new Date());
+    return this.toReportDto(report, subscription.name);
+  }
+
+  async listReports(
+    organizationId: string,
+    filters: GeneratedReportFilterDto,
+  ): Promise<PaginatedResponse<GeneratedReportResponseDto>> {
+    const where = {
+      organizationId,
+      ...(filters.subscriptionId && { subscriptionId: filters.subscriptionId }),
+    };
+
+    const [reports, total] = await Promise.all([
+      this.prisma.generatedReport.findMany({
+        where,
+        include: { subscription: { select: { name: true } } },
+        orderBy: { createdAt: "desc" },
+        skip: filters.skip,
+        take: filters.take,
+      }),
+      this.prisma.generatedReport.count({ where }),
+    ]);
+
+    return createPaginatedResponse(
+      reports.map((r) => this.toReportDto(r, r.subscription?.name)),
+      total,
+      filters.page!,
+      filters.limit!,
+    );
+  }
+
+  async getDownloadUrl(
+    organizationId: string,
+    reportId: string,
+  ): Promise<GeneratedReportDownloadDto> {
+    const report = await this.prisma.generatedReport.findFirst({
+      where: { id: reportId, organizationId },
+    });
+
+    if (!report?.fileKey) {
+      throw new NotFoundException("Reporte no encontrado");
+    }
+
+    return {
+      url: await this.storageService.getDownloadUrl(
+        report.fileKey,
+        HISTORY_DOWNLOAD_SECONDS,
+      ),
+      expiresAt: new Date(Date.now() + HISTORY_DOWNLOAD_SECONDS * 1000),
+    };
+  }
+
+  /**
+   * Job: generates and sends the reports whose next run has passed. Each
+   * subscription is claimed by moving nextRunAt before generating, so two
+   * job instances don't send the same report.
+   */
+  async runDueSubscriptions(now = new Date()): Promise<number> {
+    const due = await this.prisma.reportSubscription.findMany({
+      where: {
+        active: true,
+        nextRunAt: { lte: now },
+        organization: { active: true },
+      },
+      orderBy: { nextRunAt: "asc" },
+    });
+
+    let generated = 0;
+    for (const subscription of due) {
+      const claimed = await this.prisma.reportSubscription.updateMany({
+        where: { id: subscription.id, nextRunAt: subscription.nextRunAt },
+        data: {
+          nextRunAt: nextRunAt(
+            subscription.cronExpression,
+            subscription.timezone,
+            now,
+          ),
+          lastRunAt: now,
+        },
+      });
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const report = await this.generate(subscription, now);
+      if (report.status === GeneratedReportStatus.COMPLETED) {
+        generated++;
+      }
+    }
+
+    return generated;
+  }
+
+  // Generates the file, stores it and sends the link. Failures go to the history.
+  private async generate(
+    subscription: ReportSubscription,
+    now: Date,
+  ): Promise<GeneratedReport> {
+    const periodFrom = new Date(
+      now.getTime() - subscription.periodDays * DAY_MS,
+    );
+    const base = {
+      organizationId: subscription.organizationId,
+      subscriptionId: subscription.id,
+      reportType: subscription.reportType,
+      format: subscription.format,
+      periodFrom,
+      periodTo: now,
+      recipients: subscription.recipients,
+    };
+
+    let report: GeneratedReport;
+    try {
+      const content = await this.render(subscription, periodFrom, now);
+      const fileName = `${FILE_PREFIXES[subscription.reportType]}_${now.toISOString().split("T")[0]}.${subscription.format.toLowerCase()}`;
+      const fileKey = this.storageService.generateFileKey(
+        subscription.organizationId,
+        fileName,
+        "reports",
+      );
+      await this.storageService.uploadFile(
+        fileKey,
+        content,
+        MIME_TYPES[subscription.format],
+      );
+
+      report = await this.prisma.generatedReport.create({
+        data: {
+          ...base,
+          status: GeneratedReportStatus.COMPLETED,
+          fileName,
+          fileKey,
+          sizeBytes: content.length,
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Report subscription ${subscription.id} failed: ${message}`,
+      );
+      return this.prisma.generatedReport.create({
+        data: { ...base, status: GeneratedReportStatus.FAILED, error: message },
+      });
+    }
+
+    await this.sendLinks(subscription, report);
+    return report;
+  }
+
+  private async render(
+    subscription: ReportSubscription,
+    fromDate: Date,
+    toDate: Date,
+  ): Promise<Buffer> {
+    const { organizationId, reportType, format } = subscription;
+    const filters = {
+      fromDate,
+      toDate,
+      locationId: subscription.locationId ?? undefined,
+    };
+
+    if (reportType === ReportType.OBLIGATIONS) {
+      return Buffer.from(
+        await this.reportsService.exportToCsv(organizationId, filters),
+      );
+    }
+    return format === ReportFormat.PDF
+      ? this.reportsService.exportToPdf(organizationId, filters)
+      : this.reportsService.exportToXlsx(organizationId, filters);
+  }
+
+  private async sendLinks(
+    subscription: ReportSubscription,
+    report: GeneratedReport,
+  ): Promise<void> {
+    try {
+      const organization = await this.prisma.organization.findUnique({
+        where: { id: subscription.organizationId },
+        select: { name: true },
+      });
+      const downloadUrl = await this.storageService.getDownloadUrl(
+        report.fileKey!,
+        DOWNLOAD_LINK_DAYS * 24 * 60 * 60,
+      );
+      const period = `${formatLocalDate(report.periodFrom, subscription.timezone)} al ${formatLocalDate(report.periodTo, subscription.timezone)}`;
+
+      for (const recipient of subscription.recipients) {
+        await this.emailService.sendScheduledReportEmail(
+          recipient,
+          organization?.name ?? "",
+          {
+            name: subscription.name,
+            fileName: report.fileName!,
+            period,
+            downloadUrl,
+            expiresInDays: DOWNLOAD_LINK_DAYS,
+          },
+          {
+            organizationId: subscription.organizationId,
+            entityIds: [report.id],
+          },
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Could not send report ${report.id}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async validate(
+    organizationId: string,
+    subscription: Pick<
+      ReportSubscription,
+      "reportType" | "format" | "cronExpression" | "timezone" | "locationId"
+    >,
+  ): Promise<void> {
+    if (
+      !REPORT_FORMATS[subscription.reportType].includes(subscription.format)
+    ) {
+      throw new BadRequestException(
+        `El formato ${subscription.format} no está disponible para este reporte`,
+      );
+    }
+
+    assertValidSchedule(subscription.cronExpression, subscription.timezone);
+
+    if (subscription.locationId) {
+      const location = await this.prisma.location.findFirst({
+        where: { id: subscription.locationId, organizationId },
+      });
+      if (!location) {
+        throw new NotFoundException("Local no encontrado");
+      }
+    }
+  }
+
+  private async findSubscription(
+    organizationId: string,
+    subscriptionId: string,
+  ): Promise<ReportSubscription> {
+    const subscription = await this.prisma.reportSubscription.findFirst({
+      where: { id: subscriptionId, organizationId },
+    });
+
+    if (!subscription) {
+      throw new NotFoundException("Suscripción no encontrada");
+    }
+
+    return subscription;
+  }
+
+  private toResponseDto(
+    subscription: ReportSubscription,
+  ): ReportSubscriptionResponseDto {
+    return {
+      id: subscription.id,
+      organizationId: subscription.organizationId,
+      name: subscription.name,
+      reportType: subscription.reportType,
+      format: subscription.format,
+      locationId: subscription.locationId ?? undefined,
+      periodDays: subscription.periodDays,
+      cronExpression: subscription.cronExpression,
+      timezone: subscription.timezone,
+      recipients: subscription.recipients,
+      active: subscription.active,
+      nextRunAt: subscription.nextRunAt ?? undefined,
+      lastRunAt: subscription.lastRunAt ?? undefined,
+      createdAt: subscription.createdAt,
+    };
+  }
+
+  private toReportDto(
+    report: GeneratedReport,
+    subscriptionName?: string,
+  ): GeneratedReportResponseDto {
+    return {
+      id: report.id,
+      subscriptionId: report.subscriptionId ?? undefined,
+      subscriptionName,
+      reportType: report.reportType,
+      format: report.format,
+      status: report.status,
+      fileName: report.fileName ?? undefined,
+      sizeBytes: report.sizeBytes ?? undefined,
+      periodFrom: report.periodFrom,
+      periodTo: report.periodTo,
+      recipients: report.recipients,
+      error: report.error ?? undefined,
+      createdAt: report.createdAt,
+    };
+  }
+}
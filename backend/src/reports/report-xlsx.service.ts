@@ -0,0 +1,263 @@
+import { Injectable } from "@nestjs/common";
+import { ObligationStatus, ObligationType } from "@prisma/client";
+import { Workbook } from "exceljs";
+import {
+  OBLIGATION_STATUS_LABELS,
+  OBLIGATION_TYPE_LABELS,
+  REVIEW_STATUS_LABELS,
+  TASK_STATUS_LABELS,
+} from "../obligations/obligation-labels";
+import type { ComplianceWorkbook } from "./reports.service";
+
+const TIMEZONE = "America/Argentina/Buenos_Aires";
+
+const NUMBER_FORMATS = {
+  date: "dd/mm/yyyy",
+  datetime: "dd/mm/yyyy hh:mm",
+  percent: "0%",
+  decimal: "#,##0.0",
+};
+
+type CellValue = string | number | boolean | Date | null | undefined;
+
+interface SheetColumn<T> {
+  header: string;
+  width: number;
+  format?: keyof typeof NUMBER_FORMATS;
+  value: (row: T) => CellValue;
+}
+
+const localParts = new Intl.DateTimeFormat("en-US", {
+  timeZone: TIMEZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23",
+});
+
+/**
+ * Excel stores no time zone: the cell shows the Date's UTC time. To show
+ * Argentina time the instant is shifted to that local time.
+ */
+export function toSheetDateTime(date: Date): Date {
+  const parts = Object.fromEntries(
+    localParts.formatToParts(date).map((p) => [p.type, Number(p.value)]),
+  );
+  return new Date(
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+    ),
+  );
+}
+
+const rate = (percent: number) => percent / 100;
+
+/**
+ * Builds the compliance spreadsheet: summary, report groupings and the detail
+ * of obligations, tasks, evidence and reviews in separate sheets. Dates are
+ * written as date cells so they can be sorted and filtered in Excel.
+ */
+@Injectable()
+export class ReportXlsxService {
+  async renderComplianceWorkbook(data: ComplianceWorkbook): Promise<Buffer> {
+    const { organization, report } = data;
+    const workbook = new Workbook();
+    workbook.creator = "CumpliRos";
+    workbook.created = new Date();
+
+    const summary = workbook.addWorksheet("Resumen");
+    summary.columns = [{ width: 28 }, { width: 40 }];
+    summary.addRows([
+      ["Organización", organization.name],
+      ["CUIT", organization.cuit],
+      ["Desde", report.period.from],
+      ["Hasta", report.period.to],
+      [],
+      ["Obligaciones", report.summary.totalObligations],
+      ["Cumplidas", report.summary.completed],
+      ["Pendientes", report.summary.pending],
+      ["Vencidas", report.summary.overdue],
+      ["Tasa de cumplimiento", rate(report.summary.complianceRate)],
+    ]);
+    summary.getColumn(1).font = { bold: true };
+    summary.getCell("B3").numFmt = NUMBER_FORMATS.date;
+    summary.getCell("B4").numFmt = NUMBER_FORMATS.date;
+    summary.getCell("B10").numFmt = NUMBER_FORMATS.percent;
+    summary.getColumn(2).alignment = { horizontal: "left" };
+
+    this.addSheet(workbook, "Por tipo", report.byType, [
+      {
+        header: "Tipo",
+        width: 28,
+        value: (r) =>
+          OBLIGATION_TYPE_LABELS[r.type as ObligationType] ?? r.type,
+      },
+      { header: "Total", width: 10, value: (r) => r.total },
+      { header: "Cumplidas", width: 12, value: (r) => r.completed },
+      {
+        header: "Cumplimiento",
+        width: 14,
+        format: "percent",
+        value: (r) => rate(r.complianceRate),
+      },
+    ]);
+
+    this.addSheet(workbook, "Por local", report.byLocation, [
+      { header: "Local", width: 32, value: (r) => r.locationName },
+      { header: "Total", width: 10, value: (r) => r.total },
+      { header: "Cumplidas", width: 12, value: (r) => r.completed },
+      { header: "Vencidas", width: 12, value: (r) => r.overdue },
+      {
+        header: "Cumplimiento",
+        width: 14,
+        format: "percent",
+        value: (r) => rate(r.complianceRate),
+      },
+    ]);
+
+    this.addSheet(workbook, "Obligaciones", data.obligations, [
+      { header: "ID", width: 38, value: (o) => o.id },
+      { header: "Título", width: 40, value: (o) => o.title },
+      {
+        header: "Tipo",
+        width: 20,
+        value: (o) =>
+          OBLIGATION_TYPE_LABELS[o.type as ObligationType] ?? o.type,
+      },
+      {
+        header: "Estado",
+        width: 14,
+        value: (o) =>
+          OBLIGATION_STATUS_LABELS[o.status as ObligationStatus] ?? o.status,
+      },
+      {
+        header: "Vencimiento",
+        width: 14,
+        format: "date",
+        value: (o) => o.dueDate,
+      },
+      { header: "Local", width: 24, value: (o) => o.locationName ?? "Global" },
+      { header: "Responsable", width: 24, value: (o) => o.ownerName },
+      { header: "Evidencias", width: 12, value: (o) => o.documentsCount },
+      {
+        header: "Revisión aprobada",
+        width: 18,
+        value: (o) => (o.hasApprovedReview ? "Sí" : "No"),
+      },
+    ]);
+
+    this.addSheet(workbook, "Tareas", data.tasks, [
+      { header: "Obligación", width: 36, value: (t) => t.obligation.title },
+      { header: "Tarea", width: 36, value: (t) => t.title },
+      {
+        header: "Estado",
+        width: 14,
+        value: (t) => TASK_STATUS_LABELS[t.status],
+      },
+      {
+        header: "Vencimiento",
+        width: 14,
+        format: "date",
+        value: (t) => t.dueDate,
+      },
+      {
+        header: "Asignada a",
+        width: 24,
+        value: (t) => t.assignee?.fullName,
+      },
+      {
+        header: "Ítems hechos",
+        width: 14,
+        value: (t) => t.items.filter((i) => i.done).length,
+      },
+      { header: "Ítems totales", width: 14, value: (t) => t.items.length },
+      {
+        header: "Avance",
+        width: 10,
+        format: "percent",
+        value: (t) =>
+          t.items.length > 0
+            ? t.items.filter((i) => i.done).length / t.items.length
+            : null,
+      },
+    ]);
+
+    this.addSheet(workbook, "Documentos", data.documents, [
+      {
+        header: "Obligación",
+        width: 36,
+        value: (d) => d.obligation?.title ?? d.task?.obligation.title,
+      },
+      { header: "Tarea", width: 30, value: (d) => d.task?.title },
+      { header: "Archivo", width: 36, value: (d) => d.fileName },
+      { header: "Tipo de archivo", width: 20, value: (d) => d.mimeType },
+      {
+        header: "Tamaño (KB)",
+        width: 14,
+        format: "decimal",
+        value: (d) => d.sizeBytes / 1024,
+      },
+      {
+        header: "Subido",
+        width: 18,
+        format: "datetime",
+        value: (d) => toSheetDateTime(d.uploadedAt),
+      },
+      { header: "Subido por", width: 24, value: (d) => d.uploadedBy.fullName },
+      { header: "SHA-256", width: 70, value: (d) => d.sha256 },
+    ]);
+
+    this.addSheet(workbook, "Revisiones", data.reviews, [
+      { header: "Obligación", width: 36, value: (r) => r.obligation.title },
+      {
+        header: "Estado",
+        width: 14,
+        value: (r) => REVIEW_STATUS_LABELS[r.status],
+      },
+      { header: "Revisor", width: 24, value: (r) => r.reviewer.fullName },
+      {
+        header: "Fecha",
+        width: 18,
+        format: "datetime",
+        value: (r) => toSheetDateTime(r.createdAt),
+      },
+      { header: "Comentario", width: 60, value: (r) => r.comment },
+    ]);
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  // Sheet with a frozen header and autofilter
+  private addSheet<T>(
+    workbook: Workbook,
+    name: string,
+    rows: T[],
+    columns: SheetColumn<T>[],
+  ): void {
+    const sheet = workbook.addWorksheet(name, {
+      views: [{ state: "frozen", ySplit: 1 }],
+    });
+    sheet.columns = columns.map((column) => ({
+      header: column.header,
+      width: column.width,
+      style: column.format ? { numFmt: NUMBER_FORMATS[column.format] } : {},
+    }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: columns.length },
+    };
+
+    for (const row of rows) {
+      sheet.addRow(columns.map((column) => column.value(row) ?? null));
+    }
+  }
+}
@@ -18,11 +18,24 @@ import {
 } from "@nestjs/swagger";
 import { Role } from "@prisma/client";
 import { ReportsService } from "./reports.service";
+import { ReportSubscriptionsService } from "./report-subscriptions.service";
+import { ComplianceSnapshotsService } from "./compliance-snapshots.service";
 import {
+  ExportPdfQueryDto,
   ReportFilterDto,
   ComplianceReportDto,
   ObligationReportItemDto,
 } from "./dto/report.dto";
+import {
+  GeneratedReportDownloadDto,
+  GeneratedReportFilterDto,
+  GeneratedReportResponseDto,
+} from "./dto/report-subscription.dto";
+import {
+  ComplianceTrendDto,
+  ComplianceTrendQueryDto,
+} from "./dto/compliance-trend.dto";
+import { PaginatedResponse } from "../common/dto/pagination.dto";
 import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
 import { OrganizationGuard } from "../common/guards/organization.guard";
 import { RolesGuard } from "../common/guards/roles.guard";
@@ -34,7 +47,11 @@ import { Roles } from "../common/decorators/roles.decorator";
 @Roles(Role.OWNER, Role.ADMIN, Role.ACCOUNTANT)
 @Controller("organizations/:organizationId/reports")
 export class ReportsController {
-  constructor(private readonly reportsService: ReportsService) {}
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly subscriptionsService: ReportSubscriptionsService,
+    private readonly snapshotsService: ComplianceSnapshotsService,
+  ) {}
 
   @Get("compliance")
   @ApiOperation({ summary: "Obtener reporte de cumplimiento" })
@@ -51,6 +68,19 @@ export class ReportsController {
     return this.reportsService.getComplianceReport(organizationId, filters);
   }
 
+  @Get("trends")
+  @ApiOperation({
+    summary: "Tendencia diaria de cumplimiento y comparación mensual",
+  })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: ComplianceTrendDto })
+  async getTrends(
+    @Param("organizationId") organizationId: string,
+    @Query() query: ComplianceTrendQueryDto,
+  ): Promise<ComplianceTrendDto> {
+    return this.snapshotsService.getTrends(organizationId, query);
+  }
+
   @Get("obligations")
   @ApiOperation({ summary: "Obtener lista de obligaciones para reporte" })
   @ApiParam({ name: "organizationId", type: "string" })
@@ -83,4 +113,87 @@ export class ReportsController {
     res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
     res.send(csv);
   }
+
+  @Get("export/xlsx")
+  @ApiOperation({ summary: "Exportar reporte y detalle a Excel" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiProduces(
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  )
+  @ApiResponse({ status: 200, description: "Archivo XLSX" })
+  async exportToXlsx(
+    @Param("organizationId") organizationId: string,
+    @Query() filters: ReportFilterDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const xlsx = await this.reportsService.exportToXlsx(
+      organizationId,
+      filters,
+    );
+    const fileName = `cumplimiento_${organizationId}_${new Date().toISOString().split("T")[0]}.xlsx`;
+
+    res.setHeader(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    );
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.send(xlsx);
+  }
+
+  @Get("export/pdf")
+  @ApiOperation({
+    summary:
+      "Exportar el reporte de cumplimiento o el legajo de una obligación a PDF",
+  })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiProduces("application/pdf")
+  @ApiResponse({ status: 200, description: "Archivo PDF" })
+  @ApiResponse({ status: 404, description: "Obligación no encontrada" })
+  async exportToPdf(
+    @Param("organizationId") organizationId: string,
+    @Query() query: ExportPdfQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { obligationId, ...filters } = query;
+    const pdf = obligationId
+      ? await this.reportsService.exportDossierToPdf(
+          organizationId,
+          obligationId,
+        )
+      : await this.reportsService.exportToPdf(organizationId, filters);
+    const date = new Date().toISOString().split("T")[0];
+    const fileName = obligationId
+      ? `legajo_${obligationId}_${date}.pdf`
+      : `cumplimiento_${organizationId}_${date}.pdf`;
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.send(pdf);
+  }
+
+  @Get("generated")
+  @ApiOperation({ summary: "Historial de reportes generados" })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, description: "Reportes generados" })
+  async listGenerated(
+    @Param("organizationId") organizationId: string,
+    @Query() filters: GeneratedReportFilterDto,
+  ): Promise<PaginatedResponse<GeneratedReportResponseDto>> {
+    return this.subscriptionsService.listReports(organizationId, filters);
+  }
+
+  @Get("generated/:reportId/download")
+  @ApiOperation({
+    summary: "Obtener enlace de descarga de un reporte generado",
+  })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "reportId", type: "string" })
+  @ApiResponse({ status: 200, type: GeneratedReportDownloadDto })
+  @ApiResponse({ status: 404, description: "Reporte no encontrado" })
+  async downloadGenerated(
+    @Param("organizationId") organizationId: string,
+    @Param("reportId") reportId: string,
+  ): Promise<GeneratedReportDownloadDto> {
+    return this.subscriptionsService.getDownloadUrl(organizationId, reportId);
+  }
 }
@@ -1,10 +1,28 @@
 import { Module } from "@nestjs/common";
 import { ReportsController } from "./reports.controller";
 import { ReportsService } from "./reports.service";
+import { ReportPdfService } from "./report-pdf.service";
+import { ReportXlsxService } from "./report-xlsx.service";
+import { ReportSubscriptionsController } from "./report-subscriptions.controller";
+import { ReportSubscriptionsService } from "./report-subscriptions.service";
+import { ComplianceSnapshotsService } from "./compliance-snapshots.service";
+import { ObligationsModule } from "../obligations/obligations.module";
+import { JurisdictionsModule } from "../jurisdictions/jurisdictions.module";
 
 @Module({
-  controllers: [ReportsController],
-  providers: [ReportsService],
-  exports: [ReportsService],
+  imports: [ObligationsModule, JurisdictionsModule],
+  controllers: [ReportsController, ReportSubscriptionsController],
+  providers: [
+    ReportsService,
+    ReportPdfService,
+    ReportXlsxService,
+    ReportSubscriptionsService,
+    ComplianceSnapshotsService,
+  ],
+  exports: [
+    ReportsService,
+    ReportSubscriptionsService,
+    ComplianceSnapshotsService,
+  ],
 })
 export class ReportsModule {}
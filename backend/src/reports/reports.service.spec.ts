@@ -0,0 +1,331 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { NotFoundException } from "@nestjs/common";
+import { ReportsService } from "./reports.service";
+import { Workbook } from "exceljs";
+import { ReportPdfService } from "./report-pdf.service";
+import { ReportXlsxService, toSheetDateTime } from "./report-xlsx.service";
+
+const mockPrismaService = {
+  organization: {
+    findUnique: vi.fn(),
+  },
+  obligation: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+  },
+  document: {
+    findMany: vi.fn(),
+  },
+  task: {
+    findMany: vi.fn(),
+  },
+  review: {
+    findMany: vi.fn(),
+  },
+  auditEvent: {
+    findMany: vi.fn(),
+  },
+};
+
+const obligation = {
+  id: "obl-1",
+  organizationId: "org-1",
+  title: "Habilitación comercial",
+  description: "Renovación anual",
+  type: "PERMIT",
+  status: "IN_PROGRESS",
+  dueDate: new Date("2025-07-21T00:00:00Z"),
+  nominalDueDate: new Date("2025-07-20T00:00:00Z"),
+  recurrenceRule: "FREQ=YEARLY",
+  requiresReview: true,
+  requiredEvidenceCount: 2,
+  organization: { name: "Panadería Sur", cuit: "30-71234567-8" },
+  owner: { fullName: "Ana Gómez", email: "ana@test.com" },
+  location: { name: "Local Centro" },
+  tasks: [
+    {
+      id: "task-1",
+      title: "Juntar planos",
+      status: "IN_PROGRESS",
+      dueDate: new Date("2025-07-15T00:00:00Z"),
+      assignee: { fullName: "Luis" },
+      items: [
+        { description: "Plano de planta", done: true },
+        { description: "Plano eléctrico", done: false },
+      ],
+    },
+  ],
+  reviews: [
+    {
+      id: "rev-1",
+      status: "REJECTED",
+      comment: "Falta el plano eléctrico",
+      createdAt: new Date("2025-07-10T15:00:00Z"),
+      reviewer: { fullName: "Contadora" },
+    },
+  ],
+};
+
+const documents = [
+  {
+    id: "doc-1",
+    fileName: "plano.pdf",
+    fileKey: "org/org-1/docs/plano.pdf",
+    sizeBytes: 204800,
+    sha256: "b".repeat(64),
+    uploadedAt: new Date("2025-07-09T12:00:00Z"),
+    uploadedBy: { fullName: "Luis" },
+  },
+  {
+    id: "doc-2",
+    fileName: "habilitacion-anterior.pdf",
+    fileKey: "org/org-1/docs/anterior.pdf",
+    sizeBytes: 102400,
+    sha256: null,
+    uploadedAt: new Date("2025-07-01T12:00:00Z"),
+    uploadedBy: { fullName: "Ana Gómez" },
+  },
+];
+
+describe("ReportsService", () => {
+  let service: ReportsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ReportsService(
+      mockPrismaService as any,
+      new ReportPdfService(),
+      new ReportXlsxService(),
+    );
+    mockPrismaService.obligation.findFirst.mockResolvedValue(obligation);
+    mockPrismaService.document.findMany.mockResolvedValue(
+      documents.map((d) => ({ ...d })),
+    );
+    mockPrismaService.auditEvent.findMany.mockResolvedValue([
+      {
+        action: "obligation.created",
+        entityType: "Obligation",
+        createdAt: new Date("2025-06-01T10:00:00Z"),
+        user: { fullName: "Ana Gómez" },
+      },
+    ]);
+  });
+
+  describe("getObligationDossier", () => {
+    it("should collect the evidence and audit trail of the obligation and its tasks", async () => {
+      const dossier = await service.getObligationDossier("org-1", "obl-1");
+
+      expect(dossier.organization).toEqual({
+        name: "Panadería Sur",
+        cuit: "30-71234567-8",
+      });
+      expect(mockPrismaService.document.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            organizationId: "org-1",
+            OR: [{ obligationId: "obl-1" }, { taskId: { in: ["task-1"] } }],
+          },
+        }),
+      );
+      expect(mockPrismaService.auditEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            organizationId: "org-1",
+            entityId: { in: ["obl-1", "task-1", "doc-1", "doc-2", "rev-1"] },
+          },
+        }),
+      );
+    });
+
+    it("should leave the evidence without a hash to the documents job", async () => {
+      const dossier = await service.getObligationDossier("org-1", "obl-1");
+
+      expect(dossier.documents.map((d) => d.sha256)).toEqual([
+        "b".repeat(64),
+        null,
+      ]);
+    });
+
+    it("should keep the newest audit events and flag the older ones", async () => {
+      const events = Array.from({ length: 501 }, (_, i) => ({
+        id: `event-${i}`,
+        action: "task.updated",
+        entityType: "Task",
+        createdAt: new Date(Date.UTC(2025, 6, 1, 0, 501 - i)),
+        user: null,
+      }));
+      mockPrismaService.auditEvent.findMany.mockResolvedValue(events);
+
+      const dossier = await service.getObligationDossier("org-1", "obl-1");
+
+      expect(mockPrismaService.auditEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: { createdAt: "desc" }, take: 501 }),
+      );
+      expect(dossier.auditEventsTruncated).toBe(true);
+      expect(dossier.auditEvents).toHaveLength(500);
+      // Oldest first, without the event left out
+      expect(dossier.auditEvents[0].id).toBe("event-499");
+      expect(dossier.auditEvents[499].id).toBe("event-0");
+    });
+
+    it("should fail for obligations of another organization", async () => {
+      mockPrismaService.obligation.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.getObligationDossier("org-2", "obl-1"),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe("PDF export", () => {
+    it("should render the dossier", async () => {
+      const pdf = await service.exportDossierToPdf("org-1", "obl-1");
+
+      expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+      expect(pdf.length).toBeGreaterThan(1000);
+    });
+
+    it("should render the compliance report of the organization", async () => {
+      mockPrismaService.organization.findUnique.mockResolvedValue({
+        name: "Panadería Sur",
+        cuit: "30-71234567-8",
+      });
+      mockPrismaService.obligation.findMany.mockResolvedValue(
+        Array.from({ length: 60 }, (_, i) => ({
+          ...obligation,
+          id: `obl-${i}`,
+          locationId: "loc-1",
+          status: i % 3 === 0 ? "COMPLETED" : "PENDING",
+          reviews: [],
+          _count: { documents: 1 },
+        })),
+      );
+
+      const pdf = await service.exportToPdf("org-1", {});
+
+      expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+      // 60 rows don't fit on one page
+      const pages = pdf.toString("latin1").match(/\/Type \/Page\b/g)!;
+      expect(pages.length).toBeGreaterThan(1);
+    });
+
+    it("should fail for unknown organizations", async () => {
+      mockPrismaService.organization.findUnique.mockResolvedValue(null);
+
+      await expect(service.exportToPdf("org-x", {})).rejects.toThrow(
+        "Organización no encontrada",
+      );
+    });
+  });
+
+  describe("exportToXlsx", () => {
+    beforeEach(() => {
+      mockPrismaService.organization.findUnique.mockResolvedValue({
+        name: "Panadería Sur",
+        cuit: "30-71234567-8",
+      });
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        {
+          ...obligation,
+          locationId: "loc-1",
+          reviews: [],
+          _count: { documents: 2 },
+        },
+      ]);
+      mockPrismaService.task.findMany.mockResolvedValue(
+        obligation.tasks.map((t) => ({
+          ...t,
+          obligation: { title: obligation.title },
+        })),
+      );
+      mockPrismaService.document.findMany.mockResolvedValue(
+        documents.map((d) => ({
+          ...d,
+          mimeType: "application/pdf",
+          obligation: { title: obligation.title },
+          task: null,
+        })),
+      );
+      mockPrismaService.review.findMany.mockResolvedValue(
+        obligation.reviews.map((r) => ({
+          ...r,
+          obligation: { title: obligation.title },
+        })),
+      );
+    });
+
+    it("should apply the filters to every detail sheet", async () => {
+      await service.exportToXlsx("org-1", {
+        fromDate: new Date("2025-07-01"),
+        toDate: new Date("2025-07-31"),
+        locationId: "loc-1",
+      });
+
+      const obligationWhere = {
+        organizationId: "org-1",
+        dueDate: {
+          gte: new Date("2025-07-01"),
+          lte: new Date("2025-07-31"),
+        },
+        locationId: "loc-1",
+      };
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { obligation: obligationWhere } }),
+      );
+      expect(mockPrismaService.review.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { obligation: obligationWhere } }),
+      );
+      expect(mockPrismaService.document.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            organizationId: "org-1",
+            OR: [
+              { obligation: obligationWhere },
+              { task: { obligation: obligationWhere } },
+            ],
+          },
+        }),
+      );
+    });
+
+    it("should write one sheet per section with typed dates", async () => {
+      const xlsx = await service.exportToXlsx("org-1", {});
+
+      const workbook = new Workbook();
+      await workbook.xlsx.load(xlsx as any);
+
+      expect(workbook.worksheets.map((w) => w.name)).toEqual([
+        "Resumen",
+        "Por tipo",
+        "Por local",
+        "Obligaciones",
+        "Tareas",
+        "Documentos",
+        "Revisiones",
+      ]);
+
+      const obligations = workbook.getWorksheet("Obligaciones")!;
+      expect(obligations.getRow(2).getCell(2).value).toBe(
+        "Habilitación comercial",
+      );
+      expect(obligations.getRow(2).getCell(5).value).toEqual(
+        new Date("2025-07-21T00:00:00Z"),
+      );
+      expect(obligations.getRow(2).getCell(5).numFmt).toBe("dd/mm/yyyy");
+
+      const tasks = workbook.getWorksheet("Tareas")!;
+      expect(tasks.getRow(2).getCell(3).value).toBe("En curso");
+      expect(tasks.getRow(2).getCell(8).value).toBe(0.5);
+
+      const docs = workbook.getWorksheet("Documentos")!;
+      expect(docs.getRow(2).getCell(8).value).toBe("b".repeat(64));
+      expect(docs.getRow(3).getCell(8).value).toBeNull();
+    });
+  });
+
+  it("should show timestamps in Argentina time", () => {
+    expect(toSheetDateTime(new Date("2025-07-10T15:00:00Z"))).toEqual(
+      new Date("2025-07-10T12:00:00Z"),
+    );
+  });
+});
@@ -2,19 +2,74 @@ import { Injectable, NotFoundException } from "@nestjs/common";
 import { PrismaService } from "../common/prisma/prisma.service";
 import {
   Prisma,
+  AuditEvent,
+  Document,
+  Obligation,
   ObligationStatus,
   ObligationType,
+  Review,
   ReviewStatus,
+  Task,
+  TaskItem,
 } from "@prisma/client";
 import {
   ReportFilterDto,
   ComplianceReportDto,
   ObligationReportItemDto,
 } from "./dto/report.dto";
+import { ReportPdfService } from "./report-pdf.service";
+import { ReportXlsxService } from "./report-xlsx.service";
+
+const DOSSIER_AUDIT_LIMIT = 500;
+
+// Everything that goes into an obligation's compliance dossier
+export interface ObligationDossier {
+  organization: { name: string; cuit: string };
+  obligation: Obligation & {
+    owner: { fullName: string; email: string };
+    location: { name: string } | null;
+  };
+  tasks: Array<
+    Task & { assignee: { fullName: string } | null; items: TaskItem[] }
+  >;
+  documents: Array<Document & { uploadedBy: { fullName: string } }>;
+  reviews: Array<Review & { reviewer: { fullName: string } }>;
+  // The most recent ones; auditEventsTruncated means there are older ones
+  auditEvents: Array<AuditEvent & { user: { fullName: string } | null }>;
+  auditEventsTruncated: boolean;
+}
+
+// Sheets of the compliance spreadsheet
+export interface ComplianceWorkbook {
+  organization: { name: string; cuit: string };
+  report: ComplianceReportDto;
+  obligations: ObligationReportItemDto[];
+  tasks: Array<
+    Task & {
+      obligation: { title: string };
+      assignee: { fullName: string } | null;
+      items: Array<{ done: boolean }>;
+    }
+  >;
+  documents: Array<
+    Document & {
+      uploadedBy: { fullName: string };
+      obligation: { title: string } | null;
+      task: { title: string; obligation: { title: string } } | null;
+    }
+  >;
+  reviews: Array<
+    Review & { obligation: { title: string }; reviewer: { fullName: string } }
+  >;
+}
 
 @Injectable()
 export class ReportsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private reportPdfService: ReportPdfService,
+    private reportXlsxService: ReportXlsxService,
+  ) {}
 
   async getComplianceReport(
     organizationId: string,
@@ -174,24 +229,8 @@ export class ReportsService {
     organizationId: string,
     filters: ReportFilterDto,
   ): Promise<ObligationReportItemDto[]> {
-    const where: Prisma.ObligationWhereInput = { organizationId };
-
-    if (filters.fromDate || filters.toDate) {
-      where.dueDate = {};
-      if (filters.fromDate) {
-        where.dueDate.gte = filters.fromDate;
-      }
-      if (filters.toDate) {
-        where.dueDate.lte = filters.toDate;
-      }
-    }
-
-    if (filters.locationId) {
-      where.locationId = filters.locationId;
-    }
-
     const obligations = await this.prisma.obligation.findMany({
-      where,
+      where: this.obligationsWhere(organizationId, filters),
       include: {
         location: { select: { name: true } },
         owner: { select: { fullName: true } },
@@ -252,6 +291,221 @@ export class ReportsService {
     return csv;
   }
 
+  async exportToPdf(
+    organizationId: string,
+    filters: ReportFilterDto,
+  ): Promise<Buffer> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { name: true, cuit: true },
+    });
+
+    if (!organization) {
+      throw new NotFoundException("Organización no encontrada");
+    }
+
+    const report = await this.getComplianceReport(organizationId, filters);
+    const obligations = await this.getObligationsReport(organizationId, {
+      ...filters,
+      fromDate: filters.fromDate ?? report.period.from,
+      toDate: filters.toDate ?? report.period.to,
+    });
+
+    return this.reportPdfService.renderComplianceReport(
+      organization,
+      report,
+      obligations,
+    );
+  }
+
+  async exportDossierToPdf(
+    organizationId: string,
+    obligationId: string,
+  ): Promise<Buffer> {
+    const dossier = await this.getObligationDossier(
+      organizationId,
+      obligationId,
+    );
+    return this.reportPdfService.renderDossier(dossier);
+  }
+
+  /**
+   * Spreadsheet with the compliance report and the period's detail. The task,
+   * evidence and review sheets cover the same obligations as the obligations
+   * sheet.
+   */
+  async exportToXlsx(
+    organizationId: string,
+    filters: ReportFilterDto,
+  ): Promise<Buffer> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { name: true, cuit: true },
+    });
+
+    if (!organization) {
+      throw new NotFoundException("Organización no encontrada");
+    }
+
+    const report = await this.getComplianceReport(organizationId, filters);
+    const periodFilters = {
+      ...filters,
+      fromDate: filters.fromDate ?? report.period.from,
+      toDate: filters.toDate ?? report.period.to,
+    };
+    const obligations = await this.getObligationsReport(
+      organizationId,
+      periodFilters,
+    );
+    const obligationWhere = this.obligationsWhere(
+      organizationId,
+      periodFilters,
+    );
+
+    const tasks = await this.prisma.task.findMany({
+      where: { obligation: obligationWhere },
+      include: {
+        obligation: { select: { title: true } },
+        assignee: { select: { fullName: true } },
+        items: { select: { done: true } },
+      },
+      orderBy: [{ obligation: { dueDate: "asc" } }, { createdAt: "asc" }],
+    });
+
+    const documents = await this.prisma.document.findMany({
+      where: {
+        organizationId,
+        OR: [
+          { obligation: obligationWhere },
+          { task: { obligation: obligationWhere } },
+        ],
+      },
+      include: {
+        uploadedBy: { select: { fullName: true } },
+        obligation: { select: { title: true } },
+        task: {
+          select: { title: true, obligation: { select: { title: true } } },
+        },
+      },
+      orderBy: { uploadedAt: "asc" },
+    });
+
+    const reviews = await this.prisma.review.findMany({
+      where: { obligation: obligationWhere },
+      include: {
+        obligation: { select: { title: true } },
+        reviewer: { select: { fullName: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return this.reportXlsxService.renderComplianceWorkbook({
+      organization,
+      report,
+      obligations,
+      tasks,
+      documents,
+      reviews,
+    });
+  }
+
+  /**
+   * Gathers the dossier data: checklist, evidence (its own and its tasks'),
+   * reviews and audit events of all those entities. Evidence without a hash
+   * gets one from the documents job.
+   */
+  async getObligationDossier(
+    organizationId: string,
+    obligationId: string,
+  ): Promise<ObligationDossier> {
+    const obligation = await this.prisma.obligation.findFirst({
+      where: { id: obligationId, organizationId },
+      include: {
+        organization: { select: { name: true, cuit: true } },
+        owner: { select: { fullName: true, email: true } },
+        location: { select: { name: true } },
+        tasks: {
+          include: {
+            assignee: { select: { fullName: true } },
+            items: { orderBy: { order: "asc" } },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        reviews: {
+          include: { reviewer: { select: { fullName: true } } },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!obligation) {
+      throw new NotFoundException("Obligación no encontrada");
+    }
+
+    const { organization, tasks, reviews, ...data } = obligation;
+    const taskIds = tasks.map((t) => t.id);
+
+    const documents = await this.prisma.document.findMany({
+      where: {
+        organizationId,
+        OR: [{ obligationId }, { taskId: { in: taskIds } }],
+      },
+      include: { uploadedBy: { select: { fullName: true } } },
+      orderBy: { uploadedAt: "asc" },
+    });
+
+    const auditEvents = await this.prisma.auditEvent.findMany({
+      where: {
+        organizationId,
+        entityId: {
+          in: [
+            obligationId,
+            ...taskIds,
+            ...documents.map((d) => d.id),
+            ...reviews.map((r) => r.id),
+          ],
+        },
+      },
+      include: { user: { select: { fullName: true } } },
+      orderBy: { createdAt: "desc" },
+      take: DOSSIER_AUDIT_LIMIT + 1,
+    });
+
+    return {
+      organization,
+      obligation: data,
+      tasks,
+      documents,
+      reviews,
+      auditEvents: auditEvents.slice(0, DOSSIER_AUDIT_LIMIT).reverse(),
+      auditEventsTruncated: auditEvents.length > DOSSIER_AUDIT_LIMIT,
+    };
+  }
+
+  // Obligations due in the requested range
+  private obligationsWhere(
+    organizationId: string,
+    filters: ReportFilterDto,
+  ): Prisma.ObligationWhereInput {
+    const where: Prisma.ObligationWhereInput = { organizationId };
+
+    if (filters.fromDate || filters.toDate) {
+      where.dueDate = {};
+      if (filters.fromDate) {
+        where.dueDate.gte = filters.fromDate;
+      }
+      if (filters.toDate) {
+        where.dueDate.lte = filters.toDate;
+      }
+    }
+
+    if (filters.locationId) {
+      where.locationId = filters.locationId;
+    }
+
+    return where;
+  }
+
   /**
    * Sanitize CSV field to prevent formula injection attacks
    * Prefixes dangerous characters with a single quote
@@ -1,8 +1,10 @@
 import { Module } from "@nestjs/common";
 import { ReviewsController } from "./reviews.controller";
 import { ReviewsService } from "./reviews.service";
+import { NotificationsModule } from "../notifications/notifications.module";
 
 @Module({
+  imports: [NotificationsModule],
   controllers: [ReviewsController],
   providers: [ReviewsService],
   exports: [ReviewsService],
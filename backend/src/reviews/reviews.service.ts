@@ -8,6 +8,8 @@ import { PrismaService } from "../common/prisma/prisma.service";
 import { Prisma, ReviewStatus, Role, ObligationStatus } from "@prisma/client";
 import { AuditService } from "../audit/audit.service";
 import { AuditActions } from "../audit/dto/audit.dto";
+import { diffEntity } from "../audit/audit-diff";
+import { NotificationsService } from "../notifications/notifications.service";
 import { CreateReviewDto, ReviewResponseDto } from "./dto/review.dto";
 import {
   PaginationDto,
@@ -27,6 +29,7 @@ export class ReviewsService {
   constructor(
     private prisma: PrismaService,
     private auditService: AuditService,
+    private notificationsService: NotificationsService,
   ) {}
 
   async create(
@@ -85,10 +88,23 @@ export class ReviewsService {
 
     // If rejected, set obligation status back to IN_PROGRESS
     if (dto.status === ReviewStatus.REJECTED) {
-      await this.prisma.obligation.update({
+      const reopened = await this.prisma.obligation.update({
         where: { id: dto.obligationId },
         data: { status: ObligationStatus.IN_PROGRESS },
       });
+      await this.auditService.log(
+        organizationId,
+        AuditActions.OBLIGATION_STATUS_CHANGED,
+        "Obligation",
+        obligation.id,
+        reviewerUserId,
+        {
+          from: obligation.status,
+          to: reopened.status,
+          reviewId: review.id,
+          changes: diffEntity("Obligation", obligation, reopened),
+        },
+      );
     }
 
     const action =
@@ -111,6 +127,17 @@ export class ReviewsService {
       },
     );
 
+    this.notificationsService.dispatch(
+      this.notificationsService.notifyReviewResult(
+        organizationId,
+        obligation,
+        dto.status,
+        reviewerUserId,
+        dto.comment,
+      ),
+      `review ${review.id}`,
+    );
+
     return this.enrichReview(review);
   }
 
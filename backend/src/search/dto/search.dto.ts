@@ -0,0 +1,70 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { Type } from "class-transformer";
+
+export enum SearchResultType {
+  OBLIGATION = "OBLIGATION",
+  TASK = "TASK",
+  DOCUMENT = "DOCUMENT",
+  REVIEW = "REVIEW",
+  TEMPLATE = "TEMPLATE",
+}
+
+export class SearchQueryDto {
+  @ApiProperty({ description: "Texto a buscar", example: "habilitacion" })
+  @IsString()
+  @MaxLength(200)
+  q: string;
+
+  @ApiPropertyOptional({ enum: SearchResultType })
+  @IsOptional()
+  @IsEnum(SearchResultType)
+  type?: SearchResultType;
+
+  @ApiPropertyOptional({ default: 20, minimum: 1, maximum: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
+
+export class SearchResultDto {
+  @ApiProperty({ enum: SearchResultType })
+  type: SearchResultType;
+
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiPropertyOptional({ description: "Fragmento del texto encontrado" })
+  snippet?: string;
+
+  @ApiPropertyOptional({ description: "Obligacion a la que pertenece" })
+  obligationId?: string;
+
+  @ApiPropertyOptional()
+  obligationTitle?: string;
+
+  @ApiProperty({ description: "Relevancia, mayor es mejor" })
+  rank: number;
+}
+
+export class SearchResponseDto {
+  @ApiProperty()
+  query: string;
+
+  @ApiProperty({ type: [SearchResultDto] })
+  results: SearchResultDto[];
+}
@@ -0,0 +1,33 @@
+import { Controller, Get, Param, Query, UseGuards } from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from "@nestjs/swagger";
+import { SearchService } from "./search.service";
+import { SearchQueryDto, SearchResponseDto } from "./dto/search.dto";
+import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
+import { OrganizationGuard } from "../common/guards/organization.guard";
+
+@ApiTags("search")
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, OrganizationGuard)
+@Controller("organizations/:organizationId/search")
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: "Buscar en obligaciones, tareas, documentos y plantillas",
+  })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({ status: 200, type: SearchResponseDto })
+  async search(
+    @Param("organizationId") organizationId: string,
+    @Query() query: SearchQueryDto,
+  ): Promise<SearchResponseDto> {
+    return this.searchService.search(organizationId, query);
+  }
+}
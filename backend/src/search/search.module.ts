@@ -0,0 +1,9 @@
+import { Module } from "@nestjs/common";
+import { SearchController } from "./search.controller";
+import { SearchService } from "./search.service";
+
+@Module({
+  controllers: [SearchController],
+  providers: [SearchService],
+})
+export class SearchModule {}
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { SearchService, toPrefixQuery } from "./search.service";
+import { SearchResultType } from "./dto/search.dto";
+
+const mockPrismaService = {
+  $queryRaw: vi.fn(),
+};
+
+describe("SearchService", () => {
+  let service: SearchService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new SearchService(mockPrismaService as any);
+  });
+
+  describe("toPrefixQuery", () => {
+    it("should match every term by prefix", () => {
+      expect(toPrefixQuery("Habilitación  munic")).toBe(
+        "habilitación:* & munic:*",
+      );
+    });
+
+    it("should drop tsquery operators", () => {
+      expect(toPrefixQuery("iibb | !(x) & 'y':*")).toBe("iibb:* & x:* & y:*");
+      expect(toPrefixQuery("  !&|  ")).toBeNull();
+    });
+  });
+
+  it("should not query the database without terms", async () => {
+    const result = await service.search("org-123", { q: " ¿? " });
+
+    expect(result).toEqual({ query: "¿?", results: [] });
+    expect(mockPrismaService.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it("should scope the query to the organization and map the results", async () => {
+    mockPrismaService.$queryRaw.mockResolvedValue([
+      {
+        type: "OBLIGATION",
+        id: "obl-1",
+        title: "Habilitación municipal",
+        snippet: null,
+        obligation_id: "obl-1",
+        obligation_title: "Habilitación municipal",
+        rank: 0.6,
+      },
+      {
+        type: "TEMPLATE",
+        id: "tpl-1",
+        title: "Renovación de habilitación",
+        snippet: "Presentar libre deuda",
+        obligation_id: null,
+        obligation_title: null,
+        rank: 0.2,
+      },
+    ]);
+
+    const result = await service.search("org-123", {
+      q: "habilitacion",
+      type: SearchResultType.OBLIGATION,
+      limit: 5,
+    });
+
+    const [strings, ...values] = mockPrismaService.$queryRaw.mock.calls[0];
+    // No stemming: the query is made of prefixes
+    expect(strings.join("")).toContain("to_tsquery('simple'");
+    expect(strings.join("")).not.toContain("'spanish'");
+    // Documents attached to a task link to the task's obligation
+    expect(strings.join("")).toContain(
+      "coalesce(d.obligation_id, dt.obligation_id)",
+    );
+    expect(values).toContain("habilitacion:*");
+    expect(values).toContain("org-123");
+    expect(values).toContain(SearchResultType.OBLIGATION);
+    expect(values).toContain(5);
+    expect(result.results).toEqual([
+      {
+        type: "OBLIGATION",
+        id: "obl-1",
+        title: "Habilitación municipal",
+        snippet: undefined,
+        obligationId: "obl-1",
+        obligationTitle: "Habilitación municipal",
+        rank: 0.6,
+      },
+      {
+        type: "TEMPLATE",
+        id: "tpl-1",
+        title: "Renovación de habilitación",
+        snippet: "Presentar libre deuda",
+        obligationId: undefined,
+        obligationTitle: undefined,
+        rank: 0.2,
+      },
+    ]);
+  });
+});
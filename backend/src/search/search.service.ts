@@ -0,0 +1,190 @@
+import { Injectable } from "@nestjs/common";
+import { PrismaService } from "../common/prisma/prisma.service";
+import {
+  SearchQueryDto,
+  SearchResponseDto,
+  SearchResultType,
+} from "./dto/search.dto";
+
+const DEFAULT_LIMIT = 20;
+const MAX_TERMS = 8;
+const SNIPPET_LENGTH = 200;
+
+interface SearchRow {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  snippet: string | null;
+  obligation_id: string | null;
+  obligation_title: string | null;
+  rank: number;
+}
+
+/**
+ * Turns the input into a prefix query ("habil munic" finds "Habilitación
+ * municipal"). Only letters and digits are kept, so the text can't inject
+ * tsquery operators.
+ */
+export function toPrefixQuery(text: string): string | null {
+  const terms = (text.match(/[\p{L}\p{N}]+/gu) ?? []).slice(0, MAX_TERMS);
+  return terms.length > 0
+    ? terms.map((term) => `${term.toLowerCase()}:*`).join(" & ")
+    : null;
+}
+
+@Injectable()
+export class SearchService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Accent-insensitive full-text search over obligations, tasks and their
+   * items, documents, review comments and the templates of the
+   * organization's jurisdiction.
+   *
+   * Uses the `simple` configuration: queries are prefixes of what is typed,
+   * and with the Spanish dictionary stem "habilitac" would no longer match
+   * "habilitacion" (stem "habilit").
+   *
+   * Vectors are computed on each query, without a GIN index: each branch
+   * first filters by organization (or jurisdiction, for templates) through
+   * its indexes, so only one organization's rows are read, at most a few
+   * thousand. If that grows, the way forward is an IMMUTABLE unaccent
+   * wrapper with generated tsvector columns and GIN indexes.
+   */
+  async search(
+    organizationId: string,
+    dto: SearchQueryDto,
+  ): Promise<SearchResponseDto> {
+    const query = dto.q.trim();
+    const prefixQuery = toPrefixQuery(query);
+    if (!prefixQuery) {
+      return { query, results: [] };
+    }
+
+    const type = dto.type ?? null;
+    const limit = dto.limit ?? DEFAULT_LIMIT;
+
+    // Titles weigh more than descriptions, items and comments.
+    const rows = await this.prisma.$queryRaw<SearchRow[]>`
+      WITH search AS (
+        SELECT to_tsquery('simple', unaccent(${prefixQuery})) AS query
+      )
+      SELECT * FROM (
+        SELECT 'OBLIGATION' AS type, o.id, o.title,
+          left(o.description, ${SNIPPET_LENGTH}::int) AS snippet,
+          o.id AS obligation_id, o.title AS obligation_title,
+          ts_rank(doc.vector, search.query) AS rank
+        FROM obligations o
+        CROSS JOIN search
+        CROSS JOIN LATERAL (
+          SELECT
+            setweight(to_tsvector('simple', unaccent(o.title)), 'A') ||
+            setweight(to_tsvector('simple', unaccent(coalesce(o.description, ''))), 'B')
+            AS vector
+        ) doc
+        WHERE o.organization_id = ${organizationId}::uuid
+          AND doc.vector @@ search.query
+
+        UNION ALL
+
+        SELECT 'TASK', t.id, t.title,
+          left(coalesce(t.description, items.text), ${SNIPPET_LENGTH}::int),
+          o.id, o.title,
+          ts_rank(doc.vector, search.query)
+        FROM tasks t
+        JOIN obligations o ON o.id = t.obligation_id
+        CROSS JOIN search
+        CROSS JOIN LATERAL (
+          SELECT string_agg(ti.description, ' ') AS text
+          FROM task_items ti WHERE ti.task_id = t.id
+        ) items
+        CROSS JOIN LATERAL (
+          SELECT
+            setweight(to_tsvector('simple', unaccent(t.title)), 'A') ||
+            setweight(to_tsvector('simple', unaccent(coalesce(t.description, ''))), 'B') ||
+            setweight(to_tsvector('simple', unaccent(coalesce(items.text, ''))), 'C')
+            AS vector
+        ) doc
+        WHERE o.organization_id = ${organizationId}::uuid
+          AND doc.vector @@ search.query
+
+        UNION ALL
+
+        SELECT 'DOCUMENT', d.id, d.file_name, NULL,
+          o.id, o.title,
+          ts_rank(doc.vector, search.query)
+        FROM documents d
+        LEFT JOIN tasks dt ON dt.id = d.task_id
+        LEFT JOIN obligations o ON o.id = coalesce(d.obligation_id, dt.obligation_id)
+        CROSS JOIN search
+        CROSS JOIN LATERAL (
+          -- "acta_habilitacion-2025.pdf" se indexa como palabras sueltas
+          SELECT setweight(
+            to_tsvector('simple', unaccent(regexp_replace(d.file_name, '[_.-]+', ' ', 'g'))),
+            'A'
+          ) AS vector
+        ) doc
+        WHERE d.organization_id = ${organizationId}::uuid
+          AND doc.vector @@ search.query
+
+        UNION ALL
+
+        SELECT 'REVIEW', r.id, o.title,
+          left(r.comment, ${SNIPPET_LENGTH}::int),
+          o.id, o.title,
+          ts_rank(doc.vector, search.query)
+        FROM reviews r
+        JOIN obligations o ON o.id = r.obligation_id
+        CROSS JOIN search
+        CROSS JOIN LATERAL (
+          SELECT setweight(to_tsvector('simple', unaccent(r.comment)), 'B')
+            AS vector
+        ) doc
+        WHERE o.organization_id = ${organizationId}::uuid
+          AND r.comment IS NOT NULL
+          AND doc.vector @@ search.query
+
+        UNION ALL
+
+        SELECT 'TEMPLATE', tpl.id, tpl.title,
+          left(coalesce(tpl.description, items.text), ${SNIPPET_LENGTH}::int),
+          NULL, NULL,
+          ts_rank(doc.vector, search.query)
+        FROM obligation_templates tpl
+        JOIN organizations org ON org.jurisdiction_id = tpl.jurisdiction_id
+        CROSS JOIN search
+        CROSS JOIN LATERAL (
+          SELECT string_agg(ci.description, ' ') AS text
+          FROM checklist_template_items ci
+          WHERE ci.obligation_template_id = tpl.id
+        ) items
+        CROSS JOIN LATERAL (
+          SELECT
+            setweight(to_tsvector('simple', unaccent(tpl.title)), 'A') ||
+            setweight(to_tsvector('simple', unaccent(coalesce(tpl.description, ''))), 'B') ||
+            setweight(to_tsvector('simple', unaccent(coalesce(items.text, ''))), 'C')
+            AS vector
+        ) doc
+        WHERE org.id = ${organizationId}::uuid
+          AND tpl.is_active
+          AND doc.vector @@ search.query
+      ) results
+      WHERE ${type}::text IS NULL OR results.type = ${type}::text
+      ORDER BY rank DESC, title ASC
+      LIMIT ${limit}
+    `;
+
+    return {
+      query,
+      results: rows.map((row) => ({
+        type: row.type,
+        id: row.id,
+        title: row.title,
+        snippet: row.snippet ?? undefined,
+        obligationId: row.obligation_id ?? undefined,
+        obligationTitle: row.obligation_title ?? undefined,
+        rank: Number(row.rank),
+      })),
+    };
+  }
+}
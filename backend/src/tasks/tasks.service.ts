@@ -7,6 +7,8 @@ import { PrismaService } from "../common/prisma/prisma.service";
 import { Prisma, TaskStatus } from "@prisma/client";
 import { AuditService } from "../audit/audit.service";
 import { AuditActions } from "../audit/dto/audit.dto";
+import { diffEntity } from "../audit/audit-diff";
+import { NotificationsService } from "../notifications/notifications.service";
 import {
   CreateTaskDto,
   UpdateTaskDto,
@@ -34,6 +36,7 @@ export class TasksService {
   constructor(
     private prisma: PrismaService,
     private auditService: AuditService,
+    private notificationsService: NotificationsService,
   ) {}
 
   private calculateProgress(items: { done: boolean }[]): number {
@@ -114,9 +117,19 @@ export class TasksService {
         title: task.title,
         obligationId: task.obligationId,
         assignedToUserId: task.assignedToUserId ?? undefined,
+        changes: diffEntity("Task", null, task),
       },
     );
 
+    this.notificationsService.dispatch(
+      this.notificationsService.notifyTaskAssigned(
+        organizationId,
+        task,
+        userId,
+      ),
+      `assignment of task ${task.id}`,
+    );
+
     return this.enrichTask(task);
   }
 
@@ -240,9 +253,20 @@ export class TasksService {
       "Task",
       taskId,
       userId,
-      { changes: dto },
+      { changes: diffEntity("Task", existing, task) },
     );
 
+    if (task.assignedToUserId !== existing.assignedToUserId) {
+      this.notificationsService.dispatch(
+        this.notificationsService.notifyTaskAssigned(
+          organizationId,
+          task,
+          userId,
+        ),
+        `assignment of task ${task.id}`,
+      );
+    }
+
     return this.enrichTask(task);
   }
 
@@ -272,7 +296,11 @@ export class TasksService {
       "Task",
       taskId,
       userId,
-      { title: task.title, obligationId: task.obligationId },
+      {
+        title: task.title,
+        obligationId: task.obligationId,
+        changes: diffEntity("Task", task, null),
+      },
     );
   }
 
@@ -314,7 +342,10 @@ export class TasksService {
       "Task",
       taskId,
       userId,
-      { taskItem: { action: "created", itemId: item.id } },
+      {
+        taskItem: { action: "created", itemId: item.id },
+        changes: diffEntity("TaskItem", null, item),
+      },
     );
 
     return item;
@@ -357,7 +388,10 @@ export class TasksService {
       "Task",
       taskId,
       userId,
-      { taskItem: { action: "updated", itemId }, changes: dto },
+      {
+        taskItem: { action: "updated", itemId },
+        changes: diffEntity("TaskItem", item, updated),
+      },
     );
 
     return updated;
@@ -398,7 +432,10 @@ export class TasksService {
       "Task",
       taskId,
       userId,
-      { taskItem: { action: "deleted", itemId } },
+      {
+        taskItem: { action: "deleted", itemId },
+        changes: diffEntity("TaskItem", item, null),
+      },
     );
   }
 
@@ -438,7 +475,10 @@ export class TasksService {
       "Task",
       taskId,
       userId,
-      { taskItem: { action: "toggled", itemId, done: updated.done } },
+      {
+        taskItem: { action: "toggled", itemId, done: updated.done },
+        changes: diffEntity("TaskItem", item, updated),
+      },
     );
 
     return updated;
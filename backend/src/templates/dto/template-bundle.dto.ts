@@ -0,0 +1,131 @@
+import { ApiProperty, ApiPropertyOptional, OmitType } from "@nestjs/swagger";
+import {
+  IsString,
+  IsBoolean,
+  IsOptional,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsUUID,
+  ValidateNested,
+  MaxLength,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { CreateObligationTemplateDto } from "./template.dto";
+import { CreateJurisdictionDto } from "../../jurisdictions/dto/jurisdiction.dto";
+
+export const TEMPLATE_BUNDLE_FORMATS = ["yaml", "json"] as const;
+export type TemplateBundleFormat = (typeof TEMPLATE_BUNDLE_FORMATS)[number];
+
+export const TEMPLATE_BUNDLE_ACTIONS = [
+  "create",
+  "update",
+  "unchanged",
+] as const;
+export type TemplateBundleAction = (typeof TEMPLATE_BUNDLE_ACTIONS)[number];
+
+// Template inside the bundle (the jurisdiction comes from the bundle)
+export class BundleTemplateDto extends OmitType(CreateObligationTemplateDto, [
+  "jurisdictionId",
+] as const) {
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description: "Notas de la version, se guardan si la plantilla cambia",
+  })
+  @IsOptional()
+  @IsString()
+  changelog?: string;
+}
+
+// Catalog file format (YAML or JSON)
+export class TemplateBundleDto {
+  @ApiProperty({ example: 1, description: "Version del formato del paquete" })
+  @IsInt()
+  formatVersion: number;
+
+  @ApiProperty({ type: CreateJurisdictionDto })
+  @ValidateNested()
+  @Type(() => CreateJurisdictionDto)
+  jurisdiction: CreateJurisdictionDto;
+
+  @ApiProperty({ type: [BundleTemplateDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BundleTemplateDto)
+  templates: BundleTemplateDto[];
+}
+
+export class ImportTemplateBundleDto {
+  @ApiProperty({
+    description: "Contenido del paquete en YAML o JSON",
+    example:
+      "formatVersion: 1\njurisdiction:\n  code: ar-sf-rosario\n  name: Rosario\ntemplates: []\n",
+  })
+  @IsString()
+  @MaxLength(2_000_000)
+  content: string;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: "Solo calcular las diferencias, sin guardar cambios",
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+export class ExportTemplateBundleQueryDto {
+  @ApiProperty({ example: "00000000-0000-0000-0000-000000000001" })
+  @IsUUID()
+  jurisdictionId: string;
+
+  @ApiPropertyOptional({ enum: TEMPLATE_BUNDLE_FORMATS, default: "yaml" })
+  @IsOptional()
+  @IsIn(TEMPLATE_BUNDLE_FORMATS)
+  format?: TemplateBundleFormat;
+}
+
+export class TemplateBundleChangeDto {
+  @ApiProperty()
+  templateKey: string;
+
+  @ApiProperty({ enum: TEMPLATE_BUNDLE_ACTIONS })
+  action: TemplateBundleAction;
+
+  @ApiProperty({ type: [String], example: ["title", "checklist"] })
+  changedFields: string[];
+}
+
+export class ImportTemplateBundleResultDto {
+  @ApiProperty()
+  dryRun: boolean;
+
+  @ApiProperty()
+  jurisdictionCode: string;
+
+  @ApiProperty({ enum: TEMPLATE_BUNDLE_ACTIONS })
+  jurisdictionAction: TemplateBundleAction;
+
+  @ApiProperty({ type: [TemplateBundleChangeDto] })
+  templates: TemplateBundleChangeDto[];
+
+  @ApiProperty({
+    type: [String],
+    description:
+      "Plantillas de la jurisdiccion que no estan en el paquete (no se modifican)",
+  })
+  notInBundle: string[];
+
+  @ApiProperty()
+  created: number;
+
+  @ApiProperty()
+  updated: number;
+
+  @ApiProperty()
+  unchanged: number;
+}
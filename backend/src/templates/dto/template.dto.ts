@@ -1,4 +1,9 @@
-import { ApiProperty, ApiPropertyOptional, PartialType } from "@nestjs/swagger";
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from "@nestjs/swagger";
 import {
   IsString,
   IsBoolean,
@@ -10,9 +15,77 @@ import {
   ValidateNested,
   MaxLength,
   Min,
+  Max,
+  IsInt,
+  IsDate,
+  IsIn,
+  Validate,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+  ValidationArguments,
 } from "class-validator";
 import { Type } from "class-transformer";
-import { ObligationType, Periodicity, TemplateSeverity } from "@prisma/client";
+import {
+  ObligationType,
+  Periodicity,
+  TaxpayerKind,
+  TemplateSeverity,
+} from "@prisma/client";
+import { DueRule, validateDueRule } from "../due-rule.service";
+
+// Validates the structured due rule (fields and combinations)
+@ValidatorConstraint({ name: "isDueRule" })
+export class IsDueRuleConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown): boolean {
+    return validateDueRule(value).length === 0;
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return `Regla de vencimiento invalida: ${validateDueRule(args.value).join("; ")}`;
+  }
+}
+
+// Due rule documentation (validated by IsDueRuleConstraint)
+export class DueRuleDto {
+  @ApiPropertyOptional({
+    example: 15,
+    description: "Dia fijo del mes (1 a 31, -1 = ultimo dia)",
+  })
+  day?: number;
+
+  @ApiPropertyOptional({
+    example: -1,
+    description: "N-esimo dia habil del mes (negativo cuenta desde el final)",
+  })
+  businessDay?: number;
+
+  @ApiPropertyOptional({
+    type: [Number],
+    example: [18, 18, 19, 19, 20, 20, 21, 21, 22, 22],
+    description: "Dia del mes segun la terminacion del CUIT (indices 0 a 9)",
+  })
+  cuitDigitDays?: number[];
+
+  @ApiPropertyOptional({
+    example: 3,
+    description: "Mes calendario fijo (1 a 12)",
+  })
+  month?: number;
+
+  @ApiPropertyOptional({
+    example: 1,
+    default: 1,
+    description: "Meses despues del ultimo mes del periodo",
+  })
+  monthOffset?: number;
+
+  @ApiPropertyOptional({
+    default: true,
+    description:
+      "Correr al dia habil siguiente si cae en feriado o fin de semana",
+  })
+  shiftToBusinessDay?: boolean;
+}
 
 // DTO para items de checklist
 export class ChecklistItemDto {
@@ -81,6 +154,35 @@ export class CreateObligationTemplateDto {
   @MaxLength(255)
   defaultDueRule?: string;
 
+  @ApiPropertyOptional({
+    type: DueRuleDto,
+    description: "Regla de vencimiento estructurada para calcular fechas",
+  })
+  @IsOptional()
+  @Validate(IsDueRuleConstraint)
+  dueRule?: DueRule;
+
+  @ApiPropertyOptional({
+    example: "ar-sf.api.ingresos_brutos",
+    description:
+      "Codigo del cronograma por terminacion de CUIT (tiene prioridad sobre dueRule)",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  taxScheduleCode?: string;
+
+  @ApiPropertyOptional({
+    enum: TaxpayerKind,
+    isArray: true,
+    description:
+      "Tipos de contribuyente a los que aplica (vacio = personas humanas y juridicas)",
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(TaxpayerKind, { each: true })
+  taxpayerKinds?: TaxpayerKind[];
+
   @ApiProperty({ default: false })
   @IsBoolean()
   requiresReview: boolean;
@@ -109,8 +211,17 @@ export class CreateObligationTemplateDto {
 }
 
 export class UpdateObligationTemplateDto extends PartialType(
-  CreateObligationTemplateDto,
+  OmitType(CreateObligationTemplateDto, ["dueRule"] as const),
 ) {
+  @ApiPropertyOptional({
+    type: DueRuleDto,
+    nullable: true,
+    description: "null quita la regla de vencimiento",
+  })
+  @IsOptional()
+  @Validate(IsDueRuleConstraint)
+  dueRule?: DueRule | null;
+
   @ApiPropertyOptional()
   @IsOptional()
   @IsBoolean()
@@ -165,6 +276,15 @@ export class ObligationTemplateResponseDto {
   @ApiPropertyOptional()
   defaultDueRule?: string;
 
+  @ApiPropertyOptional({ type: DueRuleDto })
+  dueRule?: DueRule;
+
+  @ApiPropertyOptional()
+  taxScheduleCode?: string;
+
+  @ApiProperty({ enum: TaxpayerKind, isArray: true })
+  taxpayerKinds: TaxpayerKind[];
+
   @ApiProperty()
   requiresReview: boolean;
 
@@ -218,10 +338,74 @@ export class TemplateSummaryDto {
   @ApiProperty({ enum: TemplateSeverity })
   severity: TemplateSeverity;
 
+  @ApiProperty({ enum: TaxpayerKind, isArray: true })
+  taxpayerKinds: TaxpayerKind[];
+
   @ApiProperty()
   checklistItemCount: number;
 }
 
+// DTO to preview a rule's due dates (without a saved template)
+export class DueRulePreviewRequestDto {
+  @ApiProperty({ type: DueRuleDto })
+  @Validate(IsDueRuleConstraint)
+  dueRule: DueRule;
+
+  @ApiProperty({ enum: Periodicity })
+  @IsEnum(Periodicity)
+  periodicity: Periodicity;
+
+  @ApiPropertyOptional({ description: "Jurisdiccion para feriados" })
+  @IsOptional()
+  @IsUUID()
+  jurisdictionId?: string;
+
+  @ApiPropertyOptional({
+    example: "30-12345678-9",
+    description: "CUIT de ejemplo para reglas por terminacion",
+  })
+  @IsOptional()
+  @IsString()
+  cuit?: string;
+}
+
+export class DueDatePreviewQueryDto {
+  @ApiPropertyOptional({ description: "Local (usa su jurisdiccion si tiene)" })
+  @IsOptional()
+  @IsUUID()
+  locationId?: string;
+
+  @ApiPropertyOptional({
+    description: "Calcular desde esta fecha (default hoy)",
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @ApiPropertyOptional({ default: 12, minimum: 1, maximum: 36 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(36)
+  count?: number;
+}
+
+export class DueDatePreviewDto {
+  @ApiProperty({ description: "Inicio del periodo" })
+  periodStart: Date;
+
+  @ApiProperty({ description: "Fin del periodo" })
+  periodEnd: Date;
+
+  @ApiProperty({ description: "Vencimiento segun la regla" })
+  nominalDueDate: Date;
+
+  @ApiProperty({ description: "Vencimiento corrido al dia habil" })
+  dueDate: Date;
+}
+
 // DTO para aplicar plantillas a una organizacion
 export class ApplyTemplatesDto {
   @ApiProperty({
@@ -288,12 +472,116 @@ export class TemplateQueryDto {
   @IsEnum(ObligationType)
   type?: ObligationType;
 
+  @ApiPropertyOptional({
+    enum: TaxpayerKind,
+    description: "Solo plantillas que aplican a este tipo de contribuyente",
+  })
+  @IsOptional()
+  @IsEnum(TaxpayerKind)
+  taxpayerKind?: TaxpayerKind;
+
   @ApiPropertyOptional({ default: true })
   @IsOptional()
   @IsBoolean()
   activeOnly?: boolean;
 }
 
+// === Template updates on open obligations ===
+
+export const TEMPLATE_UPDATE_FIELDS = [
+  "title",
+  "checklist",
+  "requiredEvidenceCount",
+  "requiresReview",
+] as const;
+
+export type TemplateUpdateField = (typeof TEMPLATE_UPDATE_FIELDS)[number];
+
+export class ValueChangeDto<T = unknown> {
+  @ApiProperty({ description: "Valor actual en la obligacion" })
+  from: T;
+
+  @ApiProperty({ description: "Valor en la ultima version de la plantilla" })
+  to: T;
+}
+
+export class ChecklistChangeDto {
+  @ApiProperty({ type: [String], description: "Items nuevos en la plantilla" })
+  added: string[];
+
+  @ApiProperty({
+    type: [String],
+    description: "Items que la plantilla ya no incluye",
+  })
+  removed: string[];
+}
+
+export class TemplateChangesDto {
+  @ApiPropertyOptional({ type: ValueChangeDto })
+  title?: ValueChangeDto<string>;
+
+  @ApiPropertyOptional({ type: ChecklistChangeDto })
+  checklist?: ChecklistChangeDto;
+
+  @ApiPropertyOptional({ type: ValueChangeDto })
+  requiredEvidenceCount?: ValueChangeDto<number>;
+
+  @ApiPropertyOptional({ type: ValueChangeDto })
+  requiresReview?: ValueChangeDto<boolean>;
+}
+
+export class TemplateUpdateDto {
+  @ApiProperty()
+  obligationId: string;
+
+  @ApiProperty()
+  obligationTitle: string;
+
+  @ApiProperty()
+  dueDate: Date;
+
+  @ApiProperty()
+  templateId: string;
+
+  @ApiProperty()
+  templateKey: string;
+
+  @ApiPropertyOptional({ description: "Version aplicada en la obligacion" })
+  currentVersion?: number;
+
+  @ApiProperty({ description: "Ultima version de la plantilla" })
+  latestVersion: number;
+
+  @ApiPropertyOptional()
+  changelog?: string;
+
+  @ApiProperty({ type: TemplateChangesDto })
+  changes: TemplateChangesDto;
+}
+
+export class AcceptTemplateUpdateDto {
+  @ApiProperty({
+    enum: TEMPLATE_UPDATE_FIELDS,
+    isArray: true,
+    description:
+      "Cambios a aplicar; los no seleccionados se descartan (lista vacia = descartar todos)",
+  })
+  @IsArray()
+  @IsIn(TEMPLATE_UPDATE_FIELDS, { each: true })
+  fields: TemplateUpdateField[];
+}
+
+export class AcceptTemplateUpdateResultDto {
+  @ApiProperty()
+  obligationId: string;
+
+  @ApiProperty()
+  templateVersion: number;
+
+  @ApiProperty({ enum: TEMPLATE_UPDATE_FIELDS, isArray: true })
+  appliedFields: TemplateUpdateField[];
+}
+
 // DTO para listar rubros disponibles
 export class RubricDto {
   @ApiProperty({ example: "gastronomia" })
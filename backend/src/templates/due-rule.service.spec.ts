@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BadRequestException } from "@nestjs/common";
+import {
+  DueRuleService,
+  computeDueDates,
+  validateDueRule,
+} from "./due-rule.service";
+import { BusinessCalendar } from "../jurisdictions/business-calendar.service";
+
+const mockBusinessCalendarService = {
+  getCalendar: vi.fn(),
+};
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+const CUIT_DAYS = [18, 18, 19, 19, 20, 20, 21, 21, 22, 22];
+
+describe("validateDueRule", () => {
+  it("should accept valid rules", () => {
+    expect(validateDueRule({ day: 15 })).toEqual([]);
+    expect(validateDueRule({ month: 3, businessDay: -1 })).toEqual([]);
+    expect(validateDueRule({ cuitDigitDays: CUIT_DAYS })).toEqual([]);
+  });
+
+  it("should require exactly one day anchor", () => {
+    expect(validateDueRule({})).toHaveLength(1);
+    expect(validateDueRule({ day: 15, businessDay: 1 })).toHaveLength(1);
+  });
+
+  it("should reject unknown keys and out of range values", () => {
+    expect(validateDueRule({ day: 15, weekday: 1 })[0]).toContain("weekday");
+    expect(validateDueRule({ day: 0 })).toHaveLength(1);
+    expect(validateDueRule({ businessDay: 30 })).toHaveLength(1);
+    expect(validateDueRule({ cuitDigitDays: [18, 19] })).toHaveLength(1);
+    expect(validateDueRule({ day: 15, month: 3, monthOffset: 1 })).toHaveLength(
+      1,
+    );
+    expect(validateDueRule("15 del mes siguiente")).toHaveLength(1);
+  });
+});
+
+describe("computeDueDates", () => {
+  const calendar = new BusinessCalendar();
+
+  it("should fall due on a fixed day of the following month", () => {
+    const result = computeDueDates({ day: 15 }, 1, day("2025-07-09"), 3, {
+      calendar,
+    });
+
+    expect(result.map((o) => o.dueDate)).toEqual([
+      day("2025-07-15"),
+      day("2025-08-15"),
+      day("2025-09-15"),
+    ]);
+    expect(result[0].periodStart).toEqual(day("2025-06-01"));
+    expect(result[0].periodEnd).toEqual(day("2025-06-30"));
+  });
+
+  it("should resolve the last business day of a fixed month", () => {
+    // 31/3/2025 test holiday: the last business day is Friday the 28th
+    const result = computeDueDates(
+      { month: 3, businessDay: -1 },
+      12,
+      day("2025-01-01"),
+      1,
+      { calendar: new BusinessCalendar([day("2025-03-31")]) },
+    );
+
+    expect(result[0].dueDate).toEqual(day("2025-03-28"));
+    expect(result[0].periodStart).toEqual(day("2025-01-01"));
+    expect(result[0].periodEnd).toEqual(day("2025-12-31"));
+  });
+
+  it("should pick the day from the CUIT check digit", () => {
+    const result = computeDueDates(
+      { cuitDigitDays: CUIT_DAYS },
+      1,
+      day("2025-07-01"),
+      1,
+      { calendar, cuit: "30-71234567-4" },
+    );
+
+    expect(result[0].dueDate).toEqual(day("2025-07-21"));
+    expect(result[0].nominalDueDate).toEqual(day("2025-07-20"));
+  });
+
+  it("should shift to the next business day unless disabled", () => {
+    const holidays = new BusinessCalendar([day("2025-07-09")]);
+
+    const [shifted] = computeDueDates({ day: 9 }, 1, day("2025-07-01"), 1, {
+      calendar: holidays,
+    });
+    const [fixed] = computeDueDates(
+      { day: 9, shiftToBusinessDay: false },
+      1,
+      day("2025-07-01"),
+      1,
+      { calendar: holidays },
+    );
+
+    expect(shifted.nominalDueDate).toEqual(day("2025-07-09"));
+    expect(shifted.dueDate).toEqual(day("2025-07-10"));
+    expect(fixed.dueDate).toEqual(day("2025-07-09"));
+  });
+
+  it("should throw when the rule needs a CUIT", () => {
+    expect(() =>
+      computeDueDates({ cuitDigitDays: CUIT_DAYS }, 1, day("2025-07-01"), 1, {
+        calendar,
+      }),
+    ).toThrow("CUIT");
+  });
+});
+
+describe("DueRuleService", () => {
+  let service: DueRuleService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new DueRuleService(mockBusinessCalendarService as any);
+    mockBusinessCalendarService.getCalendar.mockResolvedValue(
+      new BusinessCalendar(),
+    );
+  });
+
+  describe("validate", () => {
+    it("should reject rules on weekly periodicities", () => {
+      expect(() => service.validate({ day: 15 }, "WEEKLY" as any)).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.validate(undefined, "WEEKLY" as any)).not.toThrow();
+    });
+
+    it("should reject a fixed month on periods shorter than a year", () => {
+      expect(() =>
+        service.validate({ month: 3, day: 15 }, "MONTHLY" as any),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.validate({ month: 3, day: 15 }, "ANNUAL" as any),
+      ).not.toThrow();
+    });
+  });
+
+  describe("preview", () => {
+    it("should load the jurisdiction calendar", async () => {
+      const result = await service.preview({ day: 20 }, "QUARTERLY" as any, {
+        jurisdictionId: "juris-1",
+        from: day("2025-01-01"),
+        count: 2,
+      });
+
+      expect(mockBusinessCalendarService.getCalendar).toHaveBeenCalledWith(
+        "juris-1",
+      );
+      // 20/1 (Oct-Dec period) and 21/4 (20/4 is a Sunday)
+      expect(result.map((o) => o.dueDate)).toEqual([
+        day("2025-01-20"),
+        day("2025-04-21"),
+      ]);
+    });
+
+    it("should return a single date for one time templates", async () => {
+      const result = await service.preview({ day: 15 }, "ONE_TIME" as any, {
+        from: day("2025-01-01"),
+      });
+
+      expect(result).toHaveLength(1);
+    });
+
+    it("should throw BadRequestException when the CUIT is missing", async () => {
+      await expect(
+        service.preview({ cuitDigitDays: CUIT_DAYS }, "MONTHLY" as any, {}),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
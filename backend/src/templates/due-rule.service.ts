@@ -0,0 +1,340 @@
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { Periodicity } from "@prisma/client";
+import {
+  BusinessCalendar,
+  BusinessCalendarService,
+  toCalendarDay,
+} from "../jurisdictions/business-calendar.service";
+
+/**
+ * Structured due rule of a template. It is evaluated per period (from the
+ * periodicity) against the organization and its jurisdiction.
+ *
+ * Examples:
+ * - 15th of the month after the period: { day: 15 }
+ * - last business day of March: { month: 3, businessDay: -1 }
+ * - day by CUIT ending: { cuitDigitDays: [18, 18, 19, 19, ...] }
+ */
+export interface DueRule {
+  day?: number; // 1..31 (clamped to the month's length), -1 = last day of the month
+  businessDay?: number; // nth business day of the month, negative counts from the end
+  cuitDigitDays?: number[]; // day of the month by the CUIT's last digit (10 values)
+  month?: number; // fixed calendar month (1..12) within the period or after it
+  monthOffset?: number; // months after the period's last month (default 1)
+  shiftToBusinessDay?: boolean; // shift to the next business day (default true)
+}
+
+export interface DueDateOccurrence {
+  periodStart: Date;
+  periodEnd: Date;
+  nominalDueDate: Date;
+  dueDate: Date;
+}
+
+export interface DueRuleContext {
+  calendar: BusinessCalendar;
+  cuit?: string | null;
+}
+
+const PERIOD_MONTHS: Record<Periodicity, number | null> = {
+  WEEKLY: null,
+  BIWEEKLY: null,
+  MONTHLY: 1,
+  BIMONTHLY: 2,
+  QUARTERLY: 3,
+  SEMIANNUAL: 6,
+  ANNUAL: 12,
+  BIENNIAL: 24,
+  ONE_TIME: 1,
+};
+
+// Cap on periods walked so degenerate rules don't loop forever.
+const MAX_PERIODS = 600;
+
+const isInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value);
+
+// Months per period, or null if the periodicity isn't monthly or longer.
+export function periodicityToMonths(periodicity: Periodicity): number | null {
+  return PERIOD_MONTHS[periodicity] ?? null;
+}
+
+// Returns the rule's errors (empty if valid).
+export function validateDueRule(rule: unknown): string[] {
+  if (typeof rule !== "object" || rule === null || Array.isArray(rule)) {
+    return ["la regla debe ser un objeto"];
+  }
+
+  const r = rule as Record<string, unknown>;
+  const errors: string[] = [];
+  const known = [
+    "day",
+    "businessDay",
+    "cuitDigitDays",
+    "month",
+    "monthOffset",
+    "shiftToBusinessDay",
+  ];
+
+  for (const key of Object.keys(r)) {
+    if (!known.includes(key)) {
+      errors.push(`propiedad desconocida "${key}"`);
+    }
+  }
+
+  const anchors = ["day", "businessDay", "cuitDigitDays"].filter(
+    (key) => r[key] !== undefined,
+  );
+  if (anchors.length !== 1) {
+    errors.push(
+      "debe indicar exactamente uno de day, businessDay o cuitDigitDays",
+    );
+  }
+
+  if (
+    r.day !== undefined &&
+    (!isInteger(r.day) || r.day === 0 || r.day < -1 || r.day > 31)
+  ) {
+    errors.push("day debe estar entre 1 y 31, o -1 para el ultimo dia");
+  }
+
+  if (
+    r.businessDay !== undefined &&
+    (!isInteger(r.businessDay) ||
+      r.businessDay === 0 ||
+      Math.abs(r.businessDay) > 23)
+  ) {
+    errors.push("businessDay debe estar entre 1 y 23 (o -1 y -23)");
+  }
+
+  if (r.cuitDigitDays !== undefined) {
+    const days = r.cuitDigitDays;
+    if (
+      !Array.isArray(days) ||
+      days.length !== 10 ||
+      !days.every((d) => isInteger(d) && d >= 1 && d <= 31)
+    ) {
+      errors.push(
+        "cuitDigitDays debe tener 10 dias (1 a 31), uno por cada terminacion de CUIT",
+      );
+    }
+  }
+
+  if (r.month !== undefined && r.monthOffset !== undefined) {
+    errors.push("month y monthOffset son excluyentes");
+  }
+
+  if (
+    r.month !== undefined &&
+    (!isInteger(r.month) || r.month < 1 || r.month > 12)
+  ) {
+    errors.push("month debe estar entre 1 y 12");
+  }
+
+  if (
+    r.monthOffset !== undefined &&
+    (!isInteger(r.monthOffset) || r.monthOffset < 0 || r.monthOffset > 24)
+  ) {
+    errors.push("monthOffset debe estar entre 0 y 24");
+  }
+
+  if (
+    r.shiftToBusinessDay !== undefined &&
+    typeof r.shiftToBusinessDay !== "boolean"
+  ) {
+    errors.push("shiftToBusinessDay debe ser booleano");
+  }
+
+  return errors;
+}
+
+// Rule errors for the template's periodicity (empty if it applies).
+export function validateDueRulePeriod(
+  rule: DueRule,
+  periodMonths: number | null,
+): string[] {
+  if (periodMonths === null) {
+    return ["requiere una periodicidad mensual o mayor"];
+  }
+  // With periods shorter than a year, all of them would land in the same month.
+  if (rule.month !== undefined && periodMonths < 12) {
+    return ["month requiere una periodicidad anual o mayor"];
+  }
+  return [];
+}
+
+function monthStart(absoluteMonth: number): Date {
+  return new Date(
+    Date.UTC(Math.floor(absoluteMonth / 12), absoluteMonth % 12, 1),
+  );
+}
+
+function monthEnd(absoluteMonth: number): Date {
+  return new Date(
+    Date.UTC(Math.floor(absoluteMonth / 12), (absoluteMonth % 12) + 1, 0),
+  );
+}
+
+function nthBusinessDay(
+  absoluteMonth: number,
+  n: number,
+  calendar: BusinessCalendar,
+): Date {
+  const first = monthStart(absoluteMonth);
+  const last = monthEnd(absoluteMonth);
+  const days: Date[] = [];
+  for (
+    let day = first;
+    day.getTime() <= last.getTime();
+    day = new Date(day.getTime() + 24 * 60 * 60 * 1000)
+  ) {
+    if (calendar.isBusinessDay(day)) {
+      days.push(day);
+    }
+  }
+
+  // Months without enough business days: the first/last available one is used.
+  const index =
+    n > 0 ? Math.min(n, days.length) - 1 : Math.max(days.length + n, 0);
+  return days[index] ?? last;
+}
+
+function resolveDay(
+  rule: DueRule,
+  absoluteMonth: number,
+  context: DueRuleContext,
+): Date {
+  if (rule.businessDay !== undefined) {
+    return nthBusinessDay(absoluteMonth, rule.businessDay, context.calendar);
+  }
+
+  let day = rule.day;
+  if (rule.cuitDigitDays) {
+    const digits = (context.cuit ?? "").replace(/\D/g, "");
+    if (!digits) {
+      throw new Error("la regla requiere el CUIT de la organizacion");
+    }
+    day = rule.cuitDigitDays[Number(digits[digits.length - 1])];
+  }
+
+  const last = monthEnd(absoluteMonth);
+  if (day === undefined || day === -1 || day > last.getUTCDate()) {
+    return last;
+  }
+  return new Date(Date.UTC(last.getUTCFullYear(), last.getUTCMonth(), day));
+}
+
+/**
+ * Computes the next `count` due dates (already shifted to a business day) on
+ * or after `from`. Periods are aligned to the calendar year (quarters
+ * Jan-Mar, Apr-Jun, etc.).
+ */
+export function computeDueDates(
+  rule: DueRule,
+  periodMonths: number,
+  from: Date,
+  count: number,
+  context: DueRuleContext,
+): DueDateOccurrence[] {
+  const fromDay = toCalendarDay(from);
+  const fromMonth = fromDay.getUTCFullYear() * 12 + fromDay.getUTCMonth();
+
+  // Start with some slack: a period's due date may fall months later.
+  const lookback = periodMonths + (rule.monthOffset ?? 1) + 12;
+  let start = fromMonth - lookback;
+  start -= ((start % periodMonths) + periodMonths) % periodMonths;
+
+  const occurrences: DueDateOccurrence[] = [];
+  for (
+    let i = 0;
+    i < MAX_PERIODS && occurrences.length < count;
+    i++, start += periodMonths
+  ) {
+    const end = start + periodMonths - 1;
+    let target = end + (rule.monthOffset ?? 1);
+    if (rule.month !== undefined) {
+      target = start + ((rule.month - 1 - (start % 12) + 12) % 12);
+    }
+
+    const nominalDueDate = resolveDay(rule, target, context);
+    const dueDate =
+      rule.businessDay === undefined && rule.shiftToBusinessDay !== false
+        ? context.calendar.nextBusinessDay(nominalDueDate)
+        : nominalDueDate;
+
+    if (dueDate.getTime() >= fromDay.getTime()) {
+      occurrences.push({
+        periodStart: monthStart(start),
+        periodEnd: monthEnd(end),
+        nominalDueDate,
+        dueDate,
+      });
+    }
+  }
+
+  return occurrences;
+}
+
+@Injectable()
+export class DueRuleService {
+  constructor(
+    private readonly businessCalendarService: BusinessCalendarService,
+  ) {}
+
+  // Validates the rule and that it fits the template's periodicity.
+  validate(rule: unknown, periodicity?: Periodicity): void {
+    if (rule === undefined || rule === null) {
+      return;
+    }
+
+    const errors = validateDueRule(rule);
+    if (errors.length === 0 && periodicity) {
+      errors.push(
+        ...validateDueRulePeriod(
+          rule as DueRule,
+          periodicityToMonths(periodicity),
+        ),
+      );
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `Regla de vencimiento invalida: ${errors.join("; ")}`,
+      );
+    }
+  }
+
+  async preview(
+    rule: DueRule,
+    periodicity: Periodicity,
+    options: {
+      jurisdictionId?: string | null;
+      cuit?: string | null;
+      from?: Date;
+      count?: number;
+    },
+  ): Promise<DueDateOccurrence[]> {
+    this.validate(rule, periodicity);
+
+    const calendar = await this.businessCalendarService.getCalendar(
+      options.jurisdictionId,
+    );
+    const count =
+      periodicity === Periodicity.ONE_TIME ? 1 : (options.count ?? 12);
+
+    try {
+      return computeDueDates(
+        rule,
+        periodicityToMonths(periodicity)!,
+        options.from ?? new Date(),
+        count,
+        { calendar, cuit: options.cuit },
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new BadRequestException(
+        `No se pudo calcular el vencimiento: ${message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  TemplateBundlesService,
+  parseTemplateBundle,
+} from "./template-bundles.service";
+
+const mockPrismaService = {
+  jurisdiction: {
+    findUnique: vi.fn(),
+    upsert: vi.fn(),
+  },
+  obligationTemplate: {
+    findMany: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  $transaction: vi.fn(),
+};
+
+const rosario = {
+  id: "juris-1",
+  code: "ar-sf-rosario",
+  name: "Rosario",
+  country: "AR",
+  province: "Santa Fe",
+};
+
+const storedTemplate = (overrides: Record<string, unknown> = {}) => ({
+  id: "t1",
+  jurisdictionId: "juris-1",
+  templateKey: "rosario.gastronomia.habilitacion",
+  rubric: "gastronomia",
+  title: "Habilitacion Comercial",
+  description: null,
+  type: "PERMIT",
+  defaultPeriodicity: "ANNUAL",
+  defaultDueRule: null,
+  dueRule: null,
+  taxScheduleCode: null,
+  taxpayerKinds: [],
+  requiresReview: true,
+  requiredEvidenceCount: 1,
+  severity: "CRITICAL",
+  references: null,
+  version: 1,
+  changelog: null,
+  isActive: true,
+  checklistItems: [
+    { id: "c1", description: "Plano aprobado", order: 0, isRequired: true },
+  ],
+  ...overrides,
+});
+
+const BUNDLE = `
+formatVersion: 1
+jurisdiction:
+  code: ar-sf-rosario
+  name: Rosario
+  country: AR
+  province: Santa Fe
+templates:
+  - templateKey: rosario.gastronomia.habilitacion
+    rubric: gastronomia
+    title: Habilitacion Comercial Municipal
+    type: PERMIT
+    defaultPeriodicity: ANNUAL
+    requiresReview: true
+    requiredEvidenceCount: 1
+    severity: CRITICAL
+    changelog: Nuevo titulo
+    checklist:
+      - description: Plano aprobado
+        isRequired: true
+  - templateKey: rosario.gastronomia.tseh
+    rubric: gastronomia
+    title: Tasa de Seguridad e Higiene
+    type: TAX
+    defaultPeriodicity: MONTHLY
+    dueRule:
+      day: 15
+    requiresReview: false
+    requiredEvidenceCount: 1
+    severity: HIGH
+`;
+
+describe("parseTemplateBundle", () => {
+  it("should read YAML and JSON bundles", () => {
+    const yaml = parseTemplateBundle(BUNDLE);
+    const json = parseTemplateBundle(JSON.stringify(yaml.bundle));
+
+    expect(yaml.errors).toEqual([]);
+    expect(yaml.bundle!.templates).toHaveLength(2);
+    expect(yaml.bundle!.templates[1].dueRule).toEqual({ day: 15 });
+    expect(json.errors).toEqual([]);
+    expect(json.bundle!.jurisdiction.code).toBe("ar-sf-rosario");
+  });
+
+  it("should reject unsupported format versions", () => {
+    const { bundle, errors } = parseTemplateBundle(
+      BUNDLE.replace("formatVersion: 1", "formatVersion: 2"),
+    );
+
+    expect(bundle).toBeNull();
+    expect(errors).toEqual(["formatVersion 2 no soportado (se espera 1)"]);
+  });
+
+  it("should report invalid fields with their path", () => {
+    const { errors } = parseTemplateBundle(
+      BUNDLE.replace("type: TAX", "type: IMPUESTO").replace(
+        "defaultPeriodicity: ANNUAL",
+        "defaultPeriodicity: ANNUAL\n    color: rojo",
+      ),
+    );
+
+    expect(errors).toEqual([
+      "templates.0.color: property color should not exist",
+      expect.stringMatching(/^templates\.1\.type: /),
+    ]);
+  });
+
+  it("should reject repeated template keys", () => {
+    const { errors } = parseTemplateBundle(
+      BUNDLE.replace(
+        "rosario.gastronomia.tseh",
+        "rosario.gastronomia.habilitacion",
+      ),
+    );
+
+    expect(errors).toEqual([
+      "templates.1: templateKey rosario.gastronomia.habilitacion repetido",
+    ]);
+  });
+});
+
+describe("TemplateBundlesService", () => {
+  let service: TemplateBundlesService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new TemplateBundlesService(mockPrismaService as any);
+  });
+
+  describe("export", () => {
+    it("should export a bundle that imports without changes", async () => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue(rosario);
+      mockPrismaService.obligationTemplate.findMany.mockResolvedValue([
+        storedTemplate(),
+      ]);
+
+      const { fileName, content } = await service.export({
+        jurisdictionId: "juris-1",
+      });
+
+      expect(fileName).toBe("templates_ar-sf-rosario.yaml");
+      expect(content).toContain(
+        "templateKey: rosario.gastronomia.habilitacion",
+      );
+      expect(content).not.toContain("dueRule");
+
+      const result = await service.import({ content, dryRun: true });
+
+      expect(result.jurisdictionAction).toBe("unchanged");
+      expect(result.unchanged).toBe(1);
+    });
+
+    it("should throw NotFoundException for an unknown jurisdiction", async () => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.export({ jurisdictionId: "juris-x", format: "json" }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe("import", () => {
+    beforeEach(() => {
+      mockPrismaService.jurisdiction.findUnique.mockResolvedValue(rosario);
+      mockPrismaService.jurisdiction.upsert.mockResolvedValue(rosario);
+      mockPrismaService.$transaction.mockImplementation((fn) =>
+        fn(mockPrismaService),
+      );
+      mockPrismaService.obligationTemplate.findMany.mockResolvedValue([
+        storedTemplate(),
+        storedTemplate({
+          id: "t3",
+          templateKey: "rosario.gastronomia.bomberos",
+        }),
+      ]);
+    });
+
+    it("should report the diff without saving on dry run", async () => {
+      const result = await service.import({ content: BUNDLE, dryRun: true });
+
+      expect(result).toEqual({
+        dryRun: true,
+        jurisdictionCode: "ar-sf-rosario",
+        jurisdictionAction: "unchanged",
+        templates: [
+          {
+            templateKey: "rosario.gastronomia.habilitacion",
+            action: "update",
+            changedFields: ["title"],
+          },
+          {
+            templateKey: "rosario.gastronomia.tseh",
+            action: "create",
+            changedFields: [],
+          },
+        ],
+        notInBundle: ["rosario.gastronomia.bomberos"],
+        created: 1,
+        updated: 1,
+        unchanged: 0,
+      });
+      expect(mockPrismaService.jurisdiction.upsert).not.toHaveBeenCalled();
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should create and update templates in one transaction", async () => {
+      await service.import({ content: BUNDLE });
+
+      expect(mockPrismaService.obligationTemplate.update).toHaveBeenCalledWith({
+        where: { id: "t1" },
+        data: expect.objectContaining({
+          title: "Habilitacion Comercial Municipal",
+          version: { increment: 1 },
+          changelog: "Nuevo titulo",
+        }),
+      });
+      expect(
+        mockPrismaService.obligationTemplate.update.mock.calls[0][0].data,
+      ).not.toHaveProperty("checklistItems");
+      expect(mockPrismaService.obligationTemplate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          jurisdictionId: "juris-1",
+          templateKey: "rosario.gastronomia.tseh",
+          dueRule: { day: 15 },
+          checklistItems: { create: [] },
+        }),
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.jurisdiction.upsert).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw ConflictException for templates of another jurisdiction", async () => {
+      mockPrismaService.obligationTemplate.findMany.mockResolvedValue([
+        storedTemplate({ jurisdictionId: "juris-2" }),
+      ]);
+
+      await expect(service.import({ content: BUNDLE })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should throw BadRequestException for an invalid bundle", async () => {
+      await expect(service.import({ content: "templates: [" })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,437 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { plainToInstance } from "class-transformer";
+import { validateSync, ValidationError } from "class-validator";
+import { parse, stringify } from "yaml";
+import { PrismaService } from "../common/prisma/prisma.service";
+import { periodicityToMonths, validateDueRulePeriod } from "./due-rule.service";
+import { ChecklistItemDto } from "./dto/template.dto";
+import {
+  BundleTemplateDto,
+  ExportTemplateBundleQueryDto,
+  ImportTemplateBundleDto,
+  ImportTemplateBundleResultDto,
+  TemplateBundleAction,
+  TemplateBundleChangeDto,
+  TemplateBundleDto,
+  TemplateBundleFormat,
+} from "./dto/template-bundle.dto";
+
+export const TEMPLATE_BUNDLE_FORMAT_VERSION = 1;
+
+// Template fields carried in the bundle, in file order
+const BUNDLE_TEMPLATE_FIELDS = [
+  "rubric",
+  "title",
+  "description",
+  "type",
+  "defaultPeriodicity",
+  "defaultDueRule",
+  "dueRule",
+  "taxScheduleCode",
+  "taxpayerKinds",
+  "requiresReview",
+  "requiredEvidenceCount",
+  "severity",
+  "references",
+  "checklist",
+  "isActive",
+] as const;
+
+type BundleTemplateField = (typeof BUNDLE_TEMPLATE_FIELDS)[number];
+
+// The same changes that bump the version in TemplatesService.update
+const VERSIONED_FIELDS: BundleTemplateField[] = [
+  "title",
+  "description",
+  "checklist",
+  "dueRule",
+  "taxScheduleCode",
+  "requiresReview",
+  "requiredEvidenceCount",
+];
+
+type TemplateWithChecklist = Prisma.ObligationTemplateGetPayload<{
+  include: { checklistItems: true };
+}>;
+
+function flattenValidationErrors(
+  errors: ValidationError[],
+  parent?: string,
+): string[] {
+  return errors.flatMap((error) => {
+    const path = parent ? `${parent}.${error.property}` : error.property;
+    return [
+      ...Object.values(error.constraints ?? {}).map((m) => `${path}: ${m}`),
+      ...flattenValidationErrors(error.children ?? [], path),
+    ];
+  });
+}
+
+/**
+ * Reads a template bundle in YAML or JSON (JSON is valid YAML) and validates
+ * it with the same rules as the templates API.
+ */
+export function parseTemplateBundle(content: string): {
+  bundle: TemplateBundleDto | null;
+  errors: string[];
+} {
+  let raw: unknown;
+  try {
+    raw = parse(content);
+  } catch (error) {
+    return {
+      bundle: null,
+      errors: [`contenido invalido: ${(error as Error).message}`],
+    };
+  }
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { bundle: null, errors: ["el paquete debe ser un objeto"] };
+  }
+
+  const formatVersion = (raw as Record<string, unknown>).formatVersion;
+  if (formatVersion !== TEMPLATE_BUNDLE_FORMAT_VERSION) {
+    return {
+      bundle: null,
+      errors: [
+        `formatVersion ${String(formatVersion)} no soportado (se espera ${TEMPLATE_BUNDLE_FORMAT_VERSION})`,
+      ],
+    };
+  }
+
+  const bundle = plainToInstance(TemplateBundleDto, raw);
+  const errors = flattenValidationErrors(
+    validateSync(bundle, { whitelist: true, forbidNonWhitelisted: true }),
+  );
+  if (errors.length > 0) {
+    return { bundle: null, errors };
+  }
+
+  const seen = new Set<string>();
+  bundle.templates.forEach((template, i) => {
+    if (seen.has(template.templateKey)) {
+      errors.push(
+        `templates.${i}: templateKey ${template.templateKey} repetido`,
+      );
+    }
+    seen.add(template.templateKey);
+
+    if (template.dueRule) {
+      for (const error of validateDueRulePeriod(
+        template.dueRule,
+        periodicityToMonths(template.defaultPeriodicity),
+      )) {
+        errors.push(`templates.${i}: dueRule ${error}`);
+      }
+    }
+  });
+
+  return errors.length > 0 ? { bundle: null, errors } : { bundle, errors };
+}
+
+// Saved template in bundle format (without empty fields)
+export function toBundleTemplate(
+  template: TemplateWithChecklist,
+): BundleTemplateDto {
+  const bundleTemplate = {
+    templateKey: template.templateKey,
+    rubric: template.rubric,
+    title: template.title,
+    description: template.description ?? undefined,
+    type: template.type,
+    defaultPeriodicity: template.defaultPeriodicity,
+    defaultDueRule: template.defaultDueRule ?? undefined,
+    dueRule: (template.dueRule as BundleTemplateDto["dueRule"]) ?? undefined,
+    taxScheduleCode: template.taxScheduleCode ?? undefined,
+    taxpayerKinds:
+      template.taxpayerKinds.length > 0 ? template.taxpayerKinds : undefined,
+    requiresReview: template.requiresReview,
+    requiredEvidenceCount: template.requiredEvidenceCount,
+    severity: template.severity,
+    references:
+      (template.references as BundleTemplateDto["references"]) ?? undefined,
+    checklist: [...template.checklistItems]
+      .sort((a, b) => a.order - b.order)
+      .map((item) => ({
+        description: item.description,
+        isRequired: item.isRequired,
+      })),
+    isActive: template.isActive,
+  };
+
+  return JSON.parse(JSON.stringify(bundleTemplate)) as BundleTemplateDto;
+}
+
+// Comparable value: sorted keys, with missing, null and defaults treated alike
+function canonical(field: BundleTemplateField, template: BundleTemplateDto) {
+  const defaults: Partial<Record<BundleTemplateField, unknown>> = {
+    taxpayerKinds: [],
+    checklist: [],
+    isActive: true,
+  };
+  let value: unknown = template[field] ?? defaults[field] ?? null;
+  if (field === "rubric") {
+    value = String(value).toLowerCase();
+  }
+  if (field === "checklist") {
+    value = (value as ChecklistItemDto[]).map((item) => ({
+      description: item.description,
+      isRequired: item.isRequired,
+    }));
+  }
+
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v as Record<string, unknown>).sort(([a], [b]) =>
+            a.localeCompare(b),
+          ),
+        )
+      : v,
+  );
+}
+
+// Bundle fields that differ from the saved template
+export function diffBundleTemplate(
+  current: BundleTemplateDto,
+  incoming: BundleTemplateDto,
+): BundleTemplateField[] {
+  return BUNDLE_TEMPLATE_FIELDS.filter(
+    (field) => canonical(field, current) !== canonical(field, incoming),
+  );
+}
+
+export function serializeTemplateBundle(
+  bundle: TemplateBundleDto,
+  format: TemplateBundleFormat,
+): string {
+  return format === "json"
+    ? `${JSON.stringify(bundle, null, 2)}\n`
+    : stringify(bundle, { lineWidth: 0 });
+}
+
+@Injectable()
+export class TemplateBundlesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async export(
+    query: ExportTemplateBundleQueryDto,
+  ): Promise<{ fileName: string; content: string }> {
+    const jurisdiction = await this.prisma.jurisdiction.findUnique({
+      where: { id: query.jurisdictionId },
+    });
+
+    if (!jurisdiction) {
+      throw new NotFoundException(
+        `Jurisdiccion no encontrada: ${query.jurisdictionId}`,
+      );
+    }
+
+    const templates = await this.prisma.obligationTemplate.findMany({
+      where: { jurisdictionId: jurisdiction.id },
+      include: { checklistItems: { orderBy: { order: "asc" } } },
+      orderBy: [{ rubric: "asc" }, { templateKey: "asc" }],
+    });
+
+    const format = query.format ?? "yaml";
+    const bundle: TemplateBundleDto = {
+      formatVersion: TEMPLATE_BUNDLE_FORMAT_VERSION,
+      jurisdiction: {
+        code: jurisdiction.code,
+        name: jurisdiction.name,
+        country: jurisdiction.country,
+        ...(jurisdiction.province && { province: jurisdiction.province }),
+      },
+      templates: templates.map(toBundleTemplate),
+    };
+
+    return {
+      fileName: `templates_${jurisdiction.code}.${format}`,
+      content: serializeTemplateBundle(bundle, format),
+    };
+  }
+
+  /**
+   * Compares the bundle with the saved catalog and, unless dryRun, creates or
+   * updates the jurisdiction and its templates in a single transaction.
+   * Templates not in the bundle are left untouched.
+   */
+  async import(
+    dto: ImportTemplateBundleDto,
+  ): Promise<ImportTemplateBundleResultDto> {
+    const { bundle, errors } = parseTemplateBundle(dto.content);
+    if (!bundle) {
+      throw new BadRequestException(errors);
+    }
+
+    const jurisdiction = await this.prisma.jurisdiction.findUnique({
+      where: { code: bundle.jurisdiction.code },
+    });
+    const keys = bundle.templates.map((t) => t.templateKey);
+
+    const existing = await this.prisma.obligationTemplate.findMany({
+      where: {
+        OR: [
+          { templateKey: { in: keys } },
+          ...(jurisdiction ? [{ jurisdictionId: jurisdiction.id }] : []),
+        ],
+      },
+      include: { checklistItems: { orderBy: { order: "asc" } } },
+    });
+    const existingByKey = new Map(existing.map((t) => [t.templateKey, t]));
+
+    const foreignKeys = keys.filter((key) => {
+      const template = existingByKey.get(key);
+      return template && template.jurisdictionId !== jurisdiction?.id;
+    });
+    if (foreignKeys.length > 0) {
+      throw new ConflictException(
+        `Las plantillas ${foreignKeys.join(", ")} pertenecen a otra jurisdiccion`,
+      );
+    }
+
+    const changes = bundle.templates.map((template) => {
+      const current = existingByKey.get(template.templateKey);
+      const changedFields = current
+        ? diffBundleTemplate(toBundleTemplate(current), template)
+        : [];
+      const action: TemplateBundleAction = !current
+        ? "create"
+        : changedFields.length > 0
+          ? "update"
+          : "unchanged";
+      return { template, current, action, changedFields };
+    });
+
+    if (!dto.dryRun) {
+      await this.apply(bundle, changes);
+    }
+
+    const count = (action: TemplateBundleAction) =>
+      changes.filter((c) => c.action === action).length;
+
+    return {
+      dryRun: !!dto.dryRun,
+      jurisdictionCode: bundle.jurisdiction.code,
+      jurisdictionAction: !jurisdiction
+        ? "create"
+        : this.jurisdictionChanged(jurisdiction, bundle)
+          ? "update"
+          : "unchanged",
+      templates: changes.map(
+        (c): TemplateBundleChangeDto => ({
+          templateKey: c.template.templateKey,
+          action: c.action,
+          changedFields: c.changedFields,
+        }),
+      ),
+      notInBundle: existing
+        .filter(
+          (t) =>
+            t.jurisdictionId === jurisdiction?.id &&
+            !keys.includes(t.templateKey),
+        )
+        .map((t) => t.templateKey),
+      created: count("create"),
+      updated: count("update"),
+      unchanged: count("unchanged"),
+    };
+  }
+
+  private jurisdictionChanged(
+    jurisdiction: { name: string; country: string; province: string | null },
+    bundle: TemplateBundleDto,
+  ): boolean {
+    return (
+      jurisdiction.name !== bundle.jurisdiction.name ||
+      jurisdiction.country !== (bundle.jurisdiction.country ?? "AR") ||
+      (jurisdiction.province ?? undefined) !== bundle.jurisdiction.province
+    );
+  }
+
+  private async apply(
+    bundle: TemplateBundleDto,
+    changes: Array<{
+      template: BundleTemplateDto;
+      current?: TemplateWithChecklist;
+      action: TemplateBundleAction;
+      changedFields: BundleTemplateField[];
+    }>,
+  ): Promise<void> {
+    const { code, name, country, province } = bundle.jurisdiction;
+
+    await this.prisma.$transaction(async (tx) => {
+      const jurisdiction = await tx.jurisdiction.upsert({
+        where: { code },
+        create: { code, name, country: country || "AR", province },
+        update: { name, country: country || "AR", province: province ?? null },
+      });
+
+      for (const { template, current, action, changedFields } of changes) {
+        const checklistItems = (template.checklist ?? []).map((item, i) => ({
+          description: item.description,
+          order: i,
+          isRequired: item.isRequired,
+        }));
+
+        if (action === "create") {
+          await tx.obligationTemplate.create({
+            data: {
+              ...this.toTemplateData(template),
+              jurisdictionId: jurisdiction.id,
+              templateKey: template.templateKey,
+              checklistItems: { create: checklistItems },
+            },
+          });
+        }
+
+        if (action === "update") {
+          const versioned = changedFields.some((f) =>
+            VERSIONED_FIELDS.includes(f),
+          );
+          await tx.obligationTemplate.update({
+            where: { id: current!.id },
+            data: {
+              ...this.toTemplateData(template),
+              ...(versioned && { version: { increment: 1 } }),
+              ...(versioned &&
+                template.changelog && { changelog: template.changelog }),
+              ...(changedFields.includes("checklist") && {
+                checklistItems: { deleteMany: {}, create: checklistItems },
+              }),
+            },
+          });
+        }
+      }
+    });
+  }
+
+  private toTemplateData(template: BundleTemplateDto) {
+    return {
+      rubric: template.rubric.toLowerCase(),
+      title: template.title,
+      description: template.description ?? null,
+      type: template.type,
+      defaultPeriodicity: template.defaultPeriodicity,
+      defaultDueRule: template.defaultDueRule ?? null,
+      dueRule: template.dueRule
+        ? (template.dueRule as Prisma.InputJsonValue)
+        : Prisma.DbNull,
+      taxScheduleCode: template.taxScheduleCode ?? null,
+      taxpayerKinds: template.taxpayerKinds ?? [],
+      requiresReview: template.requiresReview,
+      requiredEvidenceCount: template.requiredEvidenceCount,
+      severity: template.severity,
+      references: template.references
+        ? (template.references as Prisma.InputJsonValue)
+        : Prisma.DbNull,
+      isActive: template.isActive ?? true,
+    };
+  }
+}
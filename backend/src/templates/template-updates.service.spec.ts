@@ -0,0 +1,308 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BadRequestException, NotFoundException } from "@nestjs/common";
+import {
+  TemplateUpdatesService,
+  diffTemplate,
+} from "./template-updates.service";
+
+const mockPrismaService = {
+  $transaction: vi.fn(),
+  obligation: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    update: vi.fn(),
+  },
+  task: {
+    create: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  taskItem: {
+    createManyAndReturn: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+};
+
+const mockAuditService = {
+  log: vi.fn(),
+};
+
+const buildObligation = (overrides: Record<string, unknown> = {}) => ({
+  id: "obl-1",
+  organizationId: "org-1",
+  title: "Habilitacion",
+  status: "PENDING",
+  dueDate: new Date("2026-03-01"),
+  ownerUserId: "user-1",
+  requiresReview: false,
+  requiredEvidenceCount: 1,
+  templateId: "t1",
+  templateVersion: 1,
+  template: {
+    id: "t1",
+    templateKey: "rosario.gastronomia.habilitacion",
+    title: "Habilitacion comercial",
+    requiresReview: true,
+    requiredEvidenceCount: 1,
+    version: 2,
+    changelog: "Nuevo requisito de matafuegos",
+    checklistItems: [
+      { id: "c1", description: "Plano", order: 0 },
+      { id: "c3", description: "Matafuegos", order: 1 },
+    ],
+  },
+  tasks: [
+    {
+      id: "task-1",
+      title: "Checklist: Habilitacion",
+      items: [
+        {
+          id: "i1",
+          taskId: "task-1",
+          description: "Plano",
+          order: 0,
+          done: true,
+        },
+        {
+          id: "i2",
+          taskId: "task-1",
+          description: "Libreta sanitaria",
+          order: 1,
+          done: false,
+        },
+      ],
+    },
+  ],
+  ...overrides,
+});
+
+describe("diffTemplate", () => {
+  it("should only report the fields that changed", () => {
+    const base = {
+      title: "Habilitacion",
+      requiresReview: false,
+      requiredEvidenceCount: 1,
+      checklist: ["Plano"],
+    };
+
+    expect(diffTemplate(base, { ...base })).toEqual({});
+    expect(
+      diffTemplate(base, {
+        ...base,
+        requiredEvidenceCount: 2,
+        checklist: ["Plano", "Matafuegos"],
+      }),
+    ).toEqual({
+      requiredEvidenceCount: { from: 1, to: 2 },
+      checklist: { added: ["Matafuegos"], removed: [] },
+    });
+  });
+});
+
+describe("TemplateUpdatesService", () => {
+  let service: TemplateUpdatesService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrismaService.taskItem.createManyAndReturn.mockImplementation(
+      ({ data }) =>
+        Promise.resolve(
+          data.map((item: object, i: number) => ({ id: `i${i + 3}`, ...item })),
+        ),
+    );
+    mockPrismaService.$transaction.mockImplementation((fn) =>
+      fn(mockPrismaService),
+    );
+    service = new TemplateUpdatesService(
+      mockPrismaService as any,
+      mockAuditService as any,
+    );
+  });
+
+  describe("findAvailable", () => {
+    it("should list only obligations behind their template version", async () => {
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        buildObligation(),
+        buildObligation({ id: "obl-2", templateVersion: 2 }),
+      ]);
+
+      const result = await service.findAvailable("org-1");
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        obligationId: "obl-1",
+        currentVersion: 1,
+        latestVersion: 2,
+        changes: {
+          title: { from: "Habilitacion", to: "Habilitacion comercial" },
+          requiresReview: { from: false, to: true },
+          checklist: { added: ["Matafuegos"], removed: ["Libreta sanitaria"] },
+        },
+      });
+    });
+
+    it("should compare against the applied template version, not manual edits", async () => {
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        buildObligation({
+          title: "Habilitacion del local",
+          templateSnapshot: {
+            title: "Habilitacion comercial",
+            requiresReview: false,
+            requiredEvidenceCount: 1,
+            checklist: ["Plano"],
+          },
+        }),
+      ]);
+
+      const [update] = await service.findAvailable("org-1");
+
+      expect(update.changes).toEqual({
+        requiresReview: { from: false, to: true },
+        checklist: { added: ["Matafuegos"], removed: [] },
+      });
+    });
+  });
+
+  describe("accept", () => {
+    it("should apply only the selected fields and bump the version", async () => {
+      mockPrismaService.obligation.findFirst.mockResolvedValue(
+        buildObligation(),
+      );
+
+      const result = await service.accept(
+        "org-1",
+        "obl-1",
+        { fields: ["checklist", "requiresReview"] },
+        "user-1",
+      );
+
+      expect(result).toEqual({
+        obligationId: "obl-1",
+        templateVersion: 2,
+        appliedFields: ["checklist", "requiresReview"],
+      });
+      expect(mockPrismaService.taskItem.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ["i2"] } },
+      });
+      expect(
+        mockPrismaService.taskItem.createManyAndReturn,
+      ).toHaveBeenCalledWith({
+        data: [
+          {
+            taskId: "task-1",
+            description: "Matafuegos",
+            order: 2,
+            done: false,
+          },
+        ],
+      });
+      expect(mockPrismaService.obligation.update).toHaveBeenCalledWith({
+        where: { id: "obl-1" },
+        data: {
+          templateVersion: 2,
+          templateSnapshot: {
+            title: "Habilitacion comercial",
+            requiresReview: true,
+            requiredEvidenceCount: 1,
+            checklist: ["Plano", "Matafuegos"],
+          },
+          requiresReview: true,
+        },
+      });
+      expect(mockPrismaService.$transaction).toHaveBeenCalled();
+      expect(mockPrismaService.task.updateMany).not.toHaveBeenCalled();
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        "org-1",
+        "obligation.template_updated",
+        "Obligation",
+        "obl-1",
+        "user-1",
+        expect.objectContaining({
+          fromVersion: 1,
+          toVersion: 2,
+          discardedFields: ["title"],
+          changes: expect.objectContaining({
+            templateVersion: { before: 1, after: 2 },
+          }),
+        }),
+      );
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        "org-1",
+        "task.updated",
+        "Task",
+        "task-1",
+        "user-1",
+        expect.objectContaining({
+          taskItem: { action: "deleted", itemId: "i2" },
+          templateId: "t1",
+        }),
+      );
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        "org-1",
+        "task.updated",
+        "Task",
+        "task-1",
+        "user-1",
+        expect.objectContaining({
+          taskItem: { action: "created", itemId: "i3" },
+          changes: expect.objectContaining({
+            description: { before: null, after: "Matafuegos" },
+          }),
+        }),
+      );
+    });
+
+    it("should record the renamed checklist tasks", async () => {
+      mockPrismaService.obligation.findFirst.mockResolvedValue(
+        buildObligation(),
+      );
+
+      await service.accept("org-1", "obl-1", { fields: ["title"] }, "user-1");
+
+      expect(mockPrismaService.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["task-1"] } },
+        data: { title: "Checklist: Habilitacion comercial" },
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        "org-1",
+        "task.updated",
+        "Task",
+        "task-1",
+        "user-1",
+        {
+          templateId: "t1",
+          changes: {
+            title: {
+              before: "Checklist: Habilitacion",
+              after: "Checklist: Habilitacion comercial",
+            },
+          },
+        },
+      );
+    });
+
+    it("should throw NotFoundException if obligation not found", async () => {
+      mockPrismaService.obligation.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.accept("org-1", "obl-x", { fields: ["title"] }, "user-1"),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it("should throw BadRequestException for closed or up to date obligations", async () => {
+      mockPrismaService.obligation.findFirst.mockResolvedValueOnce(
+        buildObligation({ status: "COMPLETED" }),
+      );
+      mockPrismaService.obligation.findFirst.mockResolvedValueOnce(
+        buildObligation({ templateVersion: 2 }),
+      );
+
+      await expect(
+        service.accept("org-1", "obl-1", { fields: ["title"] }, "user-1"),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.accept("org-1", "obl-1", { fields: ["title"] }, "user-1"),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.obligation.update).not.toHaveBeenCalled();
+    });
+  });
+});
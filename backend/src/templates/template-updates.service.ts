@@ -0,0 +1,373 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from "@nestjs/common";
+import { ObligationStatus, Prisma, TaskStatus } from "@prisma/client";
+import { PrismaService } from "../common/prisma/prisma.service";
+import { AuditService } from "../audit/audit.service";
+import { AuditAction, AuditActions } from "../audit/dto/audit.dto";
+import { diffEntity } from "../audit/audit-diff";
+import {
+  AcceptTemplateUpdateDto,
+  AcceptTemplateUpdateResultDto,
+  TemplateChangesDto,
+  TemplateUpdateDto,
+  TemplateUpdateField,
+  TEMPLATE_UPDATE_FIELDS,
+} from "./dto/template.dto";
+
+// Title of the checklist task created by applyToOrganization
+export const CHECKLIST_TASK_PREFIX = "Checklist: ";
+
+const OPEN_STATUSES: ObligationStatus[] = [
+  ObligationStatus.PENDING,
+  ObligationStatus.IN_PROGRESS,
+  ObligationStatus.OVERDUE,
+];
+
+const obligationWithTemplate = {
+  template: {
+    include: { checklistItems: { orderBy: { order: "asc" } } },
+  },
+  tasks: {
+    where: {
+      title: { startsWith: CHECKLIST_TASK_PREFIX },
+      status: { not: TaskStatus.CANCELLED },
+    },
+    include: { items: { orderBy: { order: "asc" } } },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.ObligationInclude;
+
+type ObligationWithTemplate = Prisma.ObligationGetPayload<{
+  include: typeof obligationWithTemplate;
+}>;
+
+// Checklist task change, recorded like TasksService's
+interface TaskAuditEntry {
+  action: AuditAction;
+  taskId: string;
+  metadata: Record<string, unknown>;
+}
+
+// Template fields the obligation copies, at the applied version
+export interface TemplateSnapshot {
+  title: string;
+  requiresReview: boolean;
+  requiredEvidenceCount: number;
+  checklist: string[];
+}
+
+export function templateSnapshot(template: {
+  title: string;
+  requiresReview: boolean;
+  requiredEvidenceCount: number;
+  checklistItems: { description: string }[];
+}): TemplateSnapshot {
+  return {
+    title: template.title,
+    requiresReview: template.requiresReview,
+    requiredEvidenceCount: template.requiredEvidenceCount,
+    checklist: template.checklistItems.map((item) => item.description),
+  };
+}
+
+/**
+ * Differences between the template version applied to the obligation and
+ * the latest one. Only includes fields the template changed: manual edits
+ * to the obligation don't count as changes.
+ */
+export function diffTemplate(
+  obligation: TemplateSnapshot,
+  template: TemplateSnapshot,
+): TemplateChangesDto {
+  const changes: TemplateChangesDto = {};
+
+  if (obligation.title !== template.title) {
+    changes.title = { from: obligation.title, to: template.title };
+  }
+  if (obligation.requiredEvidenceCount !== template.requiredEvidenceCount) {
+    changes.requiredEvidenceCount = {
+      from: obligation.requiredEvidenceCount,
+      to: template.requiredEvidenceCount,
+    };
+  }
+  if (obligation.requiresReview !== template.requiresReview) {
+    changes.requiresReview = {
+      from: obligation.requiresReview,
+      to: template.requiresReview,
+    };
+  }
+
+  const added = template.checklist.filter(
+    (item) => !obligation.checklist.includes(item),
+  );
+  const removed = obligation.checklist.filter(
+    (item) => !template.checklist.includes(item),
+  );
+  if (added.length > 0 || removed.length > 0) {
+    changes.checklist = { added, removed };
+  }
+
+  return changes;
+}
+
+@Injectable()
+export class TemplateUpdatesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  // Open obligations whose template has a newer version.
+  async findAvailable(organizationId: string): Promise<TemplateUpdateDto[]> {
+    const obligations = await this.prisma.obligation.findMany({
+      where: {
+        organizationId,
+        status: { in: OPEN_STATUSES },
+        templateId: { not: null },
+      },
+      include: obligationWithTemplate,
+      orderBy: { dueDate: "asc" },
+    });
+
+    return obligations
+      .filter((o) => this.isOutdated(o))
+      .map((o) => ({
+        obligationId: o.id,
+        obligationTitle: o.title,
+        dueDate: o.dueDate,
+        templateId: o.template!.id,
+        templateKey: o.template!.templateKey,
+        currentVersion: o.templateVersion ?? undefined,
+        latestVersion: o.template!.version,
+        changelog: o.template!.changelog ?? undefined,
+        changes: this.diff(o),
+      }));
+  }
+
+  async accept(
+    organizationId: string,
+    obligationId: string,
+    dto: AcceptTemplateUpdateDto,
+    userId: string,
+  ): Promise<AcceptTemplateUpdateResultDto> {
+    const obligation = await this.prisma.obligation.findFirst({
+      where: { id: obligationId, organizationId },
+      include: obligationWithTemplate,
+    });
+
+    if (!obligation) {
+      throw new NotFoundException("Obligacion no encontrada");
+    }
+    if (!OPEN_STATUSES.includes(obligation.status)) {
+      throw new BadRequestException(
+        "Solo se pueden actualizar obligaciones abiertas",
+      );
+    }
+    if (!this.isOutdated(obligation)) {
+      throw new BadRequestException(
+        "La obligacion no tiene actualizaciones de plantilla pendientes",
+      );
+    }
+
+    const template = obligation.template!;
+    const changes = this.diff(obligation);
+    const appliedFields = TEMPLATE_UPDATE_FIELDS.filter(
+      (field) => dto.fields.includes(field) && changes[field],
+    );
+
+    const data = {
+      templateVersion: template.version,
+      templateSnapshot: templateSnapshot(
+        template,
+      ) as unknown as Prisma.InputJsonObject,
+      ...(appliedFields.includes("title") && { title: template.title }),
+      ...(appliedFields.includes("requiresReview") && {
+        requiresReview: template.requiresReview,
+      }),
+      ...(appliedFields.includes("requiredEvidenceCount") && {
+        requiredEvidenceCount: template.requiredEvidenceCount,
+      }),
+    };
+
+    // A failure part-way must not leave the checklist half replaced.
+    const taskChanges = await this.prisma.$transaction(async (tx) => {
+      const entries: TaskAuditEntry[] = [];
+
+      if (appliedFields.includes("title")) {
+        const title = `${CHECKLIST_TASK_PREFIX}${template.title}`;
+        await tx.task.updateMany({
+          where: { id: { in: obligation.tasks.map((t) => t.id) } },
+          data: { title },
+        });
+        for (const task of obligation.tasks) {
+          entries.push({
+            action: AuditActions.TASK_UPDATED,
+            taskId: task.id,
+            metadata: {
+              changes: diffEntity("Task", task, { ...task, title }),
+            },
+          });
+        }
+      }
+
+      if (appliedFields.includes("checklist")) {
+        entries.push(
+          ...(await this.applyChecklist(tx, obligation, changes.checklist!)),
+        );
+      }
+
+      await tx.obligation.update({
+        where: { id: obligation.id },
+        data,
+      });
+      return entries;
+    });
+
+    await this.auditService.log(
+      organizationId,
+      AuditActions.OBLIGATION_TEMPLATE_UPDATED,
+      "Obligation",
+      obligation.id,
+      userId,
+      {
+        templateId: template.id,
+        fromVersion: obligation.templateVersion,
+        toVersion: template.version,
+        appliedFields,
+        discardedFields: (Object.keys(changes) as TemplateUpdateField[]).filter(
+          (field) => !appliedFields.includes(field),
+        ),
+        changes: diffEntity("Obligation", obligation, {
+          ...obligation,
+          ...data,
+        }),
+      },
+    );
+    for (const entry of taskChanges) {
+      await this.auditService.log(
+        organizationId,
+        entry.action,
+        "Task",
+        entry.taskId,
+        userId,
+        { ...entry.metadata, templateId: template.id },
+      );
+    }
+
+    return {
+      obligationId: obligation.id,
+      templateVersion: template.version,
+      appliedFields,
+    };
+  }
+
+  private isOutdated(obligation: ObligationWithTemplate): boolean {
+    return (
+      !!obligation.template &&
+      (obligation.templateVersion ?? 0) < obligation.template.version
+    );
+  }
+
+  // Obligations created before the applied version was stored are compared
+  // with their own values.
+  private diff(obligation: ObligationWithTemplate): TemplateChangesDto {
+    const applied =
+      (obligation.templateSnapshot as unknown as TemplateSnapshot | null) ?? {
+        title: obligation.title,
+        requiresReview: obligation.requiresReview,
+        requiredEvidenceCount: obligation.requiredEvidenceCount,
+        checklist: obligation.tasks.flatMap((t) =>
+          t.items.map((i) => i.description),
+        ),
+      };
+    return diffTemplate(applied, templateSnapshot(obligation.template!));
+  }
+
+  // Adds new items the obligation lacks and removes deleted ones not yet
+  // completed. Returns the changes for the audit log.
+  private async applyChecklist(
+    tx: Prisma.TransactionClient,
+    obligation: ObligationWithTemplate,
+    checklist: { added: string[]; removed: string[] },
+  ): Promise<TaskAuditEntry[]> {
+    const entries: TaskAuditEntry[] = [];
+    const items = obligation.tasks.flatMap((t) => t.items);
+    const pendingRemoved = items.filter(
+      (i) => !i.done && checklist.removed.includes(i.description),
+    );
+    if (pendingRemoved.length > 0) {
+      await tx.taskItem.deleteMany({
+        where: { id: { in: pendingRemoved.map((i) => i.id) } },
+      });
+      for (const item of pendingRemoved) {
+        entries.push({
+          action: AuditActions.TASK_UPDATED,
+          taskId: item.taskId,
+          metadata: {
+            taskItem: { action: "deleted", itemId: item.id },
+            changes: diffEntity("TaskItem", item, null),
+          },
+        });
+      }
+    }
+
+    const added = checklist.added.filter(
+      (description) => !items.some((i) => i.description === description),
+    );
+    if (added.length === 0) {
+      return entries;
+    }
+
+    let task = obligation.tasks[0];
+    if (!task) {
+      task = {
+        ...(await tx.task.create({
+          data: {
+            obligationId: obligation.id,
+            assignedToUserId: obligation.ownerUserId,
+            title: `${CHECKLIST_TASK_PREFIX}${obligation.template!.title}`,
+            description: "Completar los items del checklist",
+            status: TaskStatus.OPEN,
+            dueDate: obligation.dueDate,
+          },
+        })),
+        items: [],
+      };
+      entries.push({
+        action: AuditActions.TASK_CREATED,
+        taskId: task.id,
+        metadata: {
+          title: task.title,
+          obligationId: task.obligationId,
+          assignedToUserId: task.assignedToUserId ?? undefined,
+          changes: diffEntity("Task", null, task),
+        },
+      });
+    }
+
+    const nextOrder =
+      task.items.reduce((max, i) => Math.max(max, i.order), -1) + 1;
+    const created = await tx.taskItem.createManyAndReturn({
+      data: added.map((description, i) => ({
+        taskId: task.id,
+        description,
+        order: nextOrder + i,
+        done: false,
+      })),
+    });
+    for (const item of created) {
+      entries.push({
+        action: AuditActions.TASK_UPDATED,
+        taskId: task.id,
+        metadata: {
+          taskItem: { action: "created", itemId: item.id },
+          changes: diffEntity("TaskItem", null, item),
+        },
+      });
+    }
+    return entries;
+  }
+}
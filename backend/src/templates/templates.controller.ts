@@ -10,6 +10,7 @@ import {
   UseGuards,
   HttpCode,
   HttpStatus,
+  Res,
 } from "@nestjs/common";
 import {
   ApiTags,
@@ -18,9 +19,13 @@ import {
   ApiBearerAuth,
   ApiParam,
   ApiQuery,
+  ApiProduces,
 } from "@nestjs/swagger";
+import { Response } from "express";
 import { Role } from "@prisma/client";
 import { TemplatesService } from "./templates.service";
+import { TemplateUpdatesService } from "./template-updates.service";
+import { TemplateBundlesService } from "./template-bundles.service";
 import {
   CreateObligationTemplateDto,
   UpdateObligationTemplateDto,
@@ -30,7 +35,18 @@ import {
   ApplyTemplatesResultDto,
   TemplateQueryDto,
   RubricDto,
+  DueDatePreviewDto,
+  DueDatePreviewQueryDto,
+  DueRulePreviewRequestDto,
+  TemplateUpdateDto,
+  AcceptTemplateUpdateDto,
+  AcceptTemplateUpdateResultDto,
 } from "./dto/template.dto";
+import {
+  ExportTemplateBundleQueryDto,
+  ImportTemplateBundleDto,
+  ImportTemplateBundleResultDto,
+} from "./dto/template-bundle.dto";
 import { PaginationDto, PaginatedResponse } from "../common/dto/pagination.dto";
 import { JwtAuthGuard } from "../common/guards/jwt-auth.guard";
 import { OrganizationGuard } from "../common/guards/organization.guard";
@@ -44,7 +60,10 @@ import { AuthenticatedUser } from "../common/interfaces/request.interface";
 @ApiTags("templates")
 @Controller("templates")
 export class TemplatesController {
-  constructor(private readonly templatesService: TemplatesService) {}
+  constructor(
+    private readonly templatesService: TemplatesService,
+    private readonly templateBundlesService: TemplateBundlesService,
+  ) {}
 
   @Get()
   @Public()
@@ -113,6 +132,30 @@ export class TemplatesController {
     );
   }
 
+  @Get("export")
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, PlatformAdminGuard)
+  @ApiOperation({
+    summary: "Exportar el catalogo de una jurisdiccion como paquete",
+  })
+  @ApiProduces("application/yaml", "application/json")
+  @ApiResponse({ status: 200, description: "Archivo YAML o JSON" })
+  @ApiResponse({ status: 404, description: "Jurisdiccion no encontrada" })
+  async exportBundle(
+    @Query() query: ExportTemplateBundleQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { fileName, content } =
+      await this.templateBundlesService.export(query);
+
+    res.setHeader(
+      "Content-Type",
+      query.format === "json" ? "application/json" : "application/yaml",
+    );
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.send(content);
+  }
+
   @Get(":id")
   @Public()
   @ApiOperation({ summary: "Obtener detalles de plantilla" })
@@ -144,6 +187,50 @@ export class TemplatesController {
     return this.templatesService.create(dto);
   }
 
+  @Post("import")
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, PlatformAdminGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Importar paquete de plantillas (YAML o JSON)",
+    description:
+      "Crea o actualiza la jurisdiccion y sus plantillas. Con dryRun solo devuelve las diferencias",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Diferencias del paquete contra el catalogo",
+    type: ImportTemplateBundleResultDto,
+  })
+  @ApiResponse({ status: 400, description: "Paquete invalido" })
+  @ApiResponse({
+    status: 409,
+    description: "Alguna plantilla pertenece a otra jurisdiccion",
+  })
+  async importBundle(
+    @Body() dto: ImportTemplateBundleDto,
+  ): Promise<ImportTemplateBundleResultDto> {
+    return this.templateBundlesService.import(dto);
+  }
+
+  @Post("due-rule/preview")
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard, PlatformAdminGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Previsualizar los proximos vencimientos de una regla",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Proximos 12 vencimientos calculados",
+    type: [DueDatePreviewDto],
+  })
+  @ApiResponse({ status: 400, description: "Regla de vencimiento invalida" })
+  async previewDueRule(
+    @Body() dto: DueRulePreviewRequestDto,
+  ): Promise<DueDatePreviewDto[]> {
+    return this.templatesService.previewDueRule(dto);
+  }
+
   @Patch(":id")
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard, PlatformAdminGuard)
@@ -179,7 +266,88 @@ export class TemplatesController {
 @UseGuards(JwtAuthGuard, OrganizationGuard)
 @Controller("organizations/:organizationId/templates")
 export class OrganizationTemplatesController {
-  constructor(private readonly templatesService: TemplatesService) {}
+  constructor(
+    private readonly templatesService: TemplatesService,
+    private readonly templateUpdatesService: TemplateUpdatesService,
+  ) {}
+
+  @Get("updates")
+  @ApiOperation({
+    summary: "Listar actualizaciones de plantillas para obligaciones abiertas",
+  })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiResponse({
+    status: 200,
+    description: "Obligaciones con una version nueva de su plantilla",
+    type: [TemplateUpdateDto],
+  })
+  async findTemplateUpdates(
+    @Param("organizationId") organizationId: string,
+  ): Promise<TemplateUpdateDto[]> {
+    return this.templateUpdatesService.findAvailable(organizationId);
+  }
+
+  @Post("updates/:obligationId/accept")
+  @UseGuards(RolesGuard)
+  @Roles(Role.OWNER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Aplicar cambios de la plantilla a una obligacion",
+    description:
+      "Aplica los campos seleccionados y marca la obligacion con la ultima version",
+  })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "obligationId", type: "string" })
+  @ApiResponse({
+    status: 200,
+    description: "Cambios aplicados",
+    type: AcceptTemplateUpdateResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: "La obligacion esta cerrada o ya esta actualizada",
+  })
+  @ApiResponse({ status: 404, description: "Obligacion no encontrada" })
+  async acceptTemplateUpdate(
+    @Param("organizationId") organizationId: string,
+    @Param("obligationId") obligationId: string,
+    @Body() dto: AcceptTemplateUpdateDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<AcceptTemplateUpdateResultDto> {
+    return this.templateUpdatesService.accept(
+      organizationId,
+      obligationId,
+      dto,
+      user.id,
+    );
+  }
+
+  @Get(":templateId/due-dates")
+  @ApiOperation({
+    summary: "Previsualizar vencimientos de una plantilla para la organizacion",
+  })
+  @ApiParam({ name: "organizationId", type: "string" })
+  @ApiParam({ name: "templateId", type: "string" })
+  @ApiResponse({
+    status: 200,
+    description: "Proximos vencimientos calculados",
+    type: [DueDatePreviewDto],
+  })
+  @ApiResponse({
+    status: 400,
+    description: "La plantilla no tiene regla de vencimiento estructurada",
+  })
+  async previewDueDates(
+    @Param("organizationId") organizationId: string,
+    @Param("templateId") templateId: string,
+    @Query() query: DueDatePreviewQueryDto,
+  ): Promise<DueDatePreviewDto[]> {
+    return this.templatesService.previewDueDates(
+      organizationId,
+      templateId,
+      query,
+    );
+  }
 
   @Post("apply")
   @UseGuards(RolesGuard)
@@ -4,12 +4,20 @@ import {
   OrganizationTemplatesController,
 } from "./templates.controller";
 import { TemplatesService } from "./templates.service";
+import { DueRuleService } from "./due-rule.service";
+import { TemplateUpdatesService } from "./template-updates.service";
+import { TemplateBundlesService } from "./template-bundles.service";
 import { JurisdictionsModule } from "../jurisdictions/jurisdictions.module";
 
 @Module({
   imports: [JurisdictionsModule],
   controllers: [TemplatesController, OrganizationTemplatesController],
-  providers: [TemplatesService],
-  exports: [TemplatesService],
+  providers: [
+    TemplatesService,
+    DueRuleService,
+    TemplateUpdatesService,
+    TemplateBundlesService,
+  ],
+  exports: [TemplatesService, DueRuleService],
 })
 export class TemplatesModule {}
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { TemplatesService } from "./templates.service";
 import { NotFoundException, BadRequestException } from "@nestjs/common";
+import { BusinessCalendar } from "../jurisdictions/business-calendar.service";
+import { DueRuleService } from "./due-rule.service";
 
 const mockPrismaService = {
   obligationTemplate: {
@@ -37,6 +39,18 @@ const mockJurisdictionsService = {
   findByCode: vi.fn(),
 };
 
+const mockBusinessCalendarService = {
+  getCalendar: vi.fn(),
+};
+
+const mockTaxSchedulesService = {
+  findNextDueDate: vi.fn(),
+};
+
+const mockAuditService = {
+  log: vi.fn(),
+};
+
 describe("TemplatesService", () => {
   let service: TemplatesService;
 
@@ -45,6 +59,13 @@ describe("TemplatesService", () => {
     service = new TemplatesService(
       mockPrismaService as any,
       mockJurisdictionsService as any,
+      mockBusinessCalendarService as any,
+      new DueRuleService(mockBusinessCalendarService as any),
+      mockTaxSchedulesService as any,
+      mockAuditService as any,
+    );
+    mockBusinessCalendarService.getCalendar.mockResolvedValue(
+      new BusinessCalendar(),
     );
   });
 
@@ -177,21 +198,54 @@ describe("TemplatesService", () => {
     beforeEach(() => {
       mockPrismaService.organization.findUnique.mockResolvedValue({
         id: organizationId,
+        cuit: "30-71234567-1",
+        taxpayerKind: "LEGAL_ENTITY",
         jurisdictionId: "juris-rosario",
         jurisdiction: { code: "ar-sf-rosario" },
         userOrgs: [{ userId }],
       });
     });
 
+    it("should only pick templates for the organization taxpayer kind", async () => {
+      mockPrismaService.obligationTemplate.findMany.mockResolvedValue([]);
+
+      await expect(
+        service.applyToOrganization(
+          organizationId,
+          { rubric: "comercio" },
+          userId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(
+        mockPrismaService.obligationTemplate.findMany,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            jurisdictionId: "juris-rosario",
+            rubric: "comercio",
+            isActive: true,
+            OR: [
+              { taxpayerKinds: { isEmpty: true } },
+              { taxpayerKinds: { has: "LEGAL_ENTITY" } },
+            ],
+          },
+        }),
+      );
+    });
+
     it("should apply templates and create obligations", async () => {
       const templates = [
         {
           id: "t1",
+          templateKey: "rosario.gastronomia.habilitacion",
+          version: 3,
           title: "Habilitacion",
           type: "PERMIT",
           defaultPeriodicity: "ANNUAL",
           requiresReview: true,
           requiredEvidenceCount: 1,
+          severity: "CRITICAL",
           checklistItems: [{ id: "c1", description: "Item 1", order: 0 }],
         },
       ];
@@ -213,6 +267,123 @@ describe("TemplatesService", () => {
       expect(result.obligationsCreated).toBe(1);
       expect(result.tasksCreated).toBe(1);
       expect(result.obligationIds).toContain("obl-1");
+      expect(
+        mockPrismaService.obligation.create.mock.calls[0][0].data,
+      ).toMatchObject({
+        templateId: "t1",
+        templateVersion: 3,
+        severity: "CRITICAL",
+      });
+      expect(mockAuditService.log).toHaveBeenCalledWith(
+        organizationId,
+        "obligation.created",
+        "Obligation",
+        "obl-1",
+        userId,
+        expect.objectContaining({ templateId: "t1" }),
+      );
+    });
+
+    it("should move due dates to the next business day", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-07-09T12:00:00Z"));
+
+      mockPrismaService.obligationTemplate.findMany.mockResolvedValue([
+        {
+          id: "t1",
+          title: "DREI",
+          type: "TAX",
+          defaultPeriodicity: "MONTHLY",
+          requiresReview: false,
+          requiredEvidenceCount: 0,
+          checklistItems: [],
+        },
+      ]);
+      mockPrismaService.obligation.findMany.mockResolvedValue([]);
+      mockPrismaService.obligation.create.mockResolvedValue({ id: "obl-1" });
+      // 9/8 is a Saturday and Monday 11/8 is a holiday
+      mockBusinessCalendarService.getCalendar.mockResolvedValue(
+        new BusinessCalendar([new Date("2025-08-11")]),
+      );
+
+      await service.applyToOrganization(
+        organizationId,
+        { rubric: "comercio" },
+        userId,
+      );
+
+      const { data } = mockPrismaService.obligation.create.mock.calls[0][0];
+      expect(mockBusinessCalendarService.getCalendar).toHaveBeenCalledWith(
+        "juris-rosario",
+      );
+      expect(data.dueDate).toEqual(new Date("2025-08-12"));
+
+      vi.useRealTimers();
+    });
+
+    it("should compute the due date from the template due rule", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-07-09T12:00:00Z"));
+
+      mockPrismaService.obligationTemplate.findMany.mockResolvedValue([
+        {
+          id: "t1",
+          title: "TSeH",
+          type: "TAX",
+          defaultPeriodicity: "MONTHLY",
+          dueRule: { day: 15 },
+          requiresReview: false,
+          requiredEvidenceCount: 0,
+          checklistItems: [],
+        },
+      ]);
+      mockPrismaService.obligation.findMany.mockResolvedValue([]);
+      mockPrismaService.obligation.create.mockResolvedValue({ id: "obl-1" });
+
+      await service.applyToOrganization(
+        organizationId,
+        { rubric: "comercio" },
+        userId,
+      );
+
+      // June period: due July 15
+      const { data } = mockPrismaService.obligation.create.mock.calls[0][0];
+      expect(data.dueDate).toEqual(new Date("2025-07-15"));
+      expect(data.dueRule).toEqual({ day: 15 });
+
+      vi.useRealTimers();
+    });
+
+    it("should prefer the CUIT tax schedule over the due rule", async () => {
+      mockPrismaService.obligationTemplate.findMany.mockResolvedValue([
+        {
+          id: "t1",
+          title: "Ingresos Brutos",
+          type: "DECLARATION",
+          defaultPeriodicity: "MONTHLY",
+          dueRule: { day: 15 },
+          taxScheduleCode: "ar-sf.api.ingresos_brutos",
+          requiresReview: false,
+          requiredEvidenceCount: 0,
+          checklistItems: [],
+        },
+      ]);
+      mockPrismaService.obligation.findMany.mockResolvedValue([]);
+      mockPrismaService.obligation.create.mockResolvedValue({ id: "obl-1" });
+      mockTaxSchedulesService.findNextDueDate.mockResolvedValue({
+        period: "2025-06",
+        dueDate: new Date("2025-07-17"),
+      });
+
+      await service.applyToOrganization(
+        organizationId,
+        { rubric: "comercio" },
+        userId,
+      );
+
+      const { data } = mockPrismaService.obligation.create.mock.calls[0][0];
+      expect(data.dueDate).toEqual(new Date("2025-07-17"));
+      expect(data.taxScheduleCode).toBe("ar-sf.api.ingresos_brutos");
     });
 
     it("should not duplicate existing obligations", async () => {
@@ -246,6 +417,37 @@ describe("TemplatesService", () => {
       expect(mockPrismaService.obligation.create).not.toHaveBeenCalled();
     });
 
+    it("should dedupe by template key even if the obligation was renamed", async () => {
+      mockPrismaService.obligationTemplate.findMany.mockResolvedValue([
+        {
+          id: "t1",
+          templateKey: "rosario.gastronomia.habilitacion",
+          version: 1,
+          title: "Habilitacion",
+          type: "PERMIT",
+          defaultPeriodicity: "ANNUAL",
+          requiresReview: false,
+          requiredEvidenceCount: 0,
+          checklistItems: [],
+        },
+      ]);
+      mockPrismaService.obligation.findMany.mockResolvedValue([
+        {
+          title: "Habilitacion local centro",
+          template: { templateKey: "rosario.gastronomia.habilitacion" },
+        },
+      ]);
+
+      const result = await service.applyToOrganization(
+        organizationId,
+        { rubric: "gastronomia" },
+        userId,
+      );
+
+      expect(result.obligationsCreated).toBe(0);
+      expect(mockPrismaService.obligation.create).not.toHaveBeenCalled();
+    });
+
     it("should throw BadRequestException if no templates found", async () => {
       mockPrismaService.obligationTemplate.findMany.mockResolvedValue([]);
 
@@ -319,6 +521,25 @@ describe("TemplatesService", () => {
     });
   });
 
+  describe("update", () => {
+    it("should clear the due rule when it is set to null", async () => {
+      mockPrismaService.obligationTemplate.findUnique.mockResolvedValue({
+        id: "template-123",
+        defaultPeriodicity: "MONTHLY",
+        dueRule: { day: 15 },
+        checklistItems: [],
+      });
+      mockPrismaService.obligationTemplate.update.mockResolvedValue({});
+
+      await service.update("template-123", { dueRule: null });
+
+      const { data } =
+        mockPrismaService.obligationTemplate.update.mock.calls[0][0];
+      expect(data.dueRule).toBe("DbNull");
+      expect(data.version).toEqual({ increment: 1 });
+    });
+  });
+
   describe("deactivate", () => {
     it("should deactivate template", async () => {
       mockPrismaService.obligationTemplate.findUnique.mockResolvedValue({
@@ -4,10 +4,25 @@ import {
   BadRequestException,
 } from "@nestjs/common";
 import { PrismaService } from "../common/prisma/prisma.service";
+import { AuditService } from "../audit/audit.service";
+import { AuditActions } from "../audit/dto/audit.dto";
+import { diffEntity } from "../audit/audit-diff";
 import {
   JurisdictionsService,
   ROSARIO_JURISDICTION_CODE,
 } from "../jurisdictions/jurisdictions.service";
+import { BusinessCalendarService } from "../jurisdictions/business-calendar.service";
+import { TaxSchedulesService } from "../jurisdictions/tax-schedules.service";
+import {
+  DueRule,
+  DueRuleService,
+  computeDueDates,
+  periodicityToMonths,
+} from "./due-rule.service";
+import {
+  CHECKLIST_TASK_PREFIX,
+  templateSnapshot,
+} from "./template-updates.service";
 import {
   CreateObligationTemplateDto,
   UpdateObligationTemplateDto,
@@ -18,13 +33,22 @@ import {
   TemplateQueryDto,
   RubricDto,
   ChecklistItemDto,
+  DueDatePreviewDto,
+  DueDatePreviewQueryDto,
+  DueRulePreviewRequestDto,
 } from "./dto/template.dto";
 import {
   PaginationDto,
   PaginatedResponse,
   createPaginatedResponse,
 } from "../common/dto/pagination.dto";
-import { Prisma, ObligationStatus, TaskStatus } from "@prisma/client";
+import {
+  Prisma,
+  ObligationStatus,
+  TaskStatus,
+  TaxpayerKind,
+} from "@prisma/client";
+import { getTaxpayerKind } from "../common/validators/cuit.validator";
 
 type TemplateWithChecklist = Prisma.ObligationTemplateGetPayload<{
   include: {
@@ -32,11 +56,27 @@ type TemplateWithChecklist = Prisma.ObligationTemplateGetPayload<{
   };
 }>;
 
+// Templates without taxpayer kinds apply to all
+function taxpayerKindFilter(
+  kind: TaxpayerKind,
+): Prisma.ObligationTemplateWhereInput {
+  return {
+    OR: [
+      { taxpayerKinds: { isEmpty: true } },
+      { taxpayerKinds: { has: kind } },
+    ],
+  };
+}
+
 @Injectable()
 export class TemplatesService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly jurisdictionsService: JurisdictionsService,
+    private readonly businessCalendarService: BusinessCalendarService,
+    private readonly dueRuleService: DueRuleService,
+    private readonly taxSchedulesService: TaxSchedulesService,
+    private readonly auditService: AuditService,
   ) {}
 
   async create(
@@ -44,6 +84,7 @@ export class TemplatesService {
   ): Promise<ObligationTemplateResponseDto> {
     // Verificar que la jurisdiccion existe
     await this.jurisdictionsService.findOne(dto.jurisdictionId);
+    this.dueRuleService.validate(dto.dueRule, dto.defaultPeriodicity);
 
     const template = await this.prisma.obligationTemplate.create({
       data: {
@@ -55,6 +96,11 @@ export class TemplatesService {
         type: dto.type,
         defaultPeriodicity: dto.defaultPeriodicity,
         defaultDueRule: dto.defaultDueRule,
+        dueRule: dto.dueRule
+          ? (dto.dueRule as Prisma.InputJsonValue)
+          : undefined,
+        taxScheduleCode: dto.taxScheduleCode,
+        taxpayerKinds: dto.taxpayerKinds,
         requiresReview: dto.requiresReview,
         requiredEvidenceCount: dto.requiredEvidenceCount,
         severity: dto.severity,
@@ -96,6 +142,9 @@ export class TemplatesService {
     if (query.type) {
       where.type = query.type;
     }
+    if (query.taxpayerKind) {
+      Object.assign(where, taxpayerKindFilter(query.taxpayerKind));
+    }
     if (query.activeOnly !== false) {
       where.isActive = true;
     }
@@ -123,6 +172,7 @@ export class TemplatesService {
       type: t.type,
       defaultPeriodicity: t.defaultPeriodicity,
       severity: t.severity,
+      taxpayerKinds: t.taxpayerKinds,
       checklistItemCount: t._count.checklistItems,
     }));
 
@@ -155,6 +205,7 @@ export class TemplatesService {
       type: t.type,
       defaultPeriodicity: t.defaultPeriodicity,
       severity: t.severity,
+      taxpayerKinds: t.taxpayerKinds,
       checklistItemCount: t._count.checklistItems,
     }));
   }
@@ -199,18 +250,42 @@ export class TemplatesService {
     id: string,
     dto: UpdateObligationTemplateDto,
   ): Promise<ObligationTemplateResponseDto> {
-    await this.findOne(id);
+    const existing = await this.findOne(id);
+
+    if (dto.dueRule || dto.defaultPeriodicity) {
+      this.dueRuleService.validate(
+        dto.dueRule === undefined ? existing.dueRule : dto.dueRule,
+        dto.defaultPeriodicity ?? existing.defaultPeriodicity,
+      );
+    }
 
-    const { checklist, references, ...rest } = dto;
+    const { checklist, references, dueRule, ...rest } = dto;
     const updateData: Prisma.ObligationTemplateUpdateInput = {
       ...rest,
       ...(references
         ? { references: references as Prisma.InputJsonValue }
         : {}),
+      // null removes the rule; obligations fall back to the recurrence
+      ...(dueRule !== undefined
+        ? {
+            dueRule: dueRule
+              ? (dueRule as Prisma.InputJsonValue)
+              : Prisma.DbNull,
+          }
+        : {}),
     };
 
-    // Incrementar version si hay cambios sustanciales
-    if (dto.title || dto.description || dto.checklist) {
+    // Bump the version on substantial changes (organizations see them as
+    // available updates)
+    if (
+      dto.title ||
+      dto.description ||
+      dto.checklist ||
+      dto.dueRule !== undefined ||
+      dto.taxScheduleCode ||
+      dto.requiresReview !== undefined ||
+      dto.requiredEvidenceCount !== undefined
+    ) {
       updateData.version = { increment: 1 };
     }
 
@@ -330,11 +405,15 @@ export class TemplatesService {
         },
       });
     } else {
+      // Only templates matching the taxpayer kind
+      const taxpayerKind =
+        organization.taxpayerKind ?? getTaxpayerKind(organization.cuit);
       templates = await this.prisma.obligationTemplate.findMany({
         where: {
           jurisdictionId,
           rubric: dto.rubric.toLowerCase(),
           isActive: true,
+          ...(taxpayerKind && taxpayerKindFilter(taxpayerKind)),
         },
         include: {
           checklistItems: {
@@ -350,15 +429,27 @@ export class TemplatesService {
       );
     }
 
-    // Verificar que no existan obligaciones duplicadas (por templateKey)
+    // Skip duplicate obligations: by templateKey, or by title for obligations
+    // created before they were linked to the template
     const existingObligations = await this.prisma.obligation.findMany({
       where: {
         organizationId,
         locationId: dto.locationId || null,
       },
-      select: { title: true },
+      select: { title: true, template: { select: { templateKey: true } } },
     });
-    const existingTitles = new Set(existingObligations.map((o) => o.title));
+    const existingKeys = new Set(
+      existingObligations.flatMap((o) =>
+        o.template ? [o.template.templateKey] : [],
+      ),
+    );
+    const existingTitles = new Set(
+      existingObligations.filter((o) => !o.template).map((o) => o.title),
+    );
+
+    // Due dates on a weekend or holiday move to the next business day
+    const calendar =
+      await this.businessCalendarService.getCalendar(jurisdictionId);
 
     const result: ApplyTemplatesResultDto = {
       obligationsCreated: 0,
@@ -368,13 +459,43 @@ export class TemplatesService {
 
     // Crear obligaciones y tareas
     for (const template of templates) {
-      // Evitar duplicados basados en titulo
-      if (existingTitles.has(template.title)) {
+      if (
+        existingKeys.has(template.templateKey) ||
+        existingTitles.has(template.title)
+      ) {
         continue;
       }
 
-      // Calcular fecha de vencimiento inicial basada en periodicidad
-      const dueDate = this.calculateInitialDueDate(template.defaultPeriodicity);
+      // Initial due date: CUIT schedule, structured rule or periodicity (if
+      // the schedule's year hasn't been imported yet)
+      let nominalDueDate: Date;
+      let dueDate: Date;
+      const dueRule = template.dueRule as DueRule | null;
+      const periodMonths = periodicityToMonths(template.defaultPeriodicity);
+      const scheduled = template.taxScheduleCode
+        ? await this.taxSchedulesService.findNextDueDate(
+            template.taxScheduleCode,
+            organization.cuit,
+            new Date(),
+          )
+        : null;
+      if (scheduled) {
+        // Published dates are already business days
+        nominalDueDate = scheduled.dueDate;
+        dueDate = scheduled.dueDate;
+      } else if (dueRule && periodMonths) {
+        const [first] = computeDueDates(dueRule, periodMonths, new Date(), 1, {
+          calendar,
+          cuit: organization.cuit,
+        });
+        nominalDueDate = first.nominalDueDate;
+        dueDate = first.dueDate;
+      } else {
+        nominalDueDate = this.calculateInitialDueDate(
+          template.defaultPeriodicity,
+        );
+        dueDate = calendar.nextBusinessDay(nominalDueDate);
+      }
 
       // Crear obligacion
       const obligation = await this.prisma.obligation.create({
@@ -385,18 +506,39 @@ export class TemplatesService {
           description: template.description,
           type: template.type,
           status: ObligationStatus.PENDING,
+          severity: template.severity,
           dueDate,
+          nominalDueDate,
+          dueRule: dueRule ? (dueRule as Prisma.InputJsonValue) : undefined,
+          taxScheduleCode: template.taxScheduleCode,
           recurrenceRule: this.periodicityToRecurrenceRule(
             template.defaultPeriodicity,
           ),
           requiresReview: template.requiresReview,
           requiredEvidenceCount: template.requiredEvidenceCount,
           ownerUserId,
+          templateId: template.id,
+          templateVersion: template.version,
+          templateSnapshot: templateSnapshot(
+            template,
+          ) as unknown as Prisma.InputJsonObject,
         },
       });
 
       result.obligationIds.push(obligation.id);
       result.obligationsCreated++;
+      await this.auditService.log(
+        organizationId,
+        AuditActions.OBLIGATION_CREATED,
+        "Obligation",
+        obligation.id,
+        requestingUserId,
+        {
+          title: obligation.title,
+          templateId: template.id,
+          changes: diffEntity("Obligation", null, obligation),
+        },
+      );
 
       // Crear tarea con checklist si hay items
       if (template.checklistItems.length > 0) {
@@ -404,13 +546,25 @@ export class TemplatesService {
           data: {
             obligationId: obligation.id,
             assignedToUserId: ownerUserId,
-            title: `Checklist: ${template.title}`,
+            title: `${CHECKLIST_TASK_PREFIX}${template.title}`,
             description:
               template.defaultDueRule || "Completar los items del checklist",
             status: TaskStatus.OPEN,
             dueDate,
           },
         });
+        await this.auditService.log(
+          organizationId,
+          AuditActions.TASK_CREATED,
+          "Task",
+          task.id,
+          requestingUserId,
+          {
+            title: task.title,
+            obligationId: obligation.id,
+            changes: diffEntity("Task", null, task),
+          },
+        );
 
         // Crear items de checklist
         await this.prisma.taskItem.createMany({
@@ -445,6 +599,63 @@ export class TemplatesService {
     });
   }
 
+  // Upcoming due dates of a template for the organization (and its location)
+  async previewDueDates(
+    organizationId: string,
+    templateId: string,
+    query: DueDatePreviewQueryDto,
+  ): Promise<DueDatePreviewDto[]> {
+    const template = await this.findOne(templateId);
+
+    if (!template.dueRule) {
+      throw new BadRequestException(
+        "La plantilla no tiene una regla de vencimiento estructurada",
+      );
+    }
+
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException(
+        `Organizacion no encontrada: ${organizationId}`,
+      );
+    }
+
+    let jurisdictionId = organization.jurisdictionId ?? template.jurisdictionId;
+    if (query.locationId) {
+      const location = await this.prisma.location.findFirst({
+        where: { id: query.locationId, organizationId },
+      });
+      if (!location) {
+        throw new NotFoundException(`Local no encontrado: ${query.locationId}`);
+      }
+      jurisdictionId = location.jurisdictionId ?? jurisdictionId;
+    }
+
+    return this.dueRuleService.preview(
+      template.dueRule,
+      template.defaultPeriodicity,
+      {
+        jurisdictionId,
+        cuit: organization.cuit,
+        from: query.from,
+        count: query.count,
+      },
+    );
+  }
+
+  // Preview a rule while editing a template
+  async previewDueRule(
+    dto: DueRulePreviewRequestDto,
+  ): Promise<DueDatePreviewDto[]> {
+    return this.dueRuleService.preview(dto.dueRule, dto.periodicity, {
+      jurisdictionId: dto.jurisdictionId,
+      cuit: dto.cuit,
+    });
+  }
+
   private calculateInitialDueDate(periodicity: string): Date {
     const now = new Date();
     const dueDate = new Date(now);
@@ -514,6 +725,9 @@ export class TemplatesService {
       type: template.type,
       defaultPeriodicity: template.defaultPeriodicity,
       defaultDueRule: template.defaultDueRule,
+      dueRule: (template.dueRule as DueRule | null) ?? undefined,
+      taxScheduleCode: template.taxScheduleCode ?? undefined,
+      taxpayerKinds: template.taxpayerKinds,
       requiresReview: template.requiresReview,
       requiredEvidenceCount: template.requiredEvidenceCount,
       severity: template.severity,
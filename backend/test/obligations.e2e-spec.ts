@@ -19,7 +19,7 @@ describe("Obligations (e2e)", () => {
   };
 
   const testOrganization = {
-    cuit: "20-99999999-9",
+    cuit: "20-99999998-1",
     name: "E2E Test Organization",
     plan: "BASIC",
   };
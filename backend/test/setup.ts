@@ -1,8 +1,12 @@
 import { vi } from "vitest";
+import { generateKeyPairSync } from "crypto";
 
 // Mock environment variables for testing
 process.env.NODE_ENV = "test";
 process.env.JWT_SECRET = "test-jwt-secret";
+process.env.AUDIT_SIGNING_KEY = generateKeyPairSync("ed25519")
+  .privateKey.export({ type: "pkcs8", format: "pem" })
+  .toString();
 process.env.JWT_EXPIRES_IN = "1d";
 process.env.JWT_REFRESH_SECRET = "test-refresh-secret";
 process.env.JWT_REFRESH_EXPIRES_IN = "7d";
@@ -18,6 +22,9 @@ process.env.CORS_ORIGINS = "http://localhost:3000";
 vi.mock("@prisma/client", () => {
   return {
     PrismaClient: vi.fn(),
+    Prisma: {
+      DbNull: "DbNull",
+    },
     Role: {
       OWNER: "OWNER",
       ADMIN: "ADMIN",
@@ -63,5 +70,79 @@ vi.mock("@prisma/client", () => {
       EXPIRED: "EXPIRED",
       CANCELLED: "CANCELLED",
     },
+    Periodicity: {
+      WEEKLY: "WEEKLY",
+      BIWEEKLY: "BIWEEKLY",
+      MONTHLY: "MONTHLY",
+      BIMONTHLY: "BIMONTHLY",
+      QUARTERLY: "QUARTERLY",
+      SEMIANNUAL: "SEMIANNUAL",
+      ANNUAL: "ANNUAL",
+      BIENNIAL: "BIENNIAL",
+      ONE_TIME: "ONE_TIME",
+    },
+    TaxpayerKind: {
+      INDIVIDUAL: "INDIVIDUAL",
+      LEGAL_ENTITY: "LEGAL_ENTITY",
+    },
+    HolidayScope: {
+      NATIONAL: "NATIONAL",
+      PROVINCIAL: "PROVINCIAL",
+      LOCAL: "LOCAL",
+    },
+    NotificationType: {
+      OBLIGATION_UPCOMING: "OBLIGATION_UPCOMING",
+      OBLIGATION_OVERDUE: "OBLIGATION_OVERDUE",
+      REVIEW_REQUIRED: "REVIEW_REQUIRED",
+      REVIEW_APPROVED: "REVIEW_APPROVED",
+      REVIEW_REJECTED: "REVIEW_REJECTED",
+      TASK_ASSIGNED: "TASK_ASSIGNED",
+    },
+    NotificationSeverity: {
+      INFO: "INFO",
+      WARNING: "WARNING",
+      CRITICAL: "CRITICAL",
+    },
+    NotificationChannel: {
+      EMAIL: "EMAIL",
+      IN_APP: "IN_APP",
+      WEBHOOK: "WEBHOOK",
+      WHATSAPP: "WHATSAPP",
+      TELEGRAM: "TELEGRAM",
+    },
+    DeliveryStatus: {
+      PENDING: "PENDING",
+      SENT: "SENT",
+      FAILED: "FAILED",
+      SUPPRESSED: "SUPPRESSED",
+    },
+    NotificationFrequency: {
+      IMMEDIATE: "IMMEDIATE",
+      DAILY_DIGEST: "DAILY_DIGEST",
+      WEEKLY_DIGEST: "WEEKLY_DIGEST",
+    },
+    TemplateSeverity: {
+      LOW: "LOW",
+      MEDIUM: "MEDIUM",
+      HIGH: "HIGH",
+      CRITICAL: "CRITICAL",
+    },
+    CalendarFeedScope: {
+      USER: "USER",
+      ORGANIZATION: "ORGANIZATION",
+    },
+    ReportType: {
+      COMPLIANCE: "COMPLIANCE",
+      OBLIGATIONS: "OBLIGATIONS",
+    },
+    ReportFormat: {
+      CSV: "CSV",
+      PDF: "PDF",
+      XLSX: "XLSX",
+    },
+    GeneratedReportStatus: {
+      COMPLETED: "COMPLETED",
+      FAILED: "FAILED",
+    },
   };
 });
@@ -1,8 +1,9 @@
 'use client';
 
-import { useEffect } from 'react';
+import { Suspense, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { Sidebar } from '@/components/layout/sidebar';
+import { GlobalSearch } from '@/components/layout/global-search';
 import { useAuthStore } from '@/stores/auth.store';
 
 export default function DashboardLayout({
@@ -11,7 +12,7 @@ export default function DashboardLayout({
   children: React.ReactNode;
 }) {
   const router = useRouter();
-  const { user, accessToken } = useAuthStore();
+  const { user, accessToken, currentOrganizationId } = useAuthStore();
 
   useEffect(() => {
     if (!accessToken || !user) {
@@ -31,7 +32,14 @@ export default function DashboardLayout({
     <div className="flex h-screen bg-gray-100">
       <Sidebar />
       <main className="flex-1 overflow-auto">
-        <div className="p-6">{children}</div>
+        {currentOrganizationId && (
+          <div className="sticky top-0 z-40 border-b bg-gray-100 px-6 py-3">
+            <GlobalSearch organizationId={currentOrganizationId} />
+          </div>
+        )}
+        <div className="p-6">
+          <Suspense>{children}</Suspense>
+        </div>
       </main>
     </div>
   );
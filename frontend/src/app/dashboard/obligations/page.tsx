@@ -1,25 +1,67 @@
 'use client';
 
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
 import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
 import { useAuthStore } from '@/stores/auth.store';
 import { obligations } from '@/lib/api';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Plus, Search } from 'lucide-react';
-import { cn, formatDate, getTrafficLightColor, getStatusLabel, getTypeLabel } from '@/lib/utils';
+import {
+  cn,
+  formatDate,
+  getTrafficLightColor,
+  getStatusLabel,
+  getTypeLabel,
+  getSeverityColor,
+  getSeverityLabel,
+} from '@/lib/utils';
+import type { TemplateSeverity } from '@/types';
 
 export default function ObligationsPage() {
   const { currentOrganizationId } = useAuthStore();
-  const [search, setSearch] = useState('');
+  const searchParams = useSearchParams();
+  const obligationId = searchParams.get('id') ?? undefined;
+  const [search, setSearch] = useState(searchParams.get('q') ?? '');
+  const [query, setQuery] = useState(search.trim());
   const [statusFilter, setStatusFilter] = useState<string>('');
+  const [severityFilter, setSeverityFilter] = useState<TemplateSeverity | ''>('');
+  const [sortBy, setSortBy] = useState<'dueDate' | 'riskScore'>('dueDate');
+
+  useEffect(() => {
+    setSearch(searchParams.get('q') ?? '');
+  }, [searchParams]);
+
+  // The title is filtered by the API, so wait until the user stops typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(search.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [search]);
 
   const { data, isLoading } = useQuery({
-    queryKey: ['obligations', currentOrganizationId, statusFilter],
-    queryFn: () => obligations.list(currentOrganizationId!, { status: statusFilter || undefined }),
+    queryKey: [
+      'obligations',
+      currentOrganizationId,
+      obligationId,
+      query,
+      statusFilter,
+      severityFilter,
+      sortBy,
+    ],
+    queryFn: () =>
+      obligations.list(currentOrganizationId!, {
+        id: obligationId,
+        q: query || undefined,
+        status: statusFilter || undefined,
+        severity: severityFilter || undefined,
+        sortBy,
+        sortOrder: sortBy === 'riskScore' ? 'desc' : 'asc',
+      }),
     enabled: !!currentOrganizationId,
+    placeholderData: keepPreviousData,
   });
 
   if (!currentOrganizationId) {
@@ -39,9 +81,6 @@ export default function ObligationsPage() {
   }
 
   const obligationList = data?.data || [];
-  const filteredList = obligationList.filter((o) =>
-    o.title.toLowerCase().includes(search.toLowerCase())
-  );
 
   return (
     <div className="space-y-6">
@@ -80,10 +119,39 @@ export default function ObligationsPage() {
           <option value="COMPLETED">Cumplida</option>
           <option value="OVERDUE">Vencida</option>
         </select>
+        <select
+          value={severityFilter}
+          onChange={(e) => setSeverityFilter(e.target.value as TemplateSeverity | '')}
+          className="px-3 py-2 border rounded-md bg-background"
+        >
+          <option value="">Todas las severidades</option>
+          <option value="CRITICAL">Crítica</option>
+          <option value="HIGH">Alta</option>
+          <option value="MEDIUM">Media</option>
+          <option value="LOW">Baja</option>
+        </select>
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as 'dueDate' | 'riskScore')}
+          className="px-3 py-2 border rounded-md bg-background"
+        >
+          <option value="dueDate">Por vencimiento</option>
+          <option value="riskScore">Mayor riesgo primero</option>
+        </select>
       </div>
 
+      {/* The global search links a single obligation with ?id */}
+      {obligationId && (
+        <div className="flex items-center justify-between rounded-md border bg-muted px-4 py-2 text-sm">
+          <span className="text-muted-foreground">Mostrando la obligación buscada</span>
+          <Link href="/dashboard/obligations" className="font-medium text-primary hover:underline">
+            Ver todas
+          </Link>
+        </div>
+      )}
+
       {/* Obligations List */}
-      {filteredList.length === 0 ? (
+      {obligationList.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <p className="text-muted-foreground mb-4">No hay obligaciones</p>
@@ -97,7 +165,7 @@ export default function ObligationsPage() {
         </Card>
       ) : (
         <div className="space-y-3">
-          {filteredList.map((obligation) => (
+          {obligationList.map((obligation) => (
             <Card key={obligation.id} className="hover:border-primary transition-colors">
               <CardContent className="p-4">
                 <div className="flex items-center gap-4">
@@ -108,14 +176,29 @@ export default function ObligationsPage() {
                       <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">
                         {getTypeLabel(obligation.type)}
                       </span>
+                      <span
+                        className={cn('text-xs px-2 py-0.5 rounded', getSeverityColor(obligation.severity))}
+                      >
+                        {getSeverityLabel(obligation.severity)}
+                      </span>
                     </div>
                     <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
                       <span>Vence: {formatDate(obligation.dueDate)}</span>
                       {obligation.location && <span>Local: {obligation.location.name}</span>}
                       {obligation.owner && <span>Resp: {obligation.owner.fullName}</span>}
+                      {obligation.riskScore > 0 && <span>Riesgo: {obligation.riskScore}</span>}
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
+                    {obligation.critical ? (
+                      <span className="text-xs px-2 py-1 rounded-full bg-red-600 text-white">Crítica</span>
+                    ) : (
+                      obligation.escalationLevel > 0 && (
+                        <span className="text-xs px-2 py-1 rounded-full bg-orange-100 text-orange-700">
+                          Escalada N{obligation.escalationLevel}
+                        </span>
+                      )
+                    )}
                     <span
                       className={cn(
                         'text-xs px-2 py-1 rounded-full',
@@ -4,6 +4,7 @@ import { useQuery } from '@tanstack/react-query';
 import Link from 'next/link';
 import { useAuthStore } from '@/stores/auth.store';
 import { organizations } from '@/lib/api';
+import { getTaxpayerKindLabel } from '@/lib/utils';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Plus, Building2, MapPin, FileCheck } from 'lucide-react';
@@ -76,7 +77,10 @@ export default function OrganizationsPage() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
-                <p className="text-sm text-muted-foreground">CUIT: {org.cuit}</p>
+                <p className="text-sm text-muted-foreground">
+                  CUIT: {org.cuit}
+                  {org.taxpayerKind && ` · ${getTaxpayerKindLabel(org.taxpayerKind)}`}
+                </p>
                 <div className="flex items-center gap-4 text-sm">
                   <span className="flex items-center gap-1">
                     <MapPin className="h-4 w-4" />
@@ -1,10 +1,13 @@
 'use client';
 
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useAuthStore } from '@/stores/auth.store';
-import { obligations } from '@/lib/api';
+import { locations, obligations, reports } from '@/lib/api';
+import type { TrendRange } from '@/types';
 import { TrafficLightCard } from '@/components/dashboard/traffic-light-card';
 import { ObligationList } from '@/components/dashboard/obligation-list';
+import { ComplianceTrendCard } from '@/components/dashboard/compliance-trend';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Plus, RefreshCw } from 'lucide-react';
@@ -25,6 +28,23 @@ export default function DashboardPage() {
     refetchInterval: 60000, // Refresh every minute
   });
 
+  const [trendDays, setTrendDays] = useState<TrendRange>(30);
+  const [trendLocationId, setTrendLocationId] = useState<string>();
+
+  // Snapshots are stored once a day, so the trend does not need polling
+  const { data: trend } = useQuery({
+    queryKey: ['compliance-trend', currentOrganizationId, trendDays, trendLocationId],
+    queryFn: () =>
+      reports.getTrends(currentOrganizationId!, { days: trendDays, locationId: trendLocationId }),
+    enabled: !!currentOrganizationId,
+  });
+
+  const { data: locationsData } = useQuery({
+    queryKey: ['locations', currentOrganizationId],
+    queryFn: () => locations.list(currentOrganizationId!, 1, 100),
+    enabled: !!currentOrganizationId,
+  });
+
   if (!currentOrganizationId) {
     return (
       <div className="flex flex-col items-center justify-center h-[60vh] space-y-4">
@@ -129,6 +149,25 @@ export default function DashboardPage() {
         </Card>
       )}
 
+      {/* Historical trend */}
+      <ComplianceTrendCard
+        trend={trend}
+        days={trendDays}
+        onDaysChange={setTrendDays}
+        locations={locationsData?.data}
+        locationId={trendLocationId}
+        onLocationChange={setTrendLocationId}
+      />
+
+      {/* Critical (escalation) */}
+      {dashboard && dashboard.critical > 0 && (
+        <ObligationList
+          title="Críticas"
+          obligations={dashboard.criticalList}
+          emptyMessage="No hay obligaciones críticas"
+        />
+      )}
+
       {/* Lists */}
       <div className="grid gap-6 md:grid-cols-2">
         <ObligationList
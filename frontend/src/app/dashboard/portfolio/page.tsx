@@ -0,0 +1,241 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { useAuthStore } from '@/stores/auth.store';
+import { portfolio } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Briefcase, Search } from 'lucide-react';
+import { cn, getRoleLabel } from '@/lib/utils';
+import type { PortfolioSortField, TrafficLight } from '@/types';
+
+const PAGE_SIZE = 20;
+
+export default function PortfolioPage() {
+  const router = useRouter();
+  const { setCurrentOrganization } = useAuthStore();
+  const [search, setSearch] = useState('');
+  const [trafficLight, setTrafficLight] = useState<TrafficLight | ''>('');
+  const [needsAttention, setNeedsAttention] = useState(false);
+  const [sortBy, setSortBy] = useState<PortfolioSortField>('overdue');
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['portfolio', search, trafficLight, needsAttention, sortBy, page],
+    queryFn: () =>
+      portfolio.list({
+        page,
+        limit: PAGE_SIZE,
+        search: search || undefined,
+        trafficLight: trafficLight || undefined,
+        needsAttention: needsAttention || undefined,
+        sortBy,
+        sortOrder: sortBy === 'name' ? 'asc' : 'desc',
+      }),
+    retry: false,
+  });
+
+  const openOrganization = (organizationId: string) => {
+    setCurrentOrganization(organizationId);
+    router.push('/dashboard');
+  };
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh]">
+        <Briefcase className="h-12 w-12 text-muted-foreground mb-4" />
+        <p className="text-muted-foreground">
+          {error instanceof Error ? error.message : 'No se pudo cargar la cartera'}
+        </p>
+      </div>
+    );
+  }
+
+  const totals = data?.totals;
+  const organizationList = data?.data || [];
+  const totalPages = data?.meta.totalPages ?? 1;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Cartera</h1>
+        <p className="text-muted-foreground">
+          El estado de cumplimiento de todas tus organizaciones en un solo lugar
+        </p>
+      </div>
+
+      {/* Totals */}
+      {totals && (
+        <div className="grid gap-4 md:grid-cols-5">
+          <TotalCard title="Organizaciones" value={totals.organizations} />
+          <TotalCard title="Vencidas" value={totals.overdue} className="text-red-600" />
+          <TotalCard title="En rojo" value={totals.red} className="text-red-500" />
+          <TotalCard title="Revisiones pendientes" value={totals.pendingReviews} />
+          <TotalCard title="Vencen en 7 días" value={totals.upcoming7Days} />
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Buscar por nombre o CUIT..."
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            className="pl-10"
+          />
+        </div>
+        <select
+          value={trafficLight}
+          onChange={(e) => {
+            setTrafficLight(e.target.value as TrafficLight | '');
+            setPage(1);
+          }}
+          className="px-3 py-2 border rounded-md bg-background"
+        >
+          <option value="">Todos los semáforos</option>
+          <option value="RED">Con obligaciones en rojo</option>
+          <option value="YELLOW">Con obligaciones en amarillo</option>
+          <option value="GREEN">Con obligaciones en verde</option>
+        </select>
+        <select
+          value={sortBy}
+          onChange={(e) => {
+            setSortBy(e.target.value as PortfolioSortField);
+            setPage(1);
+          }}
+          className="px-3 py-2 border rounded-md bg-background"
+        >
+          <option value="overdue">Más vencidas primero</option>
+          <option value="red">Más en rojo primero</option>
+          <option value="yellow">Más en amarillo primero</option>
+          <option value="upcoming7Days">Más vencimientos próximos</option>
+          <option value="pendingReviews">Más revisiones pendientes</option>
+          <option value="name">Por nombre</option>
+        </select>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={needsAttention}
+            onChange={(e) => {
+              setNeedsAttention(e.target.checked);
+              setPage(1);
+            }}
+          />
+          Solo las que requieren atención
+        </label>
+      </div>
+
+      {/* Organizations */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : organizationList.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Briefcase className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No hay organizaciones que coincidan con los filtros</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <table className="w-full text-sm">
+              <thead className="border-b text-muted-foreground">
+                <tr>
+                  <th className="text-left font-medium p-4">Organización</th>
+                  <th className="text-left font-medium p-4">Rol</th>
+                  <th className="text-center font-medium p-4">Semáforo</th>
+                  <th className="text-right font-medium p-4">Vencidas</th>
+                  <th className="text-right font-medium p-4">Revisiones</th>
+                  <th className="text-right font-medium p-4">Próximos 7 días</th>
+                </tr>
+              </thead>
+              <tbody>
+                {organizationList.map((org) => (
+                  <tr
+                    key={org.id}
+                    className="border-b last:border-0 cursor-pointer hover:bg-gray-50"
+                    onClick={() => openOrganization(org.id)}
+                  >
+                    <td className="p-4">
+                      <p className="font-medium">{org.name}</p>
+                      <p className="text-xs text-muted-foreground">CUIT: {org.cuit}</p>
+                    </td>
+                    <td className="p-4">{getRoleLabel(org.role)}</td>
+                    <td className="p-4">
+                      <div className="flex items-center justify-center gap-3">
+                        <TrafficLightCount color="bg-red-500" value={org.summary.red} />
+                        <TrafficLightCount color="bg-yellow-500" value={org.summary.yellow} />
+                        <TrafficLightCount color="bg-green-500" value={org.summary.green} />
+                      </div>
+                    </td>
+                    <td
+                      className={cn(
+                        'p-4 text-right',
+                        org.summary.overdue > 0 && 'text-red-600 font-medium'
+                      )}
+                    >
+                      {org.summary.overdue}
+                    </td>
+                    <td className="p-4 text-right">{org.summary.pendingReviews}</td>
+                    <td className="p-4 text-right">{org.summary.upcoming7Days}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Anterior
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Página {page} de {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= totalPages}
+            onClick={() => setPage(page + 1)}
+          >
+            Siguiente
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TotalCard({ title, value, className }: { title: string; value: number; className?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className={cn('text-2xl font-bold', className)}>{value}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TrafficLightCount({ color, value }: { color: string; value: number }) {
+  return (
+    <span className="flex items-center gap-1">
+      <span className={cn('w-3 h-3 rounded-full', color)} />
+      {value}
+    </span>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '@/stores/auth.store';
+import { calendarFeeds } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { formatDateTime } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Copy, RefreshCw, Trash2 } from 'lucide-react';
+import type { CalendarFeedScope } from '@/types';
+
+const scopes: { value: CalendarFeedScope; title: string; description: string }[] = [
+  {
+    value: 'USER',
+    title: 'Mis vencimientos',
+    description: 'Obligaciones de las que eres responsable y tareas asignadas a ti',
+  },
+  {
+    value: 'ORGANIZATION',
+    title: 'Toda la organización',
+    description: 'Todas las obligaciones de la organización',
+  },
+];
+
+export default function CalendarSettingsPage() {
+  const { currentOrganizationId } = useAuthStore();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // The URL is only known when generated; it can't be fetched again
+  const [links, setLinks] = useState<Partial<Record<CalendarFeedScope, string>>>({});
+
+  const { data: feeds, isLoading } = useQuery({
+    queryKey: ['calendar-feeds', currentOrganizationId],
+    queryFn: () => calendarFeeds.list(currentOrganizationId!),
+    enabled: !!currentOrganizationId,
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : 'No se pudo completar la acción',
+      variant: 'destructive',
+    });
+  };
+
+  const rotate = useMutation({
+    mutationFn: (scope: CalendarFeedScope) => calendarFeeds.rotate(currentOrganizationId!, scope),
+    onSuccess: (feed) => {
+      setLinks((current) => ({ ...current, [feed.scope]: feed.url }));
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds', currentOrganizationId] });
+      toast({ title: 'Enlace generado', description: 'El enlace anterior dejó de funcionar' });
+    },
+    onError,
+  });
+
+  const revoke = useMutation({
+    mutationFn: (scope: CalendarFeedScope) => calendarFeeds.revoke(currentOrganizationId!, scope),
+    onSuccess: (_, scope) => {
+      setLinks((current) => ({ ...current, [scope]: undefined }));
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds', currentOrganizationId] });
+      toast({ title: 'Enlace revocado' });
+    },
+    onError,
+  });
+
+  const copy = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: 'Enlace copiado' });
+  };
+
+  if (!currentOrganizationId) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh]">
+        <p className="text-muted-foreground">Selecciona una organización primero</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !feeds) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h1 className="text-2xl font-bold">Calendario</h1>
+        <p className="text-muted-foreground">
+          Suscríbete a los vencimientos desde Google Calendar, Outlook o Apple Calendar
+        </p>
+      </div>
+
+      {scopes.map((scope) => {
+        const feed = feeds.find((f) => f.scope === scope.value);
+        const url = links[scope.value];
+
+        return (
+          <Card key={scope.value}>
+            <CardHeader>
+              <CardTitle>{scope.title}</CardTitle>
+              <CardDescription>{scope.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {url ? (
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    <Input readOnly value={url} onFocus={(e) => e.target.select()} />
+                    <Button type="button" variant="outline" onClick={() => copy(url)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Copia el enlace ahora: por seguridad no se vuelve a mostrar.{' '}
+                    <a className="underline" href={url.replace(/^https?:/, 'webcal:')}>
+                      Abrir en la app de calendario
+                    </a>
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {feed?.active
+                    ? `Enlace activo desde ${formatDateTime(feed.createdAt!)}${
+                        feed.lastAccessedAt
+                          ? `, última sincronización ${formatDateTime(feed.lastAccessedAt)}`
+                          : ', todavía sin sincronizar'
+                      }`
+                    : 'Sin enlace activo'}
+                </p>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant={feed?.active ? 'outline' : 'default'}
+                  disabled={rotate.isPending}
+                  onClick={() => rotate.mutate(scope.value)}
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  {feed?.active ? 'Regenerar enlace' : 'Generar enlace'}
+                </Button>
+                {feed?.active && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    disabled={revoke.isPending}
+                    onClick={() => revoke.mutate(scope.value)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Revocar
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
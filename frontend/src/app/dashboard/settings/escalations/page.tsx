@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '@/stores/auth.store';
+import { escalationPolicy } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Trash2 } from 'lucide-react';
+import type { EscalationStep, Role } from '@/types';
+
+type StepForm = Omit<EscalationStep, 'level'>;
+
+const roleOptions: { value: Role; label: string }[] = [
+  { value: 'OWNER', label: 'Dueños' },
+  { value: 'ADMIN', label: 'Administradores' },
+  { value: 'ACCOUNTANT', label: 'Contadores' },
+  { value: 'MANAGER', label: 'Encargados' },
+];
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+export default function EscalationSettingsPage() {
+  const { currentOrganizationId, getCurrentOrganization } = useAuthStore();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [steps, setSteps] = useState<StepForm[] | null>(null);
+  const isOwner = getCurrentOrganization()?.role === 'OWNER';
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['escalation-policy', currentOrganizationId],
+    queryFn: () => escalationPolicy.get(currentOrganizationId!),
+    enabled: !!currentOrganizationId,
+  });
+
+  useEffect(() => {
+    if (data) {
+      setSteps(
+        data.steps.map((step) => ({
+          afterDays: step.afterDays,
+          notifyOwner: step.notifyOwner,
+          notifyRoles: step.notifyRoles,
+          markCritical: step.markCritical,
+        }))
+      );
+    }
+  }, [data]);
+
+  const save = useMutation({
+    mutationFn: (values: StepForm[]) =>
+      escalationPolicy.update(currentOrganizationId!, { steps: values }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['escalation-policy', currentOrganizationId], updated);
+      toast({ title: 'Política de escalamiento guardada' });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'No se pudo guardar',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!currentOrganizationId) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh]">
+        <p className="text-muted-foreground">Selecciona una organización primero</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !steps) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const updateStep = (index: number, changes: Partial<StepForm>) =>
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+
+  return (
+    <form
+      className="space-y-6 max-w-3xl"
+      onSubmit={(e) => {
+        e.preventDefault();
+        save.mutate(steps);
+      }}
+    >
+      <div>
+        <h1 className="text-2xl font-bold">Escalamiento</h1>
+        <p className="text-muted-foreground">
+          A quién avisar cuando una obligación sigue vencida
+          {data?.isDefault && ' (política por defecto)'}
+        </p>
+      </div>
+
+      {steps.map((step, index) => (
+        <Card key={index}>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Nivel {index + 1}</CardTitle>
+              <CardDescription>
+                {step.afterDays === 0
+                  ? 'El día que vence'
+                  : `A los ${step.afterDays} días de vencida`}
+              </CardDescription>
+            </div>
+            {isOwner && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor={`afterDays-${index}`}>Días de vencida</Label>
+              <Input
+                id={`afterDays-${index}`}
+                type="number"
+                min={0}
+                max={365}
+                value={step.afterDays}
+                disabled={!isOwner}
+                onChange={(e) => updateStep(index, { afterDays: Number(e.target.value) })}
+              />
+            </div>
+            <fieldset className="space-y-2" disabled={!isOwner}>
+              <legend className="text-sm font-medium mb-2">Avisar a</legend>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={step.notifyOwner}
+                  onChange={() => updateStep(index, { notifyOwner: !step.notifyOwner })}
+                />
+                Responsable
+              </label>
+              {roleOptions.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={step.notifyRoles.includes(option.value)}
+                    onChange={() =>
+                      updateStep(index, { notifyRoles: toggle(step.notifyRoles, option.value) })
+                    }
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </fieldset>
+            <fieldset className="space-y-2" disabled={!isOwner}>
+              <legend className="text-sm font-medium mb-2">Dashboard</legend>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={step.markCritical}
+                  onChange={() => updateStep(index, { markCritical: !step.markCritical })}
+                />
+                Marcar como crítica
+              </label>
+            </fieldset>
+          </CardContent>
+        </Card>
+      ))}
+
+      {isOwner && (
+        <div className="flex justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() =>
+              setSteps([
+                ...steps,
+                {
+                  afterDays: (steps[steps.length - 1]?.afterDays ?? -1) + 1,
+                  notifyOwner: false,
+                  notifyRoles: [],
+                  markCritical: false,
+                },
+              ])
+            }
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Agregar nivel
+          </Button>
+          <Button type="submit" disabled={save.isPending}>
+            {save.isPending ? 'Guardando...' : 'Guardar política'}
+          </Button>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,469 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuthStore } from "@/stores/auth.store";
+import { notificationPreferences } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Copy } from "lucide-react";
+import type {
+  NotificationChannel,
+  NotificationFrequency,
+  NotificationPreference,
+  NotificationType,
+} from "@/types";
+
+type PreferenceForm = Omit<
+  NotificationPreference,
+  "isDefault" | "webhookSecret"
+>;
+
+const channelOptions: { value: NotificationChannel; label: string }[] = [
+  { value: "IN_APP", label: "En la aplicación" },
+  { value: "EMAIL", label: "Email" },
+  { value: "WHATSAPP", label: "WhatsApp" },
+  { value: "TELEGRAM", label: "Telegram" },
+  { value: "WEBHOOK", label: "Webhook" },
+];
+
+// Channels that need a destination of the user's own
+const addressFields: {
+  channel: NotificationChannel;
+  key: "whatsappPhone" | "telegramChatId" | "webhookUrl";
+  label: string;
+  placeholder: string;
+  type: string;
+}[] = [
+  {
+    channel: "WHATSAPP",
+    key: "whatsappPhone",
+    label: "Número de WhatsApp",
+    placeholder: "+5493415551234",
+    type: "tel",
+  },
+  {
+    channel: "TELEGRAM",
+    key: "telegramChatId",
+    label: "Chat de Telegram",
+    placeholder: "123456789",
+    type: "text",
+  },
+  {
+    channel: "WEBHOOK",
+    key: "webhookUrl",
+    label: "URL del webhook",
+    placeholder: "https://example.com/cumpliros",
+    type: "url",
+  },
+];
+
+const eventOptions: { value: NotificationType; label: string }[] = [
+  { value: "OBLIGATION_UPCOMING", label: "Obligaciones por vencer" },
+  { value: "OBLIGATION_OVERDUE", label: "Obligaciones vencidas" },
+  { value: "REVIEW_REQUIRED", label: "Revisiones pendientes" },
+  { value: "REVIEW_APPROVED", label: "Revisiones aprobadas" },
+  { value: "REVIEW_REJECTED", label: "Revisiones rechazadas" },
+  { value: "TASK_ASSIGNED", label: "Tareas asignadas" },
+];
+
+const frequencyOptions: { value: NotificationFrequency; label: string }[] = [
+  { value: "IMMEDIATE", label: "Inmediata" },
+  { value: "DAILY_DIGEST", label: "Resumen diario" },
+  { value: "WEEKLY_DIGEST", label: "Resumen semanal" },
+];
+
+const weekdays = [
+  "Lunes",
+  "Martes",
+  "Miércoles",
+  "Jueves",
+  "Viernes",
+  "Sábado",
+  "Domingo",
+];
+
+const timezones = [
+  "America/Argentina/Buenos_Aires",
+  "America/Argentina/Cordoba",
+  "America/Argentina/Mendoza",
+  "America/Argentina/Salta",
+  "America/Argentina/Ushuaia",
+  "UTC",
+];
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value)
+    ? list.filter((v) => v !== value)
+    : [...list, value];
+}
+
+export default function NotificationSettingsPage() {
+  const { currentOrganizationId } = useAuthStore();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [form, setForm] = useState<PreferenceForm | null>(null);
+  const [webhookSecret, setWebhookSecret] = useState<string>();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["notification-preferences", currentOrganizationId],
+    queryFn: () => notificationPreferences.get(currentOrganizationId!),
+    enabled: !!currentOrganizationId,
+  });
+
+  useEffect(() => {
+    if (data) {
+      setForm({
+        channels: data.channels,
+        eventTypes: data.eventTypes,
+        frequency: data.frequency,
+        digestHour: data.digestHour,
+        digestWeekday: data.digestWeekday,
+        quietHoursStart: data.quietHoursStart,
+        quietHoursEnd: data.quietHoursEnd,
+        timezone: data.timezone,
+        whatsappPhone: data.whatsappPhone,
+        telegramChatId: data.telegramChatId,
+        webhookUrl: data.webhookUrl,
+      });
+    }
+  }, [data]);
+
+  const save = useMutation({
+    mutationFn: (values: PreferenceForm) =>
+      notificationPreferences.update(currentOrganizationId!, {
+        ...values,
+        quietHoursStart: values.quietHoursStart || null,
+        quietHoursEnd: values.quietHoursEnd || null,
+        whatsappPhone: values.whatsappPhone || null,
+        telegramChatId: values.telegramChatId || null,
+        webhookUrl: values.webhookUrl || null,
+      }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(
+        ["notification-preferences", currentOrganizationId],
+        updated,
+      );
+      setWebhookSecret(updated.webhookSecret);
+      toast({ title: "Preferencias guardadas" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "No se pudieron guardar",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rotateSecret = useMutation({
+    mutationFn: () =>
+      notificationPreferences.update(currentOrganizationId!, {
+        rotateWebhookSecret: true,
+      }),
+    onSuccess: (updated) => setWebhookSecret(updated.webhookSecret),
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "No se pudo generar el secreto",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Secreto copiado" });
+  };
+
+  if (!currentOrganizationId) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh]">
+        <p className="text-muted-foreground">
+          Selecciona una organización primero
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading || !form) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<PreferenceForm>) =>
+    setForm({ ...form, ...changes });
+  const addresses = addressFields.filter((field) =>
+    form.channels.includes(field.channel),
+  );
+
+  return (
+    <form
+      className="space-y-6 max-w-3xl"
+      onSubmit={(e) => {
+        e.preventDefault();
+        save.mutate(form);
+      }}
+    >
+      <div>
+        <h1 className="text-2xl font-bold">Notificaciones</h1>
+        <p className="text-muted-foreground">
+          Elige cómo y cuándo recibir avisos de esta organización
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Canales y eventos</CardTitle>
+          <CardDescription>
+            Los avisos desactivados no se envían por ningún canal
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 md:grid-cols-2">
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium mb-2">Canales</legend>
+            {channelOptions.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center gap-2 text-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={form.channels.includes(option.value)}
+                  onChange={() =>
+                    update({ channels: toggle(form.channels, option.value) })
+                  }
+                />
+                {option.label}
+              </label>
+            ))}
+          </fieldset>
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium mb-2">Eventos</legend>
+            {eventOptions.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center gap-2 text-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={form.eventTypes.includes(option.value)}
+                  onChange={() =>
+                    update({
+                      eventTypes: toggle(form.eventTypes, option.value),
+                    })
+                  }
+                />
+                {option.label}
+              </label>
+            ))}
+          </fieldset>
+        </CardContent>
+      </Card>
+
+      {addresses.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Destinos</CardTitle>
+            <CardDescription>
+              Para Telegram, inicia primero un chat con el bot de CumpliRos. Los
+              webhooks reciben el aviso en JSON firmado.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-3">
+            {addresses.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={field.key}>{field.label}</Label>
+                <Input
+                  id={field.key}
+                  type={field.type}
+                  required
+                  placeholder={field.placeholder}
+                  value={form[field.key] ?? ""}
+                  onChange={(e) => update({ [field.key]: e.target.value })}
+                />
+              </div>
+            ))}
+            {form.channels.includes("WEBHOOK") && data?.webhookUrl && (
+              <div className="space-y-2 md:col-span-3">
+                <Label htmlFor="webhookSecret">Secreto de firma</Label>
+                {webhookSecret ? (
+                  <>
+                    <div className="flex gap-2">
+                      <Input
+                        id="webhookSecret"
+                        readOnly
+                        value={webhookSecret}
+                        onFocus={(e) => e.target.select()}
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => copySecret(webhookSecret)}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Cópialo ahora: por seguridad no se vuelve a mostrar.
+                      Verifica el header X-CumpliRos-Signature con HMAC-SHA256
+                      del cuerpo.
+                    </p>
+                  </>
+                ) : (
+                  <div className="flex items-center gap-4">
+                    <p className="text-sm text-muted-foreground">
+                      Se generó al guardar la URL y no se vuelve a mostrar.
+                    </p>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={rotateSecret.isPending}
+                      onClick={() => rotateSecret.mutate()}
+                    >
+                      Generar uno nuevo
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Frecuencia</CardTitle>
+          <CardDescription>
+            Los vencimientos llegan como resumen por email y los demás canales
+            externos. Con frecuencia inmediata, las revisiones y tareas
+            asignadas se envían en el momento.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="frequency">Frecuencia</Label>
+            <select
+              id="frequency"
+              value={form.frequency}
+              onChange={(e) =>
+                update({ frequency: e.target.value as NotificationFrequency })
+              }
+              className="w-full px-3 py-2 border rounded-md bg-background"
+            >
+              {frequencyOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="digestHour">Hora del resumen</Label>
+            <select
+              id="digestHour"
+              value={form.digestHour}
+              onChange={(e) => update({ digestHour: Number(e.target.value) })}
+              className="w-full px-3 py-2 border rounded-md bg-background"
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <option key={hour} value={hour}>
+                  {String(hour).padStart(2, "0")}:00
+                </option>
+              ))}
+            </select>
+          </div>
+          {form.frequency === "WEEKLY_DIGEST" && (
+            <div className="space-y-2">
+              <Label htmlFor="digestWeekday">Día del resumen</Label>
+              <select
+                id="digestWeekday"
+                value={form.digestWeekday}
+                onChange={(e) =>
+                  update({ digestWeekday: Number(e.target.value) })
+                }
+                className="w-full px-3 py-2 border rounded-md bg-background"
+              >
+                {weekdays.map((day, index) => (
+                  <option key={day} value={index + 1}>
+                    {day}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Horario de silencio</CardTitle>
+          <CardDescription>
+            No se envían avisos externos en este horario; los resúmenes salen al
+            terminar
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="quietHoursStart">Desde</Label>
+            <Input
+              id="quietHoursStart"
+              type="time"
+              value={form.quietHoursStart ?? ""}
+              onChange={(e) => update({ quietHoursStart: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quietHoursEnd">Hasta</Label>
+            <Input
+              id="quietHoursEnd"
+              type="time"
+              value={form.quietHoursEnd ?? ""}
+              onChange={(e) => update({ quietHoursEnd: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="timezone">Zona horaria</Label>
+            <select
+              id="timezone"
+              value={form.timezone}
+              onChange={(e) => update({ timezone: e.target.value })}
+              className="w-full px-3 py-2 border rounded-md bg-background"
+            >
+              {(timezones.includes(form.timezone)
+                ? timezones
+                : [form.timezone, ...timezones]
+              ).map((timezone) => (
+                <option key={timezone} value={timezone}>
+                  {timezone}
+                </option>
+              ))}
+            </select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={save.isPending}>
+          {save.isPending ? "Guardando..." : "Guardar preferencias"}
+        </Button>
+      </div>
+    </form>
+  );
+}
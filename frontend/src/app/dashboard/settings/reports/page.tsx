@@ -0,0 +1,397 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuthStore } from '@/stores/auth.store';
+import { reportSubscriptions } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { formatDate, formatDateTime, formatFileSize } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, Pause, Play, Plus, Send, Trash2 } from 'lucide-react';
+import type { CreateReportSubscription, ReportFormat, ReportType } from '@/types';
+
+const reportTypes: { value: ReportType; label: string; formats: ReportFormat[] }[] = [
+  { value: 'COMPLIANCE', label: 'Resumen de cumplimiento', formats: ['PDF', 'XLSX'] },
+  { value: 'OBLIGATIONS', label: 'Listado de obligaciones', formats: ['CSV'] },
+];
+
+const schedules = [
+  { value: '0 8 1 * *', label: 'Mensual (día 1 a las 08:00)' },
+  { value: '0 8 * * 1', label: 'Semanal (lunes a las 08:00)' },
+  { value: '0 8 * * *', label: 'Diario (08:00)' },
+];
+
+const emptyForm: CreateReportSubscription = {
+  name: '',
+  reportType: 'COMPLIANCE',
+  format: 'PDF',
+  periodDays: 30,
+  cronExpression: schedules[0].value,
+  recipients: [],
+};
+
+function scheduleLabel(cronExpression: string): string {
+  return schedules.find((s) => s.value === cronExpression)?.label ?? `Cron: ${cronExpression}`;
+}
+
+export default function ReportSubscriptionsPage() {
+  const { currentOrganizationId } = useAuthStore();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [form, setForm] = useState<CreateReportSubscription | null>(null);
+  const [recipients, setRecipients] = useState('');
+  const [customSchedule, setCustomSchedule] = useState(false);
+
+  const { data: subscriptions, isLoading } = useQuery({
+    queryKey: ['report-subscriptions', currentOrganizationId],
+    queryFn: () => reportSubscriptions.list(currentOrganizationId!),
+    enabled: !!currentOrganizationId,
+  });
+
+  const { data: history } = useQuery({
+    queryKey: ['generated-reports', currentOrganizationId],
+    queryFn: () => reportSubscriptions.history(currentOrganizationId!),
+    enabled: !!currentOrganizationId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['report-subscriptions', currentOrganizationId] });
+    queryClient.invalidateQueries({ queryKey: ['generated-reports', currentOrganizationId] });
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : 'No se pudo completar la acción',
+      variant: 'destructive',
+    });
+  };
+
+  const create = useMutation({
+    mutationFn: (data: CreateReportSubscription) =>
+      reportSubscriptions.create(currentOrganizationId!, data),
+    onSuccess: () => {
+      setForm(null);
+      setRecipients('');
+      refresh();
+      toast({ title: 'Reporte programado' });
+    },
+    onError,
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: ({ id, active }: { id: string; active: boolean }) =>
+      reportSubscriptions.update(currentOrganizationId!, id, { active }),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => reportSubscriptions.delete(currentOrganizationId!, id),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Reporte programado eliminado' });
+    },
+    onError,
+  });
+
+  const run = useMutation({
+    mutationFn: (id: string) => reportSubscriptions.run(currentOrganizationId!, id),
+    onSuccess: (report) => {
+      refresh();
+      toast(
+        report.status === 'COMPLETED'
+          ? { title: 'Reporte enviado', description: report.recipients.join(', ') }
+          : { title: 'No se pudo generar el reporte', description: report.error, variant: 'destructive' }
+      );
+    },
+    onError,
+  });
+
+  const download = async (reportId: string) => {
+    try {
+      const { url } = await reportSubscriptions.download(currentOrganizationId!, reportId);
+      window.open(url, '_blank');
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  if (!currentOrganizationId) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh]">
+        <p className="text-muted-foreground">Selecciona una organización primero</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !subscriptions) {
+    return (
+      <div className="flex items-center justify-center h-[60vh]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<CreateReportSubscription>) =>
+    setForm((current) => current && { ...current, ...changes });
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Reportes programados</h1>
+          <p className="text-muted-foreground">
+            Envía el resumen de cumplimiento por email a tu contador o socios
+          </p>
+        </div>
+        {!form && (
+          <Button onClick={() => setForm(emptyForm)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Programar reporte
+          </Button>
+        )}
+      </div>
+
+      {form && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Nuevo reporte programado</CardTitle>
+            <CardDescription>Cada envío cubre los últimos días indicados</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="grid gap-4 md:grid-cols-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                create.mutate({
+                  ...form,
+                  recipients: recipients
+                    .split(/[\s,;]+/)
+                    .map((r) => r.trim())
+                    .filter(Boolean),
+                });
+              }}
+            >
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="name">Nombre</Label>
+                <Input
+                  id="name"
+                  required
+                  maxLength={255}
+                  placeholder="Resumen mensual para el contador"
+                  value={form.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reportType">Reporte</Label>
+                <select
+                  id="reportType"
+                  value={form.reportType}
+                  onChange={(e) => {
+                    const type = reportTypes.find((t) => t.value === e.target.value)!;
+                    update({ reportType: type.value, format: type.formats[0] });
+                  }}
+                  className="w-full px-3 py-2 border rounded-md bg-background"
+                >
+                  {reportTypes.map((type) => (
+                    <option key={type.value} value={type.value}>
+                      {type.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="format">Formato</Label>
+                <select
+                  id="format"
+                  value={form.format}
+                  onChange={(e) => update({ format: e.target.value as ReportFormat })}
+                  className="w-full px-3 py-2 border rounded-md bg-background"
+                >
+                  {reportTypes
+                    .find((t) => t.value === form.reportType)!
+                    .formats.map((format) => (
+                      <option key={format} value={format}>
+                        {format}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule">Frecuencia</Label>
+                <select
+                  id="schedule"
+                  value={customSchedule ? 'custom' : form.cronExpression}
+                  onChange={(e) => {
+                    setCustomSchedule(e.target.value === 'custom');
+                    if (e.target.value !== 'custom') {
+                      update({ cronExpression: e.target.value });
+                    }
+                  }}
+                  className="w-full px-3 py-2 border rounded-md bg-background"
+                >
+                  {schedules.map((schedule) => (
+                    <option key={schedule.value} value={schedule.value}>
+                      {schedule.label}
+                    </option>
+                  ))}
+                  <option value="custom">Personalizada (cron)</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="periodDays">Días que cubre</Label>
+                <Input
+                  id="periodDays"
+                  type="number"
+                  min={1}
+                  max={366}
+                  value={form.periodDays}
+                  onChange={(e) => update({ periodDays: Number(e.target.value) })}
+                />
+              </div>
+              {customSchedule && (
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="cronExpression">Expresión cron</Label>
+                  <Input
+                    id="cronExpression"
+                    required
+                    placeholder="0 8 1 * *"
+                    value={form.cronExpression}
+                    onChange={(e) => update({ cronExpression: e.target.value })}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Minuto, hora, día, mes y día de la semana, en hora de Argentina. Como máximo una vez
+                    por hora.
+                  </p>
+                </div>
+              )}
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="recipients">Destinatarios</Label>
+                <Input
+                  id="recipients"
+                  required
+                  placeholder="contador@estudio.com, socio@empresa.com"
+                  value={recipients}
+                  onChange={(e) => setRecipients(e.target.value)}
+                />
+              </div>
+              <div className="flex justify-end gap-2 md:col-span-2">
+                <Button type="button" variant="ghost" onClick={() => setForm(null)}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={create.isPending}>
+                  {create.isPending ? 'Guardando...' : 'Guardar'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {subscriptions.length === 0 && !form && (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">
+            Todavía no hay reportes programados
+          </CardContent>
+        </Card>
+      )}
+
+      {subscriptions.map((subscription) => (
+        <Card key={subscription.id}>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>{subscription.name}</CardTitle>
+              <CardDescription>
+                {reportTypes.find((t) => t.value === subscription.reportType)?.label} ·{' '}
+                {subscription.format} · {scheduleLabel(subscription.cronExpression)}
+              </CardDescription>
+            </div>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Enviar ahora"
+                disabled={run.isPending}
+                onClick={() => run.mutate(subscription.id)}
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                title={subscription.active ? 'Pausar' : 'Reanudar'}
+                disabled={toggleActive.isPending}
+                onClick={() =>
+                  toggleActive.mutate({ id: subscription.id, active: !subscription.active })
+                }
+              >
+                {subscription.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Eliminar"
+                disabled={remove.isPending}
+                onClick={() => remove.mutate(subscription.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground space-y-1">
+            <p>Destinatarios: {subscription.recipients.join(', ')}</p>
+            <p>
+              {subscription.active && subscription.nextRunAt
+                ? `Próximo envío: ${formatDateTime(subscription.nextRunAt)}`
+                : 'Pausado'}
+              {subscription.lastRunAt && ` · Último envío: ${formatDateTime(subscription.lastRunAt)}`}
+            </p>
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Historial</CardTitle>
+          <CardDescription>Reportes generados, programados o enviados a pedido</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!history?.data.length ? (
+            <p className="text-sm text-muted-foreground">Todavía no se generaron reportes</p>
+          ) : (
+            <div className="divide-y">
+              {history.data.map((report) => (
+                <div key={report.id} className="flex items-center justify-between py-3 text-sm">
+                  <div>
+                    <p className="font-medium">
+                      {report.subscriptionName ?? report.fileName ?? report.reportType}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {formatDate(report.periodFrom)} al {formatDate(report.periodTo)} ·{' '}
+                      {formatDateTime(report.createdAt)}
+                      {report.sizeBytes !== undefined && ` · ${formatFileSize(report.sizeBytes)}`}
+                    </p>
+                    {report.status === 'FAILED' && (
+                      <p className="text-destructive">Error: {report.error}</p>
+                    )}
+                  </div>
+                  {report.status === 'COMPLETED' && (
+                    <Button variant="outline" size="sm" onClick={() => download(report.id)}>
+                      <Download className="h-4 w-4 mr-2" />
+                      {report.format}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ComplianceTrendCard } from './compliance-trend';
+import type { ComplianceSnapshotPoint, ComplianceTrend } from '@/types';
+
+const point = (date: string, overrides: Partial<ComplianceSnapshotPoint> = {}) => ({
+  date,
+  total: 10,
+  green: 6,
+  yellow: 2,
+  red: 2,
+  overdue: 1,
+  critical: 0,
+  completed: 4,
+  completedOnTime: 3,
+  onTimeRate: 75,
+  avgDaysLate: 2,
+  severityScore: 70,
+  ...overrides,
+});
+
+const trend: ComplianceTrend = {
+  days: 30,
+  points: [
+    point('2025-07-30'),
+    point('2025-07-31', { onTimeRate: undefined }),
+    point('2025-08-01', { severityScore: 90 }),
+  ],
+  currentMonth: {
+    month: '2025-08',
+    snapshots: 1,
+    severityScore: 90,
+    onTimeRate: 75,
+    avgDaysLate: 1,
+    red: 2,
+    overdue: 1,
+  },
+  previousMonth: {
+    month: '2025-07',
+    snapshots: 2,
+    severityScore: 70,
+    onTimeRate: 80,
+    avgDaysLate: 3,
+    red: 2,
+    overdue: 1,
+  },
+};
+
+describe('ComplianceTrendCard', () => {
+  it('should show an empty state without snapshots', () => {
+    render(<ComplianceTrendCard days={30} onDaysChange={vi.fn()} />);
+
+    expect(screen.getByText(/Todavía no hay historial/)).toBeInTheDocument();
+    expect(screen.queryByRole('img')).not.toBeInTheDocument();
+  });
+
+  it('should draw the series and split gaps', () => {
+    const { container } = render(
+      <ComplianceTrendCard trend={trend} days={30} onDaysChange={vi.fn()} />
+    );
+
+    expect(screen.getByRole('img')).toBeInTheDocument();
+    expect(container.querySelectorAll('polyline.stroke-green-500')).toHaveLength(1);
+    expect(container.querySelectorAll('polyline.stroke-blue-500')).toHaveLength(2);
+  });
+
+  it('should compare the month against the previous one', () => {
+    render(<ComplianceTrendCard trend={trend} days={30} onDaysChange={vi.fn()} />);
+
+    expect(screen.getByText('+20 vs. mes anterior')).toHaveClass('text-green-600');
+    expect(screen.getByText('-5% vs. mes anterior')).toHaveClass('text-red-600');
+    expect(screen.getByText('-2 días vs. mes anterior')).toHaveClass('text-green-600');
+  });
+
+  it('should change the range', () => {
+    const onDaysChange = vi.fn();
+    render(<ComplianceTrendCard trend={trend} days={30} onDaysChange={onDaysChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '1 año' }));
+
+    expect(onDaysChange).toHaveBeenCalledWith(365);
+  });
+});
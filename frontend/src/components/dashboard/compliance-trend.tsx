@@ -0,0 +1,254 @@
+'use client';
+
+import { cn, formatDate } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import type {
+  ComplianceMonthSummary,
+  ComplianceSnapshotPoint,
+  ComplianceTrend,
+  Location,
+  TrendRange,
+} from '@/types';
+
+const RANGES: { value: TrendRange; label: string }[] = [
+  { value: 30, label: '30 días' },
+  { value: 90, label: '90 días' },
+  { value: 365, label: '1 año' },
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+interface ComplianceTrendCardProps {
+  trend?: ComplianceTrend;
+  days: TrendRange;
+  onDaysChange: (days: TrendRange) => void;
+  locations?: Location[];
+  locationId?: string;
+  onLocationChange?: (locationId?: string) => void;
+}
+
+// Splits the series where a value is missing so the line shows the gap.
+function toPolylines(
+  points: ComplianceSnapshotPoint[],
+  value: (p: ComplianceSnapshotPoint) => number | undefined
+): string[] {
+  const step = points.length > 1 ? CHART_WIDTH / (points.length - 1) : 0;
+  const lines: string[][] = [[]];
+
+  points.forEach((point, index) => {
+    const v = value(point);
+    if (v === undefined) {
+      lines.push([]);
+      return;
+    }
+    const x = points.length > 1 ? index * step : CHART_WIDTH / 2;
+    const y = CHART_HEIGHT - (v / 100) * CHART_HEIGHT;
+    lines[lines.length - 1].push(`${x.toFixed(1)},${y.toFixed(1)}`);
+  });
+
+  return lines.filter((line) => line.length > 0).map((line) => line.join(' '));
+}
+
+function monthLabel(month: string): string {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(year, m - 1, 1).toLocaleDateString('es-AR', {
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
+interface MonthMetricProps {
+  label: string;
+  current?: number;
+  previous?: number;
+  suffix: string;
+  higherIsBetter: boolean;
+}
+
+function MonthMetric({ label, current, previous, suffix, higherIsBetter }: MonthMetricProps) {
+  const delta =
+    current !== undefined && previous !== undefined
+      ? Math.round((current - previous) * 10) / 10
+      : undefined;
+  const improved = delta !== undefined && (higherIsBetter ? delta > 0 : delta < 0);
+  const worsened = delta !== undefined && (higherIsBetter ? delta < 0 : delta > 0);
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-2xl font-bold">
+        {current !== undefined ? `${current}${suffix}` : '—'}
+      </p>
+      <p
+        className={cn(
+          'text-xs',
+          improved && 'text-green-600',
+          worsened && 'text-red-600',
+          !improved && !worsened && 'text-muted-foreground'
+        )}
+      >
+        {delta === undefined
+          ? 'Sin datos del mes anterior'
+          : `${delta > 0 ? '+' : ''}${delta}${suffix} vs. mes anterior`}
+      </p>
+    </div>
+  );
+}
+
+function MonthComparison({
+  current,
+  previous,
+}: {
+  current: ComplianceMonthSummary;
+  previous: ComplianceMonthSummary;
+}) {
+  const hasPrevious = previous.snapshots > 0;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium capitalize">
+        {monthLabel(current.month)}
+        {hasPrevious && (
+          <span className="text-muted-foreground normal-case"> vs. {monthLabel(previous.month)}</span>
+        )}
+      </p>
+      <div className="grid gap-4 sm:grid-cols-3">
+        <MonthMetric
+          label="Puntaje de cumplimiento"
+          current={current.severityScore}
+          previous={hasPrevious ? previous.severityScore : undefined}
+          suffix=""
+          higherIsBetter
+        />
+        <MonthMetric
+          label="Cumplidas a tiempo"
+          current={current.onTimeRate}
+          previous={hasPrevious ? previous.onTimeRate : undefined}
+          suffix="%"
+          higherIsBetter
+        />
+        <MonthMetric
+          label="Atraso promedio"
+          current={current.snapshots > 0 ? current.avgDaysLate : undefined}
+          previous={hasPrevious ? previous.avgDaysLate : undefined}
+          suffix=" días"
+          higherIsBetter={false}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function ComplianceTrendCard({
+  trend,
+  days,
+  onDaysChange,
+  locations,
+  locationId,
+  onLocationChange,
+}: ComplianceTrendCardProps) {
+  const points = trend?.points ?? [];
+  const scoreLines = toPolylines(points, (p) => p.severityScore);
+  const onTimeLines = toPolylines(points, (p) => p.onTimeRate);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle>Evolución del cumplimiento</CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          {locations && locations.length > 0 && onLocationChange && (
+            <select
+              aria-label="Local"
+              value={locationId ?? ''}
+              onChange={(e) => onLocationChange(e.target.value || undefined)}
+              className="px-3 py-1.5 border rounded-md bg-background text-sm"
+            >
+              <option value="">Toda la organización</option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {RANGES.map((range) => (
+            <Button
+              key={range.value}
+              size="sm"
+              variant={range.value === days ? 'default' : 'outline'}
+              onClick={() => onDaysChange(range.value)}
+            >
+              {range.label}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {points.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Todavía no hay historial. Cada día se guarda una foto de los indicadores y la
+            evolución aparece a partir del primer registro.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <svg
+              viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-40 overflow-visible"
+              role="img"
+              aria-label="Evolución del puntaje de cumplimiento"
+            >
+              {[25, 50, 75].map((tick) => (
+                <line
+                  key={tick}
+                  x1={0}
+                  x2={CHART_WIDTH}
+                  y1={CHART_HEIGHT - (tick / 100) * CHART_HEIGHT}
+                  y2={CHART_HEIGHT - (tick / 100) * CHART_HEIGHT}
+                  className="stroke-gray-200"
+                  strokeDasharray="4 4"
+                />
+              ))}
+              {onTimeLines.map((line) => (
+                <polyline
+                  key={`on-time-${line}`}
+                  points={line}
+                  fill="none"
+                  className="stroke-blue-500"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+              {scoreLines.map((line) => (
+                <polyline
+                  key={`score-${line}`}
+                  points={line}
+                  fill="none"
+                  className="stroke-green-500"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+            </svg>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{formatDate(points[0].date)}</span>
+              <span>{formatDate(points[points.length - 1].date)}</span>
+            </div>
+            <div className="flex gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-0.5 bg-green-500" /> Puntaje ponderado por severidad
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-0.5 bg-blue-500" /> % cumplidas a tiempo
+              </span>
+            </div>
+          </div>
+        )}
+
+        {trend && <MonthComparison current={trend.currentMonth} previous={trend.previousMonth} />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { GlobalSearch } from './global-search';
+import { search } from '@/lib/api';
+
+vi.mock('@/lib/api', () => ({
+  search: {
+    query: vi.fn(),
+  },
+}));
+
+function renderSearch() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <GlobalSearch organizationId="org-1" />
+    </QueryClientProvider>
+  );
+}
+
+describe('GlobalSearch', () => {
+  beforeEach(() => {
+    vi.mocked(search.query).mockReset();
+  });
+
+  it('should not search with a single character', async () => {
+    renderSearch();
+
+    fireEvent.change(screen.getByLabelText('Buscar'), { target: { value: 'h' } });
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(search.query).not.toHaveBeenCalled();
+  });
+
+  it('should list typed results linked to their obligation', async () => {
+    vi.mocked(search.query).mockResolvedValue({
+      query: 'habil',
+      results: [
+        {
+          type: 'TASK',
+          id: 'task-1',
+          title: 'Pedir certificado',
+          obligationId: 'obl-1',
+          obligationTitle: 'Habilitación municipal',
+          rank: 0.5,
+        },
+        {
+          type: 'TEMPLATE',
+          id: 'tpl-1',
+          title: 'Renovación de habilitación',
+          snippet: 'Presentar libre deuda',
+          rank: 0.2,
+        },
+      ],
+    });
+
+    renderSearch();
+    fireEvent.change(screen.getByLabelText('Buscar'), { target: { value: 'habil' } });
+
+    const task = await screen.findByText('Pedir certificado');
+    expect(search.query).toHaveBeenCalledWith('org-1', 'habil');
+    expect(task.closest('a')).toHaveAttribute(
+      'href',
+      '/dashboard/obligations?id=obl-1'
+    );
+    expect(screen.getByText('Tarea')).toBeInTheDocument();
+    expect(screen.getByText('Plantilla')).toBeInTheDocument();
+    expect(screen.getByText('Renovación de habilitación').closest('a')).toBeNull();
+  });
+
+  it('should say when nothing matches', async () => {
+    vi.mocked(search.query).mockResolvedValue({ query: 'zzz', results: [] });
+
+    renderSearch();
+    fireEvent.change(screen.getByLabelText('Buscar'), { target: { value: 'zzz' } });
+
+    expect(await screen.findByText('Sin resultados para "zzz"')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { Search } from 'lucide-react';
+import { search } from '@/lib/api';
+import { Input } from '@/components/ui/input';
+import type { SearchResult, SearchResultType } from '@/types';
+
+const MIN_LENGTH = 2;
+const DEBOUNCE_MS = 250;
+
+const typeLabels: Record<SearchResultType, string> = {
+  OBLIGATION: 'Obligación',
+  TASK: 'Tarea',
+  DOCUMENT: 'Documento',
+  REVIEW: 'Revisión',
+  TEMPLATE: 'Plantilla',
+};
+
+// Results that belong to an obligation open the list showing only that one.
+function resultHref(result: SearchResult): string | undefined {
+  return result.obligationId
+    ? `/dashboard/obligations?id=${encodeURIComponent(result.obligationId)}`
+    : undefined;
+}
+
+export function GlobalSearch({ organizationId }: { organizationId: string }) {
+  const [text, setText] = useState('');
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(text.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [text]);
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['search', organizationId, query],
+    queryFn: () => search.query(organizationId, query),
+    enabled: query.length >= MIN_LENGTH,
+  });
+
+  const showResults = open && query.length >= MIN_LENGTH;
+  const results = data?.results ?? [];
+
+  return (
+    <div
+      className="relative w-full max-w-xl"
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget)) setOpen(false);
+      }}
+    >
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        type="search"
+        aria-label="Buscar"
+        placeholder="Buscar obligaciones, tareas, documentos..."
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={(e) => e.key === 'Escape' && setOpen(false)}
+        className="pl-10 bg-white"
+      />
+
+      {showResults && (
+        <div className="absolute z-50 mt-1 w-full max-h-96 overflow-y-auto rounded-md border bg-white shadow-lg">
+          {isFetching && !data ? (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">Buscando...</p>
+          ) : results.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">
+              Sin resultados para &quot;{query}&quot;
+            </p>
+          ) : (
+            <ul>
+              {results.map((result) => {
+                const href = resultHref(result);
+                const content = (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded shrink-0">
+                        {typeLabels[result.type]}
+                      </span>
+                      <span className="text-sm font-medium truncate">{result.title}</span>
+                    </div>
+                    {result.obligationTitle && result.obligationTitle !== result.title && (
+                      <p className="text-xs text-muted-foreground truncate mt-1">
+                        {result.obligationTitle}
+                      </p>
+                    )}
+                    {result.snippet && (
+                      <p className="text-xs text-muted-foreground line-clamp-2 mt-1">
+                        {result.snippet}
+                      </p>
+                    )}
+                  </>
+                );
+
+                return (
+                  <li key={`${result.type}-${result.id}`} className="border-b last:border-b-0">
+                    {href ? (
+                      <Link
+                        href={href}
+                        onClick={() => setOpen(false)}
+                        className="block px-4 py-3 outline-none hover:bg-gray-50 focus:bg-gray-50"
+                      >
+                        {content}
+                      </Link>
+                    ) : (
+                      <div className="px-4 py-3">{content}</div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { NotificationBell } from './notification-bell';
+import { notifications } from '@/lib/api';
+
+vi.mock('@/lib/api', () => ({
+  notifications: {
+    getUnreadCount: vi.fn(),
+    list: vi.fn(),
+    markRead: vi.fn(),
+    markAllRead: vi.fn(),
+  },
+}));
+
+function renderBell() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <NotificationBell organizationId="org-1" />
+    </QueryClientProvider>
+  );
+}
+
+describe('NotificationBell', () => {
+  beforeEach(() => {
+    vi.mocked(notifications.list).mockResolvedValue({
+      data: [],
+      meta: {
+        total: 0,
+        page: 1,
+        limit: 10,
+        totalPages: 0,
+        hasNextPage: false,
+        hasPreviousPage: false,
+      },
+    });
+  });
+
+  it('should show the unread count', async () => {
+    vi.mocked(notifications.getUnreadCount).mockResolvedValue({ count: 3 });
+
+    renderBell();
+
+    expect(await screen.findByText('3')).toBeInTheDocument();
+    expect(screen.getByLabelText('Notificaciones (3 sin leer)')).toBeInTheDocument();
+  });
+
+  it('should cap the badge at 99+', async () => {
+    vi.mocked(notifications.getUnreadCount).mockResolvedValue({ count: 150 });
+
+    renderBell();
+
+    expect(await screen.findByText('99+')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,137 @@
+'use client';
+
+import Link from 'next/link';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bell, CheckCheck } from 'lucide-react';
+import { notifications } from '@/lib/api';
+import { cn, formatDateTime } from '@/lib/utils';
+import type { Notification, NotificationSeverity } from '@/types';
+
+const severityDot: Record<NotificationSeverity, string> = {
+  INFO: 'bg-blue-500',
+  WARNING: 'bg-yellow-500',
+  CRITICAL: 'bg-red-500',
+};
+
+function notificationHref(notification: Notification): string {
+  return notification.entityType === 'Obligation'
+    ? '/dashboard/obligations'
+    : '/dashboard';
+}
+
+export function NotificationBell({ organizationId }: { organizationId: string }) {
+  const queryClient = useQueryClient();
+
+  const { data: unread } = useQuery({
+    queryKey: ['notifications', organizationId, 'unread-count'],
+    queryFn: () => notifications.getUnreadCount(organizationId),
+    refetchInterval: 60000, // Refresh every minute
+  });
+
+  const { data: list, isLoading } = useQuery({
+    queryKey: ['notifications', organizationId, 'list'],
+    queryFn: () => notifications.list(organizationId, { limit: 10 }),
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ['notifications', organizationId] });
+
+  const markRead = useMutation({
+    mutationFn: (id: string) => notifications.markRead(organizationId, id),
+    onSuccess: invalidate,
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: () => notifications.markAllRead(organizationId),
+    onSuccess: invalidate,
+  });
+
+  const unreadCount = unread?.count ?? 0;
+
+  return (
+    <DropdownMenu.Root onOpenChange={(open) => open && invalidate()}>
+      <DropdownMenu.Trigger asChild>
+        <button
+          type="button"
+          aria-label={`Notificaciones (${unreadCount} sin leer)`}
+          className="relative p-2 rounded-md text-gray-300 hover:bg-gray-800 hover:text-white"
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenu.Trigger>
+
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content
+          side="right"
+          align="start"
+          sideOffset={8}
+          className="z-50 w-80 rounded-md border bg-white text-gray-900 shadow-lg"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <span className="text-sm font-semibold">Notificaciones</span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                className="flex items-center gap-1 text-xs text-primary hover:underline"
+                onClick={() => markAllRead.mutate()}
+                disabled={markAllRead.isPending}
+              >
+                <CheckCheck className="h-3.5 w-3.5" />
+                Marcar todas como leídas
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {isLoading ? (
+              <p className="px-4 py-6 text-sm text-center text-muted-foreground">Cargando...</p>
+            ) : !list?.data.length ? (
+              <p className="px-4 py-6 text-sm text-center text-muted-foreground">
+                No tienes notificaciones
+              </p>
+            ) : (
+              list.data.map((notification) => (
+                <DropdownMenu.Item key={notification.id} asChild>
+                  <Link
+                    href={notificationHref(notification)}
+                    onClick={() => !notification.read && markRead.mutate(notification.id)}
+                    className={cn(
+                      'flex gap-3 px-4 py-3 border-b last:border-b-0 outline-none hover:bg-gray-50 focus:bg-gray-50',
+                      !notification.read && 'bg-blue-50/50'
+                    )}
+                  >
+                    <span
+                      className={cn(
+                        'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+                        severityDot[notification.severity]
+                      )}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className={cn('text-sm truncate', !notification.read && 'font-semibold')}>
+                        {notification.title}
+                      </p>
+                      {notification.message && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">
+                          {notification.message}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {formatDateTime(notification.createdAt)}
+                      </p>
+                    </div>
+                  </Link>
+                </DropdownMenu.Item>
+              ))
+            )}
+          </div>
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
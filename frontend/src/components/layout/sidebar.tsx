@@ -5,23 +5,34 @@ import { usePathname } from 'next/navigation';
 import {
   LayoutDashboard,
   Building2,
+  Briefcase,
   FileCheck,
   CheckSquare,
   FileText,
   BarChart3,
+  Settings,
+  Siren,
+  CalendarDays,
+  CalendarClock,
   LogOut,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuthStore } from '@/stores/auth.store';
 import { Button } from '@/components/ui/button';
+import { NotificationBell } from '@/components/layout/notification-bell';
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Organizaciones', href: '/dashboard/organizations', icon: Building2 },
+  { name: 'Cartera', href: '/dashboard/portfolio', icon: Briefcase },
   { name: 'Obligaciones', href: '/dashboard/obligations', icon: FileCheck },
   { name: 'Tareas', href: '/dashboard/tasks', icon: CheckSquare },
   { name: 'Documentos', href: '/dashboard/documents', icon: FileText },
   { name: 'Reportes', href: '/dashboard/reports', icon: BarChart3 },
+  { name: 'Notificaciones', href: '/dashboard/settings/notifications', icon: Settings },
+  { name: 'Escalamiento', href: '/dashboard/settings/escalations', icon: Siren },
+  { name: 'Calendario', href: '/dashboard/settings/calendar', icon: CalendarDays },
+  { name: 'Reportes programados', href: '/dashboard/settings/reports', icon: CalendarClock },
 ];
 
 export function Sidebar() {
@@ -33,7 +44,10 @@ export function Sidebar() {
     <div className="flex flex-col h-full bg-gray-900 text-white w-64">
       {/* Logo */}
       <div className="p-4 border-b border-gray-800">
-        <h1 className="text-xl font-bold">CumpliRos</h1>
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl font-bold">CumpliRos</h1>
+          {currentOrg && <NotificationBell organizationId={currentOrg.id} />}
+        </div>
         {currentOrg && (
           <p className="text-sm text-gray-400 truncate mt-1">{currentOrg.name}</p>
         )}
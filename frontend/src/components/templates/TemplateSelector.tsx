@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { Check, Loader2, FileText, AlertCircle, ChevronRight } from 'lucide-react';
 import { api } from '@/lib/api';
+import { getSeverityColor } from '@/lib/utils';
 import type { Rubric, TemplateSummary, ApplyTemplatesResult } from '@/types';
 
 interface TemplateSelectorProps {
@@ -12,13 +13,6 @@ interface TemplateSelectorProps {
   onError?: (error: string) => void;
 }
 
-const SEVERITY_COLORS = {
-  LOW: 'bg-blue-100 text-blue-800',
-  MEDIUM: 'bg-yellow-100 text-yellow-800',
-  HIGH: 'bg-orange-100 text-orange-800',
-  CRITICAL: 'bg-red-100 text-red-800',
-};
-
 const PERIODICITY_LABELS: Record<string, string> = {
   WEEKLY: 'Semanal',
   BIWEEKLY: 'Quincenal',
@@ -247,7 +241,7 @@ export function TemplateSelector({
                       <span className="font-medium text-gray-900">{template.title}</span>
                       <span
                         className={`px-2 py-0.5 text-xs rounded-full ${
-                          SEVERITY_COLORS[template.severity]
+                          getSeverityColor(template.severity)
                         }`}
                       >
                         {template.severity}
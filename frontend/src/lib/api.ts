@@ -2,9 +2,18 @@ import { useAuthStore } from '@/stores/auth.store';
 import type {
   AuditEvent,
   AuthResponse,
+  CalendarFeed,
+  CalendarFeedLink,
+  CalendarFeedScope,
   ComplianceReport,
+  ComplianceTrend,
+  CreateReportSubscription,
   Document,
+  EscalationPolicy,
+  GeneratedReport,
   Location,
+  Notification,
+  NotificationPreference,
   Obligation,
   ObligationDashboard,
   ObligationReportItem,
@@ -12,10 +21,21 @@ import type {
   OrganizationMember,
   OrganizationStats,
   PaginatedResponse,
+  PortfolioResponse,
+  PortfolioSortField,
+  ReportSubscription,
   Review,
   Role,
+  SearchResponse,
+  SearchResultType,
+  SeverityThresholds,
   Task,
   TaskItem,
+  TemplateSeverity,
+  TrafficLight,
+  TrendRange,
+  UpdateEscalationPolicy,
+  UpdateNotificationPreference,
   UserProfile,
 } from '@/types';
 
@@ -264,6 +284,9 @@ export const organizations = {
     plan?: Organization['plan'];
     thresholdYellowDays?: number;
     thresholdRedDays?: number;
+    severityThresholds?: SeverityThresholds | null;
+    countBusinessDays?: boolean;
+    auditRetentionMonths?: number | null;
     jurisdictionId?: string;
   }) =>
     request<Organization>('/organizations', {
@@ -277,6 +300,9 @@ export const organizations = {
     plan?: Organization['plan'];
     thresholdYellowDays?: number;
     thresholdRedDays?: number;
+    severityThresholds?: SeverityThresholds | null;
+    countBusinessDays?: boolean;
+    auditRetentionMonths?: number | null;
     jurisdictionId?: string;
   }>) =>
     request<Organization>(`/organizations/${id}`, {
@@ -318,7 +344,22 @@ export const locations = {
 
 // Obligations
 export const obligations = {
-  list: (orgId: string, params?: { page?: number; limit?: number; status?: string; type?: string; locationId?: string }) =>
+  list: (
+    orgId: string,
+    params?: {
+      page?: number;
+      limit?: number;
+      id?: string;
+      q?: string;
+      status?: string;
+      type?: string;
+      locationId?: string;
+      severity?: TemplateSeverity;
+      minRiskScore?: number;
+      sortBy?: 'dueDate' | 'riskScore';
+      sortOrder?: 'asc' | 'desc';
+    }
+  ) =>
     request<PaginatedResponse<Obligation>>(`/organizations/${orgId}/obligations`, { params }),
 
   get: (orgId: string, oblId: string) =>
@@ -429,11 +470,108 @@ export const audit = {
     request<PaginatedResponse<AuditEvent>>(`/organizations/${orgId}/audit`, { params }),
 };
 
+// Notifications
+export const notifications = {
+  list: (orgId: string, params?: { page?: number; limit?: number; unreadOnly?: boolean; type?: string }) =>
+    request<PaginatedResponse<Notification>>(`/organizations/${orgId}/notifications`, { params }),
+
+  getUnreadCount: (orgId: string) =>
+    request<{ count: number }>(`/organizations/${orgId}/notifications/unread-count`),
+
+  markRead: (orgId: string, notificationId: string) =>
+    request<Notification>(`/organizations/${orgId}/notifications/${notificationId}/read`, {
+      method: 'PATCH',
+    }),
+
+  markAllRead: (orgId: string) =>
+    request<{ updated: number }>(`/organizations/${orgId}/notifications/read-all`, {
+      method: 'POST',
+    }),
+};
+
+export const notificationPreferences = {
+  get: (orgId: string) =>
+    request<NotificationPreference>(`/organizations/${orgId}/notification-preferences`),
+
+  update: (orgId: string, data: UpdateNotificationPreference) =>
+    request<NotificationPreference>(`/organizations/${orgId}/notification-preferences`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+};
+
+export const escalationPolicy = {
+  get: (orgId: string) =>
+    request<EscalationPolicy>(`/organizations/${orgId}/escalation-policy`),
+
+  update: (orgId: string, data: UpdateEscalationPolicy) =>
+    request<EscalationPolicy>(`/organizations/${orgId}/escalation-policy`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+};
+
+// Calendar feeds
+export const calendarFeeds = {
+  list: (orgId: string) => request<CalendarFeed[]>(`/organizations/${orgId}/calendar-feeds`),
+
+  rotate: (orgId: string, scope: CalendarFeedScope) =>
+    request<CalendarFeedLink>(`/organizations/${orgId}/calendar-feeds/${scope}/rotate`, {
+      method: 'POST',
+    }),
+
+  revoke: (orgId: string, scope: CalendarFeedScope) =>
+    request<void>(`/organizations/${orgId}/calendar-feeds/${scope}`, {
+      method: 'DELETE',
+    }),
+};
+
+// Scheduled reports
+export const reportSubscriptions = {
+  list: (orgId: string) =>
+    request<ReportSubscription[]>(`/organizations/${orgId}/report-subscriptions`),
+
+  create: (orgId: string, data: CreateReportSubscription) =>
+    request<ReportSubscription>(`/organizations/${orgId}/report-subscriptions`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (orgId: string, subscriptionId: string, data: Partial<CreateReportSubscription>) =>
+    request<ReportSubscription>(`/organizations/${orgId}/report-subscriptions/${subscriptionId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  delete: (orgId: string, subscriptionId: string) =>
+    request<void>(`/organizations/${orgId}/report-subscriptions/${subscriptionId}`, {
+      method: 'DELETE',
+    }),
+
+  run: (orgId: string, subscriptionId: string) =>
+    request<GeneratedReport>(`/organizations/${orgId}/report-subscriptions/${subscriptionId}/run`, {
+      method: 'POST',
+    }),
+
+  history: (orgId: string, page = 1, limit = 20) =>
+    request<PaginatedResponse<GeneratedReport>>(`/organizations/${orgId}/reports/generated`, {
+      params: { page, limit },
+    }),
+
+  download: (orgId: string, reportId: string) =>
+    request<{ url: string; expiresAt: string }>(
+      `/organizations/${orgId}/reports/generated/${reportId}/download`
+    ),
+};
+
 // Reports
 export const reports = {
   getCompliance: (orgId: string, params?: { fromDate?: string; toDate?: string; locationId?: string }) =>
     request<ComplianceReport>(`/organizations/${orgId}/reports/compliance`, { params }),
 
+  getTrends: (orgId: string, params?: { days?: TrendRange; locationId?: string }) =>
+    request<ComplianceTrend>(`/organizations/${orgId}/reports/trends`, { params }),
+
   getObligations: (orgId: string, params?: { fromDate?: string; toDate?: string; locationId?: string }) =>
     request<ObligationReportItem[]>(`/organizations/${orgId}/reports/obligations`, { params }),
 
@@ -449,6 +587,57 @@ export const reports = {
     const queryString = searchParams.toString();
     return `${API_URL}/organizations/${orgId}/reports/export/csv${queryString ? `?${queryString}` : ''}`;
   },
+
+  exportXlsx: (orgId: string, params?: { fromDate?: string; toDate?: string; locationId?: string }) => {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, String(value));
+        }
+      });
+    }
+    const queryString = searchParams.toString();
+    return `${API_URL}/organizations/${orgId}/reports/export/xlsx${queryString ? `?${queryString}` : ''}`;
+  },
+
+  // With obligationId it returns that obligation's dossier instead of the general report
+  exportPdf: (
+    orgId: string,
+    params?: { fromDate?: string; toDate?: string; locationId?: string; obligationId?: string },
+  ) => {
+    const searchParams = new URLSearchParams();
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) {
+          searchParams.append(key, String(value));
+        }
+      });
+    }
+    const queryString = searchParams.toString();
+    return `${API_URL}/organizations/${orgId}/reports/export/pdf${queryString ? `?${queryString}` : ''}`;
+  },
+};
+
+// Search
+export const search = {
+  query: (orgId: string, q: string, params?: { type?: SearchResultType; limit?: number }) =>
+    request<SearchResponse>(`/organizations/${orgId}/search`, { params: { q, ...params } }),
+};
+
+// Portfolio
+export const portfolio = {
+  list: (params?: {
+    page?: number;
+    limit?: number;
+    search?: string;
+    plan?: Organization['plan'];
+    role?: Role;
+    trafficLight?: TrafficLight;
+    needsAttention?: boolean;
+    sortBy?: PortfolioSortField;
+    sortOrder?: 'asc' | 'desc';
+  }) => request<PortfolioResponse>('/portfolio', { params }),
 };
 
 // Generic helpers (legacy-style usage)
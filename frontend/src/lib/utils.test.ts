@@ -7,6 +7,8 @@ import {
   getTrafficLightColor,
   getStatusLabel,
   getTypeLabel,
+  getSeverityLabel,
+  getSeverityColor,
   getRoleLabel,
 } from './utils';
 
@@ -131,6 +133,26 @@ describe('utils', () => {
     });
   });
 
+  describe('getSeverityLabel', () => {
+    it('should return Spanish label for CRITICAL', () => {
+      expect(getSeverityLabel('CRITICAL')).toBe('Crítica');
+    });
+
+    it('should return Spanish label for LOW', () => {
+      expect(getSeverityLabel('LOW')).toBe('Baja');
+    });
+  });
+
+  describe('getSeverityColor', () => {
+    it('should return red for CRITICAL', () => {
+      expect(getSeverityColor('CRITICAL')).toContain('bg-red-100');
+    });
+
+    it('should return gray for unknown severity', () => {
+      expect(getSeverityColor('UNKNOWN')).toContain('bg-gray-100');
+    });
+  });
+
   describe('getRoleLabel', () => {
     it('should return Spanish label for OWNER', () => {
       expect(getRoleLabel('OWNER')).toBe('Propietario');
@@ -85,6 +85,34 @@ export function getTypeLabel(type: string): string {
   return labels[type] || type;
 }
 
+export function getSeverityLabel(severity: string): string {
+  const labels: Record<string, string> = {
+    LOW: 'Baja',
+    MEDIUM: 'Media',
+    HIGH: 'Alta',
+    CRITICAL: 'Crítica',
+  };
+  return labels[severity] || severity;
+}
+
+export function getSeverityColor(severity: string): string {
+  const colors: Record<string, string> = {
+    LOW: 'bg-blue-100 text-blue-800',
+    MEDIUM: 'bg-yellow-100 text-yellow-800',
+    HIGH: 'bg-orange-100 text-orange-800',
+    CRITICAL: 'bg-red-100 text-red-800',
+  };
+  return colors[severity] || 'bg-gray-100 text-gray-800';
+}
+
+export function getTaxpayerKindLabel(kind: string): string {
+  const labels: Record<string, string> = {
+    INDIVIDUAL: 'Persona humana',
+    LEGAL_ENTITY: 'Persona jurídica',
+  };
+  return labels[kind] || kind;
+}
+
 export function getRoleLabel(role: string): string {
   const labels: Record<string, string> = {
     OWNER: 'Propietario',
@@ -36,15 +36,22 @@ export interface JurisdictionSummary {
 }
 
 // Organization types
+export type TaxpayerKind = 'INDIVIDUAL' | 'LEGAL_ENTITY';
+
 export interface Organization {
   id: string;
   cuit: string;
+  cuitNumber?: string | null;
+  taxpayerKind?: TaxpayerKind | null;
   name: string;
   jurisdictionId?: string | null;
   jurisdiction?: JurisdictionSummary | null;
   plan: 'BASIC' | 'PROFESSIONAL' | 'STUDIO';
   thresholdYellowDays: number;
   thresholdRedDays: number;
+  severityThresholds?: SeverityThresholds | null;
+  countBusinessDays?: boolean;
+  auditRetentionMonths?: number | null;
   active: boolean;
   createdAt: string;
   _count?: {
@@ -53,6 +60,11 @@ export interface Organization {
   };
 }
 
+// Per-severity thresholds; missing ones fall back to the organization's
+export type SeverityThresholds = Partial<
+  Record<TemplateSeverity, { yellowDays: number; redDays: number }>
+>;
+
 export interface OrganizationMembership {
   id: string;
   name: string;
@@ -121,14 +133,22 @@ export interface Obligation {
   description?: string;
   type: ObligationType;
   status: ObligationStatus;
+  severity: TemplateSeverity;
   dueDate: string;
   recurrenceRule?: string;
+  previousObligationId?: string;
+  occurrenceIndex?: number;
+  templateId?: string;
+  templateVersion?: number;
+  escalationLevel: number;
+  critical: boolean;
   requiresReview: boolean;
   requiredEvidenceCount: number;
   ownerUserId: string;
   createdAt: string;
   trafficLight: TrafficLight;
   daysUntilDue: number;
+  riskScore: number;
   location?: {
     id: string;
     name: string;
@@ -143,6 +163,16 @@ export interface Obligation {
     tasks: number;
     reviews: number;
   };
+  escalations?: ObligationEscalation[];
+}
+
+export interface ObligationEscalation {
+  id: string;
+  level: number;
+  daysOverdue: number;
+  notifiedUserIds: string[];
+  markedCritical: boolean;
+  createdAt: string;
 }
 
 export interface ObligationDashboard {
@@ -152,8 +182,28 @@ export interface ObligationDashboard {
   yellow: number;
   green: number;
   completed: number;
+  critical: number;
   upcoming7Days: Obligation[];
   overdueList: Obligation[];
+  criticalList: Obligation[];
+}
+
+// Escalation policy
+export interface EscalationStep {
+  level: number;
+  afterDays: number;
+  notifyOwner: boolean;
+  notifyRoles: Role[];
+  markCritical: boolean;
+}
+
+export interface EscalationPolicy {
+  steps: EscalationStep[];
+  isDefault: boolean;
+}
+
+export interface UpdateEscalationPolicy {
+  steps: Omit<EscalationStep, 'level'>[];
 }
 
 // Task types
@@ -201,6 +251,7 @@ export interface Document {
   fileKey: string;
   mimeType: string;
   sizeBytes: number;
+  sha256?: string;
   uploadedAt: string;
   uploadedBy?: {
     id: string;
@@ -232,6 +283,12 @@ export interface Review {
 }
 
 // Audit types
+export interface AuditFieldChange {
+  field: string;
+  before?: unknown;
+  after: unknown;
+}
+
 export interface AuditEvent {
   id: string;
   organizationId: string;
@@ -240,6 +297,7 @@ export interface AuditEvent {
   entityType: string;
   entityId?: string;
   metadata?: Record<string, unknown>;
+  changes?: AuditFieldChange[];
   ipAddress?: string;
   userAgent?: string;
   createdAt: string;
@@ -250,6 +308,135 @@ export interface AuditEvent {
   };
 }
 
+// Notification types
+export type NotificationType =
+  | 'OBLIGATION_UPCOMING'
+  | 'OBLIGATION_OVERDUE'
+  | 'REVIEW_REQUIRED'
+  | 'REVIEW_APPROVED'
+  | 'REVIEW_REJECTED'
+  | 'TASK_ASSIGNED';
+
+export type NotificationSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
+
+export type NotificationChannel = 'EMAIL' | 'IN_APP' | 'WEBHOOK' | 'WHATSAPP' | 'TELEGRAM';
+
+export type NotificationFrequency = 'IMMEDIATE' | 'DAILY_DIGEST' | 'WEEKLY_DIGEST';
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  severity: NotificationSeverity;
+  title: string;
+  message?: string;
+  entityType?: string;
+  entityId?: string;
+  read: boolean;
+  readAt?: string;
+  createdAt: string;
+}
+
+export interface NotificationPreference {
+  channels: NotificationChannel[];
+  eventTypes: NotificationType[];
+  frequency: NotificationFrequency;
+  digestHour: number;
+  digestWeekday: number;
+  quietHoursStart?: string;
+  quietHoursEnd?: string;
+  timezone: string;
+  whatsappPhone?: string;
+  telegramChatId?: string;
+  webhookUrl?: string;
+  // Only present in the response that generates the secret
+  webhookSecret?: string;
+  isDefault: boolean;
+}
+
+export type UpdateNotificationPreference = Partial<
+  Omit<
+    NotificationPreference,
+    | 'isDefault'
+    | 'quietHoursStart'
+    | 'quietHoursEnd'
+    | 'whatsappPhone'
+    | 'telegramChatId'
+    | 'webhookUrl'
+    | 'webhookSecret'
+  >
+> & {
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  whatsappPhone?: string | null;
+  telegramChatId?: string | null;
+  webhookUrl?: string | null;
+  rotateWebhookSecret?: boolean;
+};
+
+// Calendar feeds
+export type CalendarFeedScope = 'USER' | 'ORGANIZATION';
+
+export interface CalendarFeed {
+  scope: CalendarFeedScope;
+  active: boolean;
+  createdAt?: string;
+  lastAccessedAt?: string;
+}
+
+export interface CalendarFeedLink extends CalendarFeed {
+  url: string;
+}
+
+// Scheduled reports
+export type ReportType = 'COMPLIANCE' | 'OBLIGATIONS';
+
+export type ReportFormat = 'CSV' | 'PDF' | 'XLSX';
+
+export interface ReportSubscription {
+  id: string;
+  organizationId: string;
+  name: string;
+  reportType: ReportType;
+  format: ReportFormat;
+  locationId?: string;
+  periodDays: number;
+  cronExpression: string;
+  timezone: string;
+  recipients: string[];
+  active: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  createdAt: string;
+}
+
+export interface CreateReportSubscription {
+  name: string;
+  reportType: ReportType;
+  format: ReportFormat;
+  locationId?: string;
+  periodDays?: number;
+  cronExpression: string;
+  timezone?: string;
+  recipients: string[];
+  active?: boolean;
+}
+
+export interface GeneratedReport {
+  id: string;
+  subscriptionId?: string;
+  subscriptionName?: string;
+  reportType: ReportType;
+  format: ReportFormat;
+  status: 'COMPLETED' | 'FAILED';
+  fileName?: string;
+  sizeBytes?: number;
+  periodFrom: string;
+  periodTo: string;
+  recipients: string[];
+  error?: string;
+  createdAt: string;
+}
+
 // Pagination
 export interface PaginatedResponse<T> {
   data: T[];
@@ -297,6 +484,41 @@ export interface ComplianceReport {
   }>;
 }
 
+export type TrendRange = 30 | 90 | 365;
+
+export interface ComplianceSnapshotPoint {
+  date: string;
+  total: number;
+  green: number;
+  yellow: number;
+  red: number;
+  overdue: number;
+  critical: number;
+  completed: number;
+  completedOnTime: number;
+  onTimeRate?: number;
+  avgDaysLate: number;
+  severityScore?: number;
+}
+
+export interface ComplianceMonthSummary {
+  month: string;
+  snapshots: number;
+  severityScore?: number;
+  onTimeRate?: number;
+  avgDaysLate: number;
+  red: number;
+  overdue: number;
+}
+
+export interface ComplianceTrend {
+  days: TrendRange;
+  locationId?: string;
+  points: ComplianceSnapshotPoint[];
+  currentMonth: ComplianceMonthSummary;
+  previousMonth: ComplianceMonthSummary;
+}
+
 export interface ObligationReportItem {
   id: string;
   title: string;
@@ -330,6 +552,15 @@ export interface ChecklistTemplateItem {
   isRequired: boolean;
 }
 
+export interface DueRule {
+  day?: number;
+  businessDay?: number;
+  cuitDigitDays?: number[];
+  month?: number;
+  monthOffset?: number;
+  shiftToBusinessDay?: boolean;
+}
+
 export interface ObligationTemplate {
   id: string;
   jurisdictionId: string;
@@ -340,6 +571,9 @@ export interface ObligationTemplate {
   type: ObligationType;
   defaultPeriodicity: Periodicity;
   defaultDueRule?: string;
+  dueRule?: DueRule;
+  taxScheduleCode?: string;
+  taxpayerKinds?: TaxpayerKind[];
   requiresReview: boolean;
   requiredEvidenceCount: number;
   severity: TemplateSeverity;
@@ -385,3 +619,53 @@ export interface ApplyTemplatesResult {
   tasksCreated: number;
   obligationIds: string[];
 }
+
+// Search types
+export type SearchResultType = 'OBLIGATION' | 'TASK' | 'DOCUMENT' | 'REVIEW' | 'TEMPLATE';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  snippet?: string;
+  obligationId?: string;
+  obligationTitle?: string;
+  rank: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}
+
+// Portfolio types
+export interface ObligationSummary {
+  total: number;
+  completed: number;
+  overdue: number;
+  red: number;
+  yellow: number;
+  green: number;
+  critical: number;
+  upcoming7Days: number;
+  pendingReviews: number;
+}
+
+export type PortfolioSortField = 'overdue' | 'red' | 'yellow' | 'upcoming7Days' | 'pendingReviews' | 'name';
+
+export interface PortfolioOrganization {
+  id: string;
+  name: string;
+  cuit: string;
+  plan: Organization['plan'];
+  role: Role;
+  summary: ObligationSummary;
+}
+
+export interface PortfolioTotals extends ObligationSummary {
+  organizations: number;
+}
+
+export interface PortfolioResponse extends PaginatedResponse<PortfolioOrganization> {
+  totals: PortfolioTotals;
+}